@@ -8,6 +8,9 @@ import InstructorDashboard from './components/dashboards/InstructorDashboard';
 import StudentDashboard from './components/dashboards/StudentDashboard';
 import EnrollmentTest from './components/test/EnrollmentTest';
 import ProgressTest from './components/test/ProgressTest';
+import TranscriptVerification from './components/public/TranscriptVerification';
+import CertificateVerification from './components/public/CertificateVerification';
+import BadgeVerification from './components/public/BadgeVerification';
 
 function DebugInfo() {
   const { user, isAuthenticated, loading, logout } = useAuth();
@@ -164,6 +167,11 @@ function App() {
             <Route path="/test-enrollment" element={<EnrollmentTest />} />
             <Route path="/test-progress" element={<ProgressTest />} />
             <Route path="/" element={<DashboardRouter />} />
+            <Route path="/verify-transcript" element={<TranscriptVerification />} />
+            <Route path="/verify-transcript/:code" element={<TranscriptVerification />} />
+            <Route path="/verify" element={<CertificateVerification />} />
+            <Route path="/verify/:certificateId" element={<CertificateVerification />} />
+            <Route path="/badges/:awardId" element={<BadgeVerification />} />
             
             <Route
               path="/admin/*"
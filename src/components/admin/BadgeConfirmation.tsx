@@ -0,0 +1,100 @@
+import { useState, useEffect } from 'react';
+import { Award, CheckCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import AchievementService, { UnlockedAchievement } from '../../services/achievementService';
+
+const BadgeConfirmation = () => {
+  const { user } = useAuth();
+  const [awards, setAwards] = useState<UnlockedAchievement[]>([]);
+  const [confirming, setConfirming] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchAwards = async () => {
+      setAwards(await AchievementService.getPendingAwards());
+      setLoading(false);
+    };
+
+    fetchAwards();
+  }, []);
+
+  const handleConfirm = async (toConfirm: UnlockedAchievement[]) => {
+    if (!user?.id) return;
+
+    setConfirming(true);
+    const result = await AchievementService.confirmAwards(toConfirm, user.id);
+    setConfirming(false);
+
+    alert(result.message);
+    setAwards(current => current.filter(a => !result.confirmedIds.includes(a.id)));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <h3 className="flex items-center text-lg font-medium text-gray-900">
+              <Award className="h-5 w-5 mr-2" /> Badge Confirmation
+            </h3>
+            <p className="text-sm text-gray-500">
+              Achievements students have unlocked. Confirming re-checks each student's records; only confirmed badges can be exported and verified.
+            </p>
+          </div>
+          {awards.length > 0 && (
+            <button
+              onClick={() => handleConfirm(awards)}
+              disabled={confirming}
+              className="inline-flex items-center px-4 py-2 bg-green-600 text-white rounded-md text-sm hover:bg-green-700 disabled:opacity-50"
+            >
+              <CheckCircle className="h-4 w-4 mr-1" /> {confirming ? 'Confirming...' : 'Confirm All'}
+            </button>
+          )}
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading badges...</p>
+        ) : awards.length === 0 ? (
+          <p className="text-sm text-gray-500">No badges are waiting for confirmation.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Badge ID</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Student</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Achievement</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Unlocked</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {awards.map(award => (
+                  <tr key={award.id}>
+                    <td className="px-4 py-2 font-mono text-gray-900 whitespace-nowrap">{award.id}</td>
+                    <td className="px-4 py-2 text-gray-900">{award.studentName}</td>
+                    <td className="px-4 py-2 text-gray-700">{award.title}</td>
+                    <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                      {award.unlockedAt?.toDate?.().toLocaleDateString() || '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => handleConfirm([award])}
+                        disabled={confirming}
+                        className="inline-flex items-center text-green-700 hover:text-green-900 disabled:opacity-50"
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" /> Confirm
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BadgeConfirmation;
@@ -0,0 +1,137 @@
+import { useState, useEffect } from 'react';
+import { GraduationCap, Search, Ban } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import CertificateService, { Certificate } from '../../services/certificateService';
+
+const CertificateManagement = () => {
+  const { user } = useAuth();
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<'all' | Certificate['status']>('all');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchCertificates = async () => {
+      setCertificates(await CertificateService.getAllCertificates());
+      setLoading(false);
+    };
+
+    fetchCertificates();
+  }, []);
+
+  const handleRevoke = async (certificate: Certificate) => {
+    if (!user?.id) return;
+    const reason = prompt(`Why is the certificate for ${certificate.studentName} (${certificate.courseTitle}) being revoked?`);
+    if (reason === null) return;
+
+    const result = await CertificateService.revokeCertificate(certificate.id, reason, user.id);
+    alert(result.message);
+    if (result.success) {
+      setCertificates(current => current.map(c =>
+        c.id === certificate.id ? { ...c, status: 'revoked', revokedReason: reason.trim() } : c
+      ));
+    }
+  };
+
+  const term = searchTerm.toLowerCase();
+  const visibleCertificates = certificates.filter(certificate =>
+    (statusFilter === 'all' || certificate.status === statusFilter) && (
+      !term ||
+      certificate.id.toLowerCase().includes(term) ||
+      certificate.studentName.toLowerCase().includes(term) ||
+      certificate.courseTitle.toLowerCase().includes(term)
+    )
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <h3 className="flex items-center text-lg font-medium text-gray-900">
+              <GraduationCap className="h-5 w-5 mr-2" /> Certificates
+            </h3>
+            <p className="text-sm text-gray-500">Course completion certificates issued to students. Revoked certificates fail verification.</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as 'all' | Certificate['status'])}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="all">All</option>
+              <option value="valid">Valid</option>
+              <option value="revoked">Revoked</option>
+            </select>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="text"
+                placeholder="Search ID, student, course..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading certificates...</p>
+        ) : visibleCertificates.length === 0 ? (
+          <p className="text-sm text-gray-500">No certificates found.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Certificate ID</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Student</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Course</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Completed</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visibleCertificates.map(certificate => (
+                  <tr key={certificate.id} className="align-top">
+                    <td className="px-4 py-2 font-mono text-gray-900 whitespace-nowrap">
+                      <a href={`/verify/${certificate.id}`} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                        {certificate.id}
+                      </a>
+                    </td>
+                    <td className="px-4 py-2 text-gray-900">{certificate.studentName}</td>
+                    <td className="px-4 py-2 text-gray-700">{certificate.courseTitle}</td>
+                    <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                      {certificate.completedAt?.toDate?.().toLocaleDateString() || '-'}
+                    </td>
+                    <td className="px-4 py-2">
+                      {certificate.status === 'revoked' ? (
+                        <span title={certificate.revokedReason} className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">Revoked</span>
+                      ) : (
+                        <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">Valid</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {certificate.status === 'valid' && (
+                        <button
+                          onClick={() => handleRevoke(certificate)}
+                          className="inline-flex items-center text-red-600 hover:text-red-800"
+                        >
+                          <Ban className="h-4 w-4 mr-1" /> Revoke
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CertificateManagement;
@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react';
+import { History, Search } from 'lucide-react';
+import { getDoc, doc } from 'firebase/firestore';
+import { db } from '../../lib/firebase';
+import GradingService, { GradeAuditEntry, GradeSnapshot } from '../../services/gradingService';
+
+const describeSnapshot = (value: GradeSnapshot) =>
+  `${value.points}/${value.maxPoints} (${value.letterGrade})${value.isExcused ? ' · excused' : ''}`;
+
+const GradeAuditLog = () => {
+  const [entries, setEntries] = useState<GradeAuditEntry[]>([]);
+  const [names, setNames] = useState<{ [id: string]: string }>({});
+  const [searchTerm, setSearchTerm] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchAuditLog = async () => {
+      const auditEntries = await GradingService.getGradeAuditLog();
+
+      // Resolve the students, people and courses mentioned in the log
+      const lookups: { [id: string]: string } = {};
+      const userIds = new Set(auditEntries.flatMap(entry => [entry.studentId, entry.changedBy]));
+      const courseIds = new Set(auditEntries.map(entry => entry.courseId));
+      await Promise.all([
+        ...[...userIds].map(async userId => {
+          try {
+            const userDoc = await getDoc(doc(db, 'users', userId));
+            lookups[userId] = userDoc.exists() ? userDoc.data().name || userDoc.data().email : userId;
+          } catch (error) {
+            console.error('Error fetching user:', error);
+            lookups[userId] = userId;
+          }
+        }),
+        ...[...courseIds].map(async courseId => {
+          try {
+            const courseDoc = await getDoc(doc(db, 'courses', courseId));
+            lookups[courseId] = courseDoc.data()?.title || courseId;
+          } catch (error) {
+            console.error('Error fetching course:', error);
+            lookups[courseId] = courseId;
+          }
+        })
+      ]);
+
+      setNames(lookups);
+      setEntries(auditEntries);
+      setLoading(false);
+    };
+
+    fetchAuditLog();
+  }, []);
+
+  const term = searchTerm.toLowerCase();
+  const visibleEntries = entries.filter(entry =>
+    !term ||
+    entry.title.toLowerCase().includes(term) ||
+    entry.reason.toLowerCase().includes(term) ||
+    (names[entry.studentId] || '').toLowerCase().includes(term) ||
+    (names[entry.changedBy] || '').toLowerCase().includes(term) ||
+    (names[entry.courseId] || '').toLowerCase().includes(term)
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div>
+            <h3 className="flex items-center text-lg font-medium text-gray-900">
+              <History className="h-5 w-5 mr-2" /> Grade Change Audit Log
+            </h3>
+            <p className="text-sm text-gray-500">Every change to a published grade, with who made it and why. Entries cannot be edited.</p>
+          </div>
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              placeholder="Search student, course, reason..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-9 pr-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading audit log...</p>
+        ) : visibleEntries.length === 0 ? (
+          <p className="text-sm text-gray-500">No grade changes recorded.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">When</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Grade</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Old value</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">New value</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Changed by</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {visibleEntries.map(entry => (
+                  <tr key={entry.id} className="align-top">
+                    <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                      {entry.changedAt?.toDate?.().toLocaleString() || '-'}
+                    </td>
+                    <td className="px-4 py-2">
+                      <p className="font-medium text-gray-900">{entry.title}</p>
+                      <p className="text-xs text-gray-500">
+                        {names[entry.studentId] || entry.studentId} · {names[entry.courseId] || entry.courseId}
+                      </p>
+                    </td>
+                    <td className="px-4 py-2 text-gray-700 whitespace-nowrap">{describeSnapshot(entry.oldValue)}</td>
+                    <td className="px-4 py-2 text-gray-900 whitespace-nowrap">
+                      {describeSnapshot(entry.newValue)}
+                      {entry.oldValue.feedback !== entry.newValue.feedback && (
+                        <span className="block text-xs text-gray-500">Feedback changed</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-gray-700">{names[entry.changedBy] || entry.changedBy}</td>
+                    <td className="px-4 py-2 text-gray-700">{entry.reason}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GradeAuditLog;
@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import GradingScaleService, { GradingScale } from '../../services/gradingScaleService';
+import GradingScaleLibrary from '../instructor/GradingScaleLibrary';
+
+const GradingScaleSettings: React.FC = () => {
+  const { user } = useAuth();
+  const [scales, setScales] = useState<GradingScale[]>([]);
+  const [defaultScaleId, setDefaultScaleId] = useState('');
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchScales = async () => {
+    const [allScales, institutionDefault] = await Promise.all([
+      GradingScaleService.getScales(),
+      GradingScaleService.getInstitutionDefaultScaleId()
+    ]);
+    setScales(allScales);
+    setDefaultScaleId(institutionDefault);
+  };
+
+  useEffect(() => {
+    fetchScales();
+  }, []);
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+
+    setSaving(true);
+    const result = await GradingScaleService.setInstitutionDefaultScale(defaultScaleId, user.id);
+    setSaving(false);
+
+    alert(result.message);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Institution Grading Scale</label>
+        <div className="flex items-center space-x-2">
+          <select
+            value={defaultScaleId}
+            onChange={(e) => setDefaultScaleId(e.target.value)}
+            className="flex-grow px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {scales.map(scale => (
+              <option key={scale.id} value={scale.id}>{scale.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 px-4 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Apply'}
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">Used by every course that does not choose its own scale; applying re-letters their grades</p>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-medium text-gray-900">Grading Scales</h4>
+          <p className="text-sm text-gray-500">
+            {scales.length} scales available to instructors, including letter, percentage band and pass/fail scales
+          </p>
+        </div>
+        <button
+          onClick={() => setShowLibrary(true)}
+          className="px-4 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+        >
+          Manage Scales
+        </button>
+      </div>
+
+      {showLibrary && (
+        <GradingScaleLibrary
+          onClose={() => {
+            setShowLibrary(false);
+            fetchScales();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default GradingScaleSettings;
@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
-import { Settings, Shield, Bell, Database, Mail, Globe, Lock, Save } from 'lucide-react';
+import { Settings, Shield, Bell, Database, Mail, Globe, Lock, Save, Award } from 'lucide-react';
+import GradingScaleSettings from './GradingScaleSettings';
 
 const SystemSettings = () => {
   const [activeTab, setActiveTab] = useState('general');
@@ -37,7 +38,8 @@ const SystemSettings = () => {
     { id: 'general', name: 'General', icon: Settings },
     { id: 'security', name: 'Security', icon: Shield },
     { id: 'notifications', name: 'Notifications', icon: Bell },
-    { id: 'database', name: 'Database', icon: Database }
+    { id: 'database', name: 'Database', icon: Database },
+    { id: 'grading', name: 'Grading', icon: Award }
   ];
 
   const handleSettingChange = (category: string, key: string, value: any) => {
@@ -296,6 +298,8 @@ const SystemSettings = () => {
         return renderNotificationSettings();
       case 'database':
         return renderDatabaseSettings();
+      case 'grading':
+        return <GradingScaleSettings />;
       default:
         return renderGeneralSettings();
     }
@@ -0,0 +1,87 @@
+import { useState, useEffect } from 'react';
+import { FileText, CheckCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import TranscriptService, { TranscriptRequest } from '../../services/transcriptService';
+
+const TranscriptRequests = () => {
+  const { user } = useAuth();
+  const [requests, setRequests] = useState<TranscriptRequest[]>([]);
+  const [issuingId, setIssuingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchRequests = async () => {
+      setRequests(await TranscriptService.getPendingTranscriptRequests());
+      setLoading(false);
+    };
+
+    fetchRequests();
+  }, []);
+
+  const handleIssue = async (request: TranscriptRequest) => {
+    if (!user?.id) return;
+
+    setIssuingId(request.id);
+    const result = await TranscriptService.issueTranscript(request, user.id);
+    setIssuingId(null);
+
+    alert(result.success && result.transcript ? `Transcript ${result.transcript.id} issued to ${request.studentName}` : result.message);
+    if (result.success) {
+      setRequests(current => current.filter(r => r.id !== request.id));
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow p-6">
+        <div className="mb-6">
+          <h3 className="flex items-center text-lg font-medium text-gray-900">
+            <FileText className="h-5 w-5 mr-2" /> Transcript Requests
+          </h3>
+          <p className="text-sm text-gray-500">
+            Issuing builds the transcript from the student's completed enrollments and published grades.
+          </p>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading requests...</p>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-gray-500">No transcript requests are waiting.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Student</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Requested</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {requests.map(request => (
+                  <tr key={request.id}>
+                    <td className="px-4 py-2 text-gray-900">{request.studentName}</td>
+                    <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                      {request.requestedAt?.toDate?.().toLocaleString() || '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => handleIssue(request)}
+                        disabled={issuingId !== null}
+                        className="inline-flex items-center text-green-700 hover:text-green-900 disabled:opacity-50"
+                      >
+                        <CheckCircle className="h-4 w-4 mr-1" /> {issuingId === request.id ? 'Issuing...' : 'Issue'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptRequests;
@@ -11,7 +11,11 @@ import {
   Search,
   Bell,
   Menu,
-  X
+  X,
+  History,
+  GraduationCap,
+  ScrollText,
+  Award
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import UserManagement from '../admin/UserManagement';
@@ -19,6 +23,10 @@ import CourseOversight from '../admin/CourseOversight';
 import Analytics from '../admin/Analytics';
 import Reports from '../admin/Reports';
 import SystemSettings from '../admin/SystemSettings';
+import GradeAuditLog from '../admin/GradeAuditLog';
+import CertificateManagement from '../admin/CertificateManagement';
+import TranscriptRequests from '../admin/TranscriptRequests';
+import BadgeConfirmation from '../admin/BadgeConfirmation';
 
 const AdminDashboard = () => {
   const [activeTab, setActiveTab] = useState('users');
@@ -32,6 +40,10 @@ const AdminDashboard = () => {
     { id: 'courses', name: 'Course Oversight', icon: BookOpen, component: CourseOversight },
     { id: 'analytics', name: 'Analytics', icon: BarChart3, component: Analytics },
     { id: 'reports', name: 'Reports', icon: FileText, component: Reports },
+    { id: 'grade-audit', name: 'Grade Audit Log', icon: History, component: GradeAuditLog },
+    { id: 'certificates', name: 'Certificates', icon: GraduationCap, component: CertificateManagement },
+    { id: 'transcripts', name: 'Transcripts', icon: ScrollText, component: TranscriptRequests },
+    { id: 'badges', name: 'Badges', icon: Award, component: BadgeConfirmation },
     { id: 'settings', name: 'System Settings', icon: Settings, component: SystemSettings },
   ];
 
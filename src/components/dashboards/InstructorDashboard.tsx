@@ -11,12 +11,22 @@ import {
   User,
   Search,
   Plus,
-  LogOut
+  LogOut,
+  ShieldAlert,
+  Flag,
+  ClipboardCheck,
+  MessageSquare,
+  FileSpreadsheet
 } from 'lucide-react';
 import { collection, query, orderBy, onSnapshot } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 import DashboardOverview from '../instructor/DashboardOverview';
 import Courses from '../instructor/Courses';
+import ExamResults from '../instructor/ExamResults';
+import CtfChallenges from '../instructor/CtfChallenges';
+import GradingWorkbench from '../instructor/GradingWorkbench';
+import RegradeRequests from '../instructor/RegradeRequests';
+import Gradebook from '../instructor/Gradebook';
 
 interface Course {
   id: string;
@@ -40,6 +50,11 @@ const InstructorDashboard: React.FC = () => {
     { id: 'dashboard', label: 'Dashboard', icon: Home },
     { id: 'courses', label: 'Courses', icon: BookOpen },
     { id: 'students', label: 'Students', icon: Users },
+    { id: 'grading', label: 'Grading', icon: ClipboardCheck },
+    { id: 'gradebook', label: 'Gradebook', icon: FileSpreadsheet },
+    { id: 'regrades', label: 'Regrade Requests', icon: MessageSquare },
+    { id: 'exams', label: 'Exam Results', icon: ShieldAlert },
+    { id: 'ctf', label: 'CTF Challenges', icon: Flag },
     { id: 'schedule', label: 'Schedule', icon: Calendar },
     { id: 'analytics', label: 'Analytics', icon: BarChart3 },
     { id: 'settings', label: 'Settings', icon: Settings },
@@ -166,6 +181,16 @@ const InstructorDashboard: React.FC = () => {
 
           {activeTab === 'courses' && <Courses />}
 
+          {activeTab === 'grading' && <GradingWorkbench />}
+
+          {activeTab === 'gradebook' && <Gradebook />}
+
+          {activeTab === 'regrades' && <RegradeRequests />}
+
+          {activeTab === 'exams' && <ExamResults />}
+
+          {activeTab === 'ctf' && <CtfChallenges />}
+
           {activeTab === 'students' && (
             <div className="space-y-6">
               {/* Stats Cards */}
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import NotificationService from '../../services/notificationService';
+import GoalService from '../../services/goalService';
 import {
   BookOpen,
   Calendar,
@@ -11,15 +12,21 @@ import {
   User,
   Search,
   LogOut,
-  Home
+  Home,
+  Flag,
+  ClipboardList,
+  GraduationCap
 } from 'lucide-react';
 
 // Import student components
 import DashboardOverview from '../student/DashboardOverview';
 import MyCourses from '../student/MyCourses';
 import Schedule from '../student/Schedule';
+import Assignments from '../student/Assignments';
 import Grades from '../student/Grades';
 import Progress from '../student/Progress';
+import Certificates from '../student/Certificates';
+import CtfArena from '../student/CtfArena';
 import Settings from '../student/Settings';
 
 const StudentDashboard: React.FC = () => {
@@ -32,9 +39,12 @@ const StudentDashboard: React.FC = () => {
   const sidebarItems = [
     { id: 'dashboard', label: 'Dashboard', icon: Home, component: DashboardOverview },
     { id: 'courses', label: 'My Courses', icon: BookOpen, component: MyCourses },
+    { id: 'assignments', label: 'Assignments', icon: ClipboardList, component: Assignments },
     { id: 'schedule', label: 'Schedule', icon: Calendar, component: Schedule },
     { id: 'grades', label: 'Grades', icon: Award, component: Grades },
     { id: 'progress', label: 'Progress', icon: BarChart3, component: Progress },
+    { id: 'certificates', label: 'Certificates', icon: GraduationCap, component: Certificates },
+    { id: 'ctf', label: 'CTF Arena', icon: Flag, component: CtfArena },
     { id: 'settings', label: 'Settings', icon: SettingsIcon, component: Settings },
   ];
 
@@ -54,7 +64,12 @@ const StudentDashboard: React.FC = () => {
       }
     };
 
-    fetchNotifications();
+    // Goal deadline reminders are checked once, when the dashboard opens
+    const sendRemindersAndFetch = async () => {
+      if (user?.id) await GoalService.sendDeadlineReminders(user.id);
+      fetchNotifications();
+    };
+    sendRemindersAndFetch();
 
     // Refresh notifications every 30 seconds
     const interval = setInterval(fetchNotifications, 30000);
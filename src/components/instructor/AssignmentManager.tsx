@@ -0,0 +1,573 @@
+import React, { useState, useEffect, ChangeEvent } from 'react';
+import { ClipboardList, Plus, Edit, Trash2, Eye, EyeOff, Paperclip, Calendar, Table2, CalendarClock, Hourglass } from 'lucide-react';
+import { Timestamp } from 'firebase/firestore';
+import { ref, uploadBytesResumable, getDownloadURL, deleteObject } from 'firebase/storage';
+import { storage } from '../../lib/firebase';
+import { useAuth } from '../../contexts/AuthContext';
+import AssignmentService, { Assignment, SUBMISSION_FILE_TYPES } from '../../services/assignmentService';
+import RubricService, { Rubric } from '../../services/rubricService';
+import RubricLibrary from './RubricLibrary';
+import LatePolicyService, { LatePolicy, DEFAULT_LATE_POLICY } from '../../services/latePolicyService';
+import LatePolicyEditor from './LatePolicyEditor';
+import ExtensionManager from './ExtensionManager';
+
+interface ModuleOption {
+  id: string;
+  title: string;
+}
+
+interface AssignmentManagerProps {
+  courseId: string;
+  modules: ModuleOption[];
+}
+
+interface AssignmentForm {
+  title: string;
+  description: string;
+  type: Assignment['type'];
+  dueDate: string; // datetime-local value
+  maxPoints: number;
+  instructions: string;
+  attachments: string[];
+  moduleId: string; // '' when not linked to a module
+  rubricId: string; // '' when graded with a single score
+  latePolicy: LatePolicy | null; // null to follow the course's late policy
+  allowResubmission: boolean;
+  maxAttempts: number; // 0 = unlimited
+  allowedFileTypes: string[]; // empty = any type
+  maxFileSizeMB: number; // 0 = no student uploads
+}
+
+const emptyForm: AssignmentForm = {
+  title: '',
+  description: '',
+  type: 'homework',
+  dueDate: '',
+  maxPoints: 100,
+  instructions: '',
+  attachments: [],
+  moduleId: '',
+  rubricId: '',
+  latePolicy: null,
+  allowResubmission: false,
+  maxAttempts: 0,
+  allowedFileTypes: [],
+  maxFileSizeMB: 0
+};
+
+const assignmentTypes: Assignment['type'][] = ['homework', 'essay', 'project', 'quiz'];
+
+// Format a date for a datetime-local input in local time
+const toDateTimeLocal = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+// Recover the file name from a Storage download URL
+const getAttachmentName = (url: string) => {
+  const path = decodeURIComponent(url.split('/o/')[1]?.split('?')[0] || url);
+  return path.split('/').pop()?.replace(/^\d+-/, '') || url;
+};
+
+const AssignmentManager: React.FC<AssignmentManagerProps> = ({ courseId, modules }) => {
+  const { user } = useAuth();
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingAssignment, setEditingAssignment] = useState<Assignment | null>(null);
+  const [form, setForm] = useState<AssignmentForm>(emptyForm);
+  const [publishOnSave, setPublishOnSave] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [saving, setSaving] = useState(false);
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [showRubricLibrary, setShowRubricLibrary] = useState(false);
+  const [coursePolicy, setCoursePolicy] = useState<LatePolicy>(DEFAULT_LATE_POLICY);
+  const [showCoursePolicy, setShowCoursePolicy] = useState(false);
+  const [extensionAssignment, setExtensionAssignment] = useState<Assignment | null>(null);
+
+  const fetchAssignments = async (id: string) => {
+    setLoading(true);
+    setAssignments(await AssignmentService.getAllCourseAssignments(id));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchAssignments(courseId);
+    LatePolicyService.getCoursePolicy(courseId).then(setCoursePolicy);
+  }, [courseId]);
+
+  const saveCoursePolicy = async () => {
+    const result = await LatePolicyService.setCoursePolicy(courseId, coursePolicy);
+    if (result.success) {
+      setShowCoursePolicy(false);
+    } else {
+      alert(result.message);
+    }
+  };
+
+  const fetchRubrics = async (instructorId: string) => {
+    setRubrics(await RubricService.getInstructorRubrics(instructorId));
+  };
+
+  useEffect(() => {
+    if (user?.id) fetchRubrics(user.id);
+  }, [user?.id]);
+
+  // Attaching a rubric fixes max points to the rubric total
+  const selectRubric = (rubricId: string) => {
+    const rubric = rubrics.find(r => r.id === rubricId);
+    setForm(current => ({
+      ...current,
+      rubricId,
+      maxPoints: rubric ? RubricService.getMaxPoints(rubric) : current.maxPoints
+    }));
+  };
+
+  const toggleFileType = (mimeTypes: string[], allowed: boolean) => {
+    setForm(current => ({
+      ...current,
+      allowedFileTypes: allowed
+        ? [...new Set([...current.allowedFileTypes, ...mimeTypes])]
+        : current.allowedFileTypes.filter(type => !mimeTypes.includes(type))
+    }));
+  };
+
+  const openForm = (assignment?: Assignment) => {
+    setEditingAssignment(assignment || null);
+    setForm(assignment ? {
+      title: assignment.title,
+      description: assignment.description,
+      type: assignment.type,
+      dueDate: toDateTimeLocal(assignment.dueDate.toDate()),
+      maxPoints: assignment.maxPoints,
+      instructions: assignment.instructions || '',
+      attachments: assignment.attachments || [],
+      moduleId: assignment.moduleId || '',
+      rubricId: assignment.rubricId || '',
+      latePolicy: assignment.latePolicy || null,
+      allowResubmission: !!assignment.allowResubmission,
+      maxAttempts: assignment.maxAttempts || 0,
+      allowedFileTypes: assignment.allowedFileTypes || [],
+      maxFileSizeMB: assignment.maxFileSizeMB || 0
+    } : emptyForm);
+    setPublishOnSave(false);
+    setShowForm(true);
+  };
+
+  // Upload an attachment to Storage
+  const handleAttachmentUpload = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const uploadTask = uploadBytesResumable(ref(storage, `assignments/${courseId}/${Date.now()}-${file.name}`), file);
+
+    uploadTask.on('state_changed',
+      (snapshot) => {
+        setUploadProgress((snapshot.bytesTransferred / snapshot.totalBytes) * 100);
+      },
+      (error) => {
+        console.error('Attachment upload error:', error);
+        alert('Attachment upload failed. Try again.');
+        setUploadProgress(0);
+      },
+      () => {
+        getDownloadURL(uploadTask.snapshot.ref).then(url => {
+          setForm(current => ({ ...current, attachments: [...current.attachments, url] }));
+          setUploadProgress(0);
+        });
+      });
+    e.target.value = '';
+  };
+
+  const removeAttachment = async (url: string) => {
+    try {
+      await deleteObject(ref(storage, url));
+    } catch (error) {
+      console.error('Error deleting attachment:', error);
+    }
+    setForm(current => ({ ...current, attachments: current.attachments.filter(a => a !== url) }));
+  };
+
+  const handleSave = async () => {
+    if (!form.title.trim() || !form.dueDate) {
+      alert('Please enter a title and a due date.');
+      return;
+    }
+    if (form.maxPoints <= 0) {
+      alert('Max points must be greater than zero.');
+      return;
+    }
+
+    const assignmentData = {
+      title: form.title.trim(),
+      description: form.description,
+      type: form.type,
+      dueDate: Timestamp.fromDate(new Date(form.dueDate)),
+      maxPoints: form.maxPoints,
+      instructions: form.instructions,
+      attachments: form.attachments,
+      moduleId: form.moduleId,
+      rubricId: form.rubricId,
+      latePolicy: form.latePolicy,
+      allowResubmission: form.allowResubmission,
+      maxAttempts: form.allowResubmission ? form.maxAttempts : 0,
+      allowedFileTypes: form.maxFileSizeMB > 0 ? form.allowedFileTypes : [],
+      maxFileSizeMB: form.maxFileSizeMB
+    };
+
+    setSaving(true);
+    const result = editingAssignment
+      ? await AssignmentService.updateAssignment(editingAssignment.id, assignmentData)
+      : await AssignmentService.createAssignment({
+          ...assignmentData,
+          courseId,
+          createdBy: user?.id || '',
+          isPublished: publishOnSave
+        });
+    setSaving(false);
+
+    if (result.success) {
+      setShowForm(false);
+      fetchAssignments(courseId);
+    } else {
+      alert(result.message);
+    }
+  };
+
+  const togglePublished = async (assignment: Assignment) => {
+    if (!assignment.isPublished && !confirm(`Publish "${assignment.title}" and notify enrolled students?`)) return;
+
+    const result = await AssignmentService.setPublished(assignment, !assignment.isPublished);
+    if (result.success) {
+      fetchAssignments(courseId);
+    } else {
+      alert(result.message);
+    }
+  };
+
+  const handleDelete = async (assignment: Assignment) => {
+    if (!confirm(`Delete "${assignment.title}"? This cannot be undone.`)) return;
+
+    await Promise.all((assignment.attachments || []).map(url =>
+      deleteObject(ref(storage, url)).catch(error => console.error('Error deleting attachment:', error))
+    ));
+    const result = await AssignmentService.deleteAssignment(assignment.id);
+    if (result.success) {
+      fetchAssignments(courseId);
+    } else {
+      alert(result.message);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-md font-semibold flex items-center">
+          <ClipboardList className="w-4 h-4 mr-1" /> Assignments
+        </h4>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setShowCoursePolicy(!showCoursePolicy)}
+            className="flex items-center px-3 py-1 border rounded text-sm text-gray-700 hover:bg-gray-100"
+          >
+            <Hourglass className="w-4 h-4 mr-1" /> Late Policy
+          </button>
+          {!showForm && (
+            <button
+              onClick={() => openForm()}
+              className="flex items-center px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4 mr-1" /> Add Assignment
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showCoursePolicy && (
+        <div className="border rounded p-3 bg-white mb-3 space-y-2">
+          <p className="text-sm font-medium text-gray-700">Course late policy (used by assignments without their own)</p>
+          <LatePolicyEditor policy={coursePolicy} onChange={setCoursePolicy} />
+          <div className="flex justify-end">
+            <button
+              onClick={saveCoursePolicy}
+              className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+            >
+              Save Late Policy
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading assignments...</p>
+      ) : assignments.length === 0 && !showForm ? (
+        <p className="text-sm text-gray-500">No assignments added yet.</p>
+      ) : (
+        <div className="space-y-2 mb-3">
+          {assignments.map(assignment => (
+            <div key={assignment.id} className="flex items-center justify-between border rounded p-3 bg-gray-50">
+              <div>
+                <p className="font-medium text-gray-900">
+                  {assignment.title}
+                  <span className={`ml-2 px-2 py-0.5 rounded-full text-xs ${
+                    assignment.isPublished ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-700'
+                  }`}>
+                    {assignment.isPublished ? 'Published' : 'Draft'}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500 flex items-center">
+                  <Calendar className="w-3 h-3 mr-1" />
+                  Due {assignment.dueDate?.toDate ? assignment.dueDate.toDate().toLocaleString() : '-'}
+                  {' · '}<span className="capitalize">{assignment.type}</span>
+                  {' · '}{assignment.maxPoints} pts
+                  {assignment.moduleId && ` · ${modules.find(m => m.id === assignment.moduleId)?.title || 'Removed module'}`}
+                  {assignment.rubricId && ` · ${rubrics.find(r => r.id === assignment.rubricId)?.title || 'Rubric'}`}
+                  {assignment.latePolicy && ' · Custom late policy'}
+                  {assignment.allowResubmission && ` · Resubmissions${assignment.maxAttempts ? ` (max ${assignment.maxAttempts})` : ''}`}
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <button onClick={() => setExtensionAssignment(assignment)} className="text-gray-600 hover:text-gray-900" title="Extensions">
+                  <CalendarClock className="w-4 h-4" />
+                </button>
+                <button onClick={() => togglePublished(assignment)} className="text-gray-600 hover:text-gray-900" title={assignment.isPublished ? 'Unpublish' : 'Publish'}>
+                  {assignment.isPublished ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                </button>
+                <button onClick={() => openForm(assignment)} className="text-blue-600 hover:text-blue-800" title="Edit">
+                  <Edit className="w-4 h-4" />
+                </button>
+                <button onClick={() => handleDelete(assignment)} className="text-red-600 hover:text-red-800" title="Delete">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Assignment form */}
+      {showForm && (
+        <div className="border rounded p-4 bg-white space-y-3">
+          <input
+            type="text"
+            placeholder="Assignment title"
+            value={form.title}
+            onChange={e => setForm({ ...form, title: e.target.value })}
+            className="w-full border border-gray-300 rounded px-3 py-2"
+          />
+          <textarea
+            placeholder="Short description"
+            value={form.description}
+            onChange={e => setForm({ ...form, description: e.target.value })}
+            className="w-full border border-gray-300 rounded px-3 py-2 resize-y"
+          />
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <label className="text-sm text-gray-700">
+              Type
+              <select
+                value={form.type}
+                onChange={e => setForm({ ...form, type: e.target.value as Assignment['type'] })}
+                className="w-full border border-gray-300 rounded px-2 py-2 mt-1 capitalize"
+              >
+                {assignmentTypes.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Due date
+              <input
+                type="datetime-local"
+                value={form.dueDate}
+                onChange={e => setForm({ ...form, dueDate: e.target.value })}
+                className="w-full border border-gray-300 rounded px-2 py-2 mt-1"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Max points
+              <input
+                type="number"
+                min={1}
+                value={form.maxPoints}
+                onChange={e => setForm({ ...form, maxPoints: Number(e.target.value) })}
+                disabled={!!form.rubricId}
+                title={form.rubricId ? 'Set by the rubric' : undefined}
+                className="w-full border border-gray-300 rounded px-2 py-2 mt-1 disabled:bg-gray-100"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Module
+              <select
+                value={form.moduleId}
+                onChange={e => setForm({ ...form, moduleId: e.target.value })}
+                className="w-full border border-gray-300 rounded px-2 py-2 mt-1"
+              >
+                <option value="">Whole course</option>
+                {modules.map(module => (
+                  <option key={module.id} value={module.id}>{module.title || 'Untitled module'}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="flex items-end space-x-2">
+            <label className="flex-grow text-sm text-gray-700">
+              Rubric
+              <select
+                value={form.rubricId}
+                onChange={e => selectRubric(e.target.value)}
+                className="w-full border border-gray-300 rounded px-2 py-2 mt-1"
+              >
+                <option value="">No rubric (single score)</option>
+                {rubrics.map(rubric => (
+                  <option key={rubric.id} value={rubric.id}>
+                    {rubric.title} ({RubricService.getMaxPoints(rubric)} pts)
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={() => setShowRubricLibrary(true)}
+              className="flex items-center px-3 py-2 border rounded text-sm text-gray-700 hover:bg-gray-100"
+            >
+              <Table2 className="w-4 h-4 mr-1" /> Manage Rubrics
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.allowResubmission}
+                onChange={e => setForm({ ...form, allowResubmission: e.target.checked })}
+              />
+              <span>Allow resubmissions</span>
+            </label>
+            {form.allowResubmission && (
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <span>Max attempts (0 = unlimited)</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={form.maxAttempts}
+                  onChange={e => setForm({ ...form, maxAttempts: Math.max(0, Number(e.target.value)) })}
+                  className="w-20 border border-gray-300 rounded px-2 py-1"
+                />
+              </label>
+            )}
+          </div>
+          <div className="border rounded p-3 bg-gray-50 space-y-2">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <span>Student file uploads: max size (MB, 0 = no uploads)</span>
+              <input
+                type="number"
+                min={0}
+                value={form.maxFileSizeMB}
+                onChange={e => setForm({ ...form, maxFileSizeMB: Math.max(0, Number(e.target.value)) })}
+                className="w-20 border border-gray-300 rounded px-2 py-1"
+              />
+            </label>
+            {form.maxFileSizeMB > 0 && (
+              <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                <span className="text-xs text-gray-500">Allowed types (none checked = any):</span>
+                {SUBMISSION_FILE_TYPES.map(fileType => (
+                  <label key={fileType.label} className="flex items-center space-x-1">
+                    <input
+                      type="checkbox"
+                      checked={fileType.mimeTypes.every(type => form.allowedFileTypes.includes(type))}
+                      onChange={e => toggleFileType(fileType.mimeTypes, e.target.checked)}
+                    />
+                    <span>{fileType.label}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="border rounded p-3 bg-gray-50 space-y-2">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!form.latePolicy}
+                onChange={e => setForm({ ...form, latePolicy: e.target.checked ? coursePolicy : null })}
+              />
+              <span>Override the course late policy for this assignment</span>
+            </label>
+            {form.latePolicy && (
+              <LatePolicyEditor
+                policy={form.latePolicy}
+                onChange={latePolicy => setForm({ ...form, latePolicy })}
+              />
+            )}
+          </div>
+          <textarea
+            placeholder="Instructions for students"
+            value={form.instructions}
+            onChange={e => setForm({ ...form, instructions: e.target.value })}
+            className="w-full border border-gray-300 rounded px-3 py-2 resize-y min-h-[100px]"
+          />
+
+          <div>
+            <p className="text-sm text-gray-700 mb-1">Attachments</p>
+            {form.attachments.map(url => (
+              <div key={url} className="flex items-center justify-between text-sm py-1">
+                <a href={url} target="_blank" rel="noopener noreferrer" className="flex items-center text-blue-600 hover:underline">
+                  <Paperclip className="w-3 h-3 mr-1" />{getAttachmentName(url)}
+                </a>
+                <button onClick={() => removeAttachment(url)} className="text-red-600 hover:text-red-800 text-xs">
+                  Remove
+                </button>
+              </div>
+            ))}
+            <input type="file" onChange={handleAttachmentUpload} className="text-sm mt-1" />
+            {uploadProgress > 0 && (
+              <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
+                <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${uploadProgress}%` }} />
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between pt-2 border-t">
+            {!editingAssignment ? (
+              <label className="flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={publishOnSave}
+                  onChange={e => setPublishOnSave(e.target.checked)}
+                />
+                <span>Publish now and notify enrolled students</span>
+              </label>
+            ) : <span />}
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 border rounded hover:bg-gray-100 transition"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || uploadProgress > 0}
+                className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : editingAssignment ? 'Update Assignment' : 'Save Assignment'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {extensionAssignment && (
+        <ExtensionManager assignment={extensionAssignment} onClose={() => setExtensionAssignment(null)} />
+      )}
+
+      {showRubricLibrary && (
+        <RubricLibrary
+          onClose={() => {
+            setShowRubricLibrary(false);
+            if (user?.id) fetchRubrics(user.id);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AssignmentManager;
@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import { GraduationCap } from 'lucide-react';
+import { Timestamp } from 'firebase/firestore';
+import { useAuth } from '../../contexts/AuthContext';
+import CertificateService, {
+  CertificateTemplate,
+  CERTIFICATE_COLORS,
+  DEFAULT_CERTIFICATE_TEMPLATE
+} from '../../services/certificateService';
+
+interface CertificateTemplateEditorProps {
+  courseId: string;
+  courseTitle: string;
+}
+
+const CertificateTemplateEditor: React.FC<CertificateTemplateEditorProps> = ({ courseId, courseTitle }) => {
+  const { user } = useAuth();
+  const [template, setTemplate] = useState<CertificateTemplate>(DEFAULT_CERTIFICATE_TEMPLATE);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchTemplate = async (id: string, instructorName: string) => {
+      const courseTemplate = await CertificateService.getCourseTemplate(id);
+      setTemplate({ ...courseTemplate, instructorName: courseTemplate.instructorName || instructorName });
+    };
+
+    fetchTemplate(courseId, user?.name || '');
+  }, [courseId, user?.name]);
+
+  const updateTemplate = (changes: Partial<CertificateTemplate>) => {
+    setTemplate(current => ({ ...current, ...changes }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    const result = await CertificateService.setCourseTemplate(courseId, template);
+    setSaving(false);
+
+    alert(result.message);
+  };
+
+  // Open a sample certificate with the unsaved template
+  const handlePreview = () => {
+    const blob = CertificateService.createPdf({
+      id: 'CERT-SAMPLE',
+      enrollmentId: '',
+      studentId: '',
+      studentName: 'Student Name',
+      courseId,
+      courseTitle: courseTitle || 'Course Title',
+      completedAt: Timestamp.now(),
+      template,
+      status: 'valid',
+      issuedAt: Timestamp.now()
+    }, `${window.location.origin}/verify`);
+    const url = URL.createObjectURL(blob);
+    window.open(url, '_blank');
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  return (
+    <div>
+      <h4 className="text-md font-semibold flex items-center mb-2">
+        <GraduationCap className="w-4 h-4 mr-1" /> Completion Certificate
+      </h4>
+      <div className="border rounded p-3 bg-gray-50 space-y-2">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="block text-xs text-gray-600">
+            Heading
+            <input
+              type="text"
+              value={template.heading}
+              onChange={e => updateTemplate({ heading: e.target.value })}
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm mt-1"
+            />
+          </label>
+          <label className="block text-xs text-gray-600">
+            Wording before the course title
+            <input
+              type="text"
+              value={template.message}
+              onChange={e => updateTemplate({ message: e.target.value })}
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm mt-1"
+            />
+          </label>
+          <label className="block text-xs text-gray-600">
+            Instructor name
+            <input
+              type="text"
+              value={template.instructorName}
+              onChange={e => updateTemplate({ instructorName: e.target.value })}
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm mt-1"
+            />
+          </label>
+          <label className="block text-xs text-gray-600">
+            Instructor title
+            <input
+              type="text"
+              value={template.instructorTitle}
+              onChange={e => updateTemplate({ instructorTitle: e.target.value })}
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm mt-1"
+            />
+          </label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="text-xs text-gray-600">Colour</span>
+          {Object.entries(CERTIFICATE_COLORS).map(([key, color]) => (
+            <button
+              key={key}
+              type="button"
+              title={color.label}
+              onClick={() => updateTemplate({ accentColor: key })}
+              className={`w-6 h-6 rounded-full border-2 ${template.accentColor === key ? 'border-gray-900' : 'border-white'}`}
+              style={{ backgroundColor: color.hex }}
+            />
+          ))}
+          <div className="flex-grow" />
+          <button
+            onClick={handlePreview}
+            className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+          >
+            Preview
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Template'}
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Certificates already issued keep the template they were issued with.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CertificateTemplateEditor;
@@ -11,6 +11,7 @@ import {
   Users,
   Clock,
   FileText,
+  Database,
 } from 'lucide-react';
 
 import {
@@ -26,6 +27,23 @@ import {
 } from 'firebase/firestore';
 
 import { db } from '../../lib/firebase'; // Adjust path
+import { QuizQuestion, ExamSettings, RetakePolicy, DEFAULT_PASSING_SCORE } from '../../services/quizService';
+import { QuestionDraw } from '../../services/questionBankService';
+import QuestionEditor from './QuestionEditor';
+import QuestionDrawEditor from './QuestionDrawEditor';
+import QuestionBank from './QuestionBank';
+import AssignmentManager from './AssignmentManager';
+import GradingSchemeEditor from './GradingSchemeEditor';
+import GradingScaleSelector from './GradingScaleSelector';
+import CertificateTemplateEditor from './CertificateTemplateEditor';
+import ExamSettingsEditor from './ExamSettingsEditor';
+import RetakePolicySelect from './RetakePolicySelect';
+import PhishingSimEditor from './PhishingSimEditor';
+import PhishingService, { PhishingSimulation } from '../../services/phishingService';
+import ScenarioEditor from './ScenarioEditor';
+import ScenarioService, { Scenario } from '../../services/scenarioService';
+import SpotIssueEditor from './SpotIssueEditor';
+import SpotIssueService, { SpotIssueExercise } from '../../services/spotIssueService';
 import {
   getStorage,
   ref,
@@ -145,20 +163,16 @@ const FirebaseImage: React.FC<{
 
 interface ContentBlock {
   id: string;
-  type: 'text' | 'image' | 'video' | 'quiz';
+  type: 'text' | 'image' | 'video' | 'quiz' | 'phishing-sim' | 'scenario' | 'spot-the-issue';
   content?: string; // for text
   url?: string; // for image/video URLs
   quizData?: QuizQuestion[]; // for quiz blocks
-}
-
-interface QuizQuestion {
-  id: string;
-  question: string;
-  options: {
-    id: string;
-    text: string;
-    isCorrect: boolean;
-  }[];
+  quizDraws?: QuestionDraw[]; // random questions drawn from the course question bank
+  examSettings?: ExamSettings; // timed exam mode for quiz blocks
+  retakePolicy?: RetakePolicy; // which attempt's grade counts
+  phishingData?: PhishingSimulation; // for phishing-sim blocks
+  scenarioData?: Scenario; // for scenario blocks
+  spotIssueData?: SpotIssueExercise; // for spot-the-issue blocks
 }
 
 interface Lesson {
@@ -172,6 +186,10 @@ interface Module {
   title: string;
   lessons: Lesson[];
   test?: QuizQuestion[]; // General test for module
+  testDraws?: QuestionDraw[]; // random questions drawn from the course question bank
+  testExamSettings?: ExamSettings; // timed exam mode for the general test
+  testPassingScore?: number; // Percentage required to pass the general test
+  testRetakePolicy?: RetakePolicy; // which attempt's grade counts
 }
 
 interface Course {
@@ -181,6 +199,7 @@ interface Course {
   category: string;
   level: 'Beginner' | 'Intermediate' | 'Advanced';
   duration?: string;
+  credits?: number; // credit hours shown on transcripts
   students: number;
   status: 'Published' | 'Draft' | 'Under Review';
   thumbnail?: string;
@@ -191,6 +210,16 @@ interface Course {
 
 const categories = ['all', 'Security', 'Network', 'Awareness', 'Compliance'];
 
+const contentBlockLabels: { [type in ContentBlock['type']]: string } = {
+  text: 'Text',
+  image: 'Image',
+  video: 'Video',
+  quiz: 'Quiz',
+  'phishing-sim': 'Phishing Sim',
+  scenario: 'Scenario',
+  'spot-the-issue': 'Spot the Issue'
+};
+
 const Courses = () => {
   // State for courses from Firestore
   const [courses, setCourses] = useState<Course[]>([]);
@@ -207,6 +236,7 @@ const Courses = () => {
   const [showPreviewModal, setShowPreviewModal] = useState(false);
   const [previewCourse, setPreviewCourse] = useState<Course | null>(null);
   const [deletingCourseId, setDeletingCourseId] = useState<string | null>(null);
+  const [questionBankCourse, setQuestionBankCourse] = useState<Course | null>(null);
 
   // Course creation states
   const [courseTitle, setCourseTitle] = useState('');
@@ -214,6 +244,7 @@ const Courses = () => {
   const [courseCategory, setCourseCategory] = useState('Security');
   const [courseLevel, setCourseLevel] = useState<'Beginner' | 'Intermediate' | 'Advanced'>('Beginner');
   const [courseStatus, setCourseStatus] = useState<'Published' | 'Draft' | 'Under Review'>('Draft');
+  const [courseCredits, setCourseCredits] = useState('');
   const [modules, setModules] = useState<Module[]>([]);
   const [courseThumbnail, setCourseThumbnail] = useState<string>('');
   const [thumbnailFile, setThumbnailFile] = useState<File | null>(null);
@@ -237,6 +268,7 @@ const Courses = () => {
             category: data.category,
             level: data.level,
             duration: data.duration || '',
+            credits: data.credits || 0,
             students: data.students || 0,
             status: data.status || 'Draft',
             thumbnail: data.thumbnail || '',
@@ -362,6 +394,147 @@ const Courses = () => {
     }));
   };
 
+  // Add a phishing simulation block to a lesson
+  const addPhishingBlock = (moduleId: string, lessonId: string) => {
+    const newBlock: ContentBlock = {
+      id: generateId(),
+      type: 'phishing-sim',
+      phishingData: PhishingService.createEmptySimulation()
+    };
+    setModules(modules.map(m => {
+      if (m.id === moduleId) {
+        return {
+          ...m,
+          lessons: m.lessons.map(l => {
+            if (l.id === lessonId) {
+              return {
+                ...l,
+                contentBlocks: [...l.contentBlocks, newBlock]
+              };
+            }
+            return l;
+          })
+        };
+      }
+      return m;
+    }));
+  };
+
+  // Add a branching scenario block to a lesson
+  const addScenarioBlock = (moduleId: string, lessonId: string) => {
+    const newBlock: ContentBlock = {
+      id: generateId(),
+      type: 'scenario',
+      scenarioData: ScenarioService.createEmptyScenario()
+    };
+    setModules(modules.map(m => {
+      if (m.id === moduleId) {
+        return {
+          ...m,
+          lessons: m.lessons.map(l => {
+            if (l.id === lessonId) {
+              return {
+                ...l,
+                contentBlocks: [...l.contentBlocks, newBlock]
+              };
+            }
+            return l;
+          })
+        };
+      }
+      return m;
+    }));
+  };
+
+  // Replace the decision graph of a scenario block
+  const updateScenarioBlock = (moduleId: string, lessonId: string, blockId: string, scenarioData: Scenario) => {
+    setModules(modules.map(m => {
+      if (m.id === moduleId) {
+        return {
+          ...m,
+          lessons: m.lessons.map(l => {
+            if (l.id === lessonId) {
+              return {
+                ...l,
+                contentBlocks: l.contentBlocks.map(cb => cb.id === blockId ? { ...cb, scenarioData } : cb)
+              };
+            }
+            return l;
+          })
+        };
+      }
+      return m;
+    }));
+  };
+
+  // Add a spot-the-issue exercise block to a lesson
+  const addSpotIssueBlock = (moduleId: string, lessonId: string) => {
+    const newBlock: ContentBlock = {
+      id: generateId(),
+      type: 'spot-the-issue',
+      spotIssueData: SpotIssueService.createEmptyExercise()
+    };
+    setModules(modules.map(m => {
+      if (m.id === moduleId) {
+        return {
+          ...m,
+          lessons: m.lessons.map(l => {
+            if (l.id === lessonId) {
+              return {
+                ...l,
+                contentBlocks: [...l.contentBlocks, newBlock]
+              };
+            }
+            return l;
+          })
+        };
+      }
+      return m;
+    }));
+  };
+
+  // Replace the exercise of a spot-the-issue block
+  const updateSpotIssueBlock = (moduleId: string, lessonId: string, blockId: string, spotIssueData: SpotIssueExercise) => {
+    setModules(modules.map(m => {
+      if (m.id === moduleId) {
+        return {
+          ...m,
+          lessons: m.lessons.map(l => {
+            if (l.id === lessonId) {
+              return {
+                ...l,
+                contentBlocks: l.contentBlocks.map(cb => cb.id === blockId ? { ...cb, spotIssueData } : cb)
+              };
+            }
+            return l;
+          })
+        };
+      }
+      return m;
+    }));
+  };
+
+  // Replace the simulation of a phishing-sim block
+  const updatePhishingBlock = (moduleId: string, lessonId: string, blockId: string, phishingData: PhishingSimulation) => {
+    setModules(modules.map(m => {
+      if (m.id === moduleId) {
+        return {
+          ...m,
+          lessons: m.lessons.map(l => {
+            if (l.id === lessonId) {
+              return {
+                ...l,
+                contentBlocks: l.contentBlocks.map(cb => cb.id === blockId ? { ...cb, phishingData } : cb)
+              };
+            }
+            return l;
+          })
+        };
+      }
+      return m;
+    }));
+  };
+
   const removeContentBlock = (moduleId: string, lessonId: string, blockId: string) => {
     setModules(modules.map(m => {
       if (m.id === moduleId) {
@@ -502,7 +675,7 @@ const Courses = () => {
       });
   };
 
-  // --- Multiple choice quiz inside content blocks ---
+  // --- Quiz questions inside content blocks ---
 
   // Add a quiz block to a lesson
   const addQuizBlock = (moduleId: string, lessonId: string) => {
@@ -538,13 +711,12 @@ const Courses = () => {
     }));
   };
 
-  // Update quiz question text
+  // Replace a question in a quiz block
   const updateQuizQuestion = (
     moduleId: string,
     lessonId: string,
     blockId: string,
-    questionId: string,
-    text: string
+    question: QuizQuestion
   ) => {
     setModules(modules.map(m => {
       if (m.id === moduleId) {
@@ -558,7 +730,7 @@ const Courses = () => {
                   if (cb.id === blockId && cb.quizData) {
                     return {
                       ...cb,
-                      quizData: cb.quizData.map(q => q.id === questionId ? { ...q, question: text } : q)
+                      quizData: cb.quizData.map(q => q.id === question.id ? question : q)
                     };
                   }
                   return cb;
@@ -632,58 +804,8 @@ const Courses = () => {
     }));
   };
 
-  // Update quiz option text
-  const updateQuizOptionText = (
-    moduleId: string,
-    lessonId: string,
-    blockId: string,
-    questionId: string,
-    optionId: string,
-    text: string
-  ) => {
-    setModules(modules.map(m => {
-      if (m.id === moduleId) {
-        return {
-          ...m,
-          lessons: m.lessons.map(l => {
-            if (l.id === lessonId) {
-              return {
-                ...l,
-                contentBlocks: l.contentBlocks.map(cb => {
-                  if (cb.id === blockId && cb.quizData) {
-                    return {
-                      ...cb,
-                      quizData: cb.quizData.map(q => {
-                        if (q.id === questionId) {
-                          return {
-                            ...q,
-                            options: q.options.map(o => o.id === optionId ? { ...o, text } : o)
-                          };
-                        }
-                        return q;
-                      })
-                    };
-                  }
-                  return cb;
-                })
-              };
-            }
-            return l;
-          })
-        };
-      }
-      return m;
-    }));
-  };
-
-  // Toggle quiz option correctness
-  const toggleQuizOptionCorrect = (
-    moduleId: string,
-    lessonId: string,
-    blockId: string,
-    questionId: string,
-    optionId: string
-  ) => {
+  // Replace the random bank draws of a quiz block
+  const updateQuizDraws = (moduleId: string, lessonId: string, blockId: string, quizDraws: QuestionDraw[]) => {
     setModules(modules.map(m => {
       if (m.id === moduleId) {
         return {
@@ -692,23 +814,7 @@ const Courses = () => {
             if (l.id === lessonId) {
               return {
                 ...l,
-                contentBlocks: l.contentBlocks.map(cb => {
-                  if (cb.id === blockId && cb.quizData) {
-                    return {
-                      ...cb,
-                      quizData: cb.quizData.map(q => {
-                        if (q.id === questionId) {
-                          return {
-                            ...q,
-                            options: q.options.map(o => o.id === optionId ? { ...o, isCorrect: !o.isCorrect } : o)
-                          };
-                        }
-                        return q;
-                      })
-                    };
-                  }
-                  return cb;
-                })
+                contentBlocks: l.contentBlocks.map(cb => cb.id === blockId ? { ...cb, quizDraws } : cb)
               };
             }
             return l;
@@ -719,14 +825,8 @@ const Courses = () => {
     }));
   };
 
-  // Add option to question
-  const addQuizOption = (
-    moduleId: string,
-    lessonId: string,
-    blockId: string,
-    questionId: string
-  ) => {
-    const newOption = { id: generateId(), text: '', isCorrect: false };
+  // Update the exam mode settings of a quiz block
+  const updateQuizExamSettings = (moduleId: string, lessonId: string, blockId: string, examSettings: ExamSettings) => {
     setModules(modules.map(m => {
       if (m.id === moduleId) {
         return {
@@ -735,20 +835,7 @@ const Courses = () => {
             if (l.id === lessonId) {
               return {
                 ...l,
-                contentBlocks: l.contentBlocks.map(cb => {
-                  if (cb.id === blockId && cb.quizData) {
-                    return {
-                      ...cb,
-                      quizData: cb.quizData.map(q => {
-                        if (q.id === questionId) {
-                          return { ...q, options: [...q.options, newOption] };
-                        }
-                        return q;
-                      })
-                    };
-                  }
-                  return cb;
-                })
+                contentBlocks: l.contentBlocks.map(cb => cb.id === blockId ? { ...cb, examSettings } : cb)
               };
             }
             return l;
@@ -759,14 +846,8 @@ const Courses = () => {
     }));
   };
 
-  // Remove option from question
-  const removeQuizOption = (
-    moduleId: string,
-    lessonId: string,
-    blockId: string,
-    questionId: string,
-    optionId: string
-  ) => {
+  // Update the retake policy of a quiz block
+  const updateQuizRetakePolicy = (moduleId: string, lessonId: string, blockId: string, retakePolicy: RetakePolicy) => {
     setModules(modules.map(m => {
       if (m.id === moduleId) {
         return {
@@ -775,20 +856,7 @@ const Courses = () => {
             if (l.id === lessonId) {
               return {
                 ...l,
-                contentBlocks: l.contentBlocks.map(cb => {
-                  if (cb.id === blockId && cb.quizData) {
-                    return {
-                      ...cb,
-                      quizData: cb.quizData.map(q => {
-                        if (q.id === questionId) {
-                          return { ...q, options: q.options.filter(o => o.id !== optionId) };
-                        }
-                        return q;
-                      })
-                    };
-                  }
-                  return cb;
-                })
+                contentBlocks: l.contentBlocks.map(cb => cb.id === blockId ? { ...cb, retakePolicy } : cb)
               };
             }
             return l;
@@ -814,101 +882,45 @@ const Courses = () => {
     ));
   };
 
-  // Update module test question text
-  const updateModuleTestQuestion = (moduleId: string, questionId: string, text: string) => {
+  // Replace a module test question
+  const updateModuleTestQuestion = (moduleId: string, question: QuizQuestion) => {
     setModules(modules.map(m => {
       if (m.id === moduleId && m.test) {
         return {
           ...m,
-          test: m.test.map(q => q.id === questionId ? { ...q, question: text } : q),
+          test: m.test.map(q => q.id === question.id ? question : q),
         };
       }
       return m;
     }));
   };
 
-  // Remove module test question
-  const removeModuleTestQuestion = (moduleId: string, questionId: string) => {
-    setModules(modules.map(m => {
-      if (m.id === moduleId && m.test) {
-        return { ...m, test: m.test.filter(q => q.id !== questionId) };
-      }
-      return m;
-    }));
+  // Update module test passing score
+  const updateModuleTestPassingScore = (moduleId: string, score: number) => {
+    const testPassingScore = Math.min(100, Math.max(0, score));
+    setModules(modules.map(m => m.id === moduleId ? { ...m, testPassingScore } : m));
   };
 
-  // Add option to module test question
-  const addModuleTestOption = (moduleId: string, questionId: string) => {
-    const newOption = { id: generateId(), text: '', isCorrect: false };
-    setModules(modules.map(m => {
-      if (m.id === moduleId && m.test) {
-        return {
-          ...m,
-          test: m.test.map(q => q.id === questionId ? { ...q, options: [...q.options, newOption] } : q),
-        };
-      }
-      return m;
-    }));
+  // Replace the random bank draws of a module test
+  const updateModuleTestDraws = (moduleId: string, testDraws: QuestionDraw[]) => {
+    setModules(modules.map(m => m.id === moduleId ? { ...m, testDraws } : m));
   };
 
-  // Update module test option text
-  const updateModuleTestOptionText = (moduleId: string, questionId: string, optionId: string, text: string) => {
-    setModules(modules.map(m => {
-      if (m.id === moduleId && m.test) {
-        return {
-          ...m,
-          test: m.test.map(q => {
-            if (q.id === questionId) {
-              return {
-                ...q,
-                options: q.options.map(o => o.id === optionId ? { ...o, text } : o)
-              };
-            }
-            return q;
-          }),
-        };
-      }
-      return m;
-    }));
+  // Update the exam mode settings of a module test
+  const updateModuleTestExamSettings = (moduleId: string, testExamSettings: ExamSettings) => {
+    setModules(modules.map(m => m.id === moduleId ? { ...m, testExamSettings } : m));
   };
 
-  // Toggle module test option correctness
-  const toggleModuleTestOptionCorrect = (moduleId: string, questionId: string, optionId: string) => {
-    setModules(modules.map(m => {
-      if (m.id === moduleId && m.test) {
-        return {
-          ...m,
-          test: m.test.map(q => {
-            if (q.id === questionId) {
-              return {
-                ...q,
-                options: q.options.map(o => o.id === optionId ? { ...o, isCorrect: !o.isCorrect } : o)
-              };
-            }
-            return q;
-          }),
-        };
-      }
-      return m;
-    }));
+  // Update the retake policy of a module test
+  const updateModuleTestRetakePolicy = (moduleId: string, testRetakePolicy: RetakePolicy) => {
+    setModules(modules.map(m => m.id === moduleId ? { ...m, testRetakePolicy } : m));
   };
 
-  // Remove option from module test question
-  const removeModuleTestOption = (moduleId: string, questionId: string, optionId: string) => {
+  // Remove module test question
+  const removeModuleTestQuestion = (moduleId: string, questionId: string) => {
     setModules(modules.map(m => {
       if (m.id === moduleId && m.test) {
-        return {
-          ...m,
-          test: m.test.map(q => {
-            if (q.id === questionId) {
-              return {
-                ...q,
-                options: q.options.filter(o => o.id !== optionId)
-              };
-            }
-            return q;
-          }),
-        };
+        return { ...m, test: m.test.filter(q => q.id !== questionId) };
       }
       return m;
     }));
@@ -921,6 +933,7 @@ const Courses = () => {
     setCourseCategory('Security');
     setCourseLevel('Beginner');
     setCourseStatus('Draft');
+    setCourseCredits('');
     setModules([]);
     setCourseThumbnail('');
     setThumbnailFile(null);
@@ -937,6 +950,7 @@ const Courses = () => {
     setCourseCategory(course.category);
     setCourseLevel(course.level);
     setCourseStatus(course.status);
+    setCourseCredits(course.credits ? String(course.credits) : '');
     setModules(course.modules);
     setCourseThumbnail(course.thumbnail || '');
     setIsEditing(true);
@@ -1054,6 +1068,7 @@ const Courses = () => {
         description: courseDescription,
         category: courseCategory,
         level: courseLevel,
+        credits: Math.max(0, Number(courseCredits) || 0),
         modules,
         students: isEditing ? courses.find(c => c.id === editingCourseId)?.students || 0 : 0,
         status: courseStatus,
@@ -1088,6 +1103,7 @@ const Courses = () => {
           category: data.category,
           level: data.level,
           duration: data.duration || '',
+          credits: data.credits || 0,
           students: data.students || 0,
           status: data.status || 'Draft',
           thumbnail: data.thumbnail || '',
@@ -1206,6 +1222,13 @@ const Courses = () => {
                   <Edit className="w-4 h-4" />
                   <span>Edit</span>
                 </button>
+                <button
+                  onClick={() => setQuestionBankCourse(course)}
+                  className="flex items-center justify-center py-2 px-3 rounded-lg bg-purple-600 text-white hover:bg-purple-700 transition-colors text-sm"
+                  title="Question bank"
+                >
+                  <Database className="w-4 h-4" />
+                </button>
                 <button
                   onClick={() => handleDeleteCourse(course.id, course.title)}
                   disabled={deletingCourseId === course.id}
@@ -1295,7 +1318,7 @@ const Courses = () => {
                 </div>
               </div>
 
-              <div className="grid grid-cols-3 gap-4">
+              <div className="grid grid-cols-4 gap-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
                   <select
@@ -1333,6 +1356,18 @@ const Courses = () => {
                     <option value="Published">Published</option>
                   </select>
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Credit Hours</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    value={courseCredits}
+                    onChange={e => setCourseCredits(e.target.value)}
+                    placeholder="0"
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
               </div>
 
               {/* Modules Section */}
@@ -1383,61 +1418,45 @@ const Courses = () => {
                           <Plus className="w-3 h-3 mr-1" /> Add Question
                         </button>
                       </div>
+                      <div className="flex items-center space-x-2 mb-2">
+                        <label className="text-xs text-gray-600">Passing score (%)</label>
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={mod.testPassingScore ?? DEFAULT_PASSING_SCORE}
+                          onChange={e => updateModuleTestPassingScore(mod.id, Number(e.target.value))}
+                          className="w-20 border border-gray-300 rounded px-2 py-0.5 text-xs"
+                        />
+                        <span className="text-xs text-gray-500">Students must pass to complete the module.</span>
+                      </div>
                       {(!mod.test || mod.test.length === 0) && (
                         <p className="text-xs text-gray-500">No questions added yet.</p>
                       )}
 
                       {/* List questions */}
                       {mod.test && mod.test.map((q, qi) => (
-                        <div key={q.id} className="border rounded p-2 mb-2 bg-gray-100 relative">
-                          <button
-                            onClick={() => removeModuleTestQuestion(mod.id, q.id)}
-                            className="absolute top-1 right-1 text-red-600 hover:text-red-800 text-xs"
-                            title="Remove question"
-                          >
-                            ✕
-                          </button>
-                          <input
-                            type="text"
-                            placeholder={`Question ${qi + 1}`}
-                            value={q.question}
-                            onChange={e => updateModuleTestQuestion(mod.id, q.id, e.target.value)}
-                            className="w-full border border-gray-300 rounded px-2 py-1 mb-2"
-                          />
-                          {/* Options */}
-                          <div className="ml-2">
-                            {q.options.map((opt, oi) => (
-                              <div key={opt.id} className="flex items-center mb-1 space-x-2">
-                                <input
-                                  type="checkbox"
-                                  checked={opt.isCorrect}
-                                  onChange={() => toggleModuleTestOptionCorrect(mod.id, q.id, opt.id)}
-                                />
-                                <input
-                                  type="text"
-                                  placeholder={`Option ${oi + 1}`}
-                                  value={opt.text}
-                                  onChange={e => updateModuleTestOptionText(mod.id, q.id, opt.id, e.target.value)}
-                                  className="border border-gray-300 rounded px-2 py-1 flex-grow"
-                                />
-                                <button
-                                  onClick={() => removeModuleTestOption(mod.id, q.id, opt.id)}
-                                  className="text-red-600 hover:text-red-800"
-                                  title="Remove option"
-                                >
-                                  ✕
-                                </button>
-                              </div>
-                            ))}
-                            <button
-                              onClick={() => addModuleTestOption(mod.id, q.id)}
-                              className="text-blue-600 hover:text-blue-800 text-xs"
-                            >
-                              + Add Option
-                            </button>
-                          </div>
-                        </div>
+                        <QuestionEditor
+                          key={q.id}
+                          question={q}
+                          index={qi}
+                          onChange={question => updateModuleTestQuestion(mod.id, question)}
+                          onRemove={() => removeModuleTestQuestion(mod.id, q.id)}
+                        />
                       ))}
+                      <QuestionDrawEditor
+                        draws={mod.testDraws || []}
+                        modules={modules}
+                        onChange={draws => updateModuleTestDraws(mod.id, draws)}
+                      />
+                      <RetakePolicySelect
+                        policy={mod.testRetakePolicy}
+                        onChange={policy => updateModuleTestRetakePolicy(mod.id, policy)}
+                      />
+                      <ExamSettingsEditor
+                        settings={mod.testExamSettings}
+                        onChange={settings => updateModuleTestExamSettings(mod.id, settings)}
+                      />
                     </div>
 
                     {/* Lessons */}
@@ -1480,19 +1499,25 @@ const Courses = () => {
                           {/* Content Blocks */}
                           <div className="mb-2">
                             <div className="flex space-x-2 mb-1 flex-wrap">
-                              {['text', 'image', 'video', 'quiz'].map(type => (
+                              {(Object.keys(contentBlockLabels) as ContentBlock['type'][]).map(type => (
                                 <button
                                   key={type}
                                   onClick={() => {
                                     if(type === 'quiz') {
                                       addQuizBlock(mod.id, les.id);
+                                    } else if (type === 'phishing-sim') {
+                                      addPhishingBlock(mod.id, les.id);
+                                    } else if (type === 'scenario') {
+                                      addScenarioBlock(mod.id, les.id);
+                                    } else if (type === 'spot-the-issue') {
+                                      addSpotIssueBlock(mod.id, les.id);
                                     } else {
-                                      addContentBlock(mod.id, les.id, type as ContentBlock['type']);
+                                      addContentBlock(mod.id, les.id, type);
                                     }
                                   }}
                                   className="px-2 py-1 bg-blue-500 text-white rounded text-xs hover:bg-blue-600 transition-colors whitespace-nowrap"
                                 >
-                                  + {type.charAt(0).toUpperCase() + type.slice(1)}
+                                  + {contentBlockLabels[type]}
                                 </button>
                               ))}
                             </div>
@@ -1592,57 +1617,43 @@ const Courses = () => {
                                   </>
                                 )}
 
+                                {/* Phishing simulation block UI */}
+                                {cb.type === 'phishing-sim' && cb.phishingData && (
+                                  <PhishingSimEditor
+                                    simulation={cb.phishingData}
+                                    onChange={simulation => updatePhishingBlock(mod.id, les.id, cb.id, simulation)}
+                                  />
+                                )}
+
+                                {/* Scenario block UI */}
+                                {cb.type === 'scenario' && cb.scenarioData && (
+                                  <ScenarioEditor
+                                    scenario={cb.scenarioData}
+                                    onChange={scenario => updateScenarioBlock(mod.id, les.id, cb.id, scenario)}
+                                    courseId={editingCourseId}
+                                    blockId={cb.id}
+                                  />
+                                )}
+
+                                {/* Spot-the-issue block UI */}
+                                {cb.type === 'spot-the-issue' && cb.spotIssueData && (
+                                  <SpotIssueEditor
+                                    exercise={cb.spotIssueData}
+                                    onChange={exercise => updateSpotIssueBlock(mod.id, les.id, cb.id, exercise)}
+                                  />
+                                )}
+
                                 {/* Quiz block UI */}
                                 {cb.type === 'quiz' && cb.quizData && (
                                   <div className="space-y-4">
                                     {cb.quizData.map((q, qi) => (
-                                      <div key={q.id} className="border rounded p-2 bg-white relative">
-                                        <button
-                                          onClick={() => removeQuizQuestion(mod.id, les.id, cb.id, q.id)}
-                                          className="absolute top-1 right-1 text-red-600 hover:text-red-800 text-xs"
-                                          title="Remove question"
-                                        >
-                                          ✕
-                                        </button>
-                                        <input
-                                          type="text"
-                                          placeholder={`Question ${qi + 1}`}
-                                          value={q.question}
-                                          onChange={e => updateQuizQuestion(mod.id, les.id, cb.id, q.id, e.target.value)}
-                                          className="w-full border border-gray-300 rounded px-2 py-1 mb-2"
-                                        />
-                                        <div className="ml-2">
-                                          {q.options.map((opt, oi) => (
-                                            <div key={opt.id} className="flex items-center mb-1 space-x-2">
-                                              <input
-                                                type="checkbox"
-                                                checked={opt.isCorrect}
-                                                onChange={() => toggleQuizOptionCorrect(mod.id, les.id, cb.id, q.id, opt.id)}
-                                              />
-                                              <input
-                                                type="text"
-                                                placeholder={`Option ${oi + 1}`}
-                                                value={opt.text}
-                                                onChange={e => updateQuizOptionText(mod.id, les.id, cb.id, q.id, opt.id, e.target.value)}
-                                                className="border border-gray-300 rounded px-2 py-1 flex-grow"
-                                              />
-                                              <button
-                                                onClick={() => removeQuizOption(mod.id, les.id, cb.id, q.id, opt.id)}
-                                                className="text-red-600 hover:text-red-800"
-                                                title="Remove option"
-                                              >
-                                                ✕
-                                              </button>
-                                            </div>
-                                          ))}
-                                          <button
-                                            onClick={() => addQuizOption(mod.id, les.id, cb.id, q.id)}
-                                            className="text-blue-600 hover:text-blue-800 text-xs"
-                                          >
-                                            + Add Option
-                                          </button>
-                                        </div>
-                                      </div>
+                                      <QuestionEditor
+                                        key={q.id}
+                                        question={q}
+                                        index={qi}
+                                        onChange={question => updateQuizQuestion(mod.id, les.id, cb.id, question)}
+                                        onRemove={() => removeQuizQuestion(mod.id, les.id, cb.id, q.id)}
+                                      />
                                     ))}
                                     <button
                                       onClick={() => addQuizQuestion(mod.id, les.id, cb.id)}
@@ -1650,6 +1661,19 @@ const Courses = () => {
                                     >
                                       + Add Question
                                     </button>
+                                    <QuestionDrawEditor
+                                      draws={cb.quizDraws || []}
+                                      modules={modules}
+                                      onChange={draws => updateQuizDraws(mod.id, les.id, cb.id, draws)}
+                                    />
+                                    <RetakePolicySelect
+                                      policy={cb.retakePolicy}
+                                      onChange={policy => updateQuizRetakePolicy(mod.id, les.id, cb.id, policy)}
+                                    />
+                                    <ExamSettingsEditor
+                                      settings={cb.examSettings}
+                                      onChange={settings => updateQuizExamSettings(mod.id, les.id, cb.id, settings)}
+                                    />
                                   </div>
                                 )}
 
@@ -1665,6 +1689,21 @@ const Courses = () => {
 
               </div>
 
+              {/* Assignments Section */}
+              {isEditing && editingCourseId ? (
+                <div className="space-y-6">
+                  <AssignmentManager
+                    courseId={editingCourseId}
+                    modules={modules.map(m => ({ id: m.id, title: m.title }))}
+                  />
+                  <GradingSchemeEditor courseId={editingCourseId} />
+                  <GradingScaleSelector courseId={editingCourseId} />
+                  <CertificateTemplateEditor courseId={editingCourseId} courseTitle={courseTitle} />
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">Save the course first to add assignments.</p>
+              )}
+
               <div className="flex justify-end space-x-2 pt-3 border-t mt-6">
                 <button
                   onClick={() => setShowCreateModal(false)}
@@ -1686,6 +1725,16 @@ const Courses = () => {
         </div>
       )}
 
+      {/* Question Bank Modal */}
+      {questionBankCourse && (
+        <QuestionBank
+          courseId={questionBankCourse.id}
+          courseTitle={questionBankCourse.title}
+          modules={questionBankCourse.modules || []}
+          onClose={() => setQuestionBankCourse(null)}
+        />
+      )}
+
       {/* Preview Course Modal */}
       {showPreviewModal && previewCourse && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start overflow-auto justify-center z-50 pt-12 pb-12 px-4">
@@ -1821,10 +1870,10 @@ const Courses = () => {
 
                                     {block.type === 'quiz' && block.quizData && (
                                       <div className="mt-2">
-                                        <p className="font-medium text-gray-800 mb-2">Quiz ({block.quizData.length} questions)</p>
+                                        <p className="font-medium text-gray-800 mb-2">Quiz ({block.quizData.length} questions{block.quizDraws?.length ? ` + ${block.quizDraws.reduce((sum, d) => sum + d.count, 0)} random from bank` : ''})</p>
                                         {block.quizData.slice(0, 2).map((question, qIndex) => (
                                           <div key={question.id} className="ml-2 mb-2">
-                                            <p className="text-gray-700 text-sm">Q{qIndex + 1}: {question.question}</p>
+                                            <p className="text-gray-700 text-sm">Q{qIndex + 1}: {question.question}{question.type && question.type !== 'multiple-choice' && <span className="text-xs text-gray-500"> ({question.type})</span>}</p>
                                             <div className="ml-2 text-xs text-gray-600">
                                               {question.options.map((option, oIndex) => (
                                                 <div key={option.id} className="flex items-center space-x-1">
@@ -1841,6 +1890,35 @@ const Courses = () => {
                                         )}
                                       </div>
                                     )}
+
+                                    {block.type === 'phishing-sim' && block.phishingData && (
+                                      <div className="mt-2">
+                                        <p className="font-medium text-gray-800 mb-1">Phishing Simulation</p>
+                                        <p className="text-sm text-gray-700 ml-2">From: {block.phishingData.fromName} &lt;{block.phishingData.fromAddress}&gt;</p>
+                                        <p className="text-sm text-gray-700 ml-2">Subject: {block.phishingData.subject}</p>
+                                        <p className="text-xs text-gray-500 ml-2">{block.phishingData.indicators.length} suspicious indicator(s) · correct action: {block.phishingData.correctAction}</p>
+                                      </div>
+                                    )}
+
+                                    {block.type === 'scenario' && block.scenarioData && (
+                                      <div className="mt-2">
+                                        <p className="font-medium text-gray-800 mb-1">Branching Scenario</p>
+                                        <p className="text-sm text-gray-700 ml-2">
+                                          Starts at: {block.scenarioData.nodes.find(n => n.id === block.scenarioData?.startNodeId)?.title}
+                                        </p>
+                                        <p className="text-xs text-gray-500 ml-2">
+                                          {block.scenarioData.nodes.length} step(s) · {block.scenarioData.nodes.filter(n => n.choices.length === 0).length} ending(s)
+                                        </p>
+                                      </div>
+                                    )}
+
+                                    {block.type === 'spot-the-issue' && block.spotIssueData && (
+                                      <div className="mt-2">
+                                        <p className="font-medium text-gray-800 mb-1">Spot the Issue</p>
+                                        <pre className="text-xs text-gray-700 ml-2 bg-gray-50 rounded p-2 max-h-32 overflow-auto">{block.spotIssueData.source}</pre>
+                                        <p className="text-xs text-gray-500 ml-2">{block.spotIssueData.ranges.length} issue range(s)</p>
+                                      </div>
+                                    )}
                                   </div>
                                 ))}
                               </div>
@@ -1851,12 +1929,12 @@ const Courses = () => {
                     )}
 
                     {/* Module Test */}
-                    {module.test && module.test.length > 0 && (
+                    {((module.test?.length || 0) > 0 || (module.testDraws?.length || 0) > 0) && (
                       <div className="mt-4 ml-4 border-t border-gray-200 pt-3">
-                        <h5 className="font-medium text-gray-800 mb-2">Module Test ({module.test.length} questions)</h5>
-                        {module.test.slice(0, 2).map((question, qIndex) => (
+                        <h5 className="font-medium text-gray-800 mb-2">Module Test ({module.test?.length || 0} questions{module.testDraws?.length ? ` + ${module.testDraws.reduce((sum, d) => sum + d.count, 0)} random from bank` : ''})</h5>
+                        {(module.test || []).slice(0, 2).map((question, qIndex) => (
                           <div key={question.id} className="mb-2 text-sm">
-                            <p className="text-gray-700">Q{qIndex + 1}: {question.question}</p>
+                            <p className="text-gray-700">Q{qIndex + 1}: {question.question}{question.type && question.type !== 'multiple-choice' && <span className="text-xs text-gray-500"> ({question.type})</span>}</p>
                             <div className="ml-2 text-xs text-gray-600">
                               {question.options.map((option, oIndex) => (
                                 <div key={option.id} className="flex items-center space-x-1">
@@ -1868,7 +1946,7 @@ const Courses = () => {
                             </div>
                           </div>
                         ))}
-                        {module.test.length > 2 && (
+                        {module.test && module.test.length > 2 && (
                           <p className="text-xs text-gray-500 ml-2">... and {module.test.length - 2} more questions</p>
                         )}
                       </div>
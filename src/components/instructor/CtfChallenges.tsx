@@ -0,0 +1,562 @@
+import React, { useState, useEffect, ChangeEvent } from 'react';
+import {
+  Flag,
+  Plus,
+  Edit,
+  Trash2,
+  Eye,
+  EyeOff,
+  Trophy,
+  Droplet,
+  Paperclip,
+  ListChecks,
+  CheckCircle,
+  XCircle
+} from 'lucide-react';
+import { collection, getDocs, query, orderBy } from 'firebase/firestore';
+import { ref, uploadBytesResumable, getDownloadURL, deleteObject } from 'firebase/storage';
+import { db, storage } from '../../lib/firebase';
+import { useAuth } from '../../contexts/AuthContext';
+import CtfService, {
+  CtfChallenge,
+  CtfCategory,
+  CtfFile,
+  CtfAttempt,
+  ScoreboardEntry,
+  CTF_CATEGORIES,
+  CTF_MIN_FLAG_LENGTH
+} from '../../services/ctfService';
+
+interface CourseOption {
+  id: string;
+  title: string;
+}
+
+interface ChallengeForm {
+  title: string;
+  description: string;
+  category: CtfCategory;
+  eventName: string;
+  points: number;
+  dynamicScoring: boolean;
+  minimumPoints: number;
+  decay: number;
+  files: CtfFile[];
+  flag: string;
+}
+
+const emptyForm: ChallengeForm = {
+  title: '',
+  description: '',
+  category: 'web',
+  eventName: '',
+  points: 100,
+  dynamicScoring: false,
+  minimumPoints: 50,
+  decay: 10,
+  files: [],
+  flag: ''
+};
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const CtfChallenges: React.FC = () => {
+  const { user } = useAuth();
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [selectedCourseId, setSelectedCourseId] = useState('');
+  const [challenges, setChallenges] = useState<CtfChallenge[]>([]);
+  const [scoreboard, setScoreboard] = useState<ScoreboardEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Editor state
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingChallenge, setEditingChallenge] = useState<CtfChallenge | null>(null);
+  const [form, setForm] = useState<ChallengeForm>(emptyForm);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [saving, setSaving] = useState(false);
+
+  // Attempt log state
+  const [attemptsChallenge, setAttemptsChallenge] = useState<CtfChallenge | null>(null);
+  const [attempts, setAttempts] = useState<CtfAttempt[]>([]);
+
+  // Fetch courses for the selector
+  useEffect(() => {
+    const fetchCourses = async () => {
+      try {
+        const snapshot = await getDocs(query(collection(db, 'courses'), orderBy('createdAt', 'desc')));
+        const courseList = snapshot.docs.map(courseDoc => ({
+          id: courseDoc.id,
+          title: courseDoc.data().title || 'Untitled course'
+        }));
+        setCourses(courseList);
+        if (courseList.length > 0) setSelectedCourseId(courseList[0].id);
+      } catch (error) {
+        console.error('Error fetching courses:', error);
+      }
+    };
+
+    fetchCourses();
+  }, []);
+
+  const fetchChallenges = async (courseId: string) => {
+    setLoading(true);
+    const [courseChallenges, courseScoreboard] = await Promise.all([
+      CtfService.getCourseChallenges(courseId),
+      CtfService.getScoreboard(courseId)
+    ]);
+    setChallenges(courseChallenges);
+    setScoreboard(courseScoreboard);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (selectedCourseId) fetchChallenges(selectedCourseId);
+  }, [selectedCourseId]);
+
+  const openEditor = (challenge?: CtfChallenge) => {
+    setEditingChallenge(challenge || null);
+    setForm(challenge ? {
+      title: challenge.title,
+      description: challenge.description,
+      category: challenge.category,
+      eventName: challenge.eventName || '',
+      points: challenge.points,
+      dynamicScoring: challenge.dynamicScoring,
+      minimumPoints: challenge.minimumPoints,
+      decay: challenge.decay,
+      files: challenge.files || [],
+      flag: ''
+    } : emptyForm);
+    setShowEditor(true);
+  };
+
+  // Upload a challenge file to Storage
+  const handleFileUpload = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const path = `ctf/${selectedCourseId}/${generateId()}-${file.name}`;
+    const uploadTask = uploadBytesResumable(ref(storage, path), file);
+
+    uploadTask.on('state_changed',
+      (snapshot) => {
+        setUploadProgress((snapshot.bytesTransferred / snapshot.totalBytes) * 100);
+      },
+      (error) => {
+        console.error('Challenge file upload error:', error);
+        alert('File upload failed. Try again.');
+        setUploadProgress(0);
+      },
+      () => {
+        getDownloadURL(uploadTask.snapshot.ref).then(url => {
+          setForm(current => ({ ...current, files: [...current.files, { name: file.name, url, path }] }));
+          setUploadProgress(0);
+        });
+      });
+    e.target.value = '';
+  };
+
+  const removeFile = async (file: CtfFile) => {
+    try {
+      await deleteObject(ref(storage, file.path));
+    } catch (error) {
+      console.error('Error deleting challenge file:', error);
+    }
+    setForm(current => ({ ...current, files: current.files.filter(f => f.path !== file.path) }));
+  };
+
+  const handleSave = async () => {
+    if (!form.title.trim()) {
+      alert('Please enter a challenge title.');
+      return;
+    }
+    if (!editingChallenge && !form.flag.trim()) {
+      alert('Please enter the flag.');
+      return;
+    }
+    if (form.dynamicScoring && form.minimumPoints > form.points) {
+      alert('Minimum points cannot be higher than the initial value.');
+      return;
+    }
+
+    const challengeData = {
+      title: form.title.trim(),
+      description: form.description,
+      category: form.category,
+      eventName: form.eventName.trim(),
+      points: form.points,
+      dynamicScoring: form.dynamicScoring,
+      minimumPoints: form.minimumPoints,
+      decay: form.decay,
+      files: form.files
+    };
+
+    setSaving(true);
+    const result = editingChallenge
+      ? await CtfService.updateChallenge(editingChallenge.id, challengeData, form.flag)
+      : await CtfService.createChallenge({
+          ...challengeData,
+          courseId: selectedCourseId,
+          isPublished: false,
+          createdBy: user?.id || ''
+        }, form.flag);
+    setSaving(false);
+
+    if (result.success) {
+      setShowEditor(false);
+      fetchChallenges(selectedCourseId);
+    } else {
+      alert(result.message);
+    }
+  };
+
+  const togglePublished = async (challenge: CtfChallenge) => {
+    const result = await CtfService.updateChallenge(challenge.id, { isPublished: !challenge.isPublished });
+    if (result.success) {
+      fetchChallenges(selectedCourseId);
+    } else {
+      alert(result.message);
+    }
+  };
+
+  const handleDelete = async (challenge: CtfChallenge) => {
+    if (!confirm(`Delete "${challenge.title}"? Solves already recorded keep their grades.`)) return;
+
+    await Promise.all((challenge.files || []).map(file =>
+      deleteObject(ref(storage, file.path)).catch(error => console.error('Error deleting challenge file:', error))
+    ));
+    const result = await CtfService.deleteChallenge(challenge.id);
+    if (result.success) {
+      fetchChallenges(selectedCourseId);
+    } else {
+      alert(result.message);
+    }
+  };
+
+  const openAttempts = async (challenge: CtfChallenge) => {
+    setAttemptsChallenge(challenge);
+    setAttempts(await CtfService.getChallengeAttempts(challenge.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">CTF Challenges</h2>
+            <p className="text-sm text-gray-600">Capture-the-flag challenges, attempts and the course scoreboard</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <select
+              value={selectedCourseId}
+              onChange={e => setSelectedCourseId(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              {courses.map(course => (
+                <option key={course.id} value={course.id}>{course.title}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => openEditor()}
+              disabled={!selectedCourseId}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              <span>New Challenge</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Challenge list */}
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              <span className="ml-2 text-gray-600">Loading challenges...</span>
+            </div>
+          ) : challenges.length === 0 ? (
+            <div className="text-center py-12">
+              <Flag className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">No challenges for this course yet.</p>
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-gray-600">
+                <tr>
+                  <th className="text-left px-4 py-3 font-medium">Challenge</th>
+                  <th className="text-left px-4 py-3 font-medium">Category</th>
+                  <th className="text-left px-4 py-3 font-medium">Value</th>
+                  <th className="text-left px-4 py-3 font-medium">Solves</th>
+                  <th className="text-right px-4 py-3 font-medium">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {challenges.map(challenge => (
+                  <tr key={challenge.id}>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900">{challenge.title}</p>
+                      <p className="text-xs text-gray-500">
+                        {challenge.eventName || 'No event'} · {challenge.isPublished ? 'Published' : 'Draft'}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 capitalize text-gray-700">{challenge.category}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {CtfService.getChallengeValue(challenge)}
+                      {challenge.dynamicScoring && <span className="text-xs text-gray-500"> / {challenge.points}</span>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {challenge.solveCount}
+                      {challenge.firstBloodUserName && (
+                        <span className="flex items-center text-xs text-red-600" title="First blood">
+                          <Droplet className="w-3 h-3 mr-1" />{challenge.firstBloodUserName}
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end space-x-2">
+                        <button onClick={() => openAttempts(challenge)} className="text-gray-600 hover:text-gray-900" title="Attempt log">
+                          <ListChecks className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => togglePublished(challenge)} className="text-gray-600 hover:text-gray-900" title={challenge.isPublished ? 'Unpublish' : 'Publish'}>
+                          {challenge.isPublished ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+                        </button>
+                        <button onClick={() => openEditor(challenge)} className="text-blue-600 hover:text-blue-800" title="Edit">
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => handleDelete(challenge)} className="text-red-600 hover:text-red-800" title="Delete">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Scoreboard */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+          <h3 className="flex items-center text-lg font-semibold text-gray-900 mb-4">
+            <Trophy className="w-5 h-5 mr-2 text-yellow-500" /> Scoreboard
+          </h3>
+          {scoreboard.length === 0 ? (
+            <p className="text-sm text-gray-600">No solves yet.</p>
+          ) : (
+            <ol className="space-y-2 text-sm">
+              {scoreboard.map((entry, index) => (
+                <li key={entry.userId} className="flex items-center justify-between">
+                  <span className="text-gray-900">{index + 1}. {entry.userName}</span>
+                  <span className="text-gray-600">
+                    {entry.points} pts · {entry.solves} solved
+                    {entry.firstBloods > 0 && <span className="text-red-600"> · {entry.firstBloods} 🩸</span>}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+
+      {/* Challenge editor */}
+      {showEditor && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start overflow-auto justify-center z-50 pt-12 pb-12 px-4">
+          <div className="bg-white rounded-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto space-y-4">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {editingChallenge ? 'Edit Challenge' : 'New Challenge'}
+            </h3>
+
+            <input
+              type="text"
+              placeholder="Title"
+              value={form.title}
+              onChange={e => setForm({ ...form, title: e.target.value })}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2"
+            />
+            <textarea
+              placeholder="Description shown to students"
+              value={form.description}
+              onChange={e => setForm({ ...form, description: e.target.value })}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 min-h-[100px]"
+            />
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-sm text-gray-700">
+                Category
+                <select
+                  value={form.category}
+                  onChange={e => setForm({ ...form, category: e.target.value as CtfCategory })}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1 capitalize"
+                >
+                  {CTF_CATEGORIES.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-gray-700">
+                Event (optional)
+                <input
+                  type="text"
+                  placeholder="e.g. Midterm CTF"
+                  value={form.eventName}
+                  onChange={e => setForm({ ...form, eventName: e.target.value })}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1"
+                />
+              </label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-sm text-gray-700">
+                Points
+                <input
+                  type="number"
+                  min={1}
+                  value={form.points}
+                  onChange={e => setForm({ ...form, points: Math.max(1, Number(e.target.value)) })}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1"
+                />
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 mt-6">
+                <input
+                  type="checkbox"
+                  checked={form.dynamicScoring}
+                  onChange={e => setForm({ ...form, dynamicScoring: e.target.checked })}
+                />
+                <span>Dynamic scoring (value drops as more students solve it)</span>
+              </label>
+            </div>
+
+            {form.dynamicScoring && (
+              <div className="grid grid-cols-2 gap-3">
+                <label className="text-sm text-gray-700">
+                  Minimum points
+                  <input
+                    type="number"
+                    min={0}
+                    value={form.minimumPoints}
+                    onChange={e => setForm({ ...form, minimumPoints: Math.max(0, Number(e.target.value)) })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1"
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Solves to reach minimum
+                  <input
+                    type="number"
+                    min={1}
+                    value={form.decay}
+                    onChange={e => setForm({ ...form, decay: Math.max(1, Number(e.target.value)) })}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1"
+                  />
+                </label>
+              </div>
+            )}
+
+            <label className="block text-sm text-gray-700">
+              Flag
+              <div className="flex space-x-2 mt-1">
+                <input
+                  type="text"
+                  placeholder={editingChallenge ? 'Leave empty to keep the current flag' : 'e.g. flag{...}'}
+                  value={form.flag}
+                  onChange={e => setForm({ ...form, flag: e.target.value })}
+                  className="flex-grow border border-gray-300 rounded-lg px-3 py-2 font-mono"
+                />
+                <button
+                  type="button"
+                  onClick={() => setForm({ ...form, flag: CtfService.generateFlag() })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  Generate
+                </button>
+              </div>
+              <span className="text-xs text-gray-500">
+                Only a salted hash of the flag is stored, but students can test guesses against it offline.
+                Use a random flag of at least {CTF_MIN_FLAG_LENGTH} characters.
+              </span>
+            </label>
+
+            <div>
+              <p className="text-sm text-gray-700 mb-1">Files</p>
+              {form.files.map(file => (
+                <div key={file.path} className="flex items-center justify-between text-sm py-1">
+                  <a href={file.url} target="_blank" rel="noopener noreferrer" className="flex items-center text-blue-600 hover:underline">
+                    <Paperclip className="w-3 h-3 mr-1" />{file.name}
+                  </a>
+                  <button onClick={() => removeFile(file)} className="text-red-600 hover:text-red-800 text-xs">
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <input type="file" onChange={handleFileUpload} disabled={!selectedCourseId} className="text-sm mt-1" />
+              {uploadProgress > 0 && (
+                <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
+                  <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${uploadProgress}%` }} />
+                </div>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-3 pt-2">
+              <button
+                onClick={() => setShowEditor(false)}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || uploadProgress > 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Challenge'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Attempt log */}
+      {attemptsChallenge && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start overflow-auto justify-center z-50 pt-12 pb-12 px-4">
+          <div className="bg-white rounded-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Attempts · {attemptsChallenge.title}</h3>
+              <button onClick={() => setAttemptsChallenge(null)} className="text-gray-500 hover:text-gray-700">✕</button>
+            </div>
+            {attempts.length === 0 ? (
+              <p className="text-sm text-gray-600">No attempts yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead className="text-gray-600">
+                  <tr>
+                    <th className="text-left py-2 font-medium">Student</th>
+                    <th className="text-left py-2 font-medium">Result</th>
+                    <th className="text-left py-2 font-medium">Submitted</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {attempts.map(attempt => (
+                    <tr key={attempt.id}>
+                      <td className="py-2 text-gray-900">{attempt.userName}</td>
+                      <td className="py-2">
+                        {attempt.correct
+                          ? <span className="flex items-center text-green-700"><CheckCircle className="w-4 h-4 mr-1" />Correct</span>
+                          : <span className="flex items-center text-red-700"><XCircle className="w-4 h-4 mr-1" />Incorrect</span>}
+                      </td>
+                      <td className="py-2 text-gray-600">
+                        {attempt.submittedAt?.toDate ? attempt.submittedAt.toDate().toLocaleString() : '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CtfChallenges;
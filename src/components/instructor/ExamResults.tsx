@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { ShieldAlert, ShieldCheck, ClipboardList, Eye, MousePointerClick, Clipboard } from 'lucide-react';
+import { collection, getDocs, getDoc, doc, query, orderBy } from 'firebase/firestore';
+import { db } from '../../lib/firebase';
+import { useAuth } from '../../contexts/AuthContext';
+import GradingService, { Grade } from '../../services/gradingService';
+
+interface CourseOption {
+  id: string;
+  title: string;
+}
+
+const ExamResults: React.FC = () => {
+  const { user } = useAuth();
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [selectedCourseId, setSelectedCourseId] = useState('');
+  const [grades, setGrades] = useState<Grade[]>([]);
+  const [studentNames, setStudentNames] = useState<{ [studentId: string]: string }>({});
+  const [loading, setLoading] = useState(false);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+
+  // Fetch courses for the selector
+  useEffect(() => {
+    const fetchCourses = async () => {
+      try {
+        const snapshot = await getDocs(query(collection(db, 'courses'), orderBy('createdAt', 'desc')));
+        const courseList = snapshot.docs.map(courseDoc => ({
+          id: courseDoc.id,
+          title: courseDoc.data().title || 'Untitled course'
+        }));
+        setCourses(courseList);
+        if (courseList.length > 0) setSelectedCourseId(courseList[0].id);
+      } catch (error) {
+        console.error('Error fetching courses:', error);
+      }
+    };
+
+    fetchCourses();
+  }, []);
+
+  // Fetch exam grades and student names for the selected course
+  useEffect(() => {
+    const fetchExamGrades = async () => {
+      if (!selectedCourseId) return;
+
+      setLoading(true);
+      const examGrades = await GradingService.getCourseGrades(selectedCourseId, 'exam');
+      setGrades(examGrades);
+
+      const names: { [studentId: string]: string } = {};
+      await Promise.all(
+        [...new Set(examGrades.map(g => g.studentId))].map(async studentId => {
+          try {
+            const userDoc = await getDoc(doc(db, 'users', studentId));
+            names[studentId] = userDoc.exists() ? userDoc.data().name || userDoc.data().email : studentId;
+          } catch (error) {
+            console.error('Error fetching student:', error);
+            names[studentId] = studentId;
+          }
+        })
+      );
+      setStudentNames(names);
+      setLoading(false);
+    };
+
+    fetchExamGrades();
+  }, [selectedCourseId]);
+
+  const toggleExcused = async (grade: Grade) => {
+    if (!user?.id) return;
+    // Exam grades are published as soon as they are scored
+    const reason = grade.isPublished ? prompt('This grade is published. Why is it changing?') : '';
+    if (reason === null) return;
+    if (grade.isPublished && !reason.trim()) {
+      alert('A reason is required to change a published grade.');
+      return;
+    }
+
+    const result = await GradingService.setGradeExcused(grade.id, !grade.isExcused, { reason, changedBy: user.id });
+    if (result.success) {
+      setGrades(current => current.map(g => g.id === grade.id ? { ...g, isExcused: !grade.isExcused } : g));
+    } else {
+      alert(result.message);
+    }
+  };
+
+  const getSignalTotal = (grade: Grade) => {
+    const signals = grade.integritySignals;
+    return signals ? signals.tabSwitches + signals.windowBlurs + signals.pasteEvents : 0;
+  };
+
+  const visibleGrades = flaggedOnly ? grades.filter(g => getSignalTotal(g) > 0) : grades;
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Exam Results</h2>
+            <p className="text-sm text-gray-600">Exam grades with the integrity signals recorded during each attempt</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={flaggedOnly}
+                onChange={e => setFlaggedOnly(e.target.checked)}
+              />
+              <span>Flagged only</span>
+            </label>
+            <select
+              value={selectedCourseId}
+              onChange={e => setSelectedCourseId(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              {courses.map(course => (
+                <option key={course.id} value={course.id}>{course.title}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="ml-2 text-gray-600">Loading exam results...</span>
+          </div>
+        ) : visibleGrades.length === 0 ? (
+          <div className="text-center py-12">
+            <ClipboardList className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600">No exam attempts for this course yet.</p>
+          </div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="text-left px-6 py-3 font-medium">Student</th>
+                <th className="text-left px-6 py-3 font-medium">Exam</th>
+                <th className="text-left px-6 py-3 font-medium">Grade</th>
+                <th className="text-left px-6 py-3 font-medium">Integrity Signals</th>
+                <th className="text-left px-6 py-3 font-medium">Submitted</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {visibleGrades.map(grade => {
+                const flagged = getSignalTotal(grade) > 0;
+
+                return (
+                  <tr key={grade.id} className={flagged ? 'bg-red-50' : ''}>
+                    <td className="px-6 py-3 text-gray-900">{studentNames[grade.studentId] || grade.studentId}</td>
+                    <td className="px-6 py-3 text-gray-700">{grade.title}</td>
+                    <td className="px-6 py-3 text-gray-900">
+                      {grade.points}/{grade.maxPoints} ({grade.percentage}%) · <span className="font-semibold">{grade.letterGrade}</span>
+                      <button
+                        onClick={() => toggleExcused(grade)}
+                        className={`ml-2 px-2 py-0.5 rounded-full text-xs ${
+                          grade.isExcused ? 'bg-blue-100 text-blue-700' : 'text-gray-500 hover:bg-gray-100'
+                        }`}
+                        title={grade.isExcused ? 'Count this grade again' : 'Leave this grade out of the course grade'}
+                      >
+                        {grade.isExcused ? 'Excused' : 'Excuse'}
+                      </button>
+                    </td>
+                    <td className="px-6 py-3">
+                      <div className="flex items-center space-x-3">
+                        {flagged
+                          ? <ShieldAlert className="w-4 h-4 text-red-600" />
+                          : <ShieldCheck className="w-4 h-4 text-green-600" />}
+                        <span className="flex items-center space-x-1 text-gray-700" title="Tab switches">
+                          <Eye className="w-3 h-3" /><span>{grade.integritySignals?.tabSwitches ?? 0}</span>
+                        </span>
+                        <span className="flex items-center space-x-1 text-gray-700" title="Window blurs">
+                          <MousePointerClick className="w-3 h-3" /><span>{grade.integritySignals?.windowBlurs ?? 0}</span>
+                        </span>
+                        <span className="flex items-center space-x-1 text-gray-700" title="Paste events">
+                          <Clipboard className="w-3 h-3" /><span>{grade.integritySignals?.pasteEvents ?? 0}</span>
+                        </span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-3 text-gray-600">
+                      {grade.gradedAt?.toDate ? grade.gradedAt.toDate().toLocaleString() : '-'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExamResults;
@@ -0,0 +1,92 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { ExamSettings } from '../../services/quizService';
+
+const defaultExamSettings: ExamSettings = {
+  enabled: false,
+  timeLimitMinutes: 30,
+  maxAttempts: 1,
+  cooldownMinutes: 0,
+  opensAt: '',
+  closesAt: ''
+};
+
+interface ExamSettingsEditorProps {
+  settings?: ExamSettings;
+  onChange: (settings: ExamSettings) => void;
+}
+
+const ExamSettingsEditor: React.FC<ExamSettingsEditorProps> = ({ settings, onChange }) => {
+  const current = { ...defaultExamSettings, ...settings };
+
+  const update = (changes: Partial<ExamSettings>) => onChange({ ...current, ...changes });
+
+  return (
+    <div className="mt-2 border-t border-gray-200 pt-2">
+      <label className="flex items-center space-x-2 text-xs font-semibold text-gray-700">
+        <input
+          type="checkbox"
+          checked={current.enabled}
+          onChange={e => update({ enabled: e.target.checked })}
+        />
+        <Timer className="w-3 h-3" />
+        <span>Exam mode (timed, limited attempts, integrity monitoring)</span>
+      </label>
+
+      {current.enabled && (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-2">
+          <label className="text-xs text-gray-600">
+            Time limit (min, 0 = none)
+            <input
+              type="number"
+              min={0}
+              value={current.timeLimitMinutes}
+              onChange={e => update({ timeLimitMinutes: Math.max(0, Number(e.target.value)) })}
+              className="w-full border border-gray-300 rounded px-2 py-0.5 text-xs"
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Max attempts (0 = unlimited)
+            <input
+              type="number"
+              min={0}
+              value={current.maxAttempts}
+              onChange={e => update({ maxAttempts: Math.max(0, Number(e.target.value)) })}
+              className="w-full border border-gray-300 rounded px-2 py-0.5 text-xs"
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Cooldown between attempts (min)
+            <input
+              type="number"
+              min={0}
+              value={current.cooldownMinutes}
+              onChange={e => update({ cooldownMinutes: Math.max(0, Number(e.target.value)) })}
+              className="w-full border border-gray-300 rounded px-2 py-0.5 text-xs"
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Opens (optional)
+            <input
+              type="datetime-local"
+              value={current.opensAt}
+              onChange={e => update({ opensAt: e.target.value })}
+              className="w-full border border-gray-300 rounded px-2 py-0.5 text-xs"
+            />
+          </label>
+          <label className="text-xs text-gray-600">
+            Closes (optional)
+            <input
+              type="datetime-local"
+              value={current.closesAt}
+              onChange={e => update({ closesAt: e.target.value })}
+              className="w-full border border-gray-300 rounded px-2 py-0.5 text-xs"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExamSettingsEditor;
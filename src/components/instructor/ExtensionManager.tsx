@@ -0,0 +1,189 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarClock } from 'lucide-react';
+import { getDoc, doc, Timestamp } from 'firebase/firestore';
+import { db } from '../../lib/firebase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Assignment } from '../../services/assignmentService';
+import EnrollmentService from '../../services/enrollmentService';
+import LatePolicyService, { AssignmentExtension } from '../../services/latePolicyService';
+
+interface ExtensionManagerProps {
+  assignment: Assignment;
+  onClose: () => void;
+}
+
+interface StudentRow {
+  id: string;
+  name: string;
+}
+
+// Format a date for a datetime-local input in local time
+const toDateTimeLocal = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const ExtensionManager: React.FC<ExtensionManagerProps> = ({ assignment, onClose }) => {
+  const { user } = useAuth();
+  const [students, setStudents] = useState<StudentRow[]>([]);
+  const [extensions, setExtensions] = useState<AssignmentExtension[]>([]);
+  const [editingStudentId, setEditingStudentId] = useState<string | null>(null);
+  const [dueDate, setDueDate] = useState('');
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(true);
+
+  const fetchExtensions = async (courseId: string, assignmentId: string) => {
+    const courseExtensions = await LatePolicyService.getCourseExtensions(courseId);
+    setExtensions(courseExtensions.filter(e => e.assignmentId === assignmentId));
+  };
+
+  useEffect(() => {
+    const fetchStudents = async () => {
+      setLoading(true);
+      const enrollments = await EnrollmentService.getCourseEnrollments(assignment.courseId);
+      const rows = await Promise.all(enrollments.map(async enrollment => {
+        try {
+          const userDoc = await getDoc(doc(db, 'users', enrollment.userId));
+          return {
+            id: enrollment.userId,
+            name: userDoc.exists() ? userDoc.data().name || userDoc.data().email : enrollment.userId
+          };
+        } catch (error) {
+          console.error('Error fetching student:', error);
+          return { id: enrollment.userId, name: enrollment.userId };
+        }
+      }));
+      setStudents(rows.sort((a, b) => a.name.localeCompare(b.name)));
+      await fetchExtensions(assignment.courseId, assignment.id);
+      setLoading(false);
+    };
+
+    fetchStudents();
+  }, [assignment.courseId, assignment.id]);
+
+  const startEditing = (studentId: string) => {
+    const extension = extensions.find(e => e.studentId === studentId);
+    setEditingStudentId(studentId);
+    setDueDate(toDateTimeLocal((extension?.dueDate || assignment.dueDate).toDate()));
+    setReason(extension?.reason || '');
+  };
+
+  const handleGrant = async () => {
+    if (!editingStudentId || !dueDate) return;
+    const newDueDate = Timestamp.fromDate(new Date(dueDate));
+    if (newDueDate.toMillis() <= assignment.dueDate.toMillis()) {
+      alert('An extension must be later than the assignment due date.');
+      return;
+    }
+
+    const result = await LatePolicyService.grantExtension({
+      assignmentId: assignment.id,
+      studentId: editingStudentId,
+      courseId: assignment.courseId,
+      dueDate: newDueDate,
+      reason: reason.trim(),
+      grantedBy: user?.id || ''
+    });
+    if (result.success) {
+      setEditingStudentId(null);
+      fetchExtensions(assignment.courseId, assignment.id);
+    } else {
+      alert(result.message);
+    }
+  };
+
+  const handleRevoke = async (extension: AssignmentExtension) => {
+    if (!confirm('Remove this extension? The student will be held to the original due date.')) return;
+
+    const result = await LatePolicyService.revokeExtension(extension.id);
+    if (result.success) {
+      fetchExtensions(assignment.courseId, assignment.id);
+    } else {
+      alert(result.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start overflow-auto justify-center z-50 pt-12 pb-12 px-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center text-lg font-semibold text-gray-900">
+            <CalendarClock className="w-5 h-5 mr-2" /> Extensions · {assignment.title}
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+        <p className="text-sm text-gray-600">
+          Due {assignment.dueDate.toDate().toLocaleString()}. Late penalties for a student are measured from their extended due date.
+        </p>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading students...</p>
+        ) : students.length === 0 ? (
+          <p className="text-sm text-gray-500">No students are enrolled in this course.</p>
+        ) : (
+          <div className="divide-y border rounded">
+            {students.map(student => {
+              const extension = extensions.find(e => e.studentId === student.id);
+              return (
+                <div key={student.id} className="p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">{student.name}</p>
+                      {extension && (
+                        <p className="text-xs text-blue-700">
+                          Extended to {extension.dueDate.toDate().toLocaleString()}
+                          {extension.reason && ` · ${extension.reason}`}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center space-x-3 text-sm">
+                      <button onClick={() => startEditing(student.id)} className="text-blue-600 hover:text-blue-800">
+                        {extension ? 'Change' : 'Grant'}
+                      </button>
+                      {extension && (
+                        <button onClick={() => handleRevoke(extension)} className="text-red-600 hover:text-red-800">
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {editingStudentId === student.id && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        type="datetime-local"
+                        value={dueDate}
+                        onChange={e => setDueDate(e.target.value)}
+                        className="border border-gray-300 rounded px-2 py-1 text-sm"
+                      />
+                      <input
+                        type="text"
+                        placeholder="Reason (optional)"
+                        value={reason}
+                        onChange={e => setReason(e.target.value)}
+                        className="flex-grow border border-gray-300 rounded px-2 py-1 text-sm"
+                      />
+                      <button
+                        onClick={handleGrant}
+                        className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+                      >
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setEditingStudentId(null)}
+                        className="px-3 py-1 border rounded text-sm hover:bg-gray-100"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExtensionManager;
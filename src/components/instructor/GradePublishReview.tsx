@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { Send } from 'lucide-react';
+import { Assignment } from '../../services/assignmentService';
+import GradingService, { Grade } from '../../services/gradingService';
+import GradingScaleService, { GradingScale } from '../../services/gradingScaleService';
+
+interface GradePublishReviewProps {
+  assignment: Assignment;
+  courseTitle: string;
+  onClose: () => void;
+  onPublished: (gradeIds: string[]) => void;
+}
+
+const GradePublishReview: React.FC<GradePublishReviewProps> = ({ assignment, courseTitle, onClose, onPublished }) => {
+  const [grades, setGrades] = useState<Grade[]>([]);
+  const [scale, setScale] = useState<GradingScale | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [publishing, setPublishing] = useState(false);
+
+  useEffect(() => {
+    const fetchGrades = async () => {
+      const [courseGrades, courseScale] = await Promise.all([
+        GradingService.getCourseGrades(assignment.courseId, 'assignment'),
+        GradingScaleService.getCourseScale(assignment.courseId)
+      ]);
+      setGrades(courseGrades.filter(g => g.assignmentId === assignment.id));
+      setScale(courseScale);
+      setLoading(false);
+    };
+
+    fetchGrades();
+  }, [assignment.id, assignment.courseId]);
+
+  const drafts = grades.filter(g => !g.isPublished);
+  const counted = grades.filter(g => !g.isExcused);
+  const percentages = counted.map(g => g.percentage).sort((a, b) => a - b);
+  const mean = percentages.length > 0 ? percentages.reduce((sum, p) => sum + p, 0) / percentages.length : 0;
+  const median = percentages.length === 0 ? 0
+    : percentages.length % 2 === 1
+      ? percentages[(percentages.length - 1) / 2]
+      : (percentages[percentages.length / 2 - 1] + percentages[percentages.length / 2]) / 2;
+  const bandCounts = scale
+    ? scale.bands.map(band => ({
+        label: band.label,
+        count: counted.filter(g => GradingService.calculateLetterGrade(g.percentage, scale) === band.label).length
+      }))
+    : [];
+  const largestBand = Math.max(1, ...bandCounts.map(band => band.count));
+
+  const handlePublish = async () => {
+    if (!confirm(`Publish ${drafts.length} grade(s)? Students will be notified and later changes will need a reason.`)) return;
+
+    setPublishing(true);
+    const result = await GradingService.publishAssignmentGrades(assignment.id, courseTitle);
+    setPublishing(false);
+
+    alert(result.message);
+    if (result.success) onPublished(drafts.map(g => g.id));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start overflow-auto justify-center z-50 pt-12 pb-12 px-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center text-lg font-semibold text-gray-900">
+            <Send className="w-5 h-5 mr-2" /> Publish Grades · {assignment.title}
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading grades...</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-center">
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">Graded</p>
+                <p className="text-xl font-semibold text-gray-900">{grades.length}</p>
+              </div>
+              <div className="bg-yellow-50 rounded-lg p-3">
+                <p className="text-xs text-yellow-700">Drafts</p>
+                <p className="text-xl font-semibold text-yellow-900">{drafts.length}</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">Mean</p>
+                <p className="text-xl font-semibold text-gray-900">{mean.toFixed(1)}%</p>
+              </div>
+              <div className="bg-gray-50 rounded-lg p-3">
+                <p className="text-xs text-gray-500">Median</p>
+                <p className="text-xl font-semibold text-gray-900">{median.toFixed(1)}%</p>
+              </div>
+            </div>
+            {percentages.length > 0 && (
+              <p className="text-sm text-gray-600">
+                Lowest {percentages[0]}% · highest {percentages[percentages.length - 1]}%
+                {grades.length > counted.length && ` · ${grades.length - counted.length} excused`}
+              </p>
+            )}
+
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-gray-700">Distribution ({scale?.name})</p>
+              {bandCounts.map(band => (
+                <div key={band.label} className="flex items-center space-x-2 text-sm">
+                  <span className="w-24 text-gray-700">{band.label}</span>
+                  <div className="flex-grow bg-gray-100 rounded h-4">
+                    <div className="bg-blue-500 h-4 rounded" style={{ width: `${(band.count / largestBand) * 100}%` }} />
+                  </div>
+                  <span className="w-8 text-right text-gray-600">{band.count}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-3 border-t">
+              <button onClick={onClose} className="px-4 py-2 border rounded hover:bg-gray-100 transition">
+                Close
+              </button>
+              <button
+                onClick={handlePublish}
+                disabled={publishing || drafts.length === 0}
+                className="flex items-center px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition disabled:opacity-50"
+              >
+                <Send className="w-4 h-4 mr-1" /> {publishing ? 'Publishing...' : `Publish ${drafts.length} Grade(s)`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GradePublishReview;
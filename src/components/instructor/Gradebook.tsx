@@ -0,0 +1,210 @@
+import React, { useState, useEffect } from 'react';
+import { FileSpreadsheet, Download, Upload, AlertTriangle } from 'lucide-react';
+import { collection, getDocs, query, orderBy } from 'firebase/firestore';
+import { db } from '../../lib/firebase';
+import GradebookService, { Gradebook as GradebookData } from '../../services/gradebookService';
+import { GRADE_CATEGORY_LABELS } from '../../services/gradingService';
+import GradebookImport from './GradebookImport';
+
+interface CourseOption {
+  id: string;
+  title: string;
+}
+
+const typeStyles: { [type: string]: string } = {
+  assignment: 'text-blue-700',
+  quiz: 'text-purple-700',
+  exam: 'text-red-700'
+};
+
+const Gradebook: React.FC = () => {
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [selectedCourseId, setSelectedCourseId] = useState('');
+  const [gradebook, setGradebook] = useState<GradebookData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+
+  // Fetch courses for the selector
+  useEffect(() => {
+    const fetchCourses = async () => {
+      try {
+        const snapshot = await getDocs(query(collection(db, 'courses'), orderBy('createdAt', 'desc')));
+        const courseList = snapshot.docs.map(courseDoc => ({
+          id: courseDoc.id,
+          title: courseDoc.data().title || 'Untitled course'
+        }));
+        setCourses(courseList);
+        if (courseList.length > 0) setSelectedCourseId(courseList[0].id);
+      } catch (error) {
+        console.error('Error fetching courses:', error);
+      }
+    };
+
+    fetchCourses();
+  }, []);
+
+  const fetchGradebook = async (courseId: string) => {
+    if (!courseId) return;
+
+    setLoading(true);
+    setGradebook(await GradebookService.getGradebook(courseId));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchGradebook(selectedCourseId);
+  }, [selectedCourseId]);
+
+  const courseTitle = courses.find(c => c.id === selectedCourseId)?.title || '';
+
+  // Grade types the course's weights leave out of every student's total
+  const uncategorizedTypes = [...new Set(
+    (gradebook?.rows || []).flatMap(row => row.stats.uncategorizedTypes)
+  )];
+
+  const handleExport = () => {
+    if (!gradebook) return;
+
+    const blob = new Blob([GradebookService.toCSV(gradebook)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `gradebook-${courseTitle.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || selectedCourseId}-${Date.now()}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Gradebook</h2>
+            <p className="text-sm text-gray-600">Every student's marks for the course, with their course total</p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <select
+              value={selectedCourseId}
+              onChange={e => setSelectedCourseId(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              {courses.map(course => (
+                <option key={course.id} value={course.id}>{course.title}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleExport}
+              disabled={!gradebook || gradebook.rows.length === 0}
+              className="flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-1" /> Export CSV
+            </button>
+            <button
+              onClick={() => setShowImport(true)}
+              disabled={!gradebook || gradebook.columns.length === 0}
+              className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Upload className="w-4 h-4 mr-1" /> Import CSV
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {uncategorizedTypes.length > 0 && (
+        <div className="flex items-start space-x-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>
+            {uncategorizedTypes.map(type => GRADE_CATEGORY_LABELS[type]).join(', ')} have no weight in this course's
+            grade weights, so they are left out of the totals. Give them a weight in the course settings.
+          </span>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : !gradebook || gradebook.rows.length === 0 ? (
+          <div className="text-center py-12 px-4">
+            <FileSpreadsheet className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 text-sm">No students are enrolled in this course yet.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto max-h-[70vh]">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500 sticky left-0 bg-gray-50">Student</th>
+                  {gradebook.columns.map(column => (
+                    <th key={column.key} className="px-3 py-2 text-center font-medium text-gray-500 whitespace-nowrap">
+                      <span className="block max-w-[10rem] truncate text-gray-900" title={column.title}>{column.title}</span>
+                      <span className={`text-xs capitalize ${typeStyles[column.type] || 'text-gray-500'}`}>
+                        {column.type} · /{column.maxPoints}
+                      </span>
+                    </th>
+                  ))}
+                  <th className="px-3 py-2 text-center font-medium text-gray-500 whitespace-nowrap">Points</th>
+                  <th className="px-3 py-2 text-center font-medium text-gray-500 whitespace-nowrap">Course %</th>
+                  <th className="px-3 py-2 text-center font-medium text-gray-500">Letter</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {gradebook.rows.map(row => (
+                  <tr key={row.studentId} className="hover:bg-gray-50">
+                    <td className="px-4 py-2 sticky left-0 bg-white">
+                      <p className="font-medium text-gray-900 whitespace-nowrap">{row.name}</p>
+                      {row.email && <p className="text-xs text-gray-500">{row.email}</p>}
+                    </td>
+                    {gradebook.columns.map(column => {
+                      const grade = row.cells[column.key];
+                      return (
+                        <td
+                          key={column.key}
+                          title={grade && !grade.isPublished ? 'Draft: not yet visible to the student' : undefined}
+                          className={`px-3 py-2 text-center whitespace-nowrap ${
+                            !grade ? 'text-gray-300'
+                              : grade.isExcused ? 'text-gray-400 line-through'
+                                : !grade.isPublished ? 'bg-yellow-50 text-yellow-900 italic' : 'text-gray-900'
+                          }`}
+                        >
+                          {grade ? grade.points : '–'}
+                        </td>
+                      );
+                    })}
+                    <td className="px-3 py-2 text-center text-gray-700 whitespace-nowrap">
+                      {row.stats.totalPoints}/{row.stats.maxTotalPoints}
+                    </td>
+                    <td className="px-3 py-2 text-center font-medium text-gray-900">{row.stats.averagePercentage}%</td>
+                    <td className="px-3 py-2 text-center font-medium text-gray-900">{row.stats.letterGrade}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+      {gradebook && gradebook.rows.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Highlighted cells are drafts; struck-through cells are excused. Totals apply the course's weights, drop rules and grading scale.
+        </p>
+      )}
+
+      {showImport && gradebook && (
+        <GradebookImport
+          gradebook={gradebook}
+          courseTitle={courseTitle}
+          onClose={() => setShowImport(false)}
+          onImported={() => {
+            setShowImport(false);
+            fetchGradebook(selectedCourseId);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default Gradebook;
@@ -0,0 +1,221 @@
+import React, { useState } from 'react';
+import { Upload, AlertTriangle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import GradebookService, {
+  Gradebook,
+  ImportPreview,
+  ImportTarget
+} from '../../services/gradebookService';
+
+interface GradebookImportProps {
+  gradebook: Gradebook;
+  courseTitle: string;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const actionStyles: { [action: string]: string } = {
+  add: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-gray-100 text-gray-600'
+};
+
+const GradebookImport: React.FC<GradebookImportProps> = ({ gradebook, courseTitle, onClose, onImported }) => {
+  const { user } = useAuth();
+  const [fileName, setFileName] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ImportTarget[]>([]);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [changeReason, setChangeReason] = useState('');
+  const [importing, setImporting] = useState(false);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    const rows = GradebookService.parseCSV(await file.text());
+    if (rows.length < 2) {
+      alert('The file needs a header row and at least one student.');
+      return;
+    }
+
+    setFileName(file.name);
+    setCsvRows(rows);
+    setMapping(GradebookService.suggestMapping(rows[0], gradebook));
+    setPreview(null);
+  };
+
+  const updateMapping = (index: number, target: ImportTarget) => {
+    setMapping(current => current.map((value, i) => i === index ? target : value));
+    setPreview(null);
+  };
+
+  const pending = preview ? preview.changes.filter(c => c.action !== 'unchanged') : [];
+  const changesPublished = pending.some(c => c.previous?.isPublished);
+
+  const handleImport = async () => {
+    if (!preview || !user?.id) return;
+    if (changesPublished && !changeReason.trim()) {
+      alert('Please give a reason for changing published grades.');
+      return;
+    }
+    if (!confirm(`Import ${pending.length} grade(s)? New assignment grades are saved as drafts.`)) return;
+
+    setImporting(true);
+    const result = await GradebookService.applyImport(gradebook, preview.changes, user.id, courseTitle, changeReason.trim());
+    setImporting(false);
+
+    alert([result.message, ...result.failed.map(f => `Row ${f.rowNumber}: ${f.message}`)].join('\n'));
+    if (result.success || result.failed.length < pending.length) onImported();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start overflow-auto justify-center z-50 pt-12 pb-12 px-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center text-lg font-semibold text-gray-900">
+            <Upload className="w-5 h-5 mr-2" /> Import Grades · {courseTitle}
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        {/* Step 1: file */}
+        <label className="block text-sm text-gray-700">
+          CSV file (an exported gradebook works as a template)
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={e => handleFile(e.target.files?.[0])}
+            className="block w-full text-sm mt-1"
+          />
+        </label>
+
+        {/* Step 2: column mapping */}
+        {csvRows.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">
+              Columns in {fileName} ({csvRows.length - 1} row{csvRows.length === 2 ? '' : 's'})
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {csvRows[0].map((header, index) => (
+                <div key={index} className="flex items-center space-x-2 text-sm">
+                  <span className="w-1/2 truncate text-gray-800" title={header}>{header || `Column ${index + 1}`}</span>
+                  <select
+                    value={mapping[index] || ''}
+                    onChange={e => updateMapping(index, e.target.value)}
+                    className="w-1/2 border border-gray-300 rounded px-2 py-1"
+                  >
+                    <option value="">Ignore</option>
+                    <optgroup label="Student">
+                      <option value="student:email">Email</option>
+                      <option value="student:id">Student ID</option>
+                      <option value="student:name">Name</option>
+                    </optgroup>
+                    <optgroup label="Grade column">
+                      {gradebook.columns.map(column => (
+                        <option key={column.key} value={column.key}>{GradebookService.getColumnHeader(column)}</option>
+                      ))}
+                    </optgroup>
+                  </select>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <button
+                onClick={() => setPreview(GradebookService.previewImport(gradebook, csvRows, mapping))}
+                className="px-4 py-2 border border-blue-600 text-blue-700 rounded hover:bg-blue-50 transition text-sm"
+              >
+                Preview Changes
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Step 3: dry run */}
+        {preview && (
+          <div className="space-y-3 border-t pt-4">
+            <p className="text-sm text-gray-700">
+              {preview.changes.filter(c => c.action === 'add').length} new ·{' '}
+              {preview.changes.filter(c => c.action === 'update').length} changed ·{' '}
+              {preview.changes.filter(c => c.action === 'unchanged').length} unchanged ·{' '}
+              {preview.problems.length} problem{preview.problems.length === 1 ? '' : 's'}. Nothing has been saved yet.
+            </p>
+
+            {preview.problems.length > 0 && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800 space-y-1 max-h-40 overflow-y-auto">
+                <p className="flex items-center font-medium">
+                  <AlertTriangle className="w-4 h-4 mr-1" /> These rows will be skipped
+                </p>
+                {preview.problems.map((problem, index) => (
+                  <p key={index}>Row {problem.rowNumber}: {problem.message}</p>
+                ))}
+              </div>
+            )}
+
+            {pending.length > 0 && (
+              <div className="overflow-x-auto max-h-80 border border-gray-200 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Row</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Student</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Column</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Current</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">New</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {pending.map(change => (
+                      <tr key={`${change.row.studentId}-${change.column.key}`}>
+                        <td className="px-3 py-2 text-gray-500">{change.rowNumber}</td>
+                        <td className="px-3 py-2 text-gray-900">{change.row.name}</td>
+                        <td className="px-3 py-2 text-gray-700">{change.column.title}</td>
+                        <td className="px-3 py-2 text-gray-500">
+                          {change.previous ? `${change.previous.points}/${change.column.maxPoints}` : '–'}
+                          {change.previous?.isPublished && <span className="ml-1 text-xs text-green-700">published</span>}
+                        </td>
+                        <td className="px-3 py-2 font-medium text-gray-900">{change.points}/{change.column.maxPoints}</td>
+                        <td className="px-3 py-2">
+                          <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${actionStyles[change.action]}`}>
+                            {change.action}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {changesPublished && (
+              <label className="block text-sm text-gray-700">
+                Reason for changing published grades (recorded in the audit log)
+                <input
+                  type="text"
+                  value={changeReason}
+                  onChange={e => setChangeReason(e.target.value)}
+                  className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1"
+                />
+              </label>
+            )}
+
+            <div className="flex justify-end space-x-2 pt-3 border-t">
+              <button onClick={onClose} className="px-4 py-2 border rounded hover:bg-gray-100 transition">
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={importing || pending.length === 0}
+                className="flex items-center px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4 mr-1" /> {importing ? 'Importing...' : `Import ${pending.length} Grade(s)`}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GradebookImport;
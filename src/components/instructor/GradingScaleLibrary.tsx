@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { Award, Plus, Trash2, Save, Copy } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import GradingScaleService, { GradingScale, GradeBand } from '../../services/gradingScaleService';
+
+interface GradingScaleLibraryProps {
+  onClose: () => void;
+}
+
+// Editable copy of a scale; id is empty until it is saved
+type ScaleDraft = Pick<GradingScale, 'id' | 'name' | 'description' | 'bands' | 'countsTowardGPA'>;
+
+const GradingScaleLibrary: React.FC<GradingScaleLibraryProps> = ({ onClose }) => {
+  const { user } = useAuth();
+  const [scales, setScales] = useState<GradingScale[]>([]);
+  const [draft, setDraft] = useState<ScaleDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchScales = async () => {
+    setLoading(true);
+    setScales(await GradingScaleService.getScales());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchScales();
+  }, []);
+
+  // Admins can change any custom scale, instructors only their own
+  const canEdit = (scale: GradingScale) =>
+    !scale.isBuiltIn && (user?.role === 'admin' || scale.createdBy === user?.id);
+
+  const updateBand = (index: number, changes: Partial<GradeBand>) => {
+    if (!draft) return;
+    setDraft({ ...draft, bands: draft.bands.map((band, i) => i === index ? { ...band, ...changes } : band) });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !user?.id) return;
+    if (!draft.name.trim()) {
+      alert('A grading scale needs a name.');
+      return;
+    }
+
+    setSaving(true);
+    const scaleData = {
+      name: draft.name.trim(),
+      description: draft.description,
+      bands: [...draft.bands]
+        .map(band => ({ ...band, label: band.label.trim() }))
+        .sort((a, b) => b.minPercentage - a.minPercentage),
+      countsTowardGPA: draft.countsTowardGPA
+    };
+    const result = draft.id
+      ? await GradingScaleService.updateScale(draft.id, scaleData, user.id)
+      : await GradingScaleService.createScale({ ...scaleData, createdBy: user.id });
+    setSaving(false);
+
+    if (result.success) {
+      // Edits report how many grades were re-lettered
+      if (draft.id) alert(result.message);
+      setDraft(null);
+      fetchScales();
+    } else {
+      alert(result.message);
+    }
+  };
+
+  const handleDelete = async (scale: GradingScale) => {
+    if (!user?.id) return;
+    if (!confirm(`Delete "${scale.name}"? Courses using it will fall back to the institution default.`)) return;
+
+    const result = await GradingScaleService.deleteScale(scale.id, user.id);
+    alert(result.message);
+    if (result.success) fetchScales();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start overflow-auto justify-center z-50 pt-12 pb-12 px-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center text-lg font-semibold text-gray-900">
+            <Award className="w-5 h-5 mr-2" /> Grading Scales
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        {!draft ? (
+          <>
+            <button
+              onClick={() => setDraft({
+                id: '',
+                name: '',
+                description: '',
+                bands: [
+                  { label: 'Pass', minPercentage: 50, gpaPoints: 4 },
+                  { label: 'Fail', minPercentage: 0, gpaPoints: 0 }
+                ],
+                countsTowardGPA: true
+              })}
+              className="flex items-center px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4 mr-1" /> New Scale
+            </button>
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading grading scales...</p>
+            ) : (
+              <div className="space-y-2">
+                {scales.map(scale => (
+                  <div key={scale.id} className="flex items-center justify-between border rounded p-3 bg-gray-50">
+                    <div>
+                      <p className="font-medium text-gray-900">
+                        {scale.name}
+                        {scale.isBuiltIn && <span className="ml-2 text-xs text-gray-500">(built-in)</span>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {scale.bands.map(band => `${band.label} ≥${band.minPercentage}%`).join(' · ')}
+                        {!scale.countsTowardGPA && ' · not counted in GPA'}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-3 text-sm">
+                      {canEdit(scale) && (
+                        <button onClick={() => setDraft(scale)} className="text-blue-600 hover:text-blue-800">Edit</button>
+                      )}
+                      <button
+                        onClick={() => setDraft({ ...scale, id: '', name: `${scale.name} (copy)` })}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="Duplicate"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                      {canEdit(scale) && (
+                        <button onClick={() => handleDelete(scale)} className="text-red-600 hover:text-red-800" title="Delete">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="space-y-4">
+            <input
+              type="text"
+              placeholder="Scale name"
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              className="w-full border border-gray-300 rounded px-3 py-2"
+            />
+            <textarea
+              placeholder="Description (optional)"
+              value={draft.description}
+              onChange={e => setDraft({ ...draft, description: e.target.value })}
+              className="w-full border border-gray-300 rounded px-3 py-2 resize-y"
+            />
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.countsTowardGPA}
+                onChange={e => setDraft({ ...draft, countsTowardGPA: e.target.checked })}
+                className="mr-2"
+              />
+              Count courses on this scale toward GPA
+            </label>
+
+            <div className="border rounded p-3 bg-gray-50 space-y-2">
+              <div className="grid grid-cols-4 gap-2 text-xs font-medium text-gray-600">
+                <span>Label</span>
+                <span>From (%)</span>
+                <span>GPA points</span>
+                <span />
+              </div>
+              {draft.bands.map((band, index) => (
+                <div key={index} className="grid grid-cols-4 gap-2 items-center">
+                  <input
+                    type="text"
+                    placeholder="e.g. A or Merit"
+                    value={band.label}
+                    onChange={e => updateBand(index, { label: e.target.value })}
+                    className="border border-gray-300 rounded px-2 py-1 text-sm"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={band.minPercentage}
+                    onChange={e => updateBand(index, { minPercentage: Math.min(100, Math.max(0, Number(e.target.value))) })}
+                    className="border border-gray-300 rounded px-2 py-1 text-sm"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    value={band.gpaPoints}
+                    onChange={e => updateBand(index, { gpaPoints: Math.max(0, Number(e.target.value)) })}
+                    disabled={!draft.countsTowardGPA}
+                    className="border border-gray-300 rounded px-2 py-1 text-sm disabled:bg-gray-100"
+                  />
+                  <button
+                    onClick={() => setDraft({ ...draft, bands: draft.bands.filter((_, i) => i !== index) })}
+                    className="justify-self-start text-red-600 hover:text-red-800"
+                    title="Remove band"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() => setDraft({ ...draft, bands: [...draft.bands, { label: '', minPercentage: 0, gpaPoints: 0 }] })}
+                className="text-blue-600 hover:text-blue-800 text-xs"
+              >
+                + Add Band
+              </button>
+              <p className="text-xs text-gray-500">
+                A percentage earns the highest band it reaches. One band must start at 0%.
+              </p>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-3 border-t">
+              <button onClick={() => setDraft(null)} className="px-4 py-2 border rounded hover:bg-gray-100 transition">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex items-center px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition disabled:opacity-50"
+              >
+                <Save className="w-4 h-4 mr-1" /> {saving ? 'Saving...' : 'Save Scale'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GradingScaleLibrary;
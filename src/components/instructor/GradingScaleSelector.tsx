@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { Award } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import GradingScaleService, { GradingScale } from '../../services/gradingScaleService';
+import GradingScaleLibrary from './GradingScaleLibrary';
+
+interface GradingScaleSelectorProps {
+  courseId: string;
+}
+
+const GradingScaleSelector: React.FC<GradingScaleSelectorProps> = ({ courseId }) => {
+  const { user } = useAuth();
+  const [scales, setScales] = useState<GradingScale[]>([]);
+  const [scaleId, setScaleId] = useState(''); // '' follows the institution default
+  const [defaultScaleId, setDefaultScaleId] = useState('');
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchScales = async (id: string) => {
+    const [allScales, institutionDefault, courseScaleId] = await Promise.all([
+      GradingScaleService.getScales(),
+      GradingScaleService.getInstitutionDefaultScaleId(),
+      GradingScaleService.getCourseScaleId(id)
+    ]);
+    setScales(allScales);
+    setDefaultScaleId(institutionDefault);
+    setScaleId(courseScaleId);
+  };
+
+  useEffect(() => {
+    fetchScales(courseId);
+  }, [courseId]);
+
+  const handleSave = async () => {
+    if (!user?.id) return;
+
+    setSaving(true);
+    const result = await GradingScaleService.setCourseScale(courseId, scaleId, user.id);
+    setSaving(false);
+
+    alert(result.message);
+  };
+
+  const defaultScale = scales.find(scale => scale.id === defaultScaleId);
+  const selected = scaleId ? scales.find(scale => scale.id === scaleId) : defaultScale;
+
+  return (
+    <div>
+      <h4 className="text-md font-semibold flex items-center mb-2">
+        <Award className="w-4 h-4 mr-1" /> Grading Scale
+      </h4>
+      <div className="border rounded p-3 bg-gray-50 space-y-2">
+        <div className="flex items-center space-x-2">
+          <select
+            value={scaleId}
+            onChange={e => setScaleId(e.target.value)}
+            className="flex-grow border border-gray-300 rounded px-2 py-1 text-sm"
+          >
+            <option value="">
+              Institution default{defaultScale ? ` (${defaultScale.name})` : ''}
+            </option>
+            {scales.map(scale => (
+              <option key={scale.id} value={scale.id}>{scale.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setShowLibrary(true)}
+            className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+          >
+            Manage Scales
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Scale'}
+          </button>
+        </div>
+        {selected && (
+          <p className="text-xs text-gray-500">
+            {selected.bands.map(band => selected.countsTowardGPA
+              ? `${band.label} ≥${band.minPercentage}% (${band.gpaPoints.toFixed(1)})`
+              : `${band.label} ≥${band.minPercentage}%`
+            ).join(' · ')}
+            {!selected.countsTowardGPA && ' · not counted in GPA'}
+          </p>
+        )}
+        <p className="text-xs text-gray-500">
+          Saving re-letters every grade already recorded in this course.
+        </p>
+      </div>
+
+      {showLibrary && (
+        <GradingScaleLibrary
+          onClose={() => {
+            setShowLibrary(false);
+            fetchScales(courseId);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default GradingScaleSelector;
@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { Scale } from 'lucide-react';
+import GradingService, { Grade, GradeCategoryRule, GRADE_CATEGORY_LABELS } from '../../services/gradingService';
+
+interface GradingSchemeEditorProps {
+  courseId: string;
+}
+
+const categoryTypes = Object.keys(GRADE_CATEGORY_LABELS) as Grade['type'][];
+
+const GradingSchemeEditor: React.FC<GradingSchemeEditorProps> = ({ courseId }) => {
+  const [rules, setRules] = useState<GradeCategoryRule[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchScheme = async () => {
+      const scheme = await GradingService.getGradingScheme(courseId);
+      setRules(categoryTypes.map(type =>
+        scheme.categories.find(c => c.type === type) || { type, weight: 0, dropLowest: 0 }
+      ));
+    };
+
+    fetchScheme();
+  }, [courseId]);
+
+  const updateRule = (type: Grade['type'], changes: Partial<GradeCategoryRule>) => {
+    setRules(current => current.map(rule => rule.type === type ? { ...rule, ...changes } : rule));
+  };
+
+  const totalWeight = rules.reduce((sum, rule) => sum + rule.weight, 0);
+
+  const handleSave = async () => {
+    setSaving(true);
+    // No weights at all means every grade counts by its points
+    const result = await GradingService.setGradingScheme(courseId, {
+      categories: totalWeight > 0 ? rules.filter(rule => rule.weight > 0) : []
+    });
+    setSaving(false);
+
+    alert(result.message);
+  };
+
+  return (
+    <div>
+      <h4 className="text-md font-semibold flex items-center mb-2">
+        <Scale className="w-4 h-4 mr-1" /> Grade Weights
+      </h4>
+      <div className="border rounded p-3 bg-gray-50 space-y-2">
+        <p className="text-xs text-gray-500">
+          Leave every weight at 0 to count all grades by points. With weights, every type of grade the course
+          already has needs one. Excused grades never count.
+        </p>
+        <div className="grid grid-cols-3 gap-2 text-xs font-medium text-gray-600">
+          <span>Category</span>
+          <span>Weight (%)</span>
+          <span>Drop lowest</span>
+        </div>
+        {rules.map(rule => (
+          <div key={rule.type} className="grid grid-cols-3 gap-2 items-center">
+            <span className="text-sm text-gray-800">{GRADE_CATEGORY_LABELS[rule.type]}</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              value={rule.weight}
+              onChange={e => updateRule(rule.type, { weight: Math.min(100, Math.max(0, Number(e.target.value))) })}
+              className="border border-gray-300 rounded px-2 py-1 text-sm"
+            />
+            <input
+              type="number"
+              min={0}
+              value={rule.dropLowest}
+              onChange={e => updateRule(rule.type, { dropLowest: Math.max(0, Math.floor(Number(e.target.value))) })}
+              disabled={rule.weight === 0}
+              className="border border-gray-300 rounded px-2 py-1 text-sm disabled:bg-gray-100"
+            />
+          </div>
+        ))}
+        <div className="flex items-center justify-between pt-2 border-t">
+          <span className={`text-sm ${totalWeight === 0 || totalWeight === 100 ? 'text-gray-600' : 'text-red-600'}`}>
+            Total: {totalWeight}%
+          </span>
+          <button
+            onClick={handleSave}
+            disabled={saving || (totalWeight !== 0 && totalWeight !== 100)}
+            className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Weights'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GradingSchemeEditor;
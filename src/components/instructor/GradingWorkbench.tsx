@@ -0,0 +1,816 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  ClipboardCheck,
+  ChevronUp,
+  ChevronDown,
+  Paperclip,
+  Clock,
+  AlertCircle,
+  CheckCircle,
+  FileText,
+  Copy,
+  Send
+} from 'lucide-react';
+import { collection, getDocs, getDoc, doc, query, orderBy, Timestamp } from 'firebase/firestore';
+import { db } from '../../lib/firebase';
+import { useAuth } from '../../contexts/AuthContext';
+import AssignmentService, { Assignment, AssignmentSubmission, SubmissionVersion } from '../../services/assignmentService';
+import EnrollmentService from '../../services/enrollmentService';
+import GradingService from '../../services/gradingService';
+import RubricService, { Rubric } from '../../services/rubricService';
+import GradePublishReview from './GradePublishReview';
+import LatePolicyService, { LateEvaluation, LatePolicy } from '../../services/latePolicyService';
+import SimilarityService, {
+  SimilarityDocument,
+  SimilarityPassage,
+  SIMILARITY_CHECKED_TYPES
+} from '../../services/similarityService';
+
+interface CourseOption {
+  id: string;
+  title: string;
+}
+
+// One student's work on one assignment; submission is null when nothing was handed in
+interface QueueItem {
+  key: string;
+  assignment: Assignment;
+  studentId: string;
+  submission: AssignmentSubmission | null;
+  dueDate: Timestamp; // the student's extended due date when they have one
+  isExtended: boolean;
+  policy: LatePolicy;
+  lateEvaluation: LateEvaluation | null; // for the latest version
+  isLate: boolean;
+  isMissing: boolean;
+  isGraded: boolean;
+}
+
+type QueueFilter = 'all' | 'ungraded' | 'late' | 'missing';
+
+type RubricSelections = { [criterionId: string]: { levelId: string; comment: string } };
+
+// Split text into plain and highlighted runs for the overlapping passages
+const highlightPassages = (text: string, passages: SimilarityPassage[], labels: { [documentId: string]: string }) => {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  passages.forEach(passage => {
+    if (passage.start > cursor) parts.push(text.slice(cursor, passage.start));
+    parts.push(
+      <mark
+        key={passage.start}
+        className="bg-yellow-200 rounded-sm"
+        title={`Also in: ${passage.documentIds.map(id => labels[id] || id).join(', ')}`}
+      >
+        {text.slice(passage.start, passage.end)}
+      </mark>
+    );
+    cursor = passage.end;
+  });
+  parts.push(text.slice(cursor));
+  return parts;
+};
+
+const isImageUrl = (url: string) => /\.(png|jpe?g|gif|webp|svg)(\?|$)/i.test(url);
+
+// Recover the file name from a Storage download URL
+const getAttachmentName = (url: string) => {
+  const path = decodeURIComponent(url.split('/o/')[1]?.split('?')[0] || url);
+  return path.split('/').pop() || url;
+};
+
+const GradingWorkbench: React.FC = () => {
+  const { user } = useAuth();
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [selectedCourseId, setSelectedCourseId] = useState('');
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [selectedAssignmentId, setSelectedAssignmentId] = useState('all');
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [studentNames, setStudentNames] = useState<{ [studentId: string]: string }>({});
+  const [filter, setFilter] = useState<QueueFilter>('ungraded');
+  const [loading, setLoading] = useState(false);
+
+  // Grading panel state
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [points, setPoints] = useState('');
+  const [feedback, setFeedback] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [rubrics, setRubrics] = useState<{ [rubricId: string]: Rubric }>({});
+  const [rubricSelections, setRubricSelections] = useState<RubricSelections>({});
+  const [versions, setVersions] = useState<{ [submissionId: string]: SubmissionVersion[] }>({});
+  const [selectedAttempt, setSelectedAttempt] = useState(1);
+  const [compareAttempt, setCompareAttempt] = useState(0); // 0 = no diff shown
+  const [excusedGradeIds, setExcusedGradeIds] = useState<string[]>([]);
+  const [publishedGradeIds, setPublishedGradeIds] = useState<string[]>([]);
+  const [showPublishReview, setShowPublishReview] = useState(false);
+  const [earlierOfferings, setEarlierOfferings] = useState<{ [assignmentId: string]: SimilarityDocument[] }>({});
+  const pointsInputRef = useRef<HTMLInputElement>(null);
+
+  // Fetch courses for the selector
+  useEffect(() => {
+    const fetchCourses = async () => {
+      try {
+        const snapshot = await getDocs(query(collection(db, 'courses'), orderBy('createdAt', 'desc')));
+        const courseList = snapshot.docs.map(courseDoc => ({
+          id: courseDoc.id,
+          title: courseDoc.data().title || 'Untitled course'
+        }));
+        setCourses(courseList);
+        if (courseList.length > 0) setSelectedCourseId(courseList[0].id);
+      } catch (error) {
+        console.error('Error fetching courses:', error);
+      }
+    };
+
+    fetchCourses();
+  }, []);
+
+  // Build the queue: every enrolled student for every published assignment
+  const fetchQueue = async (courseId: string) => {
+    setLoading(true);
+    const [courseAssignments, submissions, enrollments, extensions, coursePolicy, assignmentGrades] = await Promise.all([
+      AssignmentService.getAllCourseAssignments(courseId),
+      AssignmentService.getCourseSubmissions(courseId),
+      EnrollmentService.getCourseEnrollments(courseId),
+      LatePolicyService.getCourseExtensions(courseId),
+      LatePolicyService.getCoursePolicy(courseId),
+      GradingService.getCourseGrades(courseId, 'assignment')
+    ]);
+    const published = courseAssignments.filter(a => a.isPublished);
+    const now = Date.now();
+
+    const items: QueueItem[] = [];
+    published.forEach(assignment => {
+      const policy = assignment.latePolicy || coursePolicy;
+      const studentIds = new Set([
+        ...enrollments.map(e => e.userId),
+        ...submissions.filter(s => s.assignmentId === assignment.id).map(s => s.studentId)
+      ]);
+
+      studentIds.forEach(studentId => {
+        const submission = submissions.find(s => s.assignmentId === assignment.id && s.studentId === studentId) || null;
+        const extension = extensions.find(e => e.assignmentId === assignment.id && e.studentId === studentId);
+        const dueDate = extension?.dueDate || assignment.dueDate;
+        const isMissing = submission ? submission.status === 'missing' : (dueDate?.toMillis?.() || 0) < now;
+        const lateEvaluation = submission && submission.status !== 'missing' && submission.submittedAt && dueDate
+          ? LatePolicyService.evaluate(policy, dueDate, submission.submittedAt)
+          : null;
+
+        // Students who can still submit on time are not in the queue yet
+        if (!submission && !isMissing) return;
+
+        items.push({
+          key: `${assignment.id}:${studentId}`,
+          assignment,
+          studentId,
+          submission,
+          dueDate,
+          isExtended: !!extension,
+          policy,
+          lateEvaluation,
+          isMissing,
+          isLate: !!lateEvaluation?.isLate,
+          // A resubmission after grading goes back to the ungraded pile
+          isGraded: submission?.grade !== undefined && submission?.grade !== null &&
+            (submission.status === 'graded' || submission.status === 'missing')
+        });
+      });
+    });
+
+    const names: { [studentId: string]: string } = {};
+    await Promise.all(
+      [...new Set(items.map(item => item.studentId))].map(async studentId => {
+        try {
+          const userDoc = await getDoc(doc(db, 'users', studentId));
+          names[studentId] = userDoc.exists() ? userDoc.data().name || userDoc.data().email : studentId;
+        } catch (error) {
+          console.error('Error fetching student:', error);
+          names[studentId] = studentId;
+        }
+      })
+    );
+
+    const rubricMap: { [rubricId: string]: Rubric } = {};
+    await Promise.all(
+      [...new Set(published.map(a => a.rubricId).filter((id): id is string => !!id))].map(async rubricId => {
+        const rubric = await RubricService.getRubric(rubricId);
+        if (rubric) rubricMap[rubricId] = rubric;
+      })
+    );
+
+    setAssignments(published);
+    setExcusedGradeIds(assignmentGrades.filter(g => g.isExcused).map(g => g.id));
+    setPublishedGradeIds(assignmentGrades.filter(g => g.isPublished).map(g => g.id));
+    setRubrics(rubricMap);
+    setStudentNames(names);
+    setQueue(items.sort((a, b) =>
+      (a.assignment.dueDate?.toMillis?.() || 0) - (b.assignment.dueDate?.toMillis?.() || 0) ||
+      (names[a.studentId] || '').localeCompare(names[b.studentId] || '')
+    ));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (selectedCourseId) {
+      setSelectedAssignmentId('all');
+      setSelectedKey(null);
+      fetchQueue(selectedCourseId);
+    }
+  }, [selectedCourseId]);
+
+  const visibleQueue = queue
+    .filter(item => selectedAssignmentId === 'all' || item.assignment.id === selectedAssignmentId)
+    .filter(item => {
+      if (filter === 'ungraded') return !item.isGraded;
+      if (filter === 'late') return item.isLate;
+      if (filter === 'missing') return item.isMissing;
+      return true;
+    });
+
+  const selectedIndex = visibleQueue.findIndex(item => item.key === selectedKey);
+  const selectedItem = selectedIndex >= 0 ? visibleQueue[selectedIndex] : null;
+  const itemVersions = selectedItem?.submission ? versions[selectedItem.submission.id] || [] : [];
+  const selectedVersion = itemVersions.find(v => v.attempt === selectedAttempt) || itemVersions[itemVersions.length - 1];
+  const compareVersion = itemVersions.find(v => v.attempt === compareAttempt);
+  const selectedLateEvaluation = selectedItem && selectedVersion?.submittedAt
+    ? LatePolicyService.evaluate(selectedItem.policy, selectedItem.dueDate, selectedVersion.submittedAt)
+    : selectedItem?.lateEvaluation;
+  // Compare the version being graded with classmates' submissions and earlier offerings
+  const similarityReport = useMemo(() => {
+    if (!selectedItem || !SIMILARITY_CHECKED_TYPES.includes(selectedItem.assignment.type)) return null;
+    const text = selectedVersion?.content ?? selectedItem.submission?.content ?? '';
+    if (!text.trim()) return null;
+
+    const corpus: SimilarityDocument[] = [
+      ...queue.flatMap(item =>
+        item.assignment.id === selectedItem.assignment.id && item.studentId !== selectedItem.studentId &&
+          item.submission?.content?.trim()
+          ? [{
+              id: item.submission.id,
+              label: studentNames[item.studentId] || item.studentId,
+              source: 'same-assignment' as const,
+              text: item.submission.content
+            }]
+          : []
+      ),
+      ...(earlierOfferings[selectedItem.assignment.id] || [])
+    ];
+    const report = SimilarityService.compare(text, corpus);
+    const labels: { [documentId: string]: string } = {};
+    corpus.forEach(document => { labels[document.id] = document.label; });
+    return { ...report, text, labels };
+  }, [selectedItem, selectedVersion, queue, studentNames, earlierOfferings]);
+
+  const selectedRubric = selectedItem?.assignment.rubricId ? rubrics[selectedItem.assignment.rubricId] : undefined;
+
+  // Rubric points scaled to the assignment's max points, in case the rubric changed after it was attached
+  const getRubricPoints = (rubric: Rubric, selections: RubricSelections, maxPoints: number) => {
+    const earned = rubric.criteria.reduce((total, criterion) =>
+      total + (criterion.levels.find(l => l.id === selections[criterion.id]?.levelId)?.points || 0), 0);
+    const rubricMax = RubricService.getMaxPoints(rubric);
+    return rubricMax > 0 ? Math.round((earned / rubricMax) * maxPoints * 100) / 100 : 0;
+  };
+
+  const selectLevel = (criterionId: string, levelId: string) => {
+    const selections = {
+      ...rubricSelections,
+      [criterionId]: { comment: rubricSelections[criterionId]?.comment || '', levelId }
+    };
+    setRubricSelections(selections);
+    if (selectedItem && selectedRubric) {
+      setPoints(String(getRubricPoints(selectedRubric, selections, selectedItem.assignment.maxPoints)));
+    }
+  };
+
+  const selectItem = (item: QueueItem | undefined) => {
+    if (!item) return;
+    setSelectedKey(item.key);
+    // Regrading starts from the points given before any late penalty
+    const awarded = item.submission?.latePenalty?.originalPoints ?? item.submission?.grade;
+    setPoints(awarded !== undefined ? String(awarded) : '');
+    setFeedback(item.submission?.feedback || '');
+
+    const selections: RubricSelections = {};
+    item.submission?.rubricAssessment?.criteria.forEach(criterion => {
+      selections[criterion.criterionId] = { levelId: criterion.levelId, comment: criterion.comment };
+    });
+    setRubricSelections(selections);
+
+    // Grade the version graded before, otherwise the latest one
+    const submission = item.submission;
+    setSelectedAttempt(submission?.gradedAttempt || submission?.attemptCount || 1);
+    setCompareAttempt(0);
+    if (submission && submission.status !== 'missing' && !versions[submission.id]) {
+      AssignmentService.getSubmissionVersions(submission).then(submissionVersions =>
+        setVersions(current => ({ ...current, [submission.id]: submissionVersions }))
+      );
+    }
+    if (SIMILARITY_CHECKED_TYPES.includes(item.assignment.type) && !earlierOfferings[item.assignment.id]) {
+      SimilarityService.getEarlierOfferingDocuments(item.assignment).then(documents =>
+        setEarlierOfferings(current => ({ ...current, [item.assignment.id]: documents }))
+      );
+    }
+  };
+
+  const moveSelection = (offset: number) => {
+    if (visibleQueue.length === 0) return;
+    const nextIndex = selectedIndex < 0
+      ? 0
+      : Math.min(visibleQueue.length - 1, Math.max(0, selectedIndex + offset));
+    selectItem(visibleQueue[nextIndex]);
+  };
+
+  // Students have already seen a published grade, so changing it needs a reason; null = cancelled
+  const askChangeReason = (): string | null => {
+    const reason = prompt('This grade is published. Why is it changing?');
+    if (reason === null) return null;
+    if (!reason.trim()) {
+      alert('A reason is required to change a published grade.');
+      return null;
+    }
+    return reason.trim();
+  };
+
+  const toggleExcused = async (gradeId: string) => {
+    if (!user?.id) return;
+    const isExcused = !excusedGradeIds.includes(gradeId);
+    let reason = '';
+    if (publishedGradeIds.includes(gradeId)) {
+      const answer = askChangeReason();
+      if (answer === null) return;
+      reason = answer;
+    }
+
+    const result = await GradingService.setGradeExcused(gradeId, isExcused, { reason, changedBy: user.id });
+    if (result.success) {
+      setExcusedGradeIds(current => isExcused ? [...current, gradeId] : current.filter(id => id !== gradeId));
+    } else {
+      alert(result.message);
+    }
+  };
+
+  const handleSave = async (advance: boolean) => {
+    if (!selectedItem || !user?.id) return;
+
+    const rubricAssessment = selectedRubric
+      ? RubricService.buildAssessment(selectedRubric, rubricSelections)
+      : undefined;
+    if (selectedRubric && !rubricAssessment) {
+      alert('Select a level for every rubric criterion.');
+      return;
+    }
+
+    const score = Number(points);
+    if (points.trim() === '' || isNaN(score)) {
+      alert('Please enter the points awarded.');
+      return;
+    }
+
+    let changeReason = '';
+    const submission = selectedItem.submission;
+    const previousPoints = submission?.latePenalty?.originalPoints ?? submission?.grade;
+    if (submission?.gradeId && publishedGradeIds.includes(submission.gradeId) &&
+      (score !== previousPoints || feedback !== (submission.feedback || ''))) {
+      const answer = askChangeReason();
+      if (answer === null) return;
+      changeReason = answer;
+    }
+
+    setSaving(true);
+    const result = await AssignmentService.gradeSubmission({
+      assignment: selectedItem.assignment,
+      studentId: selectedItem.studentId,
+      submission: selectedItem.submission,
+      points: score,
+      feedback,
+      gradedBy: user.id,
+      courseTitle: courses.find(c => c.id === selectedCourseId)?.title || '',
+      ...(rubricAssessment ? { rubricAssessment } : {}),
+      ...(selectedVersion ? { version: selectedVersion } : {}),
+      ...(changeReason ? { changeReason } : {})
+    });
+    setSaving(false);
+
+    if (!result.success) {
+      alert(result.message);
+      return;
+    }
+
+    // Update the queue in place so the grader keeps their position
+    const gradedSubmission: AssignmentSubmission = {
+      id: result.submissionId || '',
+      assignmentId: selectedItem.assignment.id,
+      studentId: selectedItem.studentId,
+      courseId: selectedItem.assignment.courseId,
+      content: '',
+      attachments: [],
+      ...selectedItem.submission,
+      submittedAt: selectedItem.submission?.submittedAt || selectedItem.assignment.dueDate,
+      status: selectedItem.submission?.status === 'missing' || !selectedItem.submission ? 'missing' : 'graded',
+      grade: result.points ?? score,
+      feedback,
+      gradeId: result.gradeId,
+      latePenalty: result.latePenalty,
+      ...(selectedVersion ? { gradedAttempt: selectedVersion.attempt } : {}),
+      ...(rubricAssessment ? { rubricAssessment } : {})
+    };
+    setQueue(current => current.map(item =>
+      item.key === selectedItem.key ? { ...item, submission: gradedSubmission, isGraded: true } : item
+    ));
+
+    if (advance) {
+      // The graded item may drop out of an 'ungraded' filter, so pick the next one from the current list
+      selectItem(visibleQueue[selectedIndex + 1] || visibleQueue[selectedIndex - 1]);
+    }
+  };
+
+  // j/k or arrow keys move between students; Ctrl/Cmd+Enter saves and moves on
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key === 'Enter') {
+        e.preventDefault();
+        handleSave(true);
+        return;
+      }
+
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+
+      if (e.key === 'j' || e.key === 'ArrowDown') {
+        e.preventDefault();
+        moveSelection(1);
+      } else if (e.key === 'k' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        moveSelection(-1);
+      } else if (e.key === 'g') {
+        e.preventDefault();
+        pointsInputRef.current?.focus();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const selectedAssignment = assignments.find(a => a.id === selectedAssignmentId);
+  const draftCount = queue.filter(item =>
+    item.assignment.id === selectedAssignmentId && item.submission?.gradeId &&
+    !publishedGradeIds.includes(item.submission.gradeId)
+  ).length;
+
+  const counts = {
+    all: queue.filter(item => selectedAssignmentId === 'all' || item.assignment.id === selectedAssignmentId).length,
+    ungraded: queue.filter(item => (selectedAssignmentId === 'all' || item.assignment.id === selectedAssignmentId) && !item.isGraded).length,
+    late: queue.filter(item => (selectedAssignmentId === 'all' || item.assignment.id === selectedAssignmentId) && item.isLate).length,
+    missing: queue.filter(item => (selectedAssignmentId === 'all' || item.assignment.id === selectedAssignmentId) && item.isMissing).length
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Grading</h2>
+            <p className="text-sm text-gray-600">
+              Use j/k or ↑/↓ to move between students, g to jump to points, Ctrl+Enter to save and continue
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            {selectedAssignment && (
+              <button
+                onClick={() => setShowPublishReview(true)}
+                className="flex items-center px-3 py-2 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 transition-colors"
+              >
+                <Send className="w-4 h-4 mr-1" /> Review & Publish ({draftCount} draft{draftCount === 1 ? '' : 's'})
+              </button>
+            )}
+            <select
+              value={selectedAssignmentId}
+              onChange={e => setSelectedAssignmentId(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="all">All assignments</option>
+              {assignments.map(assignment => (
+                <option key={assignment.id} value={assignment.id}>{assignment.title}</option>
+              ))}
+            </select>
+            <select
+              value={selectedCourseId}
+              onChange={e => setSelectedCourseId(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              {courses.map(course => (
+                <option key={course.id} value={course.id}>{course.title}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <div className="flex space-x-2 mt-4">
+          {(['ungraded', 'late', 'missing', 'all'] as QueueFilter[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setFilter(option)}
+              className={`px-3 py-1 rounded-full text-sm capitalize transition-colors ${
+                filter === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option} ({counts[option]})
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Queue */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden max-h-[70vh] overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : visibleQueue.length === 0 ? (
+            <div className="text-center py-12 px-4">
+              <ClipboardCheck className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600 text-sm">Nothing to grade here.</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {visibleQueue.map(item => (
+                <li key={item.key}>
+                  <button
+                    onClick={() => selectItem(item)}
+                    className={`w-full text-left px-4 py-3 transition-colors ${
+                      item.key === selectedKey ? 'bg-blue-50 border-l-4 border-blue-600' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <p className="font-medium text-gray-900 text-sm">{studentNames[item.studentId] || item.studentId}</p>
+                    <p className="text-xs text-gray-500 truncate">{item.assignment.title}</p>
+                    <div className="flex items-center space-x-2 mt-1">
+                      {item.isGraded && (
+                        <span className="text-xs text-green-700 flex items-center">
+                          <CheckCircle className="w-3 h-3 mr-1" />{item.submission?.grade}/{item.assignment.maxPoints}
+                        </span>
+                      )}
+                      {item.submission?.gradeId && !publishedGradeIds.includes(item.submission.gradeId) && (
+                        <span className="text-xs text-yellow-700">Draft</span>
+                      )}
+                      {item.isLate && (
+                        <span className="text-xs text-orange-700 flex items-center"><Clock className="w-3 h-3 mr-1" />Late</span>
+                      )}
+                      {item.isMissing && (
+                        <span className="text-xs text-red-700 flex items-center"><AlertCircle className="w-3 h-3 mr-1" />Missing</span>
+                      )}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Side-by-side submission and grading panel */}
+        <div className="lg:col-span-3">
+          {!selectedItem ? (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 text-center py-16">
+              <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">Select a submission, or press j to start.</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4 max-h-[70vh] overflow-y-auto">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold text-gray-900">{studentNames[selectedItem.studentId] || selectedItem.studentId}</h3>
+                  <div className="flex items-center space-x-1 text-gray-500">
+                    <button onClick={() => moveSelection(-1)} title="Previous (k)" className="p-1 hover:text-gray-900">
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <span className="text-xs">{selectedIndex + 1} / {visibleQueue.length}</span>
+                    <button onClick={() => moveSelection(1)} title="Next (j)" className="p-1 hover:text-gray-900">
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <p className="text-sm text-gray-600">
+                  {selectedItem.assignment.title} · due {selectedItem.dueDate?.toDate?.().toLocaleString()}
+                  {selectedItem.isExtended && <span className="text-blue-700"> (extended)</span>}
+                </p>
+                {selectedItem.submission && !selectedItem.isMissing ? (
+                  <>
+                    {itemVersions.length > 1 && (
+                      <div className="flex flex-wrap items-center gap-2 text-xs">
+                        <span className="text-gray-600">Version to grade:</span>
+                        {itemVersions.map(version => (
+                          <button
+                            key={version.id}
+                            onClick={() => setSelectedAttempt(version.attempt)}
+                            className={`px-2 py-1 rounded border ${
+                              version.attempt === selectedVersion?.attempt
+                                ? 'bg-blue-600 text-white border-blue-600'
+                                : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                            }`}
+                          >
+                            #{version.attempt}
+                            {version.attempt === selectedItem.submission?.gradedAttempt && ' (graded)'}
+                          </button>
+                        ))}
+                        <select
+                          value={compareAttempt}
+                          onChange={e => setCompareAttempt(Number(e.target.value))}
+                          className="border border-gray-300 rounded px-2 py-1"
+                        >
+                          <option value={0}>No comparison</option>
+                          {itemVersions.filter(v => v.attempt !== selectedVersion?.attempt).map(version => (
+                            <option key={version.id} value={version.attempt}>Diff against #{version.attempt}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                    <p className="text-xs text-gray-500">
+                      {selectedVersion && itemVersions.length > 1 && `Attempt ${selectedVersion.attempt} · `}
+                      Submitted {(selectedVersion?.submittedAt || selectedItem.submission.submittedAt)?.toDate?.().toLocaleString() || '-'}
+                      {selectedLateEvaluation?.isLate && (
+                        <span className="text-orange-700">
+                          {' · '}{selectedLateEvaluation.daysLate} day(s) late
+                          {selectedLateEvaluation.penaltyPercentage > 0 &&
+                            ` · ${selectedLateEvaluation.penaltyPercentage}% penalty applied on save`}
+                        </span>
+                      )}
+                    </p>
+                    {compareVersion && selectedVersion ? (
+                      <div className="border border-gray-200 rounded-lg bg-gray-50 font-mono text-xs overflow-x-auto">
+                        {AssignmentService.diffVersions(compareVersion.content, selectedVersion.content).map((line, index) => (
+                          <div
+                            key={index}
+                            className={`px-3 whitespace-pre-wrap ${
+                              line.type === 'added' ? 'bg-green-100 text-green-900'
+                                : line.type === 'removed' ? 'bg-red-100 text-red-900 line-through'
+                                : 'text-gray-700'
+                            }`}
+                          >
+                            {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{line.text || ' '}
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <>
+                        {similarityReport && (
+                          <div className={`rounded-lg border p-3 text-sm space-y-1 ${
+                            similarityReport.score >= 30 ? 'bg-red-50 border-red-200' : 'bg-gray-50 border-gray-200'
+                          }`}>
+                            <p className="flex items-center font-medium text-gray-900">
+                              <Copy className="w-4 h-4 mr-2" /> Similarity {similarityReport.score}%
+                            </p>
+                            {similarityReport.matches.length === 0 ? (
+                              <p className="text-xs text-gray-600">No overlapping passages with other submissions.</p>
+                            ) : (
+                              <ul className="text-xs text-gray-700 space-y-0.5">
+                                {similarityReport.matches.slice(0, 5).map(match => (
+                                  <li key={match.documentId}>
+                                    {match.score}% · {match.label}
+                                    {match.source === 'same-assignment' && ' (this assignment)'}
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        )}
+                        <div className="border border-gray-200 rounded-lg p-4 bg-gray-50 whitespace-pre-wrap text-sm text-gray-800">
+                          {similarityReport
+                            ? highlightPassages(similarityReport.text, similarityReport.passages, similarityReport.labels)
+                            : (selectedVersion?.content ?? selectedItem.submission.content) || <span className="italic text-gray-500">No written content.</span>}
+                        </div>
+                      </>
+                    )}
+                    {(selectedVersion?.attachments || selectedItem.submission.attachments || []).map(url => (
+                      <div key={url} className="space-y-2">
+                        <a href={url} target="_blank" rel="noopener noreferrer" className="flex items-center text-sm text-blue-600 hover:underline">
+                          <Paperclip className="w-3 h-3 mr-1" />{getAttachmentName(url)}
+                        </a>
+                        {isImageUrl(url) && <img src={url} alt={getAttachmentName(url)} className="max-w-full rounded border" />}
+                      </div>
+                    ))}
+                  </>
+                ) : (
+                  <div className="border border-red-200 rounded-lg p-4 bg-red-50 text-sm text-red-800">
+                    Nothing was submitted before the due date.
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4 h-fit">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-semibold text-gray-900">Grade</h3>
+                  {selectedItem.submission?.gradeId && (
+                    publishedGradeIds.includes(selectedItem.submission.gradeId)
+                      ? <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">Published</span>
+                      : <span className="px-2 py-0.5 rounded-full text-xs bg-yellow-100 text-yellow-800">Draft</span>
+                  )}
+                </div>
+                {selectedRubric && (
+                  <div className="space-y-3">
+                    <p className="text-sm font-medium text-gray-700">{selectedRubric.title}</p>
+                    {selectedRubric.criteria.map(criterion => (
+                      <div key={criterion.id} className="border rounded-lg p-3 space-y-2">
+                        <p className="text-sm font-medium text-gray-900">{criterion.title}</p>
+                        <div className="grid grid-cols-2 gap-2">
+                          {criterion.levels.map(level => (
+                            <button
+                              key={level.id}
+                              onClick={() => selectLevel(criterion.id, level.id)}
+                              title={level.descriptor}
+                              className={`text-left p-2 rounded border text-xs transition-colors ${
+                                rubricSelections[criterion.id]?.levelId === level.id
+                                  ? 'bg-blue-600 text-white border-blue-600'
+                                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                              }`}
+                            >
+                              <span className="font-semibold">{level.label}</span> · {level.points} pts
+                              {level.descriptor && <span className="block opacity-80 mt-0.5">{level.descriptor}</span>}
+                            </button>
+                          ))}
+                        </div>
+                        <input
+                          type="text"
+                          placeholder="Comment (optional)"
+                          value={rubricSelections[criterion.id]?.comment || ''}
+                          onChange={e => setRubricSelections({
+                            ...rubricSelections,
+                            [criterion.id]: { levelId: rubricSelections[criterion.id]?.levelId || '', comment: e.target.value }
+                          })}
+                          className="w-full border border-gray-300 rounded px-2 py-1 text-xs"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <label className="block text-sm text-gray-700">
+                  Points (out of {selectedItem.assignment.maxPoints}){selectedRubric && ' · from rubric'}
+                  <input
+                    ref={pointsInputRef}
+                    type="number"
+                    min={0}
+                    max={selectedItem.assignment.maxPoints}
+                    value={points}
+                    onChange={e => setPoints(e.target.value)}
+                    readOnly={!!selectedRubric}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1 read-only:bg-gray-100"
+                  />
+                </label>
+                <label className="block text-sm text-gray-700">
+                  Feedback
+                  <textarea
+                    value={feedback}
+                    onChange={e => setFeedback(e.target.value)}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1 min-h-[160px] resize-y"
+                  />
+                </label>
+                <div className="flex justify-end items-center space-x-2">
+                  {selectedItem.submission?.gradeId && (
+                    <label
+                      className="flex items-center space-x-1 text-sm text-gray-700 mr-auto"
+                      title="Excused grades are left out of the course grade"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={excusedGradeIds.includes(selectedItem.submission.gradeId)}
+                        onChange={() => selectedItem.submission?.gradeId && toggleExcused(selectedItem.submission.gradeId)}
+                      />
+                      <span>Excused</span>
+                    </label>
+                  )}
+                  <button
+                    onClick={() => handleSave(false)}
+                    disabled={saving}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => handleSave(true)}
+                    disabled={saving}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
+                    {saving ? 'Saving...' : 'Save & Next'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showPublishReview && selectedAssignment && (
+        <GradePublishReview
+          assignment={selectedAssignment}
+          courseTitle={courses.find(c => c.id === selectedCourseId)?.title || ''}
+          onClose={() => setShowPublishReview(false)}
+          onPublished={gradeIds => {
+            setPublishedGradeIds(current => [...current, ...gradeIds]);
+            setShowPublishReview(false);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default GradingWorkbench;
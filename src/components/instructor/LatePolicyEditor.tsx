@@ -0,0 +1,64 @@
+import React from 'react';
+import { LatePolicy } from '../../services/latePolicyService';
+
+interface LatePolicyEditorProps {
+  policy: LatePolicy;
+  onChange: (policy: LatePolicy) => void;
+}
+
+const LatePolicyEditor: React.FC<LatePolicyEditorProps> = ({ policy, onChange }) => {
+  const update = (changes: Partial<LatePolicy>) => onChange({ ...policy, ...changes });
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={policy.acceptLate}
+          onChange={e => update({ acceptLate: e.target.checked })}
+        />
+        <span>Accept late submissions</span>
+      </label>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <label className="text-xs text-gray-600">
+          Grace period (min)
+          <input
+            type="number"
+            min={0}
+            value={policy.graceMinutes}
+            onChange={e => update({ graceMinutes: Math.max(0, Number(e.target.value)) })}
+            className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+          />
+        </label>
+        {policy.acceptLate && (
+          <>
+            <label className="text-xs text-gray-600">
+              Deduction per day late (%)
+              <input
+                type="number"
+                min={0}
+                max={100}
+                value={policy.penaltyPerDay}
+                onChange={e => update({ penaltyPerDay: Math.min(100, Math.max(0, Number(e.target.value))) })}
+                className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+              />
+            </label>
+            <label className="text-xs text-gray-600">
+              Hard cutoff (days late, 0 = none)
+              <input
+                type="number"
+                min={0}
+                value={policy.cutoffDays}
+                onChange={e => update({ cutoffDays: Math.max(0, Number(e.target.value)) })}
+                className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+              />
+            </label>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LatePolicyEditor;
@@ -0,0 +1,320 @@
+import React from 'react';
+import { Mail, Flag } from 'lucide-react';
+import {
+  PhishingSimulation,
+  PhishingAction,
+  PHISHING_ACTION_LABELS
+} from '../../services/phishingService';
+import { DEFAULT_PASSING_SCORE } from '../../services/quizService';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+interface PhishingSimEditorProps {
+  simulation: PhishingSimulation;
+  onChange: (simulation: PhishingSimulation) => void;
+}
+
+const PhishingSimEditor: React.FC<PhishingSimEditorProps> = ({ simulation, onChange }) => {
+  const update = (changes: Partial<PhishingSimulation>) => onChange({ ...simulation, ...changes });
+
+  const getIndicator = (elementId: string) => simulation.indicators.find(i => i.elementId === elementId);
+
+  // Mark or unmark an email element as a suspicious indicator
+  const toggleIndicator = (elementId: string) => {
+    update({
+      indicators: getIndicator(elementId)
+        ? simulation.indicators.filter(i => i.elementId !== elementId)
+        : [...simulation.indicators, { elementId, explanation: '' }]
+    });
+  };
+
+  const updateExplanation = (elementId: string, explanation: string) => {
+    update({
+      indicators: simulation.indicators.map(i => i.elementId === elementId ? { ...i, explanation } : i)
+    });
+  };
+
+  // Removing an element also removes its indicator
+  const withoutIndicator = (elementId: string) => simulation.indicators.filter(i => i.elementId !== elementId);
+
+  // Suspicious checkbox and explanation shown next to each element
+  const renderIndicatorControls = (elementId: string) => {
+    const indicator = getIndicator(elementId);
+    return (
+      <div className="flex items-center space-x-2 mt-1">
+        <label className="flex items-center space-x-1 text-xs text-red-700 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={!!indicator}
+            onChange={() => toggleIndicator(elementId)}
+          />
+          <Flag className="w-3 h-3" />
+          <span>Suspicious</span>
+        </label>
+        {indicator && (
+          <input
+            type="text"
+            placeholder="Why is this suspicious? (shown after submission)"
+            value={indicator.explanation}
+            onChange={e => updateExplanation(elementId, e.target.value)}
+            className="flex-grow border border-red-200 rounded px-2 py-0.5 text-xs"
+          />
+        )}
+      </div>
+    );
+  };
+
+  const bodyLines = simulation.body.split('\n');
+
+  return (
+    <div className="space-y-3">
+      <p className="flex items-center text-sm font-semibold text-gray-700">
+        <Mail className="w-4 h-4 mr-1" /> Phishing email simulation
+      </p>
+
+      {/* Envelope */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        <div>
+          <input
+            type="text"
+            placeholder="Sender name (e.g. IT Support)"
+            value={simulation.fromName}
+            onChange={e => update({ fromName: e.target.value })}
+            className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+          />
+          <input
+            type="text"
+            placeholder="Sender address (e.g. support@paypa1.com)"
+            value={simulation.fromAddress}
+            onChange={e => update({ fromAddress: e.target.value })}
+            className="w-full border border-gray-300 rounded px-2 py-1 text-sm mt-1"
+          />
+          {renderIndicatorControls('from')}
+        </div>
+        <div>
+          <input
+            type="text"
+            placeholder="Reply-To (optional)"
+            value={simulation.replyTo}
+            onChange={e => update({ replyTo: e.target.value })}
+            className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+          />
+          {simulation.replyTo && renderIndicatorControls('replyTo')}
+          <div className="grid grid-cols-2 gap-1 mt-1">
+            <input
+              type="text"
+              placeholder="To"
+              value={simulation.to}
+              onChange={e => update({ to: e.target.value })}
+              className="border border-gray-300 rounded px-2 py-1 text-sm"
+            />
+            <input
+              type="text"
+              placeholder="Date (e.g. Mon, 3 Mar 2025 08:14)"
+              value={simulation.sentAt}
+              onChange={e => update({ sentAt: e.target.value })}
+              className="border border-gray-300 rounded px-2 py-1 text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <input
+          type="text"
+          placeholder="Subject"
+          value={simulation.subject}
+          onChange={e => update({ subject: e.target.value })}
+          className="w-full border border-gray-300 rounded px-2 py-1 text-sm"
+        />
+        {renderIndicatorControls('subject')}
+      </div>
+
+      {/* Headers */}
+      <div>
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-semibold text-gray-600">Technical headers</span>
+          <button
+            onClick={() => update({ headers: [...simulation.headers, { id: generateId(), name: '', value: '' }] })}
+            className="text-blue-600 hover:text-blue-800 text-xs"
+          >
+            + Add Header
+          </button>
+        </div>
+        {simulation.headers.map(header => (
+          <div key={header.id} className="mb-1">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                placeholder="Name (e.g. Received-SPF)"
+                value={header.name}
+                onChange={e => update({
+                  headers: simulation.headers.map(h => h.id === header.id ? { ...h, name: e.target.value } : h)
+                })}
+                className="w-1/3 border border-gray-300 rounded px-2 py-1 text-xs font-mono"
+              />
+              <input
+                type="text"
+                placeholder="Value (e.g. fail)"
+                value={header.value}
+                onChange={e => update({
+                  headers: simulation.headers.map(h => h.id === header.id ? { ...h, value: e.target.value } : h)
+                })}
+                className="flex-grow border border-gray-300 rounded px-2 py-1 text-xs font-mono"
+              />
+              <button
+                onClick={() => update({
+                  headers: simulation.headers.filter(h => h.id !== header.id),
+                  indicators: withoutIndicator(`header:${header.id}`)
+                })}
+                className="text-red-600 hover:text-red-800 text-xs"
+                title="Remove header"
+              >
+                ✕
+              </button>
+            </div>
+            {renderIndicatorControls(`header:${header.id}`)}
+          </div>
+        ))}
+      </div>
+
+      {/* Body */}
+      <div>
+        <span className="text-xs font-semibold text-gray-600">Body</span>
+        <textarea
+          placeholder="Write the email body. Each line can be marked as suspicious below."
+          value={simulation.body}
+          onChange={e => update({ body: e.target.value })}
+          className="w-full border border-gray-300 rounded px-3 py-2 text-sm resize-y min-h-[120px]"
+        />
+        {bodyLines.some(line => line.trim()) && (
+          <div className="ml-2 space-y-1">
+            <p className="text-xs text-gray-500">Mark suspicious lines. Editing the body renumbers its lines, so check these again afterwards.</p>
+            {bodyLines.map((line, index) => line.trim() && (
+              <div key={index}>
+                <p className="text-xs text-gray-700 truncate">{index + 1}. {line}</p>
+                {renderIndicatorControls(`body:${index}`)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Links */}
+      <div>
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-semibold text-gray-600">Links</span>
+          <button
+            onClick={() => update({ links: [...simulation.links, { id: generateId(), text: '', url: '' }] })}
+            className="text-blue-600 hover:text-blue-800 text-xs"
+          >
+            + Add Link
+          </button>
+        </div>
+        {simulation.links.map(link => (
+          <div key={link.id} className="mb-1">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                placeholder="Displayed text (e.g. Verify your account)"
+                value={link.text}
+                onChange={e => update({
+                  links: simulation.links.map(l => l.id === link.id ? { ...l, text: e.target.value } : l)
+                })}
+                className="w-1/2 border border-gray-300 rounded px-2 py-1 text-xs"
+              />
+              <input
+                type="text"
+                placeholder="Real URL (shown on hover)"
+                value={link.url}
+                onChange={e => update({
+                  links: simulation.links.map(l => l.id === link.id ? { ...l, url: e.target.value } : l)
+                })}
+                className="flex-grow border border-gray-300 rounded px-2 py-1 text-xs font-mono"
+              />
+              <button
+                onClick={() => update({
+                  links: simulation.links.filter(l => l.id !== link.id),
+                  indicators: withoutIndicator(`link:${link.id}`)
+                })}
+                className="text-red-600 hover:text-red-800 text-xs"
+                title="Remove link"
+              >
+                ✕
+              </button>
+            </div>
+            {renderIndicatorControls(`link:${link.id}`)}
+          </div>
+        ))}
+      </div>
+
+      {/* Attachments */}
+      <div>
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-semibold text-gray-600">Attachments</span>
+          <button
+            onClick={() => update({ attachments: [...simulation.attachments, { id: generateId(), name: '' }] })}
+            className="text-blue-600 hover:text-blue-800 text-xs"
+          >
+            + Add Attachment
+          </button>
+        </div>
+        {simulation.attachments.map(attachment => (
+          <div key={attachment.id} className="mb-1">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                placeholder="File name (e.g. invoice.pdf.exe)"
+                value={attachment.name}
+                onChange={e => update({
+                  attachments: simulation.attachments.map(a => a.id === attachment.id ? { ...a, name: e.target.value } : a)
+                })}
+                className="flex-grow border border-gray-300 rounded px-2 py-1 text-xs font-mono"
+              />
+              <button
+                onClick={() => update({
+                  attachments: simulation.attachments.filter(a => a.id !== attachment.id),
+                  indicators: withoutIndicator(`attachment:${attachment.id}`)
+                })}
+                className="text-red-600 hover:text-red-800 text-xs"
+                title="Remove attachment"
+              >
+                ✕
+              </button>
+            </div>
+            {renderIndicatorControls(`attachment:${attachment.id}`)}
+          </div>
+        ))}
+      </div>
+
+      {/* Expected action and passing score */}
+      <div className="flex flex-wrap items-center gap-3 border-t border-gray-200 pt-2">
+        <span className="text-xs font-semibold text-gray-600">Correct action</span>
+        {(Object.keys(PHISHING_ACTION_LABELS) as PhishingAction[]).map(action => (
+          <label key={action} className="flex items-center space-x-1 text-xs text-gray-700">
+            <input
+              type="radio"
+              checked={simulation.correctAction === action}
+              onChange={() => update({ correctAction: action })}
+            />
+            <span>{PHISHING_ACTION_LABELS[action]}</span>
+          </label>
+        ))}
+        <label className="flex items-center space-x-1 text-xs text-gray-600 ml-auto">
+          <span>Passing score (%)</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={simulation.passingScore ?? DEFAULT_PASSING_SCORE}
+            onChange={e => update({ passingScore: Math.min(100, Math.max(0, Number(e.target.value))) })}
+            className="w-16 border border-gray-300 rounded px-2 py-0.5 text-xs"
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">{simulation.indicators.length} suspicious indicator(s) marked.</p>
+    </div>
+  );
+};
+
+export default PhishingSimEditor;
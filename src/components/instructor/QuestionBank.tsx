@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Save, Database } from 'lucide-react';
+import QuestionBankService, { BankQuestion, Difficulty, DIFFICULTIES } from '../../services/questionBankService';
+import QuestionEditor from './QuestionEditor';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+interface QuestionBankProps {
+  courseId: string;
+  courseTitle: string;
+  modules: { id: string; title: string }[];
+  onClose: () => void;
+}
+
+const QuestionBank: React.FC<QuestionBankProps> = ({ courseId, courseTitle, modules, onClose }) => {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [unsavedIds, setUnsavedIds] = useState<string[]>([]);
+  const [savingId, setSavingId] = useState<string | null>(null);
+
+  // Filters
+  const [moduleFilter, setModuleFilter] = useState('all');
+  const [difficultyFilter, setDifficultyFilter] = useState<'all' | Difficulty>('all');
+
+  useEffect(() => {
+    const fetchQuestions = async () => {
+      setLoading(true);
+      setQuestions(await QuestionBankService.getCourseQuestions(courseId));
+      setLoading(false);
+    };
+
+    fetchQuestions();
+  }, [courseId]);
+
+  const getModuleTitle = (moduleId: string) => {
+    const index = modules.findIndex(m => m.id === moduleId);
+    if (index === -1) return 'Whole course';
+    return modules[index].title || `Module ${index + 1}`;
+  };
+
+  // Edit a question locally until it is saved
+  const updateLocalQuestion = (question: BankQuestion) => {
+    setQuestions(questions.map(q => q.id === question.id ? question : q));
+    if (!unsavedIds.includes(question.id)) {
+      setUnsavedIds([...unsavedIds, question.id]);
+    }
+  };
+
+  // Create a blank question in the bank, tagged with the current filters
+  const handleAddQuestion = async () => {
+    const questionData = {
+      courseId,
+      moduleId: moduleFilter === 'all' ? '' : moduleFilter,
+      difficulty: difficultyFilter === 'all' ? 'medium' as Difficulty : difficultyFilter,
+      type: 'multiple-choice' as const,
+      question: '',
+      options: [{ id: generateId(), text: '', isCorrect: false }],
+      points: 1
+    };
+
+    const result = await QuestionBankService.addQuestion(questionData);
+    if (result.success && result.questionId) {
+      setQuestions([
+        ...questions,
+        { ...questionData, id: result.questionId } as BankQuestion
+      ]);
+    } else {
+      alert(result.message);
+    }
+  };
+
+  const handleSaveQuestion = async (question: BankQuestion) => {
+    setSavingId(question.id);
+    const result = await QuestionBankService.updateQuestion(question.id, {
+      type: question.type,
+      question: question.question,
+      options: question.options,
+      points: question.points,
+      topic: question.topic,
+      acceptedAnswers: question.acceptedAnswers,
+      items: question.items,
+      pairs: question.pairs,
+      moduleId: question.moduleId,
+      difficulty: question.difficulty
+    });
+    setSavingId(null);
+
+    if (result.success) {
+      setUnsavedIds(unsavedIds.filter(id => id !== question.id));
+    } else {
+      alert(result.message);
+    }
+  };
+
+  const handleDeleteQuestion = async (questionId: string) => {
+    if (!confirm('Delete this question from the bank? Quizzes will no longer draw it.')) return;
+
+    const result = await QuestionBankService.deleteQuestion(questionId);
+    if (result.success) {
+      setQuestions(questions.filter(q => q.id !== questionId));
+      setUnsavedIds(unsavedIds.filter(id => id !== questionId));
+    } else {
+      alert(result.message);
+    }
+  };
+
+  const filteredQuestions = questions.filter(q =>
+    (moduleFilter === 'all' || q.moduleId === moduleFilter) &&
+    (difficultyFilter === 'all' || q.difficulty === difficultyFilter)
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start overflow-auto justify-center z-50 pt-12 pb-12 px-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-2xl font-bold text-gray-900 flex items-center">
+              <Database className="w-6 h-6 mr-2 text-blue-600" /> Question Bank
+            </h3>
+            <p className="text-sm text-gray-600">{courseTitle} · {questions.length} questions</p>
+          </div>
+          <button
+            onClick={() => {
+              if (unsavedIds.length > 0 && !confirm('You have unsaved questions. Close anyway?')) return;
+              onClose();
+            }}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <select
+            value={moduleFilter}
+            onChange={e => setModuleFilter(e.target.value)}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          >
+            <option value="all">All modules</option>
+            <option value="">Whole course (untagged)</option>
+            {modules.map((m, mi) => (
+              <option key={m.id} value={m.id}>{m.title || `Module ${mi + 1}`}</option>
+            ))}
+          </select>
+          <select
+            value={difficultyFilter}
+            onChange={e => setDifficultyFilter(e.target.value as 'all' | Difficulty)}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          >
+            <option value="all">All difficulties</option>
+            {DIFFICULTIES.map(d => (
+              <option key={d} value={d}>{d}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleAddQuestion}
+            className="ml-auto flex items-center px-3 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm"
+          >
+            <Plus className="w-4 h-4 mr-1" /> Add Question
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+          </div>
+        ) : filteredQuestions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-12">No questions match these filters.</p>
+        ) : (
+          <div className="space-y-3">
+            {filteredQuestions.map((q, qi) => (
+              <div key={q.id} className="border rounded-lg p-3">
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  <select
+                    value={q.moduleId}
+                    onChange={e => updateLocalQuestion({ ...q, moduleId: e.target.value })}
+                    className="border border-gray-300 rounded px-2 py-1 text-xs"
+                  >
+                    <option value="">Whole course</option>
+                    {modules.map((m, mi) => (
+                      <option key={m.id} value={m.id}>{m.title || `Module ${mi + 1}`}</option>
+                    ))}
+                  </select>
+                  <select
+                    value={q.difficulty}
+                    onChange={e => updateLocalQuestion({ ...q, difficulty: e.target.value as Difficulty })}
+                    className="border border-gray-300 rounded px-2 py-1 text-xs"
+                  >
+                    {DIFFICULTIES.map(d => (
+                      <option key={d} value={d}>{d}</option>
+                    ))}
+                  </select>
+                  <span className="text-xs text-gray-500">{getModuleTitle(q.moduleId)} · {q.difficulty}</span>
+                  {unsavedIds.includes(q.id) && (
+                    <button
+                      onClick={() => handleSaveQuestion(q)}
+                      disabled={savingId === q.id}
+                      className="ml-auto flex items-center px-2 py-1 bg-green-600 text-white rounded hover:bg-green-700 transition-colors text-xs disabled:opacity-50"
+                    >
+                      <Save className="w-3 h-3 mr-1" /> {savingId === q.id ? 'Saving...' : 'Save'}
+                    </button>
+                  )}
+                </div>
+                <QuestionEditor
+                  question={q}
+                  index={qi}
+                  onChange={question => updateLocalQuestion({ ...q, ...question })}
+                  onRemove={() => handleDeleteQuestion(q.id)}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionBank;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Shuffle } from 'lucide-react';
+import { QuestionDraw, Difficulty, DIFFICULTIES } from '../../services/questionBankService';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+interface QuestionDrawEditorProps {
+  draws: QuestionDraw[];
+  modules: { id: string; title: string }[];
+  onChange: (draws: QuestionDraw[]) => void;
+}
+
+const QuestionDrawEditor: React.FC<QuestionDrawEditorProps> = ({ draws, modules, onChange }) => {
+  const updateDraw = (drawId: string, changes: Partial<QuestionDraw>) => {
+    onChange(draws.map(d => d.id === drawId ? { ...d, ...changes } : d));
+  };
+
+  // Firestore rejects undefined fields, so "any" tags are removed rather than cleared
+  const setDrawTag = (draw: QuestionDraw, key: 'moduleId' | 'difficulty', value: string) => {
+    const updated = { ...draw };
+    if (value) {
+      updated[key] = value as Difficulty;
+    } else {
+      delete updated[key];
+    }
+    onChange(draws.map(d => d.id === draw.id ? updated : d));
+  };
+
+  return (
+    <div className="mt-2 border-t border-gray-200 pt-2">
+      <div className="flex items-center justify-between mb-1">
+        <span className="flex items-center text-xs font-semibold text-gray-700">
+          <Shuffle className="w-3 h-3 mr-1" /> Random questions from the question bank
+        </span>
+        <button
+          onClick={() => onChange([...draws, { id: generateId(), count: 1 }])}
+          className="text-blue-600 hover:text-blue-800 text-xs"
+        >
+          + Add Draw
+        </button>
+      </div>
+      {draws.length === 0 && (
+        <p className="text-xs text-gray-500">No random draws. Every student sees the questions above.</p>
+      )}
+      {draws.map(draw => (
+        <div key={draw.id} className="flex items-center space-x-2 mb-1">
+          <span className="text-xs text-gray-600">Draw</span>
+          <input
+            type="number"
+            min={1}
+            value={draw.count}
+            onChange={e => updateDraw(draw.id, { count: Math.max(1, Number(e.target.value)) })}
+            className="w-14 border border-gray-300 rounded px-2 py-0.5 text-xs"
+          />
+          <select
+            value={draw.difficulty || ''}
+            onChange={e => setDrawTag(draw, 'difficulty', e.target.value)}
+            className="border border-gray-300 rounded px-2 py-0.5 text-xs"
+          >
+            <option value="">any difficulty</option>
+            {DIFFICULTIES.map(d => (
+              <option key={d} value={d}>{d}</option>
+            ))}
+          </select>
+          <span className="text-xs text-gray-600">from</span>
+          <select
+            value={draw.moduleId || ''}
+            onChange={e => setDrawTag(draw, 'moduleId', e.target.value)}
+            className="border border-gray-300 rounded px-2 py-0.5 text-xs flex-grow"
+          >
+            <option value="">any module</option>
+            {modules.map((m, mi) => (
+              <option key={m.id} value={m.id}>{m.title || `Module ${mi + 1}`}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onChange(draws.filter(d => d.id !== draw.id))}
+            className="text-red-600 hover:text-red-800 text-xs"
+            title="Remove draw"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default QuestionDrawEditor;
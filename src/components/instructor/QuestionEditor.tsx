@@ -0,0 +1,307 @@
+import React from 'react';
+import { ArrowUp, ArrowDown } from 'lucide-react';
+import QuizService, { QuizQuestion, QuestionType } from '../../services/quizService';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+const questionTypes: { value: QuestionType; label: string }[] = [
+  { value: 'multiple-choice', label: 'Multiple choice' },
+  { value: 'true-false', label: 'True / False' },
+  { value: 'multi-select', label: 'Multi-select (partial credit)' },
+  { value: 'short-answer', label: 'Short answer' },
+  { value: 'ordering', label: 'Ordering' },
+  { value: 'matching', label: 'Matching' },
+];
+
+// Switch a question to another type, seeding the fields that type needs
+const convertQuestionType = (question: QuizQuestion, type: QuestionType): QuizQuestion => {
+  const base = { ...question, type };
+
+  switch (type) {
+    case 'true-false':
+      return {
+        ...base,
+        options: [
+          { id: generateId(), text: 'True', isCorrect: true },
+          { id: generateId(), text: 'False', isCorrect: false },
+        ],
+      };
+    case 'multiple-choice': {
+      // Multiple choice has a single correct option; keep the first one that was marked
+      const options = question.options.length > 0 && QuizService.getQuestionType(question) !== 'true-false'
+        ? question.options
+        : [{ id: generateId(), text: '', isCorrect: false }];
+      const correctId = options.find(o => o.isCorrect)?.id;
+      return { ...base, options: options.map(o => ({ ...o, isCorrect: o.id === correctId })) };
+    }
+    case 'multi-select':
+      return {
+        ...base,
+        options: question.options.length > 0 && QuizService.getQuestionType(question) !== 'true-false'
+          ? question.options
+          : [{ id: generateId(), text: '', isCorrect: false }],
+      };
+    case 'short-answer':
+      return { ...base, options: [], acceptedAnswers: question.acceptedAnswers || [''] };
+    case 'ordering':
+      return {
+        ...base,
+        options: [],
+        items: question.items || [
+          { id: generateId(), text: '' },
+          { id: generateId(), text: '' },
+        ],
+      };
+    case 'matching':
+      return {
+        ...base,
+        options: [],
+        pairs: question.pairs || [
+          { id: generateId(), left: '', right: '' },
+          { id: generateId(), left: '', right: '' },
+        ],
+      };
+    default:
+      return base;
+  }
+};
+
+interface QuestionEditorProps {
+  question: QuizQuestion;
+  index: number;
+  onChange: (question: QuizQuestion) => void;
+  onRemove: () => void;
+}
+
+const QuestionEditor: React.FC<QuestionEditorProps> = ({ question, index, onChange, onRemove }) => {
+  const type = QuizService.getQuestionType(question);
+
+  const update = (changes: Partial<QuizQuestion>) => onChange({ ...question, ...changes });
+
+  // --- Choice options ---
+
+  const updateOptionText = (optionId: string, text: string) => {
+    update({ options: question.options.map(o => o.id === optionId ? { ...o, text } : o) });
+  };
+
+  const isSingleAnswer = type === 'true-false' || type === 'multiple-choice';
+
+  const toggleOptionCorrect = (optionId: string) => {
+    // Single-answer types keep exactly one correct option
+    update({
+      options: question.options.map(o => {
+        if (o.id === optionId) return { ...o, isCorrect: isSingleAnswer ? true : !o.isCorrect };
+        return isSingleAnswer ? { ...o, isCorrect: false } : o;
+      })
+    });
+  };
+
+  const addOption = () => {
+    update({ options: [...question.options, { id: generateId(), text: '', isCorrect: false }] });
+  };
+
+  const removeOption = (optionId: string) => {
+    update({ options: question.options.filter(o => o.id !== optionId) });
+  };
+
+  // --- Ordering items ---
+
+  const moveItem = (itemIndex: number, direction: -1 | 1) => {
+    const items = [...(question.items || [])];
+    const target = itemIndex + direction;
+    if (target < 0 || target >= items.length) return;
+    [items[itemIndex], items[target]] = [items[target], items[itemIndex]];
+    update({ items });
+  };
+
+  return (
+    <div className="border rounded p-2 mb-2 bg-gray-100 relative">
+      <button
+        onClick={onRemove}
+        className="absolute top-1 right-1 text-red-600 hover:text-red-800 text-xs"
+        title="Remove question"
+      >
+        ✕
+      </button>
+
+      <div className="flex items-center space-x-2 mb-2 pr-6">
+        <select
+          value={type}
+          onChange={e => onChange(convertQuestionType(question, e.target.value as QuestionType))}
+          className="border border-gray-300 rounded px-2 py-1 text-xs"
+        >
+          {questionTypes.map(t => (
+            <option key={t.value} value={t.value}>{t.label}</option>
+          ))}
+        </select>
+        <label className="text-xs text-gray-600">Points</label>
+        <input
+          type="number"
+          min={1}
+          value={question.points ?? 1}
+          onChange={e => update({ points: Math.max(1, Number(e.target.value)) })}
+          className="w-16 border border-gray-300 rounded px-2 py-1 text-xs"
+        />
+      </div>
+
+      <input
+        type="text"
+        placeholder={`Question ${index + 1}`}
+        value={question.question}
+        onChange={e => update({ question: e.target.value })}
+        className="w-full border border-gray-300 rounded px-2 py-1 mb-2"
+      />
+      <input
+        type="text"
+        placeholder="Topic to review if missed (optional)"
+        value={question.topic || ''}
+        onChange={e => update({ topic: e.target.value })}
+        className="w-full border border-gray-300 rounded px-2 py-1 mb-2 text-xs"
+      />
+
+      {/* Choice-based questions */}
+      {(type === 'multiple-choice' || type === 'multi-select' || type === 'true-false') && (
+        <div className="ml-2">
+          {question.options.map((opt, oi) => (
+            <div key={opt.id} className="flex items-center mb-1 space-x-2">
+              <input
+                type={isSingleAnswer ? 'radio' : 'checkbox'}
+                name={`correct-${question.id}`}
+                checked={opt.isCorrect}
+                onChange={() => toggleOptionCorrect(opt.id)}
+              />
+              {type === 'true-false' ? (
+                <span className="text-sm">{opt.text}</span>
+              ) : (
+                <>
+                  <input
+                    type="text"
+                    placeholder={`Option ${oi + 1}`}
+                    value={opt.text}
+                    onChange={e => updateOptionText(opt.id, e.target.value)}
+                    className="border border-gray-300 rounded px-2 py-1 flex-grow"
+                  />
+                  <button
+                    onClick={() => removeOption(opt.id)}
+                    className="text-red-600 hover:text-red-800"
+                    title="Remove option"
+                  >
+                    ✕
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+          {type !== 'true-false' && (
+            <button
+              onClick={addOption}
+              className="text-blue-600 hover:text-blue-800 text-xs"
+            >
+              + Add Option
+            </button>
+          )}
+        </div>
+      )}
+
+      {/* Short answer */}
+      {type === 'short-answer' && (
+        <div className="ml-2">
+          <label className="block text-xs text-gray-600 mb-1">
+            Accepted answers, one per line. Matching ignores case; wrap a line in /slashes/ for a regex pattern.
+          </label>
+          <textarea
+            rows={3}
+            value={(question.acceptedAnswers || []).join('\n')}
+            onChange={e => update({ acceptedAnswers: e.target.value.split('\n') })}
+            className="w-full border border-gray-300 rounded px-2 py-1 text-sm font-mono"
+          />
+        </div>
+      )}
+
+      {/* Ordering */}
+      {type === 'ordering' && (
+        <div className="ml-2">
+          <p className="text-xs text-gray-600 mb-1">List the items in the correct order. Students see them shuffled.</p>
+          {(question.items || []).map((item, ii) => (
+            <div key={item.id} className="flex items-center mb-1 space-x-2">
+              <span className="text-xs text-gray-500 w-4">{ii + 1}.</span>
+              <input
+                type="text"
+                placeholder={`Step ${ii + 1}`}
+                value={item.text}
+                onChange={e => update({
+                  items: (question.items || []).map(i => i.id === item.id ? { ...i, text: e.target.value } : i)
+                })}
+                className="border border-gray-300 rounded px-2 py-1 flex-grow"
+              />
+              <button onClick={() => moveItem(ii, -1)} className="text-gray-500 hover:text-gray-800" title="Move up">
+                <ArrowUp className="w-3 h-3" />
+              </button>
+              <button onClick={() => moveItem(ii, 1)} className="text-gray-500 hover:text-gray-800" title="Move down">
+                <ArrowDown className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => update({ items: (question.items || []).filter(i => i.id !== item.id) })}
+                className="text-red-600 hover:text-red-800"
+                title="Remove item"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => update({ items: [...(question.items || []), { id: generateId(), text: '' }] })}
+            className="text-blue-600 hover:text-blue-800 text-xs"
+          >
+            + Add Item
+          </button>
+        </div>
+      )}
+
+      {/* Matching */}
+      {type === 'matching' && (
+        <div className="ml-2">
+          <p className="text-xs text-gray-600 mb-1">Enter each correct pair. Students match the right side to the left.</p>
+          {(question.pairs || []).map((pair, pi) => (
+            <div key={pair.id} className="flex items-center mb-1 space-x-2">
+              <input
+                type="text"
+                placeholder={`Left ${pi + 1} (e.g. threat)`}
+                value={pair.left}
+                onChange={e => update({
+                  pairs: (question.pairs || []).map(p => p.id === pair.id ? { ...p, left: e.target.value } : p)
+                })}
+                className="border border-gray-300 rounded px-2 py-1 flex-grow"
+              />
+              <span className="text-gray-400">↔</span>
+              <input
+                type="text"
+                placeholder={`Right ${pi + 1} (e.g. mitigation)`}
+                value={pair.right}
+                onChange={e => update({
+                  pairs: (question.pairs || []).map(p => p.id === pair.id ? { ...p, right: e.target.value } : p)
+                })}
+                className="border border-gray-300 rounded px-2 py-1 flex-grow"
+              />
+              <button
+                onClick={() => update({ pairs: (question.pairs || []).filter(p => p.id !== pair.id) })}
+                className="text-red-600 hover:text-red-800"
+                title="Remove pair"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => update({ pairs: [...(question.pairs || []), { id: generateId(), left: '', right: '' }] })}
+            className="text-blue-600 hover:text-blue-800 text-xs"
+          >
+            + Add Pair
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuestionEditor;
@@ -0,0 +1,298 @@
+import React, { useState, useEffect } from 'react';
+import { MessageSquare, CheckCircle, XCircle } from 'lucide-react';
+import { collection, getDocs, getDoc, doc, query, orderBy } from 'firebase/firestore';
+import { db } from '../../lib/firebase';
+import { useAuth } from '../../contexts/AuthContext';
+import RegradeService, { RegradeRequest } from '../../services/regradeService';
+
+interface CourseOption {
+  id: string;
+  title: string;
+}
+
+type RequestFilter = 'pending' | 'resolved';
+
+const RegradeRequests: React.FC = () => {
+  const { user } = useAuth();
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [selectedCourseId, setSelectedCourseId] = useState('');
+  const [requests, setRequests] = useState<RegradeRequest[]>([]);
+  const [studentNames, setStudentNames] = useState<{ [studentId: string]: string }>({});
+  const [filter, setFilter] = useState<RequestFilter>('pending');
+  const [loading, setLoading] = useState(false);
+
+  // Resolution panel state
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [adjustedPoints, setAdjustedPoints] = useState('');
+  const [comment, setComment] = useState('');
+  const [resolving, setResolving] = useState(false);
+
+  // Fetch courses for the selector
+  useEffect(() => {
+    const fetchCourses = async () => {
+      try {
+        const snapshot = await getDocs(query(collection(db, 'courses'), orderBy('createdAt', 'desc')));
+        const courseList = snapshot.docs.map(courseDoc => ({
+          id: courseDoc.id,
+          title: courseDoc.data().title || 'Untitled course'
+        }));
+        setCourses(courseList);
+        if (courseList.length > 0) setSelectedCourseId(courseList[0].id);
+      } catch (error) {
+        console.error('Error fetching courses:', error);
+      }
+    };
+
+    fetchCourses();
+  }, []);
+
+  // Fetch the course's requests and student names
+  useEffect(() => {
+    const fetchRequests = async () => {
+      if (!selectedCourseId) return;
+
+      setLoading(true);
+      setSelectedId(null);
+      const courseRequests = await RegradeService.getCourseRequests(selectedCourseId);
+      setRequests(courseRequests);
+
+      const names: { [studentId: string]: string } = {};
+      await Promise.all(
+        [...new Set(courseRequests.map(r => r.studentId))].map(async studentId => {
+          try {
+            const userDoc = await getDoc(doc(db, 'users', studentId));
+            names[studentId] = userDoc.exists() ? userDoc.data().name || userDoc.data().email : studentId;
+          } catch (error) {
+            console.error('Error fetching student:', error);
+            names[studentId] = studentId;
+          }
+        })
+      );
+      setStudentNames(names);
+      setLoading(false);
+    };
+
+    fetchRequests();
+  }, [selectedCourseId]);
+
+  const visibleRequests = requests.filter(r => filter === 'pending' ? r.status === 'pending' : r.status !== 'pending');
+  const selectedRequest = requests.find(r => r.id === selectedId) || null;
+  const courseTitle = courses.find(c => c.id === selectedCourseId)?.title || '';
+
+  const selectRequest = (request: RegradeRequest) => {
+    setSelectedId(request.id);
+    setAdjustedPoints(String(request.awardedPoints ?? request.originalPoints));
+    setComment(request.instructorComment || '');
+  };
+
+  const updateRequest = (requestId: string, changes: Partial<RegradeRequest>) => {
+    setRequests(current => current.map(r => r.id === requestId ? { ...r, ...changes } : r));
+  };
+
+  const handleAccept = async () => {
+    if (!selectedRequest || !user?.id) return;
+    const points = Number(adjustedPoints);
+    if (adjustedPoints.trim() === '' || isNaN(points)) {
+      alert('Please enter the adjusted points.');
+      return;
+    }
+
+    setResolving(true);
+    const result = await RegradeService.acceptRequest(selectedRequest, points, comment, user.id, courseTitle);
+    setResolving(false);
+
+    alert(result.message);
+    if (result.success) {
+      updateRequest(selectedRequest.id, { status: 'accepted', adjustedPoints: result.points, instructorComment: comment.trim() });
+      setSelectedId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!selectedRequest || !user?.id) return;
+
+    setResolving(true);
+    const result = await RegradeService.rejectRequest(selectedRequest, comment, user.id, courseTitle);
+    setResolving(false);
+
+    alert(result.message);
+    if (result.success) {
+      updateRequest(selectedRequest.id, { status: 'rejected', instructorComment: comment.trim() });
+      setSelectedId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Regrade Requests</h2>
+            <p className="text-sm text-gray-600">Students' requests to review a published grade</p>
+          </div>
+          <select
+            value={selectedCourseId}
+            onChange={e => setSelectedCourseId(e.target.value)}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          >
+            {courses.map(course => (
+              <option key={course.id} value={course.id}>{course.title}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex space-x-2 mt-4">
+          {(['pending', 'resolved'] as RequestFilter[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setFilter(option)}
+              className={`px-3 py-1 rounded-full text-sm capitalize transition-colors ${
+                filter === option ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option} ({requests.filter(r => option === 'pending' ? r.status === 'pending' : r.status !== 'pending').length})
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Queue */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden max-h-[70vh] overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : visibleRequests.length === 0 ? (
+            <div className="text-center py-12 px-4">
+              <MessageSquare className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600 text-sm">No {filter} requests.</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {visibleRequests.map(request => (
+                <li key={request.id}>
+                  <button
+                    onClick={() => selectRequest(request)}
+                    className={`w-full text-left px-4 py-3 transition-colors ${
+                      request.id === selectedId ? 'bg-blue-50 border-l-4 border-blue-600' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <p className="font-medium text-gray-900 text-sm">{studentNames[request.studentId] || request.studentId}</p>
+                    <p className="text-xs text-gray-500 truncate">{request.gradeTitle}</p>
+                    <div className="flex items-center space-x-2 mt-1 text-xs">
+                      <span className="text-gray-600">{request.originalPoints}/{request.maxPoints}</span>
+                      {request.status === 'accepted' && (
+                        <span className="text-green-700 flex items-center">
+                          <CheckCircle className="w-3 h-3 mr-1" />{request.adjustedPoints}/{request.maxPoints}
+                        </span>
+                      )}
+                      {request.status === 'rejected' && (
+                        <span className="text-red-700 flex items-center"><XCircle className="w-3 h-3 mr-1" />Rejected</span>
+                      )}
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Resolution panel */}
+        <div className="lg:col-span-2">
+          {!selectedRequest ? (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 text-center py-16">
+              <MessageSquare className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">Select a request to review it.</p>
+            </div>
+          ) : (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{selectedRequest.gradeTitle}</h3>
+                <p className="text-sm text-gray-600">
+                  {studentNames[selectedRequest.studentId] || selectedRequest.studentId} · {selectedRequest.gradeType} ·
+                  currently {selectedRequest.originalPoints}/{selectedRequest.maxPoints}
+                  {selectedRequest.awardedPoints !== selectedRequest.originalPoints &&
+                    ` (${selectedRequest.awardedPoints} before late penalty)`} ·
+                  requested {selectedRequest.createdAt?.toDate?.().toLocaleString() || '-'}
+                </p>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-1">Student's justification</p>
+                <div className="border border-gray-200 rounded-lg p-4 bg-gray-50 whitespace-pre-wrap text-sm text-gray-800">
+                  {selectedRequest.justification}
+                </div>
+              </div>
+              {selectedRequest.items.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-1">
+                    {selectedRequest.items[0].kind === 'criterion' ? 'Rubric criteria' : 'Questions'} disputed
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {selectedRequest.items.map(item => (
+                      <span key={item.id} className="px-2 py-1 rounded bg-yellow-50 border border-yellow-200 text-xs text-yellow-900">
+                        {item.label}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {selectedRequest.status === 'pending' ? (
+                <>
+                  <label className="block text-sm text-gray-700">
+                    Adjusted points (out of {selectedRequest.maxPoints}, before any late penalty)
+                    <input
+                      type="number"
+                      min={0}
+                      max={selectedRequest.maxPoints}
+                      value={adjustedPoints}
+                      onChange={e => setAdjustedPoints(e.target.value)}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1"
+                    />
+                  </label>
+                  <label className="block text-sm text-gray-700">
+                    Comment to the student (required to reject)
+                    <textarea
+                      value={comment}
+                      onChange={e => setComment(e.target.value)}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1 min-h-[100px] resize-y"
+                    />
+                  </label>
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      onClick={handleReject}
+                      disabled={resolving || !comment.trim()}
+                      className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                    >
+                      <XCircle className="w-4 h-4 mr-1" /> Reject
+                    </button>
+                    <button
+                      onClick={handleAccept}
+                      disabled={resolving}
+                      className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      <CheckCircle className="w-4 h-4 mr-1" /> {resolving ? 'Saving...' : 'Accept & Update Grade'}
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <div className={`rounded-lg border p-4 text-sm ${
+                  selectedRequest.status === 'accepted' ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+                }`}>
+                  <p className="font-medium text-gray-900 capitalize">
+                    {selectedRequest.status}
+                    {selectedRequest.status === 'accepted' && ` · now ${selectedRequest.adjustedPoints}/${selectedRequest.maxPoints}`}
+                  </p>
+                  {selectedRequest.instructorComment && <p className="text-gray-700 mt-1">{selectedRequest.instructorComment}</p>}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegradeRequests;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { RetakePolicy, DEFAULT_RETAKE_POLICY } from '../../services/quizService';
+
+interface RetakePolicySelectProps {
+  policy?: RetakePolicy;
+  onChange: (policy: RetakePolicy) => void;
+}
+
+const RetakePolicySelect: React.FC<RetakePolicySelectProps> = ({ policy, onChange }) => (
+  <div className="flex items-center space-x-2 mt-2">
+    <label className="text-xs text-gray-600">Retakes</label>
+    <select
+      value={policy || DEFAULT_RETAKE_POLICY}
+      onChange={e => onChange(e.target.value as RetakePolicy)}
+      className="border border-gray-300 rounded px-2 py-0.5 text-xs"
+    >
+      <option value="best">Best attempt counts</option>
+      <option value="latest">Latest attempt counts</option>
+    </select>
+    <span className="text-xs text-gray-500">Each student keeps one grade for this quiz.</span>
+  </div>
+);
+
+export default RetakePolicySelect;
@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import { Table2, Plus, Trash2, Save, Copy } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import RubricService, { Rubric, RubricCriterion, RubricLevel } from '../../services/rubricService';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+interface RubricLibraryProps {
+  onClose: () => void;
+}
+
+// Editable copy of a rubric; id is empty until it is saved
+type RubricDraft = Pick<Rubric, 'id' | 'title' | 'description' | 'criteria'>;
+
+const createLevels = (): RubricLevel[] => [
+  { id: generateId(), label: 'Exemplary', points: 4, descriptor: '' },
+  { id: generateId(), label: 'Proficient', points: 3, descriptor: '' },
+  { id: generateId(), label: 'Developing', points: 2, descriptor: '' },
+  { id: generateId(), label: 'Beginning', points: 1, descriptor: '' }
+];
+
+const createCriterion = (): RubricCriterion => ({
+  id: generateId(),
+  title: '',
+  description: '',
+  levels: createLevels()
+});
+
+const RubricLibrary: React.FC<RubricLibraryProps> = ({ onClose }) => {
+  const { user } = useAuth();
+  const [rubrics, setRubrics] = useState<Rubric[]>([]);
+  const [draft, setDraft] = useState<RubricDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRubrics = async (instructorId: string) => {
+    setLoading(true);
+    setRubrics(await RubricService.getInstructorRubrics(instructorId));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (user?.id) fetchRubrics(user.id);
+  }, [user?.id]);
+
+  const updateCriterion = (criterionId: string, changes: Partial<RubricCriterion>) => {
+    if (!draft) return;
+    setDraft({ ...draft, criteria: draft.criteria.map(c => c.id === criterionId ? { ...c, ...changes } : c) });
+  };
+
+  const updateLevel = (criterion: RubricCriterion, levelId: string, changes: Partial<RubricLevel>) => {
+    updateCriterion(criterion.id, {
+      levels: criterion.levels.map(level => level.id === levelId ? { ...level, ...changes } : level)
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft || !user?.id) return;
+    if (!draft.title.trim() || draft.criteria.length === 0) {
+      alert('A rubric needs a title and at least one criterion.');
+      return;
+    }
+    if (draft.criteria.some(c => !c.title.trim() || c.levels.length === 0)) {
+      alert('Every criterion needs a title and at least one level.');
+      return;
+    }
+
+    setSaving(true);
+    const rubricData = {
+      title: draft.title.trim(),
+      description: draft.description,
+      criteria: draft.criteria
+    };
+    const result = draft.id
+      ? await RubricService.updateRubric(draft.id, rubricData)
+      : await RubricService.createRubric({ ...rubricData, createdBy: user.id });
+    setSaving(false);
+
+    if (result.success) {
+      setDraft(null);
+      fetchRubrics(user.id);
+    } else {
+      alert(result.message);
+    }
+  };
+
+  const handleDelete = async (rubric: Rubric) => {
+    if (!user?.id || !confirm(`Delete "${rubric.title}"? Assignments using it will fall back to a single score.`)) return;
+
+    const result = await RubricService.deleteRubric(rubric.id);
+    if (result.success) {
+      fetchRubrics(user.id);
+    } else {
+      alert(result.message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start overflow-auto justify-center z-50 pt-12 pb-12 px-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-4xl max-h-[90vh] overflow-y-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center text-lg font-semibold text-gray-900">
+            <Table2 className="w-5 h-5 mr-2" /> Rubrics
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        {!draft ? (
+          <>
+            <button
+              onClick={() => setDraft({ id: '', title: '', description: '', criteria: [createCriterion()] })}
+              className="flex items-center px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="w-4 h-4 mr-1" /> New Rubric
+            </button>
+            {loading ? (
+              <p className="text-sm text-gray-500">Loading rubrics...</p>
+            ) : rubrics.length === 0 ? (
+              <p className="text-sm text-gray-500">No rubrics yet. Rubrics you create can be reused across assignments.</p>
+            ) : (
+              <div className="space-y-2">
+                {rubrics.map(rubric => (
+                  <div key={rubric.id} className="flex items-center justify-between border rounded p-3 bg-gray-50">
+                    <div>
+                      <p className="font-medium text-gray-900">{rubric.title}</p>
+                      <p className="text-xs text-gray-500">
+                        {rubric.criteria.length} criteria · {RubricService.getMaxPoints(rubric)} points
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-3 text-sm">
+                      <button onClick={() => setDraft(rubric)} className="text-blue-600 hover:text-blue-800">Edit</button>
+                      <button
+                        onClick={() => setDraft({ ...rubric, id: '', title: `${rubric.title} (copy)` })}
+                        className="text-gray-600 hover:text-gray-900"
+                        title="Duplicate"
+                      >
+                        <Copy className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => handleDelete(rubric)} className="text-red-600 hover:text-red-800" title="Delete">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        ) : (
+          <div className="space-y-4">
+            <input
+              type="text"
+              placeholder="Rubric title"
+              value={draft.title}
+              onChange={e => setDraft({ ...draft, title: e.target.value })}
+              className="w-full border border-gray-300 rounded px-3 py-2"
+            />
+            <textarea
+              placeholder="Description (optional)"
+              value={draft.description}
+              onChange={e => setDraft({ ...draft, description: e.target.value })}
+              className="w-full border border-gray-300 rounded px-3 py-2 resize-y"
+            />
+
+            {draft.criteria.map((criterion, ci) => (
+              <div key={criterion.id} className="border rounded p-3 bg-gray-50 space-y-2">
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm font-semibold text-gray-600">{ci + 1}.</span>
+                  <input
+                    type="text"
+                    placeholder="Criterion (e.g. Threat identification)"
+                    value={criterion.title}
+                    onChange={e => updateCriterion(criterion.id, { title: e.target.value })}
+                    className="flex-grow border border-gray-300 rounded px-2 py-1 text-sm font-medium"
+                  />
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    max {RubricService.getCriterionMaxPoints(criterion)} pts
+                  </span>
+                  <button
+                    onClick={() => setDraft({ ...draft, criteria: draft.criteria.filter(c => c.id !== criterion.id) })}
+                    className="text-red-600 hover:text-red-800"
+                    title="Remove criterion"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  placeholder="What this criterion assesses (optional)"
+                  value={criterion.description}
+                  onChange={e => updateCriterion(criterion.id, { description: e.target.value })}
+                  className="w-full border border-gray-300 rounded px-2 py-1 text-xs"
+                />
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-2">
+                  {criterion.levels.map(level => (
+                    <div key={level.id} className="border rounded bg-white p-2 space-y-1">
+                      <div className="flex items-center space-x-1">
+                        <input
+                          type="text"
+                          placeholder="Level"
+                          value={level.label}
+                          onChange={e => updateLevel(criterion, level.id, { label: e.target.value })}
+                          className="flex-grow min-w-0 border border-gray-300 rounded px-1 py-0.5 text-xs font-medium"
+                        />
+                        <input
+                          type="number"
+                          min={0}
+                          value={level.points}
+                          onChange={e => updateLevel(criterion, level.id, { points: Math.max(0, Number(e.target.value)) })}
+                          className="w-12 border border-gray-300 rounded px-1 py-0.5 text-xs"
+                          title="Points"
+                        />
+                        <button
+                          onClick={() => updateCriterion(criterion.id, { levels: criterion.levels.filter(l => l.id !== level.id) })}
+                          className="text-red-600 hover:text-red-800 text-xs"
+                          title="Remove level"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                      <textarea
+                        placeholder="Descriptor"
+                        value={level.descriptor}
+                        onChange={e => updateLevel(criterion, level.id, { descriptor: e.target.value })}
+                        className="w-full border border-gray-200 rounded px-1 py-0.5 text-xs resize-y min-h-[48px]"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => updateCriterion(criterion.id, {
+                    levels: [...criterion.levels, { id: generateId(), label: '', points: 0, descriptor: '' }]
+                  })}
+                  className="text-blue-600 hover:text-blue-800 text-xs"
+                >
+                  + Add Level
+                </button>
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => setDraft({ ...draft, criteria: [...draft.criteria, createCriterion()] })}
+                className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+              >
+                + Add Criterion
+              </button>
+              <span className="text-sm text-gray-600">Total: {RubricService.getMaxPoints(draft)} points</span>
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-3 border-t">
+              <button onClick={() => setDraft(null)} className="px-4 py-2 border rounded hover:bg-gray-100 transition">
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving}
+                className="flex items-center px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 transition disabled:opacity-50"
+              >
+                <Save className="w-4 h-4 mr-1" /> {saving ? 'Saving...' : 'Save Rubric'}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RubricLibrary;
@@ -0,0 +1,266 @@
+import React, { useState } from 'react';
+import { GitBranch, Star, Flag, AlertTriangle } from 'lucide-react';
+import ScenarioService, {
+  Scenario,
+  ScenarioNode,
+  ScenarioChoice,
+  ScenarioOutcome,
+  WrongTurnSummary,
+  SCENARIO_OUTCOME_LABELS
+} from '../../services/scenarioService';
+import { DEFAULT_PASSING_SCORE } from '../../services/quizService';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+interface ScenarioEditorProps {
+  scenario: Scenario;
+  onChange: (scenario: Scenario) => void;
+  courseId?: string | null; // set when editing a saved course, enables the wrong-turn report
+  blockId: string;
+}
+
+const ScenarioEditor: React.FC<ScenarioEditorProps> = ({ scenario, onChange, courseId, blockId }) => {
+  const [wrongTurns, setWrongTurns] = useState<{ attempts: number; wrongTurns: WrongTurnSummary[] } | null>(null);
+  const [loadingReport, setLoadingReport] = useState(false);
+
+  const update = (changes: Partial<Scenario>) => onChange({ ...scenario, ...changes });
+
+  const updateNode = (nodeId: string, changes: Partial<ScenarioNode>) => {
+    update({ nodes: scenario.nodes.map(node => node.id === nodeId ? { ...node, ...changes } : node) });
+  };
+
+  const updateChoice = (node: ScenarioNode, choiceId: string, changes: Partial<ScenarioChoice>) => {
+    updateNode(node.id, {
+      choices: node.choices.map(choice => choice.id === choiceId ? { ...choice, ...changes } : choice)
+    });
+  };
+
+  const addNode = () => {
+    update({
+      nodes: [...scenario.nodes, {
+        id: generateId(),
+        title: `Step ${scenario.nodes.length + 1}`,
+        situation: '',
+        choices: [],
+        outcome: 'failure',
+        outcomeScore: 0
+      }]
+    });
+  };
+
+  // Removing a node also unlinks the choices that led to it
+  const removeNode = (nodeId: string) => {
+    update({
+      nodes: scenario.nodes
+        .filter(node => node.id !== nodeId)
+        .map(node => ({
+          ...node,
+          choices: node.choices.map(choice => choice.nextNodeId === nodeId ? { ...choice, nextNodeId: '' } : choice)
+        }))
+    });
+  };
+
+  const addChoice = (node: ScenarioNode) => {
+    updateNode(node.id, {
+      choices: [...node.choices, { id: generateId(), text: '', nextNodeId: '', isBest: false, feedback: '' }]
+    });
+  };
+
+  const loadWrongTurns = async () => {
+    if (!courseId) return;
+    setLoadingReport(true);
+    setWrongTurns(await ScenarioService.getWrongTurnSummary(courseId, blockId));
+    setLoadingReport(false);
+  };
+
+  const describeStep = (nodeId: string, choiceId: string) => {
+    const node = ScenarioService.getNode(scenario, nodeId);
+    const choice = node?.choices.find(c => c.id === choiceId);
+    return `${node?.title || 'Removed step'} → ${choice?.text || 'removed choice'}`;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="flex items-center text-sm font-semibold text-gray-700">
+          <GitBranch className="w-4 h-4 mr-1" /> Branching scenario
+        </p>
+        <label className="flex items-center space-x-1 text-xs text-gray-600">
+          <span>Passing score (%)</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={scenario.passingScore ?? DEFAULT_PASSING_SCORE}
+            onChange={e => update({ passingScore: Math.min(100, Math.max(0, Number(e.target.value))) })}
+            className="w-16 border border-gray-300 rounded px-2 py-0.5 text-xs"
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Each step describes a situation and the choices available. A step without choices is an ending.
+        Mark the best choice at each step; every other choice counts as a wrong turn.
+      </p>
+
+      {scenario.nodes.map(node => {
+        const isStart = node.id === scenario.startNodeId;
+        const isEnding = ScenarioService.isEnding(node);
+
+        return (
+          <div key={node.id} className={`border rounded-lg p-3 space-y-2 ${isStart ? 'border-blue-300 bg-blue-50' : 'border-gray-200 bg-white'}`}>
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                placeholder="Step title"
+                value={node.title}
+                onChange={e => updateNode(node.id, { title: e.target.value })}
+                className="flex-grow border border-gray-300 rounded px-2 py-1 text-sm font-medium"
+              />
+              <label className="flex items-center space-x-1 text-xs text-blue-700 whitespace-nowrap">
+                <input
+                  type="radio"
+                  checked={isStart}
+                  onChange={() => update({ startNodeId: node.id })}
+                />
+                <span>Start</span>
+              </label>
+              {!isStart && (
+                <button
+                  onClick={() => removeNode(node.id)}
+                  className="text-red-600 hover:text-red-800 text-xs"
+                  title="Remove step"
+                >
+                  ✕
+                </button>
+              )}
+            </div>
+            <textarea
+              placeholder="Describe the situation (e.g. EDR alerts that files on FIN-WS-042 are being encrypted)"
+              value={node.situation}
+              onChange={e => updateNode(node.id, { situation: e.target.value })}
+              className="w-full border border-gray-300 rounded px-2 py-1 text-sm resize-y min-h-[60px]"
+            />
+
+            {node.choices.map(choice => (
+              <div key={choice.id} className="ml-4 border-l-2 border-gray-200 pl-2 space-y-1">
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    placeholder="Choice (e.g. Isolate the host from the network)"
+                    value={choice.text}
+                    onChange={e => updateChoice(node, choice.id, { text: e.target.value })}
+                    className="flex-grow border border-gray-300 rounded px-2 py-1 text-xs"
+                  />
+                  <select
+                    value={choice.nextNodeId}
+                    onChange={e => updateChoice(node, choice.id, { nextNodeId: e.target.value })}
+                    className="border border-gray-300 rounded px-1 py-1 text-xs max-w-[10rem]"
+                  >
+                    <option value="">Leads to...</option>
+                    {scenario.nodes.filter(n => n.id !== node.id).map(n => (
+                      <option key={n.id} value={n.id}>{n.title || 'Untitled step'}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center space-x-1 text-xs text-green-700 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      checked={choice.isBest}
+                      onChange={e => updateChoice(node, choice.id, { isBest: e.target.checked })}
+                    />
+                    <Star className="w-3 h-3" />
+                    <span>Best</span>
+                  </label>
+                  <button
+                    onClick={() => updateNode(node.id, { choices: node.choices.filter(c => c.id !== choice.id) })}
+                    className="text-red-600 hover:text-red-800 text-xs"
+                    title="Remove choice"
+                  >
+                    ✕
+                  </button>
+                </div>
+                <input
+                  type="text"
+                  placeholder="Feedback shown after the scenario (why this choice is right or wrong)"
+                  value={choice.feedback}
+                  onChange={e => updateChoice(node, choice.id, { feedback: e.target.value })}
+                  className="w-full border border-gray-200 rounded px-2 py-0.5 text-xs"
+                />
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between">
+              <button
+                onClick={() => addChoice(node)}
+                className="text-blue-600 hover:text-blue-800 text-xs"
+              >
+                + Add Choice
+              </button>
+              {isEnding && (
+                <div className="flex items-center space-x-2 text-xs text-gray-600">
+                  <Flag className="w-3 h-3" />
+                  <span>Ending</span>
+                  <select
+                    value={node.outcome}
+                    onChange={e => updateNode(node.id, { outcome: e.target.value as ScenarioOutcome })}
+                    className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+                  >
+                    {(Object.keys(SCENARIO_OUTCOME_LABELS) as ScenarioOutcome[]).map(outcome => (
+                      <option key={outcome} value={outcome}>{SCENARIO_OUTCOME_LABELS[outcome]}</option>
+                    ))}
+                  </select>
+                  <span>Outcome score</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={node.outcomeScore}
+                    onChange={e => updateNode(node.id, { outcomeScore: Math.min(100, Math.max(0, Number(e.target.value))) })}
+                    className="w-14 border border-gray-300 rounded px-1 py-0.5 text-xs"
+                  />
+                </div>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={addNode}
+          className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-xs hover:bg-gray-200"
+        >
+          + Add Step
+        </button>
+        {courseId && (
+          <button
+            onClick={loadWrongTurns}
+            disabled={loadingReport}
+            className="flex items-center space-x-1 text-xs text-orange-700 hover:text-orange-900 disabled:opacity-50"
+          >
+            <AlertTriangle className="w-3 h-3" />
+            <span>{loadingReport ? 'Loading...' : 'Common wrong turns'}</span>
+          </button>
+        )}
+      </div>
+
+      {/* Wrong-turn report from saved student attempts */}
+      {wrongTurns && (
+        <div className="border border-orange-200 bg-orange-50 rounded-lg p-3 text-xs space-y-1">
+          <p className="font-semibold text-orange-800">
+            {wrongTurns.attempts} attempt(s) · {wrongTurns.wrongTurns.length} distinct wrong turn(s)
+          </p>
+          {wrongTurns.wrongTurns.map(turn => (
+            <div key={`${turn.nodeId}:${turn.choiceId}`} className="flex items-center justify-between text-gray-700">
+              <span>{describeStep(turn.nodeId, turn.choiceId)}</span>
+              <span className="font-medium">
+                {turn.count} ({Math.round((turn.count / Math.max(1, wrongTurns.attempts)) * 100)}%)
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioEditor;
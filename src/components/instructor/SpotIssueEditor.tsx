@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { Search } from 'lucide-react';
+import SpotIssueService, {
+  SpotIssueExercise,
+  SpotIssueSourceType,
+  IssueRange,
+  SPOT_ISSUE_SOURCE_LABELS
+} from '../../services/spotIssueService';
+import { DEFAULT_PASSING_SCORE } from '../../services/quizService';
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+interface SpotIssueEditorProps {
+  exercise: SpotIssueExercise;
+  onChange: (exercise: SpotIssueExercise) => void;
+}
+
+const SpotIssueEditor: React.FC<SpotIssueEditorProps> = ({ exercise, onChange }) => {
+  // First line of a range being marked in the preview
+  const [rangeStart, setRangeStart] = useState<number | null>(null);
+
+  const update = (changes: Partial<SpotIssueExercise>) => onChange({ ...exercise, ...changes });
+
+  const lines = exercise.source.split('\n');
+
+  const updateRange = (rangeId: string, changes: Partial<IssueRange>) => {
+    update({ ranges: exercise.ranges.map(range => range.id === rangeId ? { ...range, ...changes } : range) });
+  };
+
+  // Click a line to start a range, click again to finish it
+  const handleLineClick = (line: number) => {
+    if (rangeStart === null) {
+      setRangeStart(line);
+      return;
+    }
+
+    update({
+      ranges: [...exercise.ranges, {
+        id: generateId(),
+        startLine: Math.min(rangeStart, line),
+        endLine: Math.max(rangeStart, line),
+        explanation: ''
+      }].sort((a, b) => a.startLine - b.startLine)
+    });
+    setRangeStart(null);
+  };
+
+  const getLineClass = (line: number) => {
+    if (line === rangeStart) return 'bg-blue-200';
+    return exercise.ranges.some(range => SpotIssueService.isLineInRange(line, range))
+      ? 'bg-red-100'
+      : 'hover:bg-yellow-50';
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="flex items-center text-sm font-semibold text-gray-700">
+        <Search className="w-4 h-4 mr-1" /> Spot the issue
+      </p>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={exercise.sourceType}
+          onChange={e => update({ sourceType: e.target.value as SpotIssueSourceType })}
+          className="border border-gray-300 rounded px-2 py-1 text-sm"
+        >
+          {(Object.keys(SPOT_ISSUE_SOURCE_LABELS) as SpotIssueSourceType[]).map(type => (
+            <option key={type} value={type}>{SPOT_ISSUE_SOURCE_LABELS[type]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          placeholder="Language or format (e.g. php, auth.log)"
+          value={exercise.language}
+          onChange={e => update({ language: e.target.value })}
+          className="border border-gray-300 rounded px-2 py-1 text-sm"
+        />
+        <label className="flex items-center space-x-1 text-xs text-gray-600 ml-auto">
+          <span>Passing score (%)</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={exercise.passingScore ?? DEFAULT_PASSING_SCORE}
+            onChange={e => update({ passingScore: Math.min(100, Math.max(0, Number(e.target.value))) })}
+            className="w-16 border border-gray-300 rounded px-2 py-0.5 text-xs"
+          />
+        </label>
+      </div>
+
+      <textarea
+        placeholder="Paste the log excerpt, config file or code snippet"
+        value={exercise.source}
+        onChange={e => update({ source: e.target.value })}
+        className="w-full border border-gray-300 rounded px-3 py-2 text-xs font-mono resize-y min-h-[120px]"
+      />
+
+      {exercise.source.trim() && (
+        <div>
+          <p className="text-xs text-gray-500 mb-1">
+            {rangeStart === null
+              ? 'Click the first line of an issue, then its last line, to mark the range. Editing the source does not move existing ranges.'
+              : `Range starts at line ${rangeStart}. Click its last line.`}
+          </p>
+          <div className="border border-gray-200 rounded bg-gray-50 max-h-64 overflow-auto font-mono text-xs">
+            {lines.map((text, index) => (
+              <div
+                key={index}
+                onClick={() => handleLineClick(index + 1)}
+                className={`flex cursor-pointer ${getLineClass(index + 1)}`}
+              >
+                <span className="w-10 text-right pr-2 text-gray-400 select-none flex-shrink-0">{index + 1}</span>
+                <span className="whitespace-pre">{text || ' '}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {exercise.ranges.map(range => (
+        <div key={range.id} className="flex items-center space-x-2">
+          <span className="text-xs text-red-700 whitespace-nowrap">Lines</span>
+          <input
+            type="number"
+            min={1}
+            max={lines.length}
+            value={range.startLine}
+            onChange={e => updateRange(range.id, { startLine: Math.max(1, Number(e.target.value)) })}
+            className="w-14 border border-gray-300 rounded px-1 py-0.5 text-xs"
+          />
+          <span className="text-xs text-gray-500">–</span>
+          <input
+            type="number"
+            min={range.startLine}
+            max={lines.length}
+            value={range.endLine}
+            onChange={e => updateRange(range.id, { endLine: Math.max(range.startLine, Number(e.target.value)) })}
+            className="w-14 border border-gray-300 rounded px-1 py-0.5 text-xs"
+          />
+          <input
+            type="text"
+            placeholder="What is wrong here? (shown after submission)"
+            value={range.explanation}
+            onChange={e => updateRange(range.id, { explanation: e.target.value })}
+            className="flex-grow border border-red-200 rounded px-2 py-0.5 text-xs"
+          />
+          <button
+            onClick={() => update({ ranges: exercise.ranges.filter(r => r.id !== range.id) })}
+            className="text-red-600 hover:text-red-800 text-xs"
+            title="Remove range"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <p className="text-xs text-gray-500">{exercise.ranges.length} issue range(s) marked.</p>
+    </div>
+  );
+};
+
+export default SpotIssueEditor;
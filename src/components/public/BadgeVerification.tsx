@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { ShieldCheck, ShieldX } from 'lucide-react';
+import AchievementService, { UnlockedAchievement } from '../../services/achievementService';
+
+// Public page for an exported Open Badge; the badge file's narrative links here
+const BadgeVerification: React.FC = () => {
+  const { awardId = '' } = useParams();
+  const [award, setAward] = useState<UnlockedAchievement | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const verify = async (id: string) => {
+      setLoading(true);
+      setAward(await AchievementService.getUnlockedAchievement(id));
+      setLoading(false);
+    };
+
+    verify(awardId);
+  }, [awardId]);
+
+  return (
+    <div className="h-screen overflow-y-auto bg-gray-50 py-12 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">Inzozi Cybersafe</h1>
+          <p className="text-gray-600">Badge verification</p>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+          </div>
+        ) : !award || !AchievementService.isConfirmed(award) ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 flex items-start space-x-3">
+            <ShieldX className="w-6 h-6 text-red-600 flex-shrink-0" />
+            <div>
+              <p className="font-semibold text-red-900">{award ? 'This badge has not been confirmed' : 'No badge matches this ID'}</p>
+              <p className="text-sm text-red-800">
+                {award ? 'It will verify once Inzozi Cybersafe has confirmed it.' : 'Check the link in the badge file and try again.'}
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+            <div className="flex items-start space-x-3 bg-green-50 border border-green-200 rounded-lg p-4">
+              <ShieldCheck className="w-6 h-6 text-green-600 flex-shrink-0" />
+              <div>
+                <p className="font-semibold text-green-900">Valid badge</p>
+                <p className="text-sm text-green-800">This badge was awarded by Inzozi Cybersafe.</p>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-6">
+              <img src={AchievementService.getBadgeImage(award)} alt={award.title} className="w-28 h-28 flex-shrink-0" />
+              <dl className="grid grid-cols-3 gap-y-2 text-sm flex-grow">
+                <dt className="text-gray-500">Badge</dt>
+                <dd className="col-span-2 font-medium text-gray-900">{award.title}</dd>
+                <dt className="text-gray-500">Criteria</dt>
+                <dd className="col-span-2 text-gray-900">{award.description}</dd>
+                <dt className="text-gray-500">Awarded to</dt>
+                <dd className="col-span-2 text-gray-900">{award.studentName}</dd>
+                <dt className="text-gray-500">Awarded</dt>
+                <dd className="col-span-2 text-gray-900">{award.unlockedAt?.toDate?.().toLocaleDateString() || '-'}</dd>
+                <dt className="text-gray-500">Badge ID</dt>
+                <dd className="col-span-2 font-mono text-gray-900">{award.id}</dd>
+              </dl>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BadgeVerification;
@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ShieldCheck, ShieldX, ShieldAlert, Search } from 'lucide-react';
+import CertificateService, { Certificate } from '../../services/certificateService';
+
+// Public page for checking a certificate by its ID; no sign-in needed
+const CertificateVerification: React.FC = () => {
+  const { certificateId = '' } = useParams();
+  const navigate = useNavigate();
+  const [input, setInput] = useState(certificateId);
+  const [certificate, setCertificate] = useState<Certificate | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const verify = async (id: string) => {
+      setCertificate(null);
+      if (!id) return;
+
+      setLoading(true);
+      setCertificate(await CertificateService.getCertificate(id));
+      setLoading(false);
+    };
+
+    setInput(certificateId);
+    verify(certificateId);
+  }, [certificateId]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (input.trim()) navigate(`/verify/${input.trim().toUpperCase()}`);
+  };
+
+  return (
+    <div className="h-screen overflow-y-auto bg-gray-50 py-12 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">Inzozi Cybersafe</h1>
+          <p className="text-gray-600">Certificate verification</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 flex space-x-2">
+          <input
+            type="text"
+            placeholder="Certificate ID, e.g. CERT-7KQ2-M9XD-4HPA"
+            value={input}
+            onChange={e => setInput(e.target.value)}
+            className="flex-grow border border-gray-300 rounded-lg px-3 py-2 font-mono uppercase"
+          />
+          <button type="submit" className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors">
+            <Search className="w-4 h-4 mr-1" /> Verify
+          </button>
+        </form>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+          </div>
+        ) : certificateId && !certificate ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 flex items-start space-x-3">
+            <ShieldX className="w-6 h-6 text-red-600 flex-shrink-0" />
+            <div>
+              <p className="font-semibold text-red-900">No certificate matches this ID</p>
+              <p className="text-sm text-red-800">Check the ID printed at the foot of the certificate and try again.</p>
+            </div>
+          </div>
+        ) : certificate && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+            {certificate.status === 'revoked' ? (
+              <div className="flex items-start space-x-3 bg-red-50 border border-red-200 rounded-lg p-4">
+                <ShieldAlert className="w-6 h-6 text-red-600 flex-shrink-0" />
+                <div>
+                  <p className="font-semibold text-red-900">This certificate has been revoked</p>
+                  <p className="text-sm text-red-800">
+                    It was revoked on {certificate.revokedAt?.toDate?.().toLocaleDateString() || '-'} and is no longer valid.
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <div className="flex items-start space-x-3 bg-green-50 border border-green-200 rounded-lg p-4">
+                <ShieldCheck className="w-6 h-6 text-green-600 flex-shrink-0" />
+                <div>
+                  <p className="font-semibold text-green-900">Valid certificate</p>
+                  <p className="text-sm text-green-800">This certificate was issued by Inzozi Cybersafe.</p>
+                </div>
+              </div>
+            )}
+
+            <dl className="grid grid-cols-3 gap-y-2 text-sm">
+              <dt className="text-gray-500">Certificate ID</dt>
+              <dd className="col-span-2 font-mono text-gray-900">{certificate.id}</dd>
+              <dt className="text-gray-500">Awarded to</dt>
+              <dd className="col-span-2 font-medium text-gray-900">{certificate.studentName}</dd>
+              <dt className="text-gray-500">Course</dt>
+              <dd className="col-span-2 text-gray-900">{certificate.courseTitle}</dd>
+              <dt className="text-gray-500">Completed</dt>
+              <dd className="col-span-2 text-gray-900">{certificate.completedAt?.toDate?.().toLocaleDateString() || '-'}</dd>
+              <dt className="text-gray-500">Instructor</dt>
+              <dd className="col-span-2 text-gray-900">{certificate.template.instructorName || '-'}</dd>
+              <dt className="text-gray-500">Issued</dt>
+              <dd className="col-span-2 text-gray-900">{certificate.issuedAt?.toDate?.().toLocaleDateString() || '-'}</dd>
+            </dl>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CertificateVerification;
@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ShieldCheck, ShieldX, Search } from 'lucide-react';
+import TranscriptService, { Transcript } from '../../services/transcriptService';
+
+// Public page for checking a transcript's verification code; no sign-in needed
+const TranscriptVerification: React.FC = () => {
+  const { code = '' } = useParams();
+  const navigate = useNavigate();
+  const [input, setInput] = useState(code);
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    const verify = async (verificationCode: string) => {
+      setTranscript(null);
+      if (!verificationCode) return;
+
+      setLoading(true);
+      setTranscript(await TranscriptService.verifyTranscript(verificationCode));
+      setLoading(false);
+    };
+
+    setInput(code);
+    verify(code);
+  }, [code]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (input.trim()) navigate(`/verify-transcript/${input.trim().toUpperCase()}`);
+  };
+
+  return (
+    <div className="h-screen overflow-y-auto bg-gray-50 py-12 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="text-center">
+          <h1 className="text-3xl font-bold text-gray-900">Inzozi Cybersafe</h1>
+          <p className="text-gray-600">Transcript verification</p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 flex space-x-2">
+          <input
+            type="text"
+            placeholder="Verification code, e.g. TR-7KQ2-M9XD-4HPA"
+            value={input}
+            onChange={e => setInput(e.target.value)}
+            className="flex-grow border border-gray-300 rounded-lg px-3 py-2 font-mono uppercase"
+          />
+          <button type="submit" className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors">
+            <Search className="w-4 h-4 mr-1" /> Verify
+          </button>
+        </form>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+          </div>
+        ) : code && !transcript ? (
+          <div className="bg-red-50 border border-red-200 rounded-xl p-6 flex items-start space-x-3">
+            <ShieldX className="w-6 h-6 text-red-600 flex-shrink-0" />
+            <div>
+              <p className="font-semibold text-red-900">No transcript matches this code</p>
+              <p className="text-sm text-red-800">Check the code printed at the foot of the transcript and try again.</p>
+            </div>
+          </div>
+        ) : transcript && (
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-6">
+            <div className="flex items-start space-x-3 bg-green-50 border border-green-200 rounded-lg p-4">
+              <ShieldCheck className="w-6 h-6 text-green-600 flex-shrink-0" />
+              <div>
+                <p className="font-semibold text-green-900">Valid transcript</p>
+                <p className="text-sm text-green-800">
+                  Issued to {transcript.studentName} on {transcript.issuedAt?.toDate?.().toLocaleDateString() || '-'}.
+                  The details below are the record as issued.
+                </p>
+              </div>
+            </div>
+
+            {transcript.terms.map(term => (
+              <div key={term.term}>
+                <div className="flex items-center justify-between border-b border-gray-200 pb-1 mb-2">
+                  <h3 className="font-semibold text-gray-900">{term.term}</h3>
+                  <span className="text-sm text-gray-600">
+                    {term.credits} credits · Term GPA {term.gpa === null ? 'N/A' : term.gpa.toFixed(2)}
+                  </span>
+                </div>
+                <table className="min-w-full text-sm">
+                  <tbody>
+                    {term.courses.map(course => (
+                      <tr key={course.courseId}>
+                        <td className="py-1 text-gray-900">{course.title}</td>
+                        <td className="py-1 text-right text-gray-600">{course.credits} cr</td>
+                        <td className="py-1 text-right text-gray-600 w-16">{course.percentage}%</td>
+                        <td className="py-1 text-right font-medium text-gray-900 w-16">{course.letterGrade}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+
+            <div className="flex justify-between bg-gray-50 rounded-lg p-4 font-semibold text-gray-900">
+              <span>Total credits: {transcript.totalCredits}</span>
+              <span>Overall GPA: {transcript.overallGPA.toFixed(2)}</span>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptVerification;
@@ -0,0 +1,495 @@
+import React, { useState, useEffect, ChangeEvent } from 'react';
+import { ClipboardList, Calendar, Paperclip, History, CheckCircle, Clock, Loader2, Upload, Pause, Play, X } from 'lucide-react';
+import { getDoc, doc, Timestamp } from 'firebase/firestore';
+import { ref, uploadBytesResumable, getDownloadURL, deleteObject, UploadTask } from 'firebase/storage';
+import { db, storage } from '../../lib/firebase';
+import { useAuth } from '../../contexts/AuthContext';
+import EnrollmentService from '../../services/enrollmentService';
+import AssignmentService, {
+  Assignment,
+  AssignmentSubmission,
+  SubmissionVersion,
+  SUBMISSION_FILE_TYPES
+} from '../../services/assignmentService';
+import LatePolicyService, { LatePolicy, AssignmentExtension, DEFAULT_LATE_POLICY } from '../../services/latePolicyService';
+import GradingService from '../../services/gradingService';
+
+interface CourseOption {
+  id: string;
+  title: string;
+}
+
+interface ActiveUpload {
+  task: UploadTask;
+  fileName: string;
+  progress: number;
+  paused: boolean;
+}
+
+// Recover the file name from a Storage download URL
+const getAttachmentName = (url: string) => {
+  const path = decodeURIComponent(url.split('/o/')[1]?.split('?')[0] || url);
+  return path.split('/').pop()?.replace(/^\d+-/, '') || url;
+};
+
+const describePolicy = (policy: LatePolicy) => {
+  if (!policy.acceptLate) {
+    return policy.graceMinutes > 0
+      ? `No late submissions after a ${policy.graceMinutes}-minute grace period.`
+      : 'No late submissions.';
+  }
+  const parts = [];
+  if (policy.graceMinutes > 0) parts.push(`${policy.graceMinutes}-minute grace period`);
+  parts.push(policy.penaltyPerDay > 0 ? `${policy.penaltyPerDay}% deducted per day late` : 'no late penalty');
+  if (policy.cutoffDays > 0) parts.push(`closes ${policy.cutoffDays} day(s) after the due date`);
+  return `Late work accepted: ${parts.join(', ')}.`;
+};
+
+const Assignments: React.FC = () => {
+  const { user } = useAuth();
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [selectedCourseId, setSelectedCourseId] = useState('');
+  const [assignments, setAssignments] = useState<Assignment[]>([]);
+  const [submissions, setSubmissions] = useState<AssignmentSubmission[]>([]);
+  const [extensions, setExtensions] = useState<AssignmentExtension[]>([]);
+  const [coursePolicy, setCoursePolicy] = useState<LatePolicy>(DEFAULT_LATE_POLICY);
+  const [publishedGradeIds, setPublishedGradeIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Selected assignment state
+  const [selectedAssignmentId, setSelectedAssignmentId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<SubmissionVersion[]>([]);
+  const [expandedVersionId, setExpandedVersionId] = useState<string | null>(null);
+  const [content, setContent] = useState('');
+  const [attachments, setAttachments] = useState<string[]>([]);
+  const [pendingUploads, setPendingUploads] = useState<string[]>([]); // uploaded but not yet part of a submission
+  const [upload, setUpload] = useState<ActiveUpload | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Fetch enrolled courses for the selector
+  useEffect(() => {
+    const fetchCourses = async () => {
+      if (!user?.id) return;
+
+      const enrollments = await EnrollmentService.getUserEnrollments(user.id);
+      const courseList = await Promise.all(enrollments.map(async enrollment => {
+        try {
+          const courseDoc = await getDoc(doc(db, 'courses', enrollment.courseId));
+          return { id: enrollment.courseId, title: courseDoc.data()?.title || 'Untitled course' };
+        } catch (error) {
+          console.error('Error fetching course:', error);
+          return { id: enrollment.courseId, title: 'Untitled course' };
+        }
+      }));
+      setCourses(courseList);
+      if (courseList.length > 0) setSelectedCourseId(courseList[0].id);
+    };
+
+    fetchCourses();
+  }, [user?.id]);
+
+  const fetchAssignments = async (courseId: string, studentId: string) => {
+    setLoading(true);
+    const [courseAssignments, studentSubmissions, policy, publishedGrades] = await Promise.all([
+      AssignmentService.getCourseAssignments(courseId),
+      AssignmentService.getStudentSubmissions(studentId, courseId),
+      LatePolicyService.getCoursePolicy(courseId),
+      GradingService.getStudentCourseGrades(studentId, courseId)
+    ]);
+    const studentExtensions = await Promise.all(
+      courseAssignments.map(assignment => LatePolicyService.getExtension(assignment.id, studentId))
+    );
+    setAssignments(courseAssignments);
+    setSubmissions(studentSubmissions);
+    setExtensions(studentExtensions.filter((e): e is AssignmentExtension => !!e));
+    setCoursePolicy(policy);
+    setPublishedGradeIds(publishedGrades.map(g => g.id));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (selectedCourseId && user?.id) {
+      setSelectedAssignmentId(null);
+      fetchAssignments(selectedCourseId, user.id);
+    }
+  }, [selectedCourseId, user?.id]);
+
+  const getSubmission = (assignmentId: string) => submissions.find(s => s.assignmentId === assignmentId);
+  // Draft grades stay hidden until the instructor publishes them
+  const isGradeReleased = (submission: AssignmentSubmission) =>
+    submission.grade !== undefined && submission.grade !== null &&
+    (!submission.gradeId || publishedGradeIds.includes(submission.gradeId));
+  const getDueDate = (assignment: Assignment) =>
+    extensions.find(e => e.assignmentId === assignment.id)?.dueDate || assignment.dueDate;
+
+  const selectedAssignment = assignments.find(a => a.id === selectedAssignmentId) || null;
+  const selectedSubmission = selectedAssignment ? getSubmission(selectedAssignment.id) : undefined;
+  const selectedPolicy = selectedAssignment?.latePolicy || coursePolicy;
+  const attemptsUsed = selectedSubmission ? selectedSubmission.attemptCount || 1 : 0;
+
+  // Why the student cannot hand in (another) version right now, if they cannot
+  const getSubmitBlocker = () => {
+    if (!selectedAssignment) return null;
+    if (selectedSubmission?.status === 'missing') return 'This assignment was marked missing by your instructor.';
+    if (selectedSubmission && !selectedAssignment.allowResubmission) return null;
+    if (selectedAssignment.maxAttempts && attemptsUsed >= selectedAssignment.maxAttempts) {
+      return `You have used all ${selectedAssignment.maxAttempts} attempts.`;
+    }
+    if (!LatePolicyService.evaluate(selectedPolicy, getDueDate(selectedAssignment), Timestamp.now()).accepted) {
+      return 'The deadline for this assignment has passed.';
+    }
+    return '';
+  };
+  const submitBlocker = getSubmitBlocker();
+
+  // Drop files uploaded for a submission that was never handed in
+  const discardPendingUploads = () => {
+    upload?.task.cancel();
+    pendingUploads.forEach(url =>
+      deleteObject(ref(storage, url)).catch(error => console.error('Error deleting upload:', error))
+    );
+    setPendingUploads([]);
+  };
+
+  const openAssignment = async (assignment: Assignment) => {
+    discardPendingUploads();
+    setSelectedAssignmentId(assignment.id);
+    setExpandedVersionId(null);
+    const submission = getSubmission(assignment.id);
+    setContent(submission?.content || '');
+    setAttachments(submission?.attachments || []);
+    setVersions(submission ? await AssignmentService.getSubmissionVersions(submission) : []);
+  };
+
+  // Upload a file to Storage; large files can be paused and resumed
+  const handleFileSelect = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !selectedAssignment || !user?.id) return;
+
+    const problem = AssignmentService.validateSubmissionFile(selectedAssignment, file);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+
+    const task = uploadBytesResumable(
+      ref(storage, AssignmentService.getSubmissionFilePath(selectedAssignment, user.id, file.name)),
+      file,
+      { contentType: file.type }
+    );
+    setUpload({ task, fileName: file.name, progress: 0, paused: false });
+
+    task.on('state_changed',
+      (snapshot) => {
+        setUpload(current => current && {
+          ...current,
+          progress: (snapshot.bytesTransferred / snapshot.totalBytes) * 100,
+          paused: snapshot.state === 'paused'
+        });
+      },
+      (error) => {
+        if (error.code !== 'storage/canceled') {
+          console.error('Submission upload error:', error);
+          alert('File upload failed. Try again.');
+        }
+        setUpload(null);
+      },
+      () => {
+        getDownloadURL(task.snapshot.ref).then(url => {
+          setAttachments(current => [...current, url]);
+          setPendingUploads(current => [...current, url]);
+          setUpload(null);
+        });
+      });
+  };
+
+  // Files from earlier versions stay in Storage because the history still links to them
+  const removeAttachment = (url: string) => {
+    setAttachments(current => current.filter(a => a !== url));
+    if (pendingUploads.includes(url)) {
+      deleteObject(ref(storage, url)).catch(error => console.error('Error deleting upload:', error));
+      setPendingUploads(current => current.filter(a => a !== url));
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!selectedAssignment || !user?.id) return;
+    if (!content.trim() && attachments.length === 0) {
+      alert('Write your answer or attach a file before submitting.');
+      return;
+    }
+    if (selectedSubmission && !confirm(`Submit attempt ${attemptsUsed + 1}? Your instructor will grade your latest version unless they choose otherwise.`)) return;
+
+    setSubmitting(true);
+    const result = await AssignmentService.submitAssignment(
+      selectedAssignment.id,
+      user.id,
+      selectedAssignment.courseId,
+      content,
+      attachments
+    );
+    setSubmitting(false);
+
+    alert(result.message);
+    if (result.success) {
+      setPendingUploads([]);
+      const studentSubmissions = await AssignmentService.getStudentSubmissions(user.id, selectedAssignment.courseId);
+      setSubmissions(studentSubmissions);
+      const submission = studentSubmissions.find(s => s.assignmentId === selectedAssignment.id);
+      setVersions(submission ? await AssignmentService.getSubmissionVersions(submission) : []);
+    }
+  };
+
+  const getStatusBadge = (assignment: Assignment) => {
+    const submission = getSubmission(assignment.id);
+    if (!submission) {
+      return getDueDate(assignment).toMillis() < Date.now()
+        ? <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">Overdue</span>
+        : <span className="px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">Not submitted</span>;
+    }
+    if ((submission.status === 'graded' || submission.status === 'missing') && isGradeReleased(submission)) {
+      return (
+        <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">
+          Graded {submission.grade ?? '-'}/{assignment.maxPoints}
+        </span>
+      );
+    }
+    if (submission.status === 'missing') {
+      return <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">Overdue</span>;
+    }
+    return (
+      <span className={`px-2 py-0.5 rounded-full text-xs ${
+        submission.status === 'late' ? 'bg-orange-100 text-orange-800' : 'bg-blue-100 text-blue-800'
+      }`}>
+        {submission.status === 'late' ? 'Submitted late' : 'Submitted'}
+      </span>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">Assignments</h2>
+            <p className="text-sm text-gray-600">Hand in your work and review what you submitted</p>
+          </div>
+          <select
+            value={selectedCourseId}
+            onChange={e => setSelectedCourseId(e.target.value)}
+            className="border border-gray-300 rounded-lg px-3 py-2"
+          >
+            {courses.map(course => (
+              <option key={course.id} value={course.id}>{course.title}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <Loader2 className="w-6 h-6 animate-spin text-blue-600" />
+        </div>
+      ) : assignments.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+          <ClipboardList className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-600">No assignments have been published for this course yet.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 divide-y">
+            {assignments.map(assignment => (
+              <button
+                key={assignment.id}
+                onClick={() => openAssignment(assignment)}
+                className={`w-full text-left p-4 hover:bg-gray-50 ${selectedAssignmentId === assignment.id ? 'bg-blue-50' : ''}`}
+              >
+                <div className="flex items-center justify-between">
+                  <p className="font-medium text-gray-900">{assignment.title}</p>
+                  {getStatusBadge(assignment)}
+                </div>
+                <p className="text-xs text-gray-500 flex items-center mt-1">
+                  <Calendar className="w-3 h-3 mr-1" />
+                  Due {getDueDate(assignment).toDate().toLocaleString()}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          <div className="lg:col-span-2">
+            {!selectedAssignment ? (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
+                <p className="text-gray-600">Select an assignment to see its details.</p>
+              </div>
+            ) : (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{selectedAssignment.title}</h3>
+                  <p className="text-sm text-gray-600">
+                    Due {getDueDate(selectedAssignment).toDate().toLocaleString()}
+                    {extensions.some(e => e.assignmentId === selectedAssignment.id) && (
+                      <span className="text-blue-700"> (extended)</span>
+                    )}
+                    {' · '}{selectedAssignment.maxPoints} pts
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">{describePolicy(selectedPolicy)}</p>
+                </div>
+
+                {selectedAssignment.description && <p className="text-gray-700">{selectedAssignment.description}</p>}
+                {selectedAssignment.instructions && (
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 whitespace-pre-wrap text-sm text-gray-800">
+                    {selectedAssignment.instructions}
+                  </div>
+                )}
+                {(selectedAssignment.attachments || []).map(url => (
+                  <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="flex items-center text-sm text-blue-600 hover:underline">
+                    <Paperclip className="w-3 h-3 mr-1" />{getAttachmentName(url)}
+                  </a>
+                ))}
+
+                {selectedSubmission && isGradeReleased(selectedSubmission) && (
+                  <div className="bg-green-50 border border-green-200 rounded-lg p-4 space-y-1">
+                    <p className="flex items-center font-semibold text-green-800">
+                      <CheckCircle className="w-4 h-4 mr-2" />
+                      {selectedSubmission.grade}/{selectedAssignment.maxPoints}
+                      {selectedSubmission.gradedAttempt && versions.length > 1 && ` · attempt ${selectedSubmission.gradedAttempt} graded`}
+                    </p>
+                    {selectedSubmission.latePenalty && (
+                      <p className="text-sm text-orange-800">
+                        Includes a {selectedSubmission.latePenalty.percentage}% late penalty
+                        (−{selectedSubmission.latePenalty.pointsDeducted} points).
+                      </p>
+                    )}
+                    {selectedSubmission.feedback && <p className="text-sm text-gray-700">{selectedSubmission.feedback}</p>}
+                  </div>
+                )}
+
+                {/* Submission form */}
+                {submitBlocker === '' ? (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium text-gray-700">
+                      {selectedSubmission ? 'Resubmit' : 'Your answer'}
+                      {(selectedSubmission || selectedAssignment.maxAttempts) &&
+                        ` (attempt ${attemptsUsed + 1}${selectedAssignment.maxAttempts ? ` of ${selectedAssignment.maxAttempts}` : ''})`}
+                    </p>
+                    <textarea
+                      value={content}
+                      onChange={e => setContent(e.target.value)}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 min-h-[200px] resize-y"
+                    />
+                    {!!selectedAssignment.maxFileSizeMB && (
+                      <div className="space-y-2">
+                        {attachments.map(url => (
+                          <div key={url} className="flex items-center justify-between text-sm">
+                            <a href={url} target="_blank" rel="noopener noreferrer" className="flex items-center text-blue-600 hover:underline">
+                              <Paperclip className="w-3 h-3 mr-1" />{getAttachmentName(url)}
+                            </a>
+                            <button onClick={() => removeAttachment(url)} className="text-red-600 hover:text-red-800 text-xs">
+                              Remove
+                            </button>
+                          </div>
+                        ))}
+                        {upload ? (
+                          <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+                            <div className="flex items-center justify-between text-sm">
+                              <span className="text-gray-700 truncate">
+                                {upload.fileName} · {Math.round(upload.progress)}%{upload.paused && ' (paused)'}
+                              </span>
+                              <div className="flex items-center space-x-2">
+                                <button
+                                  onClick={() => upload.paused ? upload.task.resume() : upload.task.pause()}
+                                  className="text-gray-600 hover:text-gray-900"
+                                  title={upload.paused ? 'Resume' : 'Pause'}
+                                >
+                                  {upload.paused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+                                </button>
+                                <button onClick={() => upload.task.cancel()} className="text-red-600 hover:text-red-800" title="Cancel">
+                                  <X className="w-4 h-4" />
+                                </button>
+                              </div>
+                            </div>
+                            <div className="w-full bg-gray-200 rounded-full h-2">
+                              <div className="bg-blue-600 h-2 rounded-full" style={{ width: `${upload.progress}%` }} />
+                            </div>
+                          </div>
+                        ) : (
+                          <label className="inline-flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 cursor-pointer">
+                            <Upload className="w-4 h-4 mr-2" /> Attach a file
+                            <input
+                              type="file"
+                              onChange={handleFileSelect}
+                              accept={selectedAssignment.allowedFileTypes?.join(',')}
+                              className="hidden"
+                            />
+                          </label>
+                        )}
+                        <p className="text-xs text-gray-500">
+                          Up to {selectedAssignment.maxFileSizeMB} MB per file
+                          {selectedAssignment.allowedFileTypes?.length
+                            ? ` · ${SUBMISSION_FILE_TYPES.filter(t => t.mimeTypes.some(m => selectedAssignment.allowedFileTypes?.includes(m))).map(t => t.label).join(', ')}`
+                            : ''}
+                        </p>
+                      </div>
+                    )}
+                    <div className="flex justify-end">
+                      <button
+                        onClick={handleSubmit}
+                        disabled={submitting || !!upload}
+                        className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                      >
+                        {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                        <span>{submitting ? 'Submitting...' : selectedSubmission ? 'Resubmit' : 'Submit'}</span>
+                      </button>
+                    </div>
+                  </div>
+                ) : submitBlocker && (
+                  <p className="text-sm text-gray-600 italic">{submitBlocker}</p>
+                )}
+
+                {/* Submission history */}
+                {versions.length > 0 && (
+                  <div>
+                    <h4 className="flex items-center font-medium text-gray-900 mb-2">
+                      <History className="w-4 h-4 mr-2" /> Submission history
+                    </h4>
+                    <div className="border border-gray-200 rounded-lg divide-y">
+                      {[...versions].reverse().map(version => (
+                        <div key={version.id} className="p-3">
+                          <button
+                            onClick={() => setExpandedVersionId(expandedVersionId === version.id ? null : version.id)}
+                            className="w-full flex items-center justify-between text-sm"
+                          >
+                            <span className="font-medium text-gray-900">Attempt {version.attempt}</span>
+                            <span className="flex items-center text-gray-500">
+                              {version.isLate && <Clock className="w-3 h-3 mr-1 text-orange-600" />}
+                              {version.submittedAt?.toDate?.().toLocaleString() || 'Just now'}
+                            </span>
+                          </button>
+                          {expandedVersionId === version.id && (
+                            <div className="mt-2 space-y-1">
+                              <div className="bg-gray-50 rounded p-3 whitespace-pre-wrap text-sm text-gray-800">
+                                {version.content || <span className="italic text-gray-500">No written content.</span>}
+                              </div>
+                              {version.attachments.map(url => (
+                                <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="flex items-center text-sm text-blue-600 hover:underline">
+                                  <Paperclip className="w-3 h-3 mr-1" />{getAttachmentName(url)}
+                                </a>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Assignments;
@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import { GraduationCap, Download, ExternalLink, XCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import EnrollmentService from '../../services/enrollmentService';
+import CertificateService, { Certificate, CERTIFICATE_COLORS } from '../../services/certificateService';
+
+const Certificates: React.FC = () => {
+  const { user } = useAuth();
+  const [certificates, setCertificates] = useState<Certificate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchCertificates = async (studentId: string) => {
+      // Courses completed before certificates existed get theirs the first time this page opens
+      const [enrollments, issued] = await Promise.all([
+        EnrollmentService.getUserEnrollments(studentId),
+        CertificateService.getStudentCertificates(studentId)
+      ]);
+      const missing = enrollments.filter(e =>
+        e.status === 'completed' && !issued.some(c => c.enrollmentId === e.id)
+      );
+      if (missing.length > 0) {
+        await Promise.all(missing.map(enrollment => CertificateService.issueCertificate(enrollment)));
+        setCertificates(await CertificateService.getStudentCertificates(studentId));
+      } else {
+        setCertificates(issued);
+      }
+      setLoading(false);
+    };
+
+    if (user?.id) fetchCertificates(user.id);
+  }, [user?.id]);
+
+  const verifyUrl = `${window.location.origin}/verify`;
+
+  const downloadPdf = (certificate: Certificate) => {
+    const blob = CertificateService.createPdf(certificate, verifyUrl);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `certificate-${certificate.courseTitle.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-${certificate.id}.pdf`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <h2 className="text-xl font-semibold text-gray-900">My Certificates</h2>
+        <p className="text-sm text-gray-600">
+          You earn a certificate for every course you complete. Anyone can check one at{' '}
+          <span className="font-mono">{verifyUrl}</span> using its certificate ID.
+        </p>
+      </div>
+
+      {certificates.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 text-center py-16">
+          <GraduationCap className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">Complete a course to earn your first certificate.</p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {certificates.map(certificate => (
+            <div
+              key={certificate.id}
+              className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 border-t-4"
+              style={{ borderTopColor: (CERTIFICATE_COLORS[certificate.template.accentColor] || CERTIFICATE_COLORS.green).hex }}
+            >
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-xs uppercase tracking-wide text-gray-500">{certificate.template.heading}</p>
+                  <h3 className="text-lg font-semibold text-gray-900">{certificate.courseTitle}</h3>
+                  <p className="text-sm text-gray-600">
+                    Completed {certificate.completedAt?.toDate?.().toLocaleDateString() || '-'}
+                    {certificate.template.instructorName && ` · ${certificate.template.instructorName}`}
+                  </p>
+                  <p className="text-xs font-mono text-gray-500 mt-1">{certificate.id}</p>
+                </div>
+                <GraduationCap className="w-8 h-8 text-gray-300 flex-shrink-0" />
+              </div>
+
+              {certificate.status === 'revoked' ? (
+                <p className="flex items-center text-sm text-red-700 mt-4">
+                  <XCircle className="w-4 h-4 mr-1" /> This certificate was revoked
+                  {certificate.revokedReason && `: ${certificate.revokedReason}`}
+                </p>
+              ) : (
+                <div className="flex space-x-2 mt-4">
+                  <button
+                    onClick={() => downloadPdf(certificate)}
+                    className="flex items-center px-3 py-2 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 transition-colors"
+                  >
+                    <Download className="w-4 h-4 mr-1" /> Download PDF
+                  </button>
+                  <a
+                    href={`/verify/${certificate.id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    <ExternalLink className="w-4 h-4 mr-1" /> Verification Page
+                  </a>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Certificates;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   ArrowLeft,
   CheckCircle,
@@ -9,7 +9,19 @@ import {
   Play
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
-import ProgressService, { LessonProgress } from '../../services/progressService';
+import ProgressService, { LessonProgress, ModuleProgress } from '../../services/progressService';
+import QuizService, { QuizQuestion, QuizAnswers, ExamSettings, RetakePolicy, DEFAULT_PASSING_SCORE } from '../../services/quizService';
+import { IntegritySignals } from '../../services/gradingService';
+import QuestionBankService, { BankQuestion, QuestionDraw } from '../../services/questionBankService';
+import QuizTaker from './QuizTaker';
+import ModuleTestTaker from './ModuleTestTaker';
+import ExamTaker from './ExamTaker';
+import PhishingSimPlayer from './PhishingSimPlayer';
+import PhishingService, { PhishingSimulation, PhishingAction } from '../../services/phishingService';
+import ScenarioPlayer from './ScenarioPlayer';
+import ScenarioService, { Scenario, ScenarioStep } from '../../services/scenarioService';
+import SpotIssuePlayer from './SpotIssuePlayer';
+import SpotIssueService, { SpotIssueExercise } from '../../services/spotIssueService';
 
 // Enhanced Image Component for Firebase Storage
 const FirebaseImage: React.FC<{
@@ -66,22 +78,16 @@ const FirebaseImage: React.FC<{
 
 interface ContentBlock {
   id: string;
-  type: 'text' | 'image' | 'video' | 'quiz';
+  type: 'text' | 'image' | 'video' | 'quiz' | 'phishing-sim' | 'scenario' | 'spot-the-issue';
   content?: string;
   url?: string;
   quizData?: QuizQuestion[];
-}
-
-interface QuizQuestion {
-  id: string;
-  question: string;
-  options: QuizOption[];
-}
-
-interface QuizOption {
-  id: string;
-  text: string;
-  isCorrect: boolean;
+  quizDraws?: QuestionDraw[]; // random questions drawn from the course question bank
+  examSettings?: ExamSettings;
+  retakePolicy?: RetakePolicy;
+  phishingData?: PhishingSimulation;
+  scenarioData?: Scenario;
+  spotIssueData?: SpotIssueExercise;
 }
 
 interface Lesson {
@@ -95,9 +101,13 @@ interface Module {
   title: string;
   lessons: Lesson[];
   test?: QuizQuestion[];
+  testDraws?: QuestionDraw[]; // random questions drawn from the course question bank
+  testExamSettings?: ExamSettings;
+  testPassingScore?: number; // percentage required to pass the module test
+  testRetakePolicy?: RetakePolicy;
 }
 
-interface Course {
+export interface Course {
   id: string;
   title: string;
   description: string;
@@ -120,7 +130,12 @@ interface CourseViewerProps {
 const CourseViewer: React.FC<CourseViewerProps> = ({ course, onBack }) => {
   const { user } = useAuth();
   const [lessonProgress, setLessonProgress] = useState<LessonProgress[]>([]);
+  const [moduleProgress, setModuleProgress] = useState<ModuleProgress[]>([]);
   const [loadingProgress, setLoadingProgress] = useState(true);
+  const [overallProgress, setOverallProgress] = useState(0); // lessons and module tests, as the enrollment records it
+  const [drawnQuizzes, setDrawnQuizzes] = useState<{ [quizId: string]: QuizQuestion[] } | null>(null);
+  const [questionBank, setQuestionBank] = useState<BankQuestion[]>([]); // lets a resumed exam find its drawn questions and a retake draw new ones
+  const studyStartedAt = useRef(Date.now()); // time since the course opened or the last lesson was completed
 
   // Fetch lesson progress when component mounts
   useEffect(() => {
@@ -129,8 +144,12 @@ const CourseViewer: React.FC<CourseViewerProps> = ({ course, onBack }) => {
       
       setLoadingProgress(true);
       try {
-        const progress = await ProgressService.getCourseLessonProgress(user.id, course.id);
+        const [progress, modules] = await Promise.all([
+          ProgressService.getCourseLessonProgress(user.id, course.id),
+          ProgressService.getCourseModuleProgress(user.id, course.id)
+        ]);
         setLessonProgress(progress);
+        setModuleProgress(modules);
       } catch (error) {
         console.error('Error fetching lesson progress:', error);
       } finally {
@@ -141,6 +160,69 @@ const CourseViewer: React.FC<CourseViewerProps> = ({ course, onBack }) => {
     fetchProgress();
   }, [user?.id, course.id]);
 
+  // Recount overall progress whenever a lesson or module test is completed
+  useEffect(() => {
+    const fetchCourseProgress = async () => {
+      if (!user?.id) return;
+      const progress = await ProgressService.getCourseProgress(user.id, course.id);
+      setOverallProgress(progress?.overallProgress || 0);
+    };
+
+    fetchCourseProgress();
+  }, [user?.id, course.id, lessonProgress, moduleProgress]);
+
+  // Assemble every quiz that draws from the question bank, once per visit
+  useEffect(() => {
+    const assembleQuizzes = async () => {
+      const hasDraws = course.modules.some(module =>
+        (module.testDraws?.length || 0) > 0 ||
+        module.lessons?.some(lesson => lesson.contentBlocks.some(block => (block.quizDraws?.length || 0) > 0))
+      );
+      if (!hasDraws) {
+        setDrawnQuizzes({});
+        setQuestionBank([]);
+        return;
+      }
+
+      const bank = await QuestionBankService.getCourseQuestions(course.id);
+      setQuestionBank(bank);
+      const quizzes: { [quizId: string]: QuizQuestion[] } = {};
+
+      course.modules.forEach(module => {
+        module.lessons?.forEach(lesson => {
+          lesson.contentBlocks.forEach(block => {
+            if (block.type === 'quiz' && block.quizDraws?.length) {
+              quizzes[block.id] = QuestionBankService.assembleQuiz(block.quizData, bank, block.quizDraws);
+            }
+          });
+        });
+        if (module.testDraws?.length) {
+          quizzes[module.id] = QuestionBankService.assembleQuiz(module.test, bank, module.testDraws);
+        }
+      });
+
+      setDrawnQuizzes(quizzes);
+    };
+
+    assembleQuizzes();
+  }, [course]);
+
+  // Get the questions a student sees for a quiz: fixed ones plus any bank draws
+  const getQuizQuestions = (quizId: string, fixedQuestions: QuizQuestion[] = []): QuizQuestion[] | null => {
+    if (!drawnQuizzes) return null;
+    return drawnQuizzes[quizId] || fixedQuestions;
+  };
+
+  // Draw fresh bank questions for another module test attempt
+  const redrawModuleTest = (module: Module) => {
+    const draws = module.testDraws;
+    if (!draws?.length) return;
+    setDrawnQuizzes(prev => ({
+      ...prev,
+      [module.id]: QuestionBankService.assembleQuiz(module.test, questionBank, draws)
+    }));
+  };
+
   // Check if a lesson is completed
   const isLessonCompleted = (moduleId: string, lessonId: string): boolean => {
     return lessonProgress.some(
@@ -150,38 +232,268 @@ const CourseViewer: React.FC<CourseViewerProps> = ({ course, onBack }) => {
     );
   };
 
+  // Get the scored blocks of a lesson the student still has to pass
+  const getUnpassedBlocks = (moduleId: string, lesson: Lesson): string[] => {
+    const progress = lessonProgress.find(p => p.moduleId === moduleId && p.lessonId === lesson.id);
+    return ProgressService.getUnpassedBlocks(lesson, progress);
+  };
+
+  // Check if a module's general test has been passed
+  const isModuleTestPassed = (moduleId: string): boolean => {
+    return moduleProgress.some(progress => progress.moduleId === moduleId && progress.testPassed);
+  };
+
   // Handle lesson completion
   const handleLessonComplete = async (moduleId: string, lessonId: string) => {
     if (!user?.id) return;
 
     try {
-      await ProgressService.markLessonComplete(user.id, course.id, moduleId, lessonId);
-      
-      // Update local state
-      setLessonProgress(prev => {
-        const existing = prev.find(p => p.moduleId === moduleId && p.lessonId === lessonId);
-        if (existing) {
-          return prev.map(p => 
-            p.moduleId === moduleId && p.lessonId === lessonId 
-              ? { ...p, completed: true, completedAt: new Date() }
-              : p
-          );
-        } else {
-          return [...prev, {
-            userId: user.id,
-            courseId: course.id,
-            moduleId,
-            lessonId,
-            completed: true,
-            completedAt: new Date()
-          }];
-        }
-      });
+      const timeSpent = (Date.now() - studyStartedAt.current) / 1000;
+      const success = await ProgressService.markLessonCompleted(user.id, course.id, moduleId, lessonId, timeSpent);
+      if (success) {
+        studyStartedAt.current = Date.now();
+        const [progress, modules] = await Promise.all([
+          ProgressService.getCourseLessonProgress(user.id, course.id),
+          ProgressService.getCourseModuleProgress(user.id, course.id)
+        ]);
+        setLessonProgress(progress);
+        setModuleProgress(modules);
+      }
     } catch (error) {
       console.error('Error marking lesson complete:', error);
     }
   };
 
+  // Score and record a quiz block attempt
+  const handleQuizSubmit = async (
+    moduleId: string,
+    lesson: Lesson,
+    block: ContentBlock,
+    answers: QuizAnswers,
+    exam?: { examSessionId: string; integritySignals: IntegritySignals; timedOut: boolean },
+    examQuestions?: QuizQuestion[]
+  ) => {
+    const questions = examQuestions || getQuizQuestions(block.id, block.quizData);
+    if (!user?.id || !questions) return null;
+
+    const response = await QuizService.submitQuizAttempt({
+      userId: user.id,
+      courseId: course.id,
+      moduleId,
+      lessonId: lesson.id,
+      quizId: block.id,
+      title: `${lesson.title || 'Lesson'} ${exam ? 'Exam' : 'Quiz'}`,
+      questions,
+      answers,
+      ...(block.retakePolicy ? { retakePolicy: block.retakePolicy } : {}),
+      ...exam
+    });
+
+    return response.result || null;
+  };
+
+  // Score a phishing simulation and refresh the lesson scores it feeds
+  const handlePhishingSubmit = async (
+    moduleId: string,
+    lesson: Lesson,
+    block: ContentBlock,
+    flagged: string[],
+    action: PhishingAction
+  ) => {
+    if (!user?.id || !block.phishingData) return null;
+
+    const response = await PhishingService.submitAttempt({
+      userId: user.id,
+      courseId: course.id,
+      moduleId,
+      lessonId: lesson.id,
+      blockId: block.id,
+      simulation: block.phishingData,
+      flagged,
+      action
+    });
+
+    if (response.success) {
+      setLessonProgress(await ProgressService.getCourseLessonProgress(user.id, course.id));
+    }
+
+    return response.result || null;
+  };
+
+  // Score a scenario playthrough and refresh the lesson scores it feeds
+  const handleScenarioSubmit = async (
+    moduleId: string,
+    lesson: Lesson,
+    block: ContentBlock,
+    path: ScenarioStep[]
+  ) => {
+    if (!user?.id || !block.scenarioData) return null;
+
+    const response = await ScenarioService.submitAttempt({
+      userId: user.id,
+      courseId: course.id,
+      moduleId,
+      lessonId: lesson.id,
+      blockId: block.id,
+      scenario: block.scenarioData,
+      path
+    });
+
+    if (response.success) {
+      setLessonProgress(await ProgressService.getCourseLessonProgress(user.id, course.id));
+    }
+
+    return response.result || null;
+  };
+
+  // Score a spot-the-issue exercise and refresh the lesson scores it feeds
+  const handleSpotIssueSubmit = async (
+    moduleId: string,
+    lesson: Lesson,
+    block: ContentBlock,
+    selectedLines: number[]
+  ) => {
+    if (!user?.id || !block.spotIssueData) return null;
+
+    const response = await SpotIssueService.submitAttempt({
+      userId: user.id,
+      courseId: course.id,
+      moduleId,
+      lessonId: lesson.id,
+      blockId: block.id,
+      exercise: block.spotIssueData,
+      selectedLines
+    });
+
+    if (response.success) {
+      setLessonProgress(await ProgressService.getCourseLessonProgress(user.id, course.id));
+    }
+
+    return response.result || null;
+  };
+
+  // Score the module general test and re-evaluate module completion
+  const handleModuleTestSubmit = async (
+    module: Module,
+    answers: QuizAnswers,
+    exam?: { examSessionId: string; integritySignals: IntegritySignals; timedOut: boolean },
+    examQuestions?: QuizQuestion[]
+  ) => {
+    const questions = examQuestions || getQuizQuestions(module.id, module.test);
+    if (!user?.id || !questions) return null;
+
+    const response = await QuizService.submitModuleTest({
+      userId: user.id,
+      courseId: course.id,
+      moduleId: module.id,
+      title: `${module.title || 'Module'} Test`,
+      questions,
+      answers,
+      passingScore: module.testPassingScore,
+      ...(module.testRetakePolicy ? { retakePolicy: module.testRetakePolicy } : {}),
+      ...exam
+    });
+
+    if (response.result?.passed) {
+      await ProgressService.updateModuleProgress(user.id, course.id, module.id);
+      await ProgressService.updateCourseProgress(user.id, course.id);
+      setModuleProgress(await ProgressService.getCourseModuleProgress(user.id, course.id));
+    }
+
+    return response.result || null;
+  };
+
+  // Render a single lesson content block
+  const renderContentBlock = (moduleId: string, lesson: Lesson, block: ContentBlock) => {
+    switch (block.type) {
+      case 'text':
+        return block.content ? (
+          <div className="text-gray-700 space-y-3">
+            {block.content.split('\n\n').map((paragraph, pIndex) => {
+              const trimmedParagraph = paragraph.trim();
+              if (!trimmedParagraph) return null;
+
+              return (
+                <p key={pIndex} className="leading-relaxed text-justify">
+                  {trimmedParagraph.split('\n').join(' ')}
+                </p>
+              );
+            }).filter(Boolean)}
+          </div>
+        ) : null;
+      case 'image':
+        return block.url ? (
+          <FirebaseImage
+            src={block.url}
+            alt="Course content"
+            className="max-w-full max-h-96 object-contain rounded mx-auto block"
+          />
+        ) : null;
+      case 'video':
+        return block.url ? (
+          <video
+            src={block.url}
+            controls
+            className="max-w-full max-h-96 rounded mx-auto block"
+            onError={() => {
+              console.error('Course video failed to load:', block.url);
+            }}
+          >
+            Your browser does not support the video tag.
+          </video>
+        ) : null;
+      case 'quiz': {
+        if (!block.quizData && !block.quizDraws?.length) return null;
+        const questions = getQuizQuestions(block.id, block.quizData);
+        if (questions && block.examSettings?.enabled) {
+          return (
+            <ExamTaker
+              title="Exam"
+              questions={questions}
+              questionPool={questionBank}
+              settings={block.examSettings}
+              courseId={course.id}
+              quizId={block.id}
+              onSubmit={(answers, exam, examQuestions) => handleQuizSubmit(moduleId, lesson, block, answers, exam, examQuestions)}
+            />
+          );
+        }
+        return questions ? (
+          <QuizTaker
+            title="Quiz"
+            questions={questions}
+            onSubmit={(answers) => handleQuizSubmit(moduleId, lesson, block, answers)}
+          />
+        ) : (
+          <p className="text-sm text-gray-500">Preparing quiz...</p>
+        );
+      }
+      case 'phishing-sim':
+        return block.phishingData ? (
+          <PhishingSimPlayer
+            simulation={block.phishingData}
+            onSubmit={(flagged, action) => handlePhishingSubmit(moduleId, lesson, block, flagged, action)}
+          />
+        ) : null;
+      case 'scenario':
+        return block.scenarioData ? (
+          <ScenarioPlayer
+            scenario={block.scenarioData}
+            onSubmit={(path) => handleScenarioSubmit(moduleId, lesson, block, path)}
+          />
+        ) : null;
+      case 'spot-the-issue':
+        return block.spotIssueData ? (
+          <SpotIssuePlayer
+            exercise={block.spotIssueData}
+            onSubmit={(selectedLines) => handleSpotIssueSubmit(moduleId, lesson, block, selectedLines)}
+          />
+        ) : null;
+      default:
+        return null;
+    }
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -250,9 +562,7 @@ const CourseViewer: React.FC<CourseViewerProps> = ({ course, onBack }) => {
               </div>
               <div className="text-center">
                 <div className="text-2xl font-bold text-purple-600">
-                  {course.modules.reduce((sum, module) => sum + (module.lessons?.length || 0), 0) > 0 
-                    ? Math.round((lessonProgress.filter(p => p.completed).length / course.modules.reduce((sum, module) => sum + (module.lessons?.length || 0), 0)) * 100)
-                    : 0}%
+                  {overallProgress}%
                 </div>
                 <div className="text-sm text-gray-600">Overall Progress</div>
               </div>
@@ -318,6 +628,97 @@ const CourseViewer: React.FC<CourseViewerProps> = ({ course, onBack }) => {
                     )}
                   </div>
                 </div>
+
+                {/* Module Lessons */}
+                <div className="p-6 space-y-6">
+                  {(module.lessons?.length || 0) === 0 ? (
+                    <p className="text-gray-500 text-sm italic">No lessons in this module.</p>
+                  ) : (
+                    module.lessons.map((lesson, lessonIndex) => {
+                      const completed = isLessonCompleted(module.id, lesson.id);
+                      const unpassedBlocks = getUnpassedBlocks(module.id, lesson);
+
+                      return (
+                        <div key={lesson.id} className="border-l-4 border-blue-200 pl-4">
+                          <div className="flex items-center justify-between mb-3">
+                            <h4 className="font-semibold text-gray-900 flex items-center space-x-2">
+                              <Play className="w-4 h-4 text-blue-600" />
+                              <span>Lesson {lessonIndex + 1}: {lesson.title}</span>
+                            </h4>
+                            {completed ? (
+                              <span className="flex items-center space-x-1 text-sm text-green-600 font-medium">
+                                <CheckCircle className="w-4 h-4" />
+                                <span>Completed</span>
+                              </span>
+                            ) : (
+                              <button
+                                onClick={() => handleLessonComplete(module.id, lesson.id)}
+                                disabled={unpassedBlocks.length > 0}
+                                title={unpassedBlocks.length > 0 ? 'Pass the scored exercises in this lesson first' : undefined}
+                                className="px-3 py-1 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                              >
+                                Mark as Complete
+                              </button>
+                            )}
+                          </div>
+
+                          {lesson.contentBlocks.length === 0 ? (
+                            <p className="text-gray-500 text-sm italic">No content blocks in this lesson.</p>
+                          ) : (
+                            <div className="space-y-4">
+                              {lesson.contentBlocks.map(block => (
+                                <div key={block.id} className="bg-gray-50 p-4 rounded-lg">
+                                  {renderContentBlock(module.id, lesson, block)}
+                                </div>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })
+                  )}
+
+                  {/* Module Test */}
+                  {((module.test?.length || 0) > 0 || (module.testDraws?.length || 0) > 0) && (
+                    <div className="border-t border-gray-200 pt-6">
+                      <div className="flex items-center justify-between mb-4">
+                        <div>
+                          <h4 className="text-lg font-semibold text-gray-900">Module Test</h4>
+                          <p className="text-sm text-gray-600">
+                            Score at least {module.testPassingScore ?? DEFAULT_PASSING_SCORE}% to complete this module.
+                          </p>
+                        </div>
+                        {isModuleTestPassed(module.id) && (
+                          <span className="flex items-center space-x-1 text-sm text-green-600 font-medium">
+                            <CheckCircle className="w-4 h-4" />
+                            <span>Passed</span>
+                          </span>
+                        )}
+                      </div>
+                      {getQuizQuestions(module.id, module.test) && module.testExamSettings?.enabled ? (
+                        <ExamTaker
+                          title="Module Test"
+                          questions={getQuizQuestions(module.id, module.test) || []}
+                          questionPool={questionBank}
+                          settings={module.testExamSettings}
+                          courseId={course.id}
+                          quizId={module.id}
+                          onSubmit={(answers, exam, examQuestions) => handleModuleTestSubmit(module, answers, exam, examQuestions)}
+                        />
+                      ) : getQuizQuestions(module.id, module.test) ? (
+                        <ModuleTestTaker
+                          title="Module Test"
+                          questions={getQuizQuestions(module.id, module.test) || []}
+                          quizId={module.id}
+                          onSubmit={(answers) => handleModuleTestSubmit(module, answers)}
+                          onRetake={() => redrawModuleTest(module)}
+                        />
+                      ) : (
+                        <p className="text-sm text-gray-500">Preparing test...</p>
+                      )}
+                    </div>
+                  )}
+                </div>
               </div>
             );
           })
@@ -0,0 +1,287 @@
+import React, { useState, useEffect } from 'react';
+import { Flag, Trophy, Droplet, Paperclip, CheckCircle, Loader2 } from 'lucide-react';
+import { getDoc, doc } from 'firebase/firestore';
+import { db } from '../../lib/firebase';
+import { useAuth } from '../../contexts/AuthContext';
+import EnrollmentService from '../../services/enrollmentService';
+import CtfService, { CtfChallenge, CtfSolve, ScoreboardEntry } from '../../services/ctfService';
+
+interface CourseOption {
+  id: string;
+  title: string;
+}
+
+const CtfArena: React.FC = () => {
+  const { user } = useAuth();
+  const [courses, setCourses] = useState<CourseOption[]>([]);
+  const [selectedCourseId, setSelectedCourseId] = useState('');
+  const [challenges, setChallenges] = useState<CtfChallenge[]>([]);
+  const [solves, setSolves] = useState<CtfSolve[]>([]);
+  const [scoreboard, setScoreboard] = useState<ScoreboardEntry[]>([]);
+  const [selectedEvent, setSelectedEvent] = useState('all');
+  const [loading, setLoading] = useState(false);
+
+  // Flag submission state
+  const [activeChallenge, setActiveChallenge] = useState<CtfChallenge | null>(null);
+  const [flag, setFlag] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [feedback, setFeedback] = useState<{ correct: boolean; message: string } | null>(null);
+
+  // Fetch enrolled courses for the selector
+  useEffect(() => {
+    const fetchCourses = async () => {
+      if (!user?.id) return;
+
+      const enrollments = await EnrollmentService.getUserEnrollments(user.id);
+      const courseList = await Promise.all(enrollments.map(async enrollment => {
+        try {
+          const courseDoc = await getDoc(doc(db, 'courses', enrollment.courseId));
+          return { id: enrollment.courseId, title: courseDoc.data()?.title || 'Untitled course' };
+        } catch (error) {
+          console.error('Error fetching course:', error);
+          return { id: enrollment.courseId, title: 'Untitled course' };
+        }
+      }));
+      setCourses(courseList);
+      if (courseList.length > 0) setSelectedCourseId(courseList[0].id);
+    };
+
+    fetchCourses();
+  }, [user?.id]);
+
+  const fetchArena = async (courseId: string) => {
+    setLoading(true);
+    const [courseChallenges, courseSolves] = await Promise.all([
+      CtfService.getCourseChallenges(courseId, true),
+      CtfService.getCourseSolves(courseId)
+    ]);
+    setChallenges(courseChallenges);
+    setSolves(courseSolves);
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (selectedCourseId) {
+      setSelectedEvent('all');
+      fetchArena(selectedCourseId);
+    }
+  }, [selectedCourseId]);
+
+  // Rebuild the scoreboard when the event filter or solves change
+  useEffect(() => {
+    const fetchScoreboard = async () => {
+      if (!selectedCourseId) return;
+      setScoreboard(await CtfService.getScoreboard(selectedCourseId, selectedEvent === 'all' ? undefined : selectedEvent));
+    };
+
+    fetchScoreboard();
+  }, [selectedCourseId, selectedEvent, solves]);
+
+  const events = [...new Set(challenges.map(c => c.eventName).filter(Boolean))];
+  const visibleChallenges = selectedEvent === 'all'
+    ? challenges
+    : challenges.filter(c => c.eventName === selectedEvent);
+  const categories = [...new Set(visibleChallenges.map(c => c.category))];
+
+  const isSolved = (challengeId: string) =>
+    solves.some(s => s.challengeId === challengeId && s.userId === user?.id);
+
+  const openChallenge = (challenge: CtfChallenge) => {
+    setActiveChallenge(challenge);
+    setFlag('');
+    setFeedback(null);
+  };
+
+  const handleSubmitFlag = async () => {
+    if (!activeChallenge || !user?.id || !flag.trim()) return;
+
+    setSubmitting(true);
+    const result = await CtfService.submitFlag(activeChallenge.id, user.id, user.name || user.email, flag);
+    setSubmitting(false);
+
+    setFeedback({ correct: !!result.correct, message: result.message });
+    if (result.correct) {
+      fetchArena(selectedCourseId);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900">CTF Arena</h2>
+            <p className="text-sm text-gray-600">Find the flags, earn points and climb the scoreboard</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            {events.length > 0 && (
+              <select
+                value={selectedEvent}
+                onChange={e => setSelectedEvent(e.target.value)}
+                className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              >
+                <option value="all">All challenges</option>
+                {events.map(event => (
+                  <option key={event} value={event}>{event}</option>
+                ))}
+              </select>
+            )}
+            <select
+              value={selectedCourseId}
+              onChange={e => setSelectedCourseId(e.target.value)}
+              className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            >
+              {courses.map(course => (
+                <option key={course.id} value={course.id}>{course.title}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Challenges by category */}
+        <div className="lg:col-span-2 space-y-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+              <span className="ml-2 text-gray-600">Loading challenges...</span>
+            </div>
+          ) : visibleChallenges.length === 0 ? (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 text-center py-12">
+              <Flag className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+              <p className="text-gray-600">No challenges available yet.</p>
+            </div>
+          ) : (
+            categories.map(category => (
+              <div key={category}>
+                <h3 className="text-sm font-semibold text-gray-700 uppercase tracking-wide mb-2">{category}</h3>
+                <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+                  {visibleChallenges.filter(c => c.category === category).map(challenge => {
+                    const solved = isSolved(challenge.id);
+                    return (
+                      <button
+                        key={challenge.id}
+                        onClick={() => openChallenge(challenge)}
+                        className={`text-left p-4 rounded-xl border transition-colors ${
+                          solved
+                            ? 'bg-green-50 border-green-300'
+                            : 'bg-white border-gray-200 hover:border-green-400'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <p className="font-medium text-gray-900">{challenge.title}</p>
+                          {solved && <CheckCircle className="w-4 h-4 text-green-600" />}
+                        </div>
+                        <p className="text-2xl font-bold text-gray-900 mt-2">{CtfService.getChallengeValue(challenge)}</p>
+                        <p className="text-xs text-gray-500">
+                          {challenge.solveCount} solve{challenge.solveCount === 1 ? '' : 's'}
+                        </p>
+                        {challenge.firstBloodUserName && (
+                          <p className="flex items-center text-xs text-red-600 mt-1">
+                            <Droplet className="w-3 h-3 mr-1" />{challenge.firstBloodUserName}
+                          </p>
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* Scoreboard */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 h-fit">
+          <h3 className="flex items-center text-lg font-semibold text-gray-900 mb-4">
+            <Trophy className="w-5 h-5 mr-2 text-yellow-500" /> Scoreboard
+          </h3>
+          {scoreboard.length === 0 ? (
+            <p className="text-sm text-gray-600">No solves yet. Be the first!</p>
+          ) : (
+            <ol className="space-y-2 text-sm">
+              {scoreboard.map((entry, index) => (
+                <li
+                  key={entry.userId}
+                  className={`flex items-center justify-between rounded px-2 py-1 ${entry.userId === user?.id ? 'bg-green-50' : ''}`}
+                >
+                  <span className="text-gray-900">{index + 1}. {entry.userName}</span>
+                  <span className="text-gray-600">
+                    {entry.points} pts
+                    {entry.firstBloods > 0 && <span className="text-red-600"> · {entry.firstBloods} 🩸</span>}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+
+      {/* Challenge modal */}
+      {activeChallenge && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start overflow-auto justify-center z-50 pt-12 pb-12 px-4">
+          <div className="bg-white rounded-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto space-y-4">
+            <div className="flex items-start justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{activeChallenge.title}</h3>
+                <p className="text-sm text-gray-500 capitalize">
+                  {activeChallenge.category} · {CtfService.getChallengeValue(activeChallenge)} points
+                </p>
+              </div>
+              <button onClick={() => setActiveChallenge(null)} className="text-gray-500 hover:text-gray-700">✕</button>
+            </div>
+
+            <p className="text-gray-700 whitespace-pre-wrap">{activeChallenge.description}</p>
+
+            {activeChallenge.files?.length > 0 && (
+              <div className="space-y-1">
+                {activeChallenge.files.map(file => (
+                  <a
+                    key={file.path}
+                    href={file.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center text-sm text-blue-600 hover:underline"
+                  >
+                    <Paperclip className="w-3 h-3 mr-1" />{file.name}
+                  </a>
+                ))}
+              </div>
+            )}
+
+            {isSolved(activeChallenge.id) ? (
+              <p className="flex items-center text-green-700 font-medium">
+                <CheckCircle className="w-5 h-5 mr-2" /> You have solved this challenge.
+              </p>
+            ) : (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  placeholder="flag{...}"
+                  value={flag}
+                  onChange={e => setFlag(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && handleSubmitFlag()}
+                  className="flex-grow border border-gray-300 rounded-lg px-3 py-2 font-mono"
+                />
+                <button
+                  onClick={handleSubmitFlag}
+                  disabled={submitting || !flag.trim()}
+                  className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                >
+                  {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+                  <span>Submit</span>
+                </button>
+              </div>
+            )}
+
+            {feedback && (
+              <p className={`text-sm ${feedback.correct ? 'text-green-700' : 'text-red-700'}`}>{feedback.message}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CtfArena;
@@ -0,0 +1,258 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Clock, ShieldAlert, Play, Loader2, CalendarClock, RotateCcw } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import QuizService, {
+  QuizQuestion,
+  QuizAnswers,
+  QuizScore,
+  QuizResult,
+  ExamSettings,
+  ExamSession,
+  EMPTY_INTEGRITY_SIGNALS
+} from '../../services/quizService';
+import { IntegritySignals } from '../../services/gradingService';
+import QuizTaker from './QuizTaker';
+
+interface ExamTakerProps {
+  title: string;
+  questions: QuizQuestion[];
+  questionPool?: QuizQuestion[]; // bank questions a resumed attempt may have drawn
+  settings: ExamSettings;
+  courseId: string;
+  quizId: string;
+  onSubmit: (
+    answers: QuizAnswers,
+    exam: { examSessionId: string; integritySignals: IntegritySignals; timedOut: boolean },
+    questions: QuizQuestion[]
+  ) => Promise<QuizScore | null>;
+}
+
+const ExamTaker: React.FC<ExamTakerProps> = ({ title, questions, questionPool = [], settings, courseId, quizId, onSubmit }) => {
+  const { user } = useAuth();
+  const [attempts, setAttempts] = useState<QuizResult[]>([]);
+  const [session, setSession] = useState<ExamSession | null>(null);
+  const [finished, setFinished] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [starting, setStarting] = useState(false);
+  const [signals, setSignals] = useState<IntegritySignals>(EMPTY_INTEGRITY_SIGNALS);
+  const [clockOffset, setClockOffset] = useState(0); // server time minus client time, in ms
+
+  const signalsRef = useRef(signals);
+  signalsRef.current = signals;
+
+  // The deadline follows the server's clock; the countdown converts it to the student's clock
+  const deadline = useMemo(
+    () => session ? QuizService.getExamDeadline(settings, session) : null,
+    [settings, session]
+  );
+  const localDeadline = useMemo(
+    () => deadline ? new Date(deadline.getTime() - clockOffset) : null,
+    [deadline, clockOffset]
+  );
+
+  // A resumed attempt keeps the questions drawn when it started
+  const sessionQuestions = useMemo(() => {
+    if (!session?.questionIds?.length) return questions;
+    const pool = [...questions, ...questionPool];
+    const drawn = session.questionIds
+      .map(id => pool.find(q => q.id === id))
+      .filter((q): q is QuizQuestion => !!q);
+    return drawn.length > 0 ? drawn : questions;
+  }, [session, questions, questionPool]);
+
+  // Load past exam attempts and resume an unfinished one
+  useEffect(() => {
+    const fetchExamState = async () => {
+      if (!user?.id) return;
+
+      setLoading(true);
+      const [results, activeSession] = await Promise.all([
+        QuizService.getUserQuizResults(user.id, quizId),
+        QuizService.getActiveExamSession(user.id, quizId)
+      ]);
+      setAttempts(results.filter(r => r.isExam));
+      if (activeSession) {
+        setSession(activeSession);
+        setSignals({ ...EMPTY_INTEGRITY_SIGNALS, ...activeSession.integritySignals });
+        setClockOffset(await QuizService.getClockOffset(activeSession.id));
+      }
+      setLoading(false);
+    };
+
+    fetchExamState();
+  }, [user?.id, quizId]);
+
+  // Record tab switches, window blurs and paste events while the exam runs
+  useEffect(() => {
+    if (!session || finished) return;
+
+    const recordSignal = (signal: keyof IntegritySignals) => {
+      setSignals(prev => ({ ...prev, [signal]: prev[signal] + 1 }));
+      QuizService.recordIntegritySignal(session.id, signal);
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) recordSignal('tabSwitches');
+    };
+    const handleBlur = () => recordSignal('windowBlurs');
+    const handlePaste = () => recordSignal('pasteEvents');
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('blur', handleBlur);
+    document.addEventListener('paste', handlePaste);
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('blur', handleBlur);
+      document.removeEventListener('paste', handlePaste);
+    };
+  }, [session, finished]);
+
+  const handleStart = async () => {
+    if (!user?.id) return;
+
+    setStarting(true);
+    const response = await QuizService.startExamSession(user.id, courseId, quizId, questions.map(q => q.id));
+
+    if (response.success && response.session) {
+      setClockOffset(await QuizService.getClockOffset(response.session.id));
+      setStarting(false);
+      setSession(response.session);
+      setSignals(EMPTY_INTEGRITY_SIGNALS);
+      setFinished(false);
+    } else {
+      setStarting(false);
+      alert(response.message);
+    }
+  };
+
+  const handleSubmit = async (answers: QuizAnswers) => {
+    if (!session || !user?.id) return null;
+
+    const score = await onSubmit(answers, {
+      examSessionId: session.id,
+      integritySignals: signalsRef.current,
+      timedOut: !!deadline && Date.now() + clockOffset >= deadline.getTime()
+    }, sessionQuestions);
+
+    if (score) {
+      setFinished(true);
+      const results = await QuizService.getUserQuizResults(user.id, quizId);
+      setAttempts(results.filter(r => r.isExam));
+    }
+
+    return score;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-gray-500">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Loading exam...</span>
+      </div>
+    );
+  }
+
+  const serverNow = new Date(Date.now() + clockOffset);
+  const availability = QuizService.getExamAvailability(settings, attempts, serverNow);
+  const canReviewAnswers = QuizService.canReviewAnswers(settings, attempts, serverNow);
+
+  // Exam in progress, or just submitted
+  if (session) {
+    return (
+      <div className="space-y-3">
+        {!finished && (
+          <div className="flex items-center space-x-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            <ShieldAlert className="w-4 h-4 flex-shrink-0" />
+            <span>Exam in progress. Leaving this tab, switching windows and pasting are recorded for your instructor.</span>
+          </div>
+        )}
+        <QuizTaker
+          key={session.id}
+          title={title}
+          questions={sessionQuestions}
+          onSubmit={handleSubmit}
+          allowRetake={false}
+          deadline={localDeadline}
+          showAnswers={canReviewAnswers}
+        />
+        {finished && !canReviewAnswers && (
+          <p className="text-sm text-gray-500">
+            Correct answers are shown after your last attempt{settings.closesAt && ' or once the exam closes'}.
+          </p>
+        )}
+        {finished && availability.canStart && (
+          <div className="flex justify-end">
+            <button
+              onClick={handleStart}
+              disabled={starting}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>Start New Attempt</span>
+            </button>
+          </div>
+        )}
+        {finished && !availability.canStart && availability.reason && (
+          <p className="text-sm text-gray-500 text-right">{availability.reason}</p>
+        )}
+      </div>
+    );
+  }
+
+  // Exam overview before starting
+  return (
+    <div className="p-4 rounded-lg border border-gray-200 bg-white space-y-3">
+      <p className="font-medium text-gray-800">{title} ({questions.length} questions)</p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-gray-600">
+        <div className="flex items-center space-x-2">
+          <Clock className="w-4 h-4" />
+          <span>{settings.timeLimitMinutes > 0 ? `${settings.timeLimitMinutes} minute time limit` : 'No time limit'}</span>
+        </div>
+        <div className="flex items-center space-x-2">
+          <RotateCcw className="w-4 h-4" />
+          <span>
+            {settings.maxAttempts > 0
+              ? `${availability.attemptsUsed} of ${settings.maxAttempts} attempts used`
+              : `${availability.attemptsUsed} attempts used`}
+            {settings.cooldownMinutes > 0 && ` · ${settings.cooldownMinutes} min between attempts`}
+          </span>
+        </div>
+        {(settings.opensAt || settings.closesAt) && (
+          <div className="flex items-center space-x-2 md:col-span-2">
+            <CalendarClock className="w-4 h-4" />
+            <span>
+              {settings.opensAt && `Opens ${new Date(settings.opensAt).toLocaleString()}`}
+              {settings.opensAt && settings.closesAt && ' · '}
+              {settings.closesAt && `Closes ${new Date(settings.closesAt).toLocaleString()}`}
+            </span>
+          </div>
+        )}
+      </div>
+      {attempts.length > 0 && (
+        <p className="text-sm text-gray-600">
+          Best score: {Math.max(...attempts.map(a => a.percentage))}%
+        </p>
+      )}
+      <p className="text-xs text-gray-500">
+        Once started, the timer keeps running even if you leave the page. Tab switches, window changes and paste events are recorded.
+      </p>
+      <div className="flex justify-end">
+        {availability.canStart ? (
+          <button
+            onClick={handleStart}
+            disabled={starting}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {starting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            <span>{starting ? 'Starting...' : 'Start Exam'}</span>
+          </button>
+        ) : (
+          <span className="text-sm font-medium text-gray-500">{availability.reason}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ExamTaker;
@@ -22,7 +22,10 @@ import {
   Activity
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
-import GradingService, { Grade, GradeStats } from '../../services/gradingService';
+import GradingService, { Grade, GradeStats, GRADE_CATEGORY_LABELS } from '../../services/gradingService';
+import GradingScaleService from '../../services/gradingScaleService';
+import RegradeRequestPanel from './RegradeRequestPanel';
+import TranscriptModal from './TranscriptModal';
 import EnrollmentService from '../../services/enrollmentService';
 import {
   collection,
@@ -74,6 +77,7 @@ const Grades = () => {
   const [selectedGradeType, setSelectedGradeType] = useState<string>('all');
   const [showDetailModal, setShowDetailModal] = useState(false);
   const [selectedGrade, setSelectedGrade] = useState<Grade | null>(null);
+  const [showTranscript, setShowTranscript] = useState(false);
 
   // Analytics state
   const [overallGPA, setOverallGPA] = useState<number>(0);
@@ -116,11 +120,14 @@ const Grades = () => {
             const gradesData: Grade[] = [];
             snapshot.forEach(doc => {
               const data = doc.data();
+              // Draft grades stay hidden until the instructor publishes them
+              if (data.isPublished === false) return;
               gradesData.push({
                 id: doc.id,
                 studentId: data.studentId,
                 courseId: data.courseId,
                 assignmentId: data.assignmentId,
+                quizId: data.quizId,
                 title: data.title,
                 type: data.type || 'assignment',
                 points: data.points,
@@ -130,7 +137,10 @@ const Grades = () => {
                 feedback: data.feedback || '',
                 gradedAt: data.gradedAt,
                 gradedBy: data.gradedBy,
-                isPublished: data.isPublished ?? true
+                isPublished: data.isPublished ?? true,
+                rubricAssessment: data.rubricAssessment,
+                latePenalty: data.latePenalty,
+                isExcused: data.isExcused
               });
             });
 
@@ -184,11 +194,13 @@ const Grades = () => {
       const gradesData: Grade[] = [];
       gradesSnapshot.forEach(doc => {
         const data = doc.data();
+        if (data.isPublished === false) return;
         gradesData.push({
           id: doc.id,
           studentId: data.studentId,
           courseId: data.courseId,
           assignmentId: data.assignmentId,
+          quizId: data.quizId,
           title: data.title,
           type: data.type || 'assignment',
           points: data.points,
@@ -198,7 +210,10 @@ const Grades = () => {
           feedback: data.feedback || '',
           gradedAt: data.gradedAt,
           gradedBy: data.gradedBy,
-          isPublished: data.isPublished ?? true
+          isPublished: data.isPublished ?? true,
+          rubricAssessment: data.rubricAssessment,
+          latePenalty: data.latePenalty,
+          isExcused: data.isExcused
         });
       });
 
@@ -227,12 +242,6 @@ const Grades = () => {
   // Calculate comprehensive analytics
   const calculateComprehensiveAnalytics = async (gradesData: Grade[], enrollments: any[]) => {
     try {
-      // Calculate overall GPA
-      const totalPoints = gradesData.reduce((sum, grade) => sum + grade.points, 0);
-      const totalMaxPoints = gradesData.reduce((sum, grade) => sum + grade.maxPoints, 0);
-      const overallGPA = totalMaxPoints > 0 ? (totalPoints / totalMaxPoints) * 4 : 0;
-      setOverallGPA(overallGPA);
-
       // Calculate semester GPA (last 3 months)
       const threeMonthsAgo = new Date();
       threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
@@ -266,29 +275,22 @@ const Grades = () => {
 
       setGradeAnalytics(analytics);
 
-      // Calculate course-specific data
+      // Calculate course-specific data, weighted by each course's grade categories and graded on its scale
       const courseData: CourseGradeData[] = [];
       for (const enrollment of enrollments) {
         const courseGrades = gradesData.filter(g => g.courseId === enrollment.courseId);
         if (courseGrades.length > 0) {
-          const courseTotalPoints = courseGrades.reduce((sum, g) => sum + g.points, 0);
-          const courseTotalMaxPoints = courseGrades.reduce((sum, g) => sum + g.maxPoints, 0);
-          const courseGPA = courseTotalMaxPoints > 0 ? (courseTotalPoints / courseTotalMaxPoints) * 4 : 0;
+          const [scheme, scale] = await Promise.all([
+            GradingService.getGradingScheme(enrollment.courseId),
+            GradingScaleService.getCourseScale(enrollment.courseId)
+          ]);
+          const stats = GradingService.calculateGradeStats(courseGrades, scheme, scale);
 
           courseData.push({
             courseId: enrollment.courseId,
             courseName: enrollment.courseTitle || 'Unknown Course',
             grades: courseGrades,
-            stats: {
-              totalPoints: courseTotalPoints,
-              maxTotalPoints: courseTotalMaxPoints,
-              averagePercentage: courseGrades.reduce((sum, g) => sum + g.percentage, 0) / courseGrades.length,
-              letterGrade: GradingService.calculateLetterGrade(courseGrades.reduce((sum, g) => sum + g.percentage, 0) / courseGrades.length),
-              gpa: courseGPA,
-              assignmentCount: courseGrades.filter(g => g.type === 'assignment').length,
-              quizCount: courseGrades.filter(g => g.type === 'quiz').length,
-              examCount: courseGrades.filter(g => g.type === 'exam').length
-            },
+            stats,
             analytics: {
               totalAssignments: courseGrades.length,
               averageScore: courseGrades.reduce((sum, g) => sum + g.percentage, 0) / courseGrades.length,
@@ -299,13 +301,19 @@ const Grades = () => {
               gradeDistribution: calculateGradeDistribution(courseGrades),
               missedAssignments: 0
             },
-            currentGPA: courseGPA
+            currentGPA: stats.gpa
           });
         }
       }
 
       setCourseGradeData(courseData);
 
+      // Overall GPA is the mean of the weighted course GPAs; pass/fail style scales are left out
+      const gpaCourses = courseData.filter(c => c.stats.countsTowardGPA);
+      setOverallGPA(gpaCourses.length > 0
+        ? gpaCourses.reduce((sum, c) => sum + c.stats.gpa, 0) / gpaCourses.length
+        : 0);
+
     } catch (error) {
       console.error('Error calculating analytics:', error);
     }
@@ -568,10 +576,13 @@ const Grades = () => {
               </button>
             </div>
 
-            {/* Export Button */}
-            <button className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors">
+            {/* Transcript Button */}
+            <button
+              onClick={() => setShowTranscript(true)}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
               <Download className="w-4 h-4" />
-              <span>Export</span>
+              <span>Transcript</span>
             </button>
           </div>
         </div>
@@ -751,12 +762,35 @@ const Grades = () => {
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">GPA:</span>
-                    <span className="font-medium">{courseData.currentGPA.toFixed(2)}</span>
+                    <span className="font-medium">
+                      {courseData.stats.countsTowardGPA ? courseData.currentGPA.toFixed(2) : 'Not counted'}
+                    </span>
                   </div>
                   <div className="flex justify-between text-sm">
-                    <span className="text-gray-600">Average:</span>
-                    <span className="font-medium">{Math.round(courseData.analytics.averageScore)}%</span>
+                    <span className="text-gray-600">Course grade:</span>
+                    <span className="font-medium">{courseData.stats.averagePercentage}% ({courseData.stats.letterGrade})</span>
                   </div>
+                  {courseData.stats.isWeighted && (
+                    <div className="border-t border-gray-200 pt-2 space-y-1">
+                      {courseData.stats.categoryBreakdown.map(category => (
+                        <div key={category.type} className="flex justify-between text-xs text-gray-600">
+                          <span>
+                            {GRADE_CATEGORY_LABELS[category.type]} ({category.weight}%)
+                            {category.droppedGradeIds.length > 0 && ` · ${category.droppedGradeIds.length} dropped`}
+                          </span>
+                          <span className="font-medium text-gray-800">{Math.round(category.percentage)}%</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {courseData.stats.excusedCount > 0 && (
+                    <p className="text-xs text-gray-500">{courseData.stats.excusedCount} excused grade(s) not counted</p>
+                  )}
+                  {courseData.stats.uncategorizedTypes.length > 0 && (
+                    <p className="text-xs text-yellow-700">
+                      {courseData.stats.uncategorizedTypes.map(type => GRADE_CATEGORY_LABELS[type]).join(', ')} not weighted yet, so not counted
+                    </p>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Assignments:</span>
                     <span className="font-medium">{courseData.grades.length}</span>
@@ -825,6 +859,7 @@ const Grades = () => {
                   <option value="quiz">Quizzes</option>
                   <option value="exam">Exams</option>
                   <option value="participation">Participation</option>
+                  <option value="ctf">CTF Challenges</option>
                 </select>
               </div>
             </div>
@@ -911,6 +946,12 @@ const Grades = () => {
                             <span className="text-xs px-2 py-1 bg-gray-200 text-gray-700 rounded-full">
                               {grade.type}
                             </span>
+                            {grade.isExcused && (
+                              <span className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded-full">Excused</span>
+                            )}
+                            {courseGradeData.some(c => c.stats.categoryBreakdown.some(b => b.droppedGradeIds.includes(grade.id))) && (
+                              <span className="text-xs px-2 py-1 bg-gray-100 text-gray-600 rounded-full">Dropped</span>
+                            )}
                           </div>
                           <p className="text-sm text-gray-600 mb-1">{getCourseTitle(grade.courseId)}</p>
                           {grade.feedback && (
@@ -959,6 +1000,10 @@ const Grades = () => {
       )}
 
       {/* Grade Detail Modal */}
+      {showTranscript && user?.id && (
+        <TranscriptModal studentId={user.id} onClose={() => setShowTranscript(false)} />
+      )}
+
       {showDetailModal && selectedGrade && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
@@ -1001,6 +1046,13 @@ const Grades = () => {
                   </div>
                 </div>
 
+                {selectedGrade.latePenalty && (
+                  <div className="bg-orange-50 p-4 rounded-lg border border-orange-200 text-sm text-orange-800">
+                    Submitted {selectedGrade.latePenalty.daysLate} day(s) late: {selectedGrade.latePenalty.percentage}% late penalty
+                    deducted {selectedGrade.latePenalty.pointsDeducted} points from {selectedGrade.latePenalty.originalPoints}.
+                  </div>
+                )}
+
                 {selectedGrade.feedback && (
                   <div>
                     <h5 className="font-medium text-gray-900 mb-2">Instructor Feedback</h5>
@@ -1009,6 +1061,27 @@ const Grades = () => {
                     </div>
                   </div>
                 )}
+
+                {selectedGrade.rubricAssessment && (
+                  <div>
+                    <h5 className="font-medium text-gray-900 mb-2">Rubric · {selectedGrade.rubricAssessment.rubricTitle}</h5>
+                    <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+                      {selectedGrade.rubricAssessment.criteria.map(criterion => (
+                        <div key={criterion.criterionId} className="p-3">
+                          <div className="flex items-center justify-between">
+                            <p className="font-medium text-gray-900">{criterion.criterionTitle}</p>
+                            <span className="text-sm font-semibold text-gray-700">{criterion.points}/{criterion.maxPoints}</span>
+                          </div>
+                          <p className="text-sm text-green-700">{criterion.levelLabel}</p>
+                          {criterion.descriptor && <p className="text-xs text-gray-500">{criterion.descriptor}</p>}
+                          {criterion.comment && <p className="text-sm text-gray-700 italic mt-1">{criterion.comment}</p>}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <RegradeRequestPanel grade={selectedGrade} />
               </div>
             </div>
           </div>
@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { Target } from 'lucide-react';
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../../lib/firebase';
+import EnrollmentService from '../../services/enrollmentService';
+import GoalService, { GoalType, LearningGoal, GOAL_TYPES } from '../../services/goalService';
+
+interface LearningGoalModalProps {
+  userId: string;
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+interface GoalCourse {
+  id: string;
+  title: string;
+  modules: { id: string; title: string; lessonCount: number }[];
+}
+
+const LearningGoalModal: React.FC<LearningGoalModalProps> = ({ userId, onClose, onCreated }) => {
+  const [courses, setCourses] = useState<GoalCourse[]>([]);
+  const [type, setType] = useState<GoalType>('lessons');
+  const [category, setCategory] = useState<LearningGoal['category']>('weekly');
+  const [target, setTarget] = useState('5');
+  const [courseId, setCourseId] = useState('');
+  const [moduleId, setModuleId] = useState('');
+  const [deadline, setDeadline] = useState('');
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchCourses = async (id: string) => {
+      const enrollments = await EnrollmentService.getUserEnrollments(id);
+      const courseList = await Promise.all(enrollments
+        .filter(enrollment => enrollment.status !== 'dropped')
+        .map(async enrollment => {
+          const courseDoc = await getDoc(doc(db, 'courses', enrollment.courseId));
+          const data = courseDoc.data();
+          return {
+            id: enrollment.courseId,
+            title: data?.title || 'Untitled course',
+            modules: (data?.modules || []).map((module: { id: string; title: string; lessons?: unknown[] }) => ({
+              id: module.id,
+              title: module.title,
+              lessonCount: module.lessons?.length || 0
+            }))
+          };
+        }));
+      setCourses(courseList);
+    };
+
+    fetchCourses(userId);
+  }, [userId]);
+
+  const goalType = GOAL_TYPES[type];
+  const course = courses.find(c => c.id === courseId);
+  const module = course?.modules.find(m => m.id === moduleId);
+
+  const handleTypeChange = (newType: GoalType) => {
+    setType(newType);
+    setCategory(GOAL_TYPES[newType].periodic ? 'weekly' : 'custom');
+    setTarget(newType === 'lessons' ? '5' : newType === 'studyTime' ? '5' : newType === 'quizScore' ? '90' : '');
+    setModuleId('');
+  };
+
+  // Title used when the student leaves it blank
+  const getSuggestedTitle = (): string => {
+    const period = category === 'custom' ? '' : ` ${category === 'daily' ? 'a day' : category === 'weekly' ? 'a week' : 'a month'}`;
+    switch (type) {
+      case 'lessons': return `Complete ${target || 0} lessons${period}`;
+      case 'studyTime': return `Study ${target || 0} hours${period}`;
+      case 'module': return module ? `Finish ${module.title}` : 'Finish a module';
+      case 'course': return course ? `Finish ${course.title}` : 'Finish a course';
+      case 'quizScore': return `Score ${target || 0}%+ on my next quiz`;
+    }
+  };
+
+  const handleSave = async () => {
+    // Module and course goals are measured in the module's lessons and in percent complete
+    const targetValue = type === 'module' ? module?.lessonCount || 0
+      : type === 'course' ? 100
+      : type === 'studyTime' ? Math.round(Number(target) * 3600)
+      : Number(target);
+
+    setSaving(true);
+    const result = await GoalService.createGoal(userId, {
+      title: title.trim() || getSuggestedTitle(),
+      description,
+      type,
+      category,
+      targetValue,
+      ...(courseId && type !== 'lessons' && type !== 'studyTime' ? { courseId } : {}),
+      ...(moduleId && type === 'module' ? { moduleId } : {}),
+      ...(deadline && category === 'custom' ? { deadline: new Date(`${deadline}T23:59:59`) } : {})
+    });
+    setSaving(false);
+
+    if (!result.success) {
+      alert(result.message);
+      return;
+    }
+    onCreated();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start overflow-auto justify-center z-50 pt-12 pb-12 px-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center text-lg font-semibold text-gray-900">
+            <Target className="w-5 h-5 mr-2" /> New Learning Goal
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        <label className="block text-sm text-gray-700">
+          Goal
+          <select
+            value={type}
+            onChange={e => handleTypeChange(e.target.value as GoalType)}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1"
+          >
+            {Object.entries(GOAL_TYPES).map(([key, option]) => (
+              <option key={key} value={key}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+
+        {goalType.periodic && (
+          <label className="block text-sm text-gray-700">
+            Repeats
+            <select
+              value={category}
+              onChange={e => setCategory(e.target.value as LearningGoal['category'])}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1"
+            >
+              <option value="daily">Every day</option>
+              <option value="weekly">Every week</option>
+              <option value="monthly">Every month</option>
+              <option value="custom">Once, by a deadline</option>
+            </select>
+          </label>
+        )}
+
+        {(type === 'lessons' || type === 'studyTime' || type === 'quizScore') && (
+          <label className="block text-sm text-gray-700">
+            {type === 'lessons' ? 'Lessons to complete' : type === 'studyTime' ? 'Hours of study' : 'Minimum score (%)'}
+            <input
+              type="number"
+              min={type === 'studyTime' ? 0.5 : 1}
+              max={type === 'quizScore' ? 100 : undefined}
+              step={type === 'studyTime' ? 0.5 : 1}
+              value={target}
+              onChange={e => setTarget(e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1"
+            />
+          </label>
+        )}
+
+        {(type === 'module' || type === 'course' || type === 'quizScore') && (
+          <label className="block text-sm text-gray-700">
+            Course
+            <select
+              value={courseId}
+              onChange={e => { setCourseId(e.target.value); setModuleId(''); }}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1"
+            >
+              <option value="">{type === 'quizScore' ? 'Any course' : 'Choose a course'}</option>
+              {courses.map(c => (
+                <option key={c.id} value={c.id}>{c.title}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {type === 'module' && course && (
+          <label className="block text-sm text-gray-700">
+            Module
+            <select
+              value={moduleId}
+              onChange={e => setModuleId(e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1"
+            >
+              <option value="">Choose a module</option>
+              {course.modules.map(m => (
+                <option key={m.id} value={m.id}>{m.title} ({m.lessonCount} lessons)</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {category === 'custom' && (
+          <label className="block text-sm text-gray-700">
+            Deadline <span className="text-gray-400">(optional)</span>
+            <input
+              type="date"
+              value={deadline}
+              onChange={e => setDeadline(e.target.value)}
+              className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1"
+            />
+          </label>
+        )}
+
+        <label className="block text-sm text-gray-700">
+          Title
+          <input
+            type="text"
+            placeholder={getSuggestedTitle()}
+            value={title}
+            onChange={e => setTitle(e.target.value)}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1"
+          />
+        </label>
+
+        <label className="block text-sm text-gray-700">
+          Notes <span className="text-gray-400">(optional)</span>
+          <textarea
+            value={description}
+            onChange={e => setDescription(e.target.value)}
+            rows={2}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 mt-1"
+          />
+        </label>
+
+        <p className="text-xs text-gray-500">
+          Progress is tracked automatically as you complete lessons and quizzes.
+          {category !== 'daily' && (category !== 'custom' || deadline) && ' You will get a reminder shortly before the goal is due.'}
+        </p>
+
+        <div className="flex justify-end space-x-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Create Goal'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LearningGoalModal;
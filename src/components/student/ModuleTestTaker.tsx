@@ -0,0 +1,131 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, RotateCcw, AlertCircle } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import QuizService, { QuizQuestion, QuizAnswers, QuizScore, QuizResult } from '../../services/quizService';
+import QuizTaker from './QuizTaker';
+
+interface ModuleTestTakerProps {
+  title: string;
+  questions: QuizQuestion[];
+  quizId: string; // module ID
+  onSubmit: (answers: QuizAnswers) => Promise<QuizScore | null>;
+  onRetake?: () => void; // draws new bank questions for the next attempt
+}
+
+const ModuleTestTaker: React.FC<ModuleTestTakerProps> = ({ title, questions, quizId, onSubmit, onRetake }) => {
+  const { user } = useAuth();
+  const [attempts, setAttempts] = useState<QuizResult[]>([]);
+  const [attemptKey, setAttemptKey] = useState(0);
+  const [finished, setFinished] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(() => new Date());
+
+  // Load past attempts to find when the next one opens
+  useEffect(() => {
+    const fetchAttempts = async () => {
+      if (!user?.id) return;
+
+      setLoading(true);
+      setAttempts(await QuizService.getUserQuizResults(user.id, quizId));
+      setNow(new Date());
+      setLoading(false);
+    };
+
+    fetchAttempts();
+  }, [user?.id, quizId]);
+
+  const retakeAt = QuizService.getModuleTestRetakeAt(attempts);
+  const retakeTime = retakeAt ? retakeAt.getTime() : 0;
+  const coolingDown = now.getTime() < retakeTime;
+
+  // Show the retake option once the cooldown ends
+  useEffect(() => {
+    if (!coolingDown) return;
+
+    const timer = setTimeout(() => setNow(new Date()), retakeTime - Date.now() + 1000);
+    return () => clearTimeout(timer);
+  }, [retakeTime, coolingDown]);
+
+  const handleSubmit = async (answers: QuizAnswers) => {
+    if (!user?.id) return null;
+
+    const score = await onSubmit(answers);
+    if (score) {
+      setFinished(true);
+      setAttempts(await QuizService.getUserQuizResults(user.id, quizId));
+      setNow(new Date());
+    }
+
+    return score;
+  };
+
+  const handleRetake = () => {
+    onRetake?.();
+    setAttemptKey(key => key + 1);
+    setFinished(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center space-x-2 text-sm text-gray-500">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        <span>Loading test...</span>
+      </div>
+    );
+  }
+
+  // Waiting out the cooldown after an earlier visit: show what to review instead of the questions
+  if (!finished && coolingDown && retakeAt) {
+    const last = attempts[0];
+
+    return (
+      <div className="p-4 rounded-lg border border-gray-200 bg-white space-y-3">
+        <p className="font-medium text-gray-800">
+          {title} · last score {last.score}/{last.maxScore} ({last.percentage}%)
+        </p>
+        {last.passed === false && last.topicsToReview && last.topicsToReview.length > 0 && (
+          <div className="flex items-start space-x-2 text-sm text-red-700">
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            <div>
+              <p className="mb-1">Review these topics before your next attempt:</p>
+              <ul className="list-disc list-inside">
+                {last.topicsToReview.map(topic => (
+                  <li key={topic}>{topic}</li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+        <p className="text-sm text-gray-500 text-right">Next attempt available {retakeAt.toLocaleString()}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <QuizTaker
+        key={attemptKey}
+        title={title}
+        questions={questions}
+        onSubmit={handleSubmit}
+        allowRetake={false}
+        showAnswers={false}
+      />
+      {finished && (coolingDown && retakeAt ? (
+        <p className="text-sm text-gray-500 text-right">Next attempt available {retakeAt.toLocaleString()}</p>
+      ) : (
+        <div className="flex justify-end">
+          <button
+            onClick={handleRetake}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Try Again</span>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ModuleTestTaker;
@@ -4,7 +4,6 @@ import {
   Play,
   Clock,
   Users,
-  ArrowLeft,
   FileText,
   CheckCircle,
   UserPlus,
@@ -25,6 +24,7 @@ import { db } from '../../lib/firebase';
 import { useAuth } from '../../contexts/AuthContext';
 import EnrollmentService, { Enrollment } from '../../services/enrollmentService';
 import ProgressService from '../../services/progressService';
+import CourseViewer, { Course } from './CourseViewer';
 
 // Enhanced Image Component for Firebase Storage
 const FirebaseImage: React.FC<{
@@ -89,248 +89,6 @@ const FirebaseImage: React.FC<{
   );
 };
 
-// Course interfaces
-interface ContentBlock {
-  id: string;
-  type: 'text' | 'image' | 'video' | 'quiz';
-  content?: string;
-  url?: string;
-  quizData?: QuizQuestion[];
-}
-
-interface QuizQuestion {
-  id: string;
-  question: string;
-  options: {
-    id: string;
-    text: string;
-    isCorrect: boolean;
-  }[];
-}
-
-interface Lesson {
-  id: string;
-  title: string;
-  contentBlocks: ContentBlock[];
-}
-
-interface Module {
-  id: string;
-  title: string;
-  lessons: Lesson[];
-  test?: QuizQuestion[];
-}
-
-interface Course {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  level: 'Beginner' | 'Intermediate' | 'Advanced';
-  duration?: string;
-  students: number;
-  status: 'Published' | 'Draft' | 'Under Review';
-  thumbnail?: string;
-  createdAt: any;
-  lastUpdated: any;
-  modules: Module[];
-}
-
-// Course Viewer Component
-const CourseViewer: React.FC<{ course: Course; onBack: () => void }> = ({ course, onBack }) => {
-  return (
-    <div className="space-y-6">
-      {/* Header */}
-      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-        <button
-          onClick={onBack}
-          className="flex items-center text-gray-600 hover:text-gray-900 mb-4"
-        >
-          <ArrowLeft className="w-4 h-4 mr-2" />
-          Back to Courses
-        </button>
-
-        {/* Course Header */}
-        <div className="mb-6">
-          {course.thumbnail && (
-            <FirebaseImage
-              src={course.thumbnail}
-              alt={course.title}
-              className="w-full h-48 object-cover rounded-lg mb-4"
-            />
-          )}
-          <div className="flex items-center space-x-4 mb-4">
-            <span className={`px-3 py-1 rounded-full text-sm font-medium ${
-              course.level === 'Beginner' ? 'bg-green-100 text-green-800' :
-              course.level === 'Intermediate' ? 'bg-yellow-100 text-yellow-800' :
-              'bg-red-100 text-red-800'
-            }`}>
-              {course.level}
-            </span>
-            <span className="text-sm text-gray-600">{course.category}</span>
-          </div>
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">{course.title}</h1>
-          <p className="text-gray-700 mb-4">{course.description}</p>
-          <div className="flex items-center space-x-6 text-sm text-gray-600">
-            <div className="flex items-center space-x-1">
-              <Users className="w-4 h-4" />
-              <span>{course.students} Students</span>
-            </div>
-            <div className="flex items-center space-x-1">
-              <BookOpen className="w-4 h-4" />
-              <span>{course.modules.length} Modules</span>
-            </div>
-          </div>
-        </div>
-      </div>
-
-      {/* Course Content */}
-      <div className="space-y-6">
-        <h2 className="text-xl font-semibold text-gray-900">Course Content</h2>
-
-        {course.modules.length === 0 ? (
-          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-12 text-center">
-            <FileText className="w-12 h-12 text-gray-400 mx-auto mb-4" />
-            <p className="text-gray-500 italic">No modules created yet.</p>
-          </div>
-        ) : (
-          course.modules.map((module, moduleIndex) => (
-            <div key={module.id} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">
-                Module {moduleIndex + 1}: {module.title}
-              </h3>
-
-              {/* Module Lessons */}
-              {module.lessons.length === 0 ? (
-                <p className="text-gray-500 text-sm italic ml-4">No lessons in this module.</p>
-              ) : (
-                <div className="space-y-4 ml-4">
-                  {module.lessons.map((lesson, lessonIndex) => (
-                    <div key={lesson.id} className="border-l-2 border-blue-200 pl-4">
-                      <h4 className="font-medium text-gray-800 mb-3">
-                        Lesson {lessonIndex + 1}: {lesson.title}
-                      </h4>
-
-                      {/* Lesson Content Blocks */}
-                      {lesson.contentBlocks.length === 0 ? (
-                        <p className="text-gray-500 text-sm italic">No content blocks in this lesson.</p>
-                      ) : (
-                        <div className="space-y-3">
-                          {lesson.contentBlocks.map((block, blockIndex) => (
-                            <div key={block.id} className="bg-gray-50 p-4 rounded-lg">
-                              <div className="flex items-center space-x-2 mb-3">
-                                <span className="bg-blue-100 text-blue-800 px-2 py-1 rounded text-xs font-medium">
-                                  {block.type.toUpperCase()}
-                                </span>
-                                <span className="text-gray-600 text-sm">Block {blockIndex + 1}</span>
-                              </div>
-
-                              {block.type === 'text' && block.content && (
-                                <div className="text-gray-700 space-y-3">
-                                  {block.content.split('\n\n').map((paragraph, pIndex) => {
-                                    const trimmedParagraph = paragraph.trim();
-                                    if (!trimmedParagraph) return null;
-
-                                    return (
-                                      <p key={pIndex} className="leading-relaxed text-justify">
-                                        {trimmedParagraph.split('\n').join(' ')}
-                                      </p>
-                                    );
-                                  }).filter(Boolean)}
-                                </div>
-                              )}
-
-                              {(block.type === 'image' || block.type === 'video') && block.url && (
-                                <div className="mt-2 border border-gray-200 rounded-lg p-2 bg-white">
-                                  {block.type === 'image' ? (
-                                    <FirebaseImage
-                                      src={block.url}
-                                      alt="Course content"
-                                      className="max-w-full h-48 object-contain rounded mx-auto block"
-                                      onError={() => {
-                                        console.error('Course image failed to load:', block.url);
-                                      }}
-                                    />
-                                  ) : (
-                                    <video
-                                      src={block.url}
-                                      controls
-                                      className="max-w-full h-48 rounded mx-auto block"
-                                      onError={() => {
-                                        console.error('Course video failed to load:', block.url);
-                                      }}
-                                    >
-                                      Your browser does not support the video tag.
-                                    </video>
-                                  )}
-                                  <p className="text-xs text-gray-500 mt-1 text-center">
-                                    {block.type === 'image' ? 'Image Content' : 'Video Content'}
-                                  </p>
-                                </div>
-                              )}
-
-                              {block.type === 'quiz' && block.quizData && (
-                                <div className="mt-2">
-                                  <p className="font-medium text-gray-800 mb-2">Quiz ({block.quizData.length} questions)</p>
-                                  {block.quizData.slice(0, 2).map((question, qIndex) => (
-                                    <div key={question.id} className="ml-2 mb-2">
-                                      <p className="text-gray-700 text-sm">Q{qIndex + 1}: {question.question}</p>
-                                      <div className="ml-2 text-xs text-gray-600">
-                                        {question.options.map((option, oIndex) => (
-                                          <div key={option.id} className="flex items-center space-x-1">
-                                            <span>{String.fromCharCode(65 + oIndex)}.</span>
-                                            <span>{option.text}</span>
-                                            {option.isCorrect && <span className="text-green-600">✓</span>}
-                                          </div>
-                                        ))}
-                                      </div>
-                                    </div>
-                                  ))}
-                                  {block.quizData.length > 2 && (
-                                    <p className="text-xs text-gray-500 ml-2">... and {block.quizData.length - 2} more questions</p>
-                                  )}
-                                </div>
-                              )}
-                            </div>
-                          ))}
-                        </div>
-                      )}
-                    </div>
-                  ))}
-                </div>
-              )}
-
-              {/* Module Test */}
-              {module.test && module.test.length > 0 && (
-                <div className="mt-6 ml-4 border-t border-gray-200 pt-4">
-                  <h5 className="font-medium text-gray-800 mb-2">Module Test ({module.test.length} questions)</h5>
-                  {module.test.slice(0, 2).map((question, qIndex) => (
-                    <div key={question.id} className="mb-2 text-sm">
-                      <p className="text-gray-700">Q{qIndex + 1}: {question.question}</p>
-                      <div className="ml-2 text-xs text-gray-600">
-                        {question.options.map((option, oIndex) => (
-                          <div key={option.id} className="flex items-center space-x-1">
-                            <span>{String.fromCharCode(65 + oIndex)}.</span>
-                            <span>{option.text}</span>
-                            {option.isCorrect && <span className="text-green-600">✓</span>}
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  ))}
-                  {module.test.length > 2 && (
-                    <p className="text-xs text-gray-500 ml-2">... and {module.test.length - 2} more questions</p>
-                  )}
-                </div>
-              )}
-            </div>
-          ))
-        )}
-      </div>
-    </div>
-  );
-};
-
 const MyCourses = () => {
   const { user } = useAuth();
 
@@ -0,0 +1,281 @@
+import React, { useState } from 'react';
+import { Mail, Paperclip, Flag, CheckCircle, XCircle, AlertCircle, RotateCcw, Loader2 } from 'lucide-react';
+import {
+  PhishingSimulation,
+  PhishingAction,
+  PhishingScore,
+  PHISHING_ACTION_LABELS
+} from '../../services/phishingService';
+
+interface PhishingSimPlayerProps {
+  simulation: PhishingSimulation;
+  onSubmit: (flagged: string[], action: PhishingAction) => Promise<PhishingScore | null>;
+}
+
+const PhishingSimPlayer: React.FC<PhishingSimPlayerProps> = ({ simulation, onSubmit }) => {
+  const [flagged, setFlagged] = useState<string[]>([]);
+  const [action, setAction] = useState<PhishingAction | null>(null);
+  const [result, setResult] = useState<PhishingScore | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const toggleFlag = (elementId: string) => {
+    if (result) return;
+    setFlagged(prev => prev.includes(elementId) ? prev.filter(id => id !== elementId) : [...prev, elementId]);
+  };
+
+  const getExplanation = (elementId: string) =>
+    simulation.indicators.find(i => i.elementId === elementId)?.explanation;
+
+  // Highlight an element by flag state, and by outcome once submitted
+  const getElementClass = (elementId: string) => {
+    if (result) {
+      if (result.caught.includes(elementId)) return 'bg-green-100 ring-1 ring-green-400';
+      if (result.missed.includes(elementId)) return 'bg-red-100 ring-1 ring-red-400';
+      if (result.falseFlags.includes(elementId)) return 'bg-gray-200 ring-1 ring-gray-400';
+      return '';
+    }
+    return flagged.includes(elementId)
+      ? 'bg-orange-100 ring-1 ring-orange-400'
+      : 'hover:bg-yellow-50 cursor-pointer';
+  };
+
+  // Wrap an email element so students can click it to flag it
+  const renderFlaggable = (elementId: string, content: React.ReactNode, className = '') => (
+    <span
+      onClick={() => toggleFlag(elementId)}
+      className={`rounded px-1 inline-flex items-center ${getElementClass(elementId)} ${className}`}
+      title={result ? getExplanation(elementId) || undefined : 'Click to flag as suspicious'}
+    >
+      {content}
+      {!result && flagged.includes(elementId) && <Flag className="w-3 h-3 ml-1 text-orange-600" />}
+    </span>
+  );
+
+  const handleSubmit = async () => {
+    if (!action) {
+      alert('Choose what you would do with this email.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const score = await onSubmit(flagged, action);
+      if (score) {
+        setResult(score);
+      } else {
+        alert('Failed to submit simulation. Please try again.');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRetry = () => {
+    setFlagged([]);
+    setAction(null);
+    setResult(null);
+  };
+
+  const describeElement = (elementId: string) => {
+    const [kind, key] = elementId.split(':');
+    switch (kind) {
+      case 'from': return `Sender: ${simulation.fromName} <${simulation.fromAddress}>`;
+      case 'replyTo': return `Reply-To: ${simulation.replyTo}`;
+      case 'subject': return `Subject: ${simulation.subject}`;
+      case 'header': {
+        const header = simulation.headers.find(h => h.id === key);
+        return header ? `${header.name}: ${header.value}` : 'Header';
+      }
+      case 'body': return `"${simulation.body.split('\n')[Number(key)]?.trim() || ''}"`;
+      case 'link': {
+        const link = simulation.links.find(l => l.id === key);
+        return link ? `Link "${link.text}" → ${link.url}` : 'Link';
+      }
+      case 'attachment': return `Attachment: ${simulation.attachments.find(a => a.id === key)?.name || ''}`;
+      default: return elementId;
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-gray-800 flex items-center">
+          <Mail className="w-4 h-4 mr-2 text-blue-600" /> Phishing Simulation
+        </p>
+        {result && (
+          <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
+            result.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+          }`}>
+            {result.percentage}%
+          </span>
+        )}
+      </div>
+      {!result && (
+        <p className="text-sm text-gray-600">
+          Inspect the email. Click anything that looks suspicious to flag it, then choose what you would do.
+        </p>
+      )}
+
+      {/* Mock email client */}
+      <div className="bg-white border border-gray-300 rounded-lg shadow-sm text-sm">
+        <div className="border-b border-gray-200 p-4 space-y-1">
+          <p className="text-lg font-semibold text-gray-900">
+            {renderFlaggable('subject', simulation.subject || '(no subject)')}
+          </p>
+          <p className="text-gray-700">
+            <span className="text-gray-500 mr-1">From:</span>
+            {renderFlaggable('from', <><span className="font-medium">{simulation.fromName}</span>&nbsp;&lt;{simulation.fromAddress}&gt;</>)}
+          </p>
+          {simulation.replyTo && (
+            <p className="text-gray-700">
+              <span className="text-gray-500 mr-1">Reply-To:</span>
+              {renderFlaggable('replyTo', simulation.replyTo)}
+            </p>
+          )}
+          <p className="text-gray-700"><span className="text-gray-500 mr-1">To:</span>{simulation.to}</p>
+          {simulation.sentAt && (
+            <p className="text-gray-700"><span className="text-gray-500 mr-1">Date:</span>{simulation.sentAt}</p>
+          )}
+          {simulation.headers.length > 0 && (
+            <details className="text-xs text-gray-600 mt-2">
+              <summary className="cursor-pointer text-gray-500">Show original headers</summary>
+              <div className="mt-1 font-mono space-y-0.5">
+                {simulation.headers.map(header => (
+                  <div key={header.id}>
+                    {renderFlaggable(`header:${header.id}`, `${header.name}: ${header.value}`)}
+                  </div>
+                ))}
+              </div>
+            </details>
+          )}
+        </div>
+
+        <div className="p-4 space-y-1 text-gray-800">
+          {simulation.body.split('\n').map((line, index) => (
+            line.trim()
+              ? <div key={index}>{renderFlaggable(`body:${index}`, line)}</div>
+              : <div key={index} className="h-3" />
+          ))}
+
+          {simulation.links.length > 0 && (
+            <div className="pt-2 space-y-1">
+              {simulation.links.map(link => (
+                <div key={link.id}>
+                  {renderFlaggable(
+                    `link:${link.id}`,
+                    <span className="text-blue-600 underline" title={link.url}>{link.text || link.url}</span>
+                  )}
+                  <span className="text-xs text-gray-400 ml-2 font-mono">{link.url}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {simulation.attachments.length > 0 && (
+          <div className="border-t border-gray-200 p-3 flex flex-wrap gap-2">
+            {simulation.attachments.map(attachment => (
+              <div key={attachment.id}>
+                {renderFlaggable(
+                  `attachment:${attachment.id}`,
+                  <><Paperclip className="w-3 h-3 mr-1" />{attachment.name}</>,
+                  'border border-gray-300 py-1'
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Action choice */}
+      <div className="space-y-2">
+        <p className="text-sm font-medium text-gray-700">What would you do with this email?</p>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(PHISHING_ACTION_LABELS) as PhishingAction[]).map(option => (
+            <button
+              key={option}
+              onClick={() => !result && setAction(option)}
+              disabled={!!result}
+              className={`px-3 py-2 rounded-lg border text-sm transition-colors ${
+                action === option
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {PHISHING_ACTION_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Feedback */}
+      {result && (
+        <div className={`p-4 rounded-lg border space-y-2 ${
+          result.passed ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+        }`}>
+          <div className="flex items-center space-x-2">
+            {result.passed
+              ? <CheckCircle className="w-5 h-5 text-green-600" />
+              : <AlertCircle className="w-5 h-5 text-red-600" />}
+            <p className={`font-semibold ${result.passed ? 'text-green-800' : 'text-red-800'}`}>
+              {result.passed ? 'Passed' : 'Not passed'} · caught {result.caught.length} of {simulation.indicators.length} indicators
+            </p>
+          </div>
+          <p className="text-sm text-gray-700">
+            {result.actionCorrect
+              ? `Right call: ${PHISHING_ACTION_LABELS[result.action].toLowerCase()}.`
+              : `The right call was: ${PHISHING_ACTION_LABELS[simulation.correctAction].toLowerCase()}.`}
+          </p>
+          {result.caught.length > 0 && (
+            <ul className="text-sm text-green-800 space-y-1">
+              {result.caught.map(id => (
+                <li key={id} className="flex items-start space-x-1">
+                  <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>{describeElement(id)}{getExplanation(id) && ` — ${getExplanation(id)}`}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {result.missed.length > 0 && (
+            <ul className="text-sm text-red-800 space-y-1">
+              {result.missed.map(id => (
+                <li key={id} className="flex items-start space-x-1">
+                  <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>Missed: {describeElement(id)}{getExplanation(id) && ` — ${getExplanation(id)}`}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {result.falseFlags.length > 0 && (
+            <p className="text-sm text-gray-600">
+              {result.falseFlags.length} flagged item(s) were not suspicious and cost you credit.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        {result ? (
+          <button
+            onClick={handleRetry}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Try Again</span>
+          </button>
+        ) : (
+          <button
+            onClick={handleSubmit}
+            disabled={submitting}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>{submitting ? 'Submitting...' : 'Submit'}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PhishingSimPlayer;
@@ -26,11 +26,16 @@ import {
   Crown,
   Rocket,
   AlertCircle,
-  TrendingDown
+  TrendingDown,
+  XCircle,
+  Trash2
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import ProgressService from '../../services/progressService';
 import EnrollmentService from '../../services/enrollmentService';
+import AchievementService, { AchievementStatus } from '../../services/achievementService';
+import GoalService, { LearningGoal } from '../../services/goalService';
+import LearningGoalModal from './LearningGoalModal';
 import {
   collection,
   query,
@@ -42,31 +47,6 @@ import {
 } from 'firebase/firestore';
 import { db } from '../../lib/firebase';
 
-interface Achievement {
-  id: string;
-  title: string;
-  description: string;
-  icon: string;
-  unlocked: boolean;
-  unlockedAt?: Date;
-  progress: number;
-  maxProgress: number;
-  category: 'learning' | 'streak' | 'completion' | 'time' | 'social';
-  rarity: 'common' | 'rare' | 'epic' | 'legendary';
-}
-
-interface LearningGoal {
-  id: string;
-  title: string;
-  description: string;
-  targetValue: number;
-  currentValue: number;
-  unit: string;
-  deadline?: Date;
-  completed: boolean;
-  category: 'daily' | 'weekly' | 'monthly' | 'custom';
-}
-
 interface ProgressAnalytics {
   totalCoursesEnrolled: number;
   coursesCompleted: number;
@@ -88,9 +68,8 @@ const Progress = () => {
   // Core data state
   const [analytics, setAnalytics] = useState<ProgressAnalytics | null>(null);
   const [learningStreak, setLearningStreak] = useState<number>(0);
-  const [achievements, setAchievements] = useState<Achievement[]>([]);
+  const [achievements, setAchievements] = useState<AchievementStatus[]>([]);
   const [learningGoals, setLearningGoals] = useState<LearningGoal[]>([]);
-  const [enrolledCourses, setEnrolledCourses] = useState<any[]>([]);
 
   // UI state
   const [loading, setLoading] = useState(true);
@@ -98,7 +77,7 @@ const Progress = () => {
   const [selectedView, setSelectedView] = useState<'overview' | 'analytics' | 'achievements' | 'goals'>('overview');
   const [selectedTimeframe, setSelectedTimeframe] = useState<'week' | 'month' | 'year'>('month');
   const [showGoalModal, setShowGoalModal] = useState(false);
-  const [selectedAchievement, setSelectedAchievement] = useState<Achievement | null>(null);
+  const [selectedAchievement, setSelectedAchievement] = useState<AchievementStatus | null>(null);
 
   // Analytics state
   const [weeklyData, setWeeklyData] = useState<any[]>([]);
@@ -124,7 +103,6 @@ const Progress = () => {
 
         // Fetch enrolled courses first
         const enrollments = await EnrollmentService.getUserEnrollments(user.id);
-        setEnrolledCourses(enrollments);
 
         // Set up real-time listener for progress data
         const progressQuery = query(
@@ -300,128 +278,36 @@ const Progress = () => {
     }
   };
 
-  // Fetch achievements
+  // Fetch achievements, unlocking any whose criteria are already met
   const fetchAchievements = async () => {
     try {
-      // Generate achievements based on progress
-      const achievementsList: Achievement[] = [
-        {
-          id: 'first-course',
-          title: 'First Steps',
-          description: 'Enrolled in your first course',
-          icon: 'BookOpen',
-          unlocked: enrolledCourses.length > 0,
-          progress: Math.min(enrolledCourses.length, 1),
-          maxProgress: 1,
-          category: 'learning',
-          rarity: 'common'
-        },
-        {
-          id: 'course-completer',
-          title: 'Course Completer',
-          description: 'Completed your first course',
-          icon: 'Award',
-          unlocked: analytics?.coursesCompleted > 0,
-          progress: Math.min(analytics?.coursesCompleted || 0, 1),
-          maxProgress: 1,
-          category: 'completion',
-          rarity: 'rare'
-        },
-        {
-          id: 'week-warrior',
-          title: 'Week Warrior',
-          description: 'Maintained a 7-day learning streak',
-          icon: 'Flame',
-          unlocked: learningStreak >= 7,
-          progress: Math.min(learningStreak, 7),
-          maxProgress: 7,
-          category: 'streak',
-          rarity: 'rare'
-        },
-        {
-          id: 'lesson-master',
-          title: 'Lesson Master',
-          description: 'Completed 50 lessons',
-          icon: 'Target',
-          unlocked: (analytics?.totalLessonsCompleted || 0) >= 50,
-          progress: Math.min(analytics?.totalLessonsCompleted || 0, 50),
-          maxProgress: 50,
-          category: 'learning',
-          rarity: 'epic'
-        },
-        {
-          id: 'time-scholar',
-          title: 'Time Scholar',
-          description: 'Spent 100 hours learning',
-          icon: 'Clock',
-          unlocked: (analytics?.totalTimeSpent || 0) >= 360000, // 100 hours in seconds
-          progress: Math.min(analytics?.totalTimeSpent || 0, 360000),
-          maxProgress: 360000,
-          category: 'time',
-          rarity: 'epic'
-        },
-        {
-          id: 'consistency-king',
-          title: 'Consistency King',
-          description: 'Achieved 90%+ consistency score',
-          icon: 'Crown',
-          unlocked: (analytics?.consistencyScore || 0) >= 90,
-          progress: Math.min(analytics?.consistencyScore || 0, 90),
-          maxProgress: 90,
-          category: 'learning',
-          rarity: 'legendary'
-        }
-      ];
-
-      setAchievements(achievementsList);
+      setAchievements(await AchievementService.getStudentAchievements(user!.id));
     } catch (error) {
       console.error('Error fetching achievements:', error);
     }
   };
 
-  // Fetch learning goals
+  // Fetch learning goals, measured against the latest progress
   const fetchLearningGoals = async () => {
     try {
-      // Generate default learning goals
-      const goals: LearningGoal[] = [
-        {
-          id: 'daily-lesson',
-          title: 'Daily Learning',
-          description: 'Complete at least 1 lesson per day',
-          targetValue: 1,
-          currentValue: 0, // This would be calculated based on today's activity
-          unit: 'lessons',
-          completed: false,
-          category: 'daily'
-        },
-        {
-          id: 'weekly-time',
-          title: 'Weekly Study Time',
-          description: 'Study for 5 hours this week',
-          targetValue: 18000, // 5 hours in seconds
-          currentValue: 0, // This would be calculated based on this week's activity
-          unit: 'seconds',
-          completed: false,
-          category: 'weekly'
-        },
-        {
-          id: 'monthly-courses',
-          title: 'Monthly Progress',
-          description: 'Complete 1 course this month',
-          targetValue: 1,
-          currentValue: 0, // This would be calculated based on this month's completions
-          unit: 'courses',
-          completed: false,
-          category: 'monthly'
-        }
-      ];
-
-      setLearningGoals(goals);
+      setLearningGoals(await GoalService.refreshGoals(user!.id));
     } catch (error) {
       console.error('Error fetching learning goals:', error);
     }
   };
 
+  // Delete a learning goal
+  const handleDeleteGoal = async (goal: LearningGoal) => {
+    if (!confirm(`Delete the goal "${goal.title}"?`)) return;
+
+    const result = await GoalService.deleteGoal(goal.id);
+    if (result.success) {
+      setLearningGoals(current => current.filter(g => g.id !== goal.id));
+    } else {
+      alert(result.message);
+    }
+  };
+
   // Fetch learning streak
   const fetchLearningStreak = async () => {
     try {
@@ -588,10 +474,32 @@ const Progress = () => {
     return `${minutes}m`;
   };
 
+  // Download an unlocked achievement as an Open Badges 2.0 record; it is not hosted, so it can't be verified on its own
+  const handleDownloadBadge = async (achievement: AchievementStatus) => {
+    if (!achievement.awardId || !user) return;
+
+    const award = await AchievementService.getUnlockedAchievement(achievement.awardId);
+    if (!award) {
+      alert('Could not load this badge. Please try again.');
+      return;
+    }
+
+    const assertion = await AchievementService.createOpenBadgeAssertion(award, user.email, window.location.origin);
+    const blob = new Blob([JSON.stringify(assertion, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `badge-record-${achievement.id}-${award.id}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   // Get achievement icon
   const getAchievementIcon = (iconName: string) => {
     const icons: { [key: string]: any } = {
-      BookOpen, Award, Flame, Target, Clock, Crown, Trophy, Medal, Star, Rocket
+      BookOpen, Award, Flame, Target, Clock, Crown, Trophy, Medal, Star, Rocket, Zap
     };
     return icons[iconName] || Award;
   };
@@ -1097,7 +1005,7 @@ const Progress = () => {
                           <p className="text-xs text-gray-500 mt-1">
                             {achievement.progress} / {achievement.maxProgress}
                             {achievement.unlocked && achievement.unlockedAt && (
-                              <span className="ml-2">• Unlocked {achievement.unlockedAt.toLocaleDateString()}</span>
+                              <span className="ml-2">• Unlocked {achievement.unlockedAt.toDate().toLocaleDateString()}</span>
                             )}
                           </p>
                         </div>
@@ -1143,55 +1051,76 @@ const Progress = () => {
                     </button>
                   </div>
                 ) : (
-                  learningGoals.map((goal) => (
-                    <div key={goal.id} className={`p-4 rounded-lg border-2 ${
-                      goal.completed ? 'border-green-200 bg-green-50' : 'border-gray-200 bg-gray-50'
-                    }`}>
-                      <div className="flex items-center justify-between mb-3">
-                        <div className="flex items-center space-x-3">
-                          <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                            goal.completed ? 'bg-green-600' : 'bg-gray-400'
-                          }`}>
-                            {goal.completed ? (
-                              <CheckCircle className="w-5 h-5 text-white" />
-                            ) : (
-                              <Target className="w-5 h-5 text-white" />
-                            )}
+                  learningGoals.map((goal) => {
+                    const isCompleted = goal.status === 'completed';
+                    const dueDate = GoalService.getPeriod(goal).end;
+                    return (
+                      <div key={goal.id} className={`p-4 rounded-lg border-2 ${
+                        isCompleted ? 'border-green-200 bg-green-50' :
+                        goal.status === 'missed' ? 'border-red-200 bg-red-50' :
+                        'border-gray-200 bg-gray-50'
+                      }`}>
+                        <div className="flex items-center justify-between mb-3">
+                          <div className="flex items-center space-x-3">
+                            <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
+                              isCompleted ? 'bg-green-600' : goal.status === 'missed' ? 'bg-red-500' : 'bg-gray-400'
+                            }`}>
+                              {isCompleted ? (
+                                <CheckCircle className="w-5 h-5 text-white" />
+                              ) : goal.status === 'missed' ? (
+                                <XCircle className="w-5 h-5 text-white" />
+                              ) : (
+                                <Target className="w-5 h-5 text-white" />
+                              )}
+                            </div>
+                            <div>
+                              <h4 className="font-semibold text-gray-900">{goal.title}</h4>
+                              {goal.description && <p className="text-sm text-gray-600">{goal.description}</p>}
+                            </div>
                           </div>
-                          <div>
-                            <h4 className="font-semibold text-gray-900">{goal.title}</h4>
-                            <p className="text-sm text-gray-600">{goal.description}</p>
+                          <div className="flex items-center space-x-2">
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                              goal.category === 'daily' ? 'bg-blue-100 text-blue-700' :
+                              goal.category === 'weekly' ? 'bg-purple-100 text-purple-700' :
+                              goal.category === 'monthly' ? 'bg-orange-100 text-orange-700' :
+                              'bg-gray-100 text-gray-700'
+                            }`}>
+                              {goal.category === 'custom' ? 'one-off' : goal.category}
+                            </span>
+                            <button
+                              onClick={() => handleDeleteGoal(goal)}
+                              title="Delete goal"
+                              className="text-gray-400 hover:text-red-600"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
                           </div>
                         </div>
-                        <div className="text-right">
-                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-                            goal.category === 'daily' ? 'bg-blue-100 text-blue-700' :
-                            goal.category === 'weekly' ? 'bg-purple-100 text-purple-700' :
-                            goal.category === 'monthly' ? 'bg-orange-100 text-orange-700' :
-                            'bg-gray-100 text-gray-700'
-                          }`}>
-                            {goal.category}
+                        <div className="w-full bg-gray-200 rounded-full h-3">
+                          <div
+                            className={`h-3 rounded-full transition-all duration-300 ${
+                              isCompleted ? 'bg-green-600' : goal.status === 'missed' ? 'bg-red-500' : 'bg-blue-600'
+                            }`}
+                            style={{ width: `${Math.min((goal.currentValue / goal.targetValue) * 100, 100)}%` }}
+                          ></div>
+                        </div>
+                        <div className="flex items-center justify-between mt-2 text-sm text-gray-600">
+                          <span>
+                            {goal.unit === 'seconds'
+                              ? `${formatTimeSpent(goal.currentValue)} / ${formatTimeSpent(goal.targetValue)}`
+                              : goal.unit === '%'
+                                ? `${goal.currentValue}% / ${goal.targetValue}%`
+                                : `${goal.currentValue} / ${goal.targetValue} ${goal.unit}`}
                           </span>
+                          {goal.status === 'missed' ? (
+                            <span className="text-red-600">Missed</span>
+                          ) : dueDate && !(isCompleted && goal.category === 'custom') && (
+                            <span>{goal.category === 'custom' ? 'Due' : 'Resets'}: {dueDate.toLocaleDateString()}</span>
+                          )}
                         </div>
                       </div>
-                      <div className="w-full bg-gray-200 rounded-full h-3">
-                        <div
-                          className={`h-3 rounded-full transition-all duration-300 ${
-                            goal.completed ? 'bg-green-600' : 'bg-blue-600'
-                          }`}
-                          style={{ width: `${Math.min((goal.currentValue / goal.targetValue) * 100, 100)}%` }}
-                        ></div>
-                      </div>
-                      <div className="flex items-center justify-between mt-2 text-sm text-gray-600">
-                        <span>
-                          {goal.unit === 'seconds' ? formatTimeSpent(goal.currentValue) : goal.currentValue} / {goal.unit === 'seconds' ? formatTimeSpent(goal.targetValue) : goal.targetValue} {goal.unit}
-                        </span>
-                        {goal.deadline && (
-                          <span>Due: {goal.deadline.toLocaleDateString()}</span>
-                        )}
-                      </div>
-                    </div>
-                  ))
+                    );
+                  })
                 )}
               </div>
             </div>
@@ -1199,6 +1128,18 @@ const Progress = () => {
         </div>
       )}
 
+      {/* Goal Modal */}
+      {showGoalModal && user?.id && (
+        <LearningGoalModal
+          userId={user.id}
+          onClose={() => setShowGoalModal(false)}
+          onCreated={() => {
+            setShowGoalModal(false);
+            fetchLearningGoals();
+          }}
+        />
+      )}
+
       {/* Achievement Detail Modal */}
       {selectedAchievement && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -1238,9 +1179,38 @@ const Progress = () => {
                 </p>
                 {selectedAchievement.unlocked && selectedAchievement.unlockedAt && (
                   <p className="text-sm text-green-600 mt-2">
-                    Unlocked on {selectedAchievement.unlockedAt.toLocaleDateString()}
+                    Unlocked on {selectedAchievement.unlockedAt.toDate().toLocaleDateString()}
                   </p>
                 )}
+                {selectedAchievement.unlocked && selectedAchievement.awardId && !selectedAchievement.confirmed && (
+                  <p className="text-xs text-gray-500 mt-4">
+                    Your badge can be downloaded and shared once an administrator has confirmed it.
+                  </p>
+                )}
+                {selectedAchievement.unlocked && selectedAchievement.awardId && selectedAchievement.confirmed && (
+                  <div className="mt-4 space-y-2">
+                    <div className="flex justify-center space-x-2">
+                      <button
+                        onClick={() => handleDownloadBadge(selectedAchievement)}
+                        className="flex items-center px-3 py-2 bg-green-600 text-white rounded-lg text-sm hover:bg-green-700 transition-colors"
+                      >
+                        <Download className="w-4 h-4 mr-1" /> Download Badge Record
+                      </button>
+                      <a
+                        href={`/badges/${selectedAchievement.awardId}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                      >
+                        <Eye className="w-4 h-4 mr-1" /> Badge Page
+                      </a>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      The badge record uses the Open Badges 2.0 format but is not a verifiable Open Badge: badge
+                      backpacks and validators can't check it. To prove the badge, share the badge page.
+                    </p>
+                  </div>
+                )}
               </div>
             </div>
           </div>
@@ -0,0 +1,442 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { CheckCircle, XCircle, RotateCcw, Loader2, AlertCircle, ArrowUp, ArrowDown, Timer } from 'lucide-react';
+import QuizService, {
+  QuizQuestion,
+  QuizAnswers,
+  QuizScore,
+  MatchingPair
+} from '../../services/quizService';
+
+interface QuizTakerProps {
+  title: string;
+  questions: QuizQuestion[];
+  onSubmit: (answers: QuizAnswers) => Promise<QuizScore | null>;
+  allowRetake?: boolean;
+  deadline?: Date | null; // timed exams auto-submit at this time
+  showAnswers?: boolean; // mark right and wrong answers after submitting; exams hold them back
+}
+
+// Ordering questions start from a shuffled order so the answer isn't given away
+const buildInitialAnswers = (questions: QuizQuestion[]): QuizAnswers => {
+  const initial: QuizAnswers = {};
+  questions.forEach(q => {
+    if (QuizService.getQuestionType(q) === 'ordering' && q.items) {
+      initial[q.id] = QuizService.shuffle(q.items).map(item => item.id);
+    }
+  });
+  return initial;
+};
+
+const formatTimeLeft = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const QuizTaker: React.FC<QuizTakerProps> = ({ title, questions, onSubmit, allowRetake = true, deadline, showAnswers = true }) => {
+  const [answers, setAnswers] = useState<QuizAnswers>(() => buildInitialAnswers(questions));
+  const [result, setResult] = useState<QuizScore | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [timeLeft, setTimeLeft] = useState<number | null>(null);
+
+  // Latest answers for the auto-submit timer, and a guard against double submission
+  const answersRef = useRef(answers);
+  answersRef.current = answers;
+  const submittedRef = useRef(false);
+
+  // Shuffled right-hand choices for matching questions
+  const matchingChoices = useMemo(() => {
+    const choices: { [questionId: string]: MatchingPair[] } = {};
+    questions.forEach(q => {
+      if (QuizService.getQuestionType(q) === 'matching' && q.pairs) {
+        choices[q.id] = QuizService.shuffle(q.pairs);
+      }
+    });
+    return choices;
+  }, [questions]);
+
+  const setAnswer = (questionId: string, answer: string[]) => {
+    if (result) return;
+    setAnswers(prev => ({ ...prev, [questionId]: answer }));
+  };
+
+  const handleSelect = (question: QuizQuestion, optionId: string) => {
+    const current = answers[question.id] || [];
+    if (QuizService.getQuestionType(question) !== 'multi-select') {
+      setAnswer(question.id, [optionId]);
+      return;
+    }
+    setAnswer(
+      question.id,
+      current.includes(optionId) ? current.filter(id => id !== optionId) : [...current, optionId]
+    );
+  };
+
+  const moveItem = (question: QuizQuestion, index: number, direction: -1 | 1) => {
+    const order = [...(answers[question.id] || [])];
+    const target = index + direction;
+    if (target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    setAnswer(question.id, order);
+  };
+
+  const handleMatch = (question: QuizQuestion, pairIndex: number, pairId: string) => {
+    const matches = [...(answers[question.id] || [])];
+    while (matches.length < (question.pairs?.length || 0)) matches.push('');
+    matches[pairIndex] = pairId;
+    setAnswer(question.id, matches);
+  };
+
+  const isAnswered = (question: QuizQuestion) => {
+    const answer = answers[question.id] || [];
+    switch (QuizService.getQuestionType(question)) {
+      case 'short-answer':
+        return !!answer[0]?.trim();
+      case 'ordering':
+        return true;
+      case 'matching':
+        return (question.pairs || []).every((_, index) => !!answer[index]);
+      default:
+        return answer.length > 0;
+    }
+  };
+
+  const submitAnswers = async () => {
+    if (submittedRef.current) return;
+    submittedRef.current = true;
+
+    setSubmitting(true);
+    try {
+      const score = await onSubmit(answersRef.current);
+      if (score) {
+        setResult(score);
+      } else {
+        submittedRef.current = false;
+        alert('Failed to submit quiz. Please try again.');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const unanswered = questions.filter(q => !isAnswered(q)).length;
+    if (unanswered > 0 && !window.confirm(`You have ${unanswered} unanswered question(s). Submit anyway?`)) {
+      return;
+    }
+
+    await submitAnswers();
+  };
+
+  // Count down to the deadline and submit whatever is answered when time runs out
+  const submitAnswersRef = useRef(submitAnswers);
+  submitAnswersRef.current = submitAnswers;
+
+  useEffect(() => {
+    if (!deadline || result) return;
+
+    const tick = () => {
+      const remaining = deadline.getTime() - Date.now();
+      setTimeLeft(Math.max(0, remaining));
+      if (remaining <= 0) {
+        clearInterval(timer);
+        submitAnswersRef.current();
+      }
+    };
+
+    const timer = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(timer);
+  }, [deadline, result]);
+
+  const handleRetake = () => {
+    setAnswers(buildInitialAnswers(questions));
+    setResult(null);
+    submittedRef.current = false;
+  };
+
+  // Answers are only marked when they may be shown
+  const revealed = !!result && showAnswers;
+
+  const getQuestionResult = (questionId: string) =>
+    revealed ? result?.questionResults.find(r => r.questionId === questionId) : undefined;
+
+  // Options list for multiple-choice, true-false and multi-select
+  const renderOptions = (question: QuizQuestion) => {
+    const selected = answers[question.id] || [];
+    const multi = QuizService.getQuestionType(question) === 'multi-select';
+
+    return (
+      <div className="space-y-2">
+        {multi && !result && (
+          <p className="text-xs text-gray-500">Select all that apply.</p>
+        )}
+        {question.options.map((option, oIndex) => {
+          const isSelected = selected.includes(option.id);
+          const showCorrect = revealed && option.isCorrect;
+          const showWrong = revealed && isSelected && !option.isCorrect;
+
+          return (
+            <label
+              key={option.id}
+              className={`flex items-center space-x-3 p-2 rounded-lg border cursor-pointer transition-colors ${
+                showCorrect ? 'bg-green-50 border-green-300' :
+                showWrong ? 'bg-red-50 border-red-300' :
+                isSelected ? 'bg-blue-50 border-blue-300' :
+                'border-gray-200 hover:bg-gray-50'
+              }`}
+            >
+              <input
+                type={multi ? 'checkbox' : 'radio'}
+                name={`question-${question.id}`}
+                checked={isSelected}
+                disabled={!!result}
+                onChange={() => handleSelect(question, option.id)}
+              />
+              <span className="text-sm text-gray-700">
+                {QuizService.getQuestionType(question) === 'true-false'
+                  ? option.text
+                  : `${String.fromCharCode(65 + oIndex)}. ${option.text}`}
+              </span>
+            </label>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderShortAnswer = (question: QuizQuestion, correct?: boolean) => (
+    <div className="space-y-2">
+      <input
+        type="text"
+        value={answers[question.id]?.[0] || ''}
+        onChange={e => setAnswer(question.id, [e.target.value])}
+        disabled={!!result}
+        placeholder="Type your answer"
+        className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      />
+      {revealed && !correct && question.acceptedAnswers && question.acceptedAnswers.length > 0 && (
+        <p className="text-sm text-green-700">
+          Accepted answer: {question.acceptedAnswers.find(a => !a.trim().startsWith('/')) || question.acceptedAnswers[0]}
+        </p>
+      )}
+    </div>
+  );
+
+  const renderOrdering = (question: QuizQuestion, correct?: boolean) => {
+    const order = answers[question.id] || [];
+    const items = question.items || [];
+
+    return (
+      <div className="space-y-2">
+        {!result && <p className="text-xs text-gray-500">Arrange the items in the correct order.</p>}
+        {order.map((itemId, index) => {
+          const item = items.find(i => i.id === itemId);
+          const inPlace = revealed && items[index]?.id === itemId;
+
+          return (
+            <div
+              key={itemId}
+              className={`flex items-center justify-between p-2 rounded-lg border ${
+                revealed ? (inPlace ? 'bg-green-50 border-green-300' : 'bg-red-50 border-red-300') : 'border-gray-200'
+              }`}
+            >
+              <span className="text-sm text-gray-700">{index + 1}. {item?.text}</span>
+              {!result && (
+                <div className="flex space-x-1">
+                  <button
+                    onClick={() => moveItem(question, index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => moveItem(question, index, 1)}
+                    disabled={index === order.length - 1}
+                    className="p-1 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {revealed && !correct && (
+          <p className="text-sm text-green-700">
+            Correct order: {items.map(item => item.text).join(' → ')}
+          </p>
+        )}
+      </div>
+    );
+  };
+
+  const renderMatching = (question: QuizQuestion) => {
+    const matches = answers[question.id] || [];
+    const choices = matchingChoices[question.id] || [];
+
+    return (
+      <div className="space-y-2">
+        {(question.pairs || []).map((pair, index) => {
+          const chosen = matches[index] || '';
+          const matched = revealed && chosen === pair.id;
+
+          return (
+            <div
+              key={pair.id}
+              className={`grid grid-cols-2 gap-3 items-center p-2 rounded-lg border ${
+                revealed ? (matched ? 'bg-green-50 border-green-300' : 'bg-red-50 border-red-300') : 'border-gray-200'
+              }`}
+            >
+              <span className="text-sm text-gray-700">{pair.left}</span>
+              <div>
+                <select
+                  value={chosen}
+                  onChange={e => handleMatch(question, index, e.target.value)}
+                  disabled={!!result}
+                  className="w-full border border-gray-300 rounded-lg px-2 py-1 text-sm"
+                >
+                  <option value="">Select a match...</option>
+                  {choices.map(choice => (
+                    <option key={choice.id} value={choice.id}>{choice.right}</option>
+                  ))}
+                </select>
+                {revealed && !matched && (
+                  <p className="text-xs text-green-700 mt-1">Correct: {pair.right}</p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderQuestionBody = (question: QuizQuestion, correct?: boolean) => {
+    switch (QuizService.getQuestionType(question)) {
+      case 'short-answer':
+        return renderShortAnswer(question, correct);
+      case 'ordering':
+        return renderOrdering(question, correct);
+      case 'matching':
+        return renderMatching(question);
+      default:
+        return renderOptions(question);
+    }
+  };
+
+  if (questions.length === 0) {
+    return <p className="text-sm text-gray-500 italic">This quiz has no questions yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-gray-800">{title} ({questions.length} questions)</p>
+        {!result && timeLeft !== null && (
+          <span className={`flex items-center space-x-1 px-3 py-1 rounded-full text-sm font-semibold ${
+            timeLeft <= 60000 ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'
+          }`}>
+            <Timer className="w-4 h-4" />
+            <span>{formatTimeLeft(timeLeft)}</span>
+          </span>
+        )}
+        {result && (
+          <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
+            (result.passed ?? result.percentage >= 70) ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+          }`}>
+            {result.score}/{result.maxScore} ({result.percentage}%)
+          </span>
+        )}
+      </div>
+
+      {result && result.passed !== undefined && (
+        <div className={`p-4 rounded-lg border ${
+          result.passed ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+        }`}>
+          <div className="flex items-center space-x-2">
+            {result.passed
+              ? <CheckCircle className="w-5 h-5 text-green-600" />
+              : <AlertCircle className="w-5 h-5 text-red-600" />}
+            <p className={`font-semibold ${result.passed ? 'text-green-800' : 'text-red-800'}`}>
+              {result.passed ? 'Passed' : 'Not passed'}
+            </p>
+          </div>
+          {!result.passed && result.topicsToReview && result.topicsToReview.length > 0 && (
+            <div className="mt-2">
+              <p className="text-sm text-red-700 mb-1">Review these topics before your next attempt:</p>
+              <ul className="list-disc list-inside text-sm text-red-700">
+                {result.topicsToReview.map(topic => (
+                  <li key={topic}>{topic}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+
+      {questions.map((question, qIndex) => {
+        const questionResult = getQuestionResult(question.id);
+
+        return (
+          <div
+            key={question.id}
+            className={`p-4 rounded-lg border bg-white ${
+              questionResult
+                ? questionResult.correct ? 'border-green-300' : 'border-red-300'
+                : 'border-gray-200'
+            }`}
+          >
+            <div className="flex items-start justify-between mb-3">
+              <p className="text-gray-800 font-medium">Q{qIndex + 1}: {question.question}</p>
+              {questionResult ? (
+                <div className="flex items-center space-x-2 flex-shrink-0 ml-2">
+                  <span className="text-xs text-gray-500">
+                    {questionResult.points}/{questionResult.maxPoints} pts
+                  </span>
+                  {questionResult.correct
+                    ? <CheckCircle className="w-5 h-5 text-green-600" />
+                    : <XCircle className="w-5 h-5 text-red-600" />}
+                </div>
+              ) : (
+                (question.points ?? 1) !== 1 && (
+                  <span className="text-xs text-gray-500 flex-shrink-0 ml-2">{question.points} pts</span>
+                )
+              )}
+            </div>
+            {renderQuestionBody(question, questionResult?.correct)}
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end space-x-2">
+        {result ? (
+          allowRetake && (
+            <button
+              onClick={handleRetake}
+              className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" />
+              <span>Try Again</span>
+            </button>
+          )
+        ) : (
+          <button
+            onClick={handleSubmit}
+            disabled={submitting}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>{submitting ? 'Submitting...' : 'Submit Quiz'}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizTaker;
@@ -0,0 +1,167 @@
+import React, { useState, useEffect } from 'react';
+import { MessageSquare } from 'lucide-react';
+import { Grade } from '../../services/gradingService';
+import QuizService from '../../services/quizService';
+import RegradeService, { RegradeItem, RegradeRequest } from '../../services/regradeService';
+
+interface RegradeRequestPanelProps {
+  grade: Grade;
+}
+
+const statusStyles: { [status in RegradeRequest['status']]: string } = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800'
+};
+
+const RegradeRequestPanel: React.FC<RegradeRequestPanelProps> = ({ grade }) => {
+  const [requests, setRequests] = useState<RegradeRequest[]>([]);
+  const [options, setOptions] = useState<RegradeItem[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [justification, setJustification] = useState('');
+  const [selectedItemIds, setSelectedItemIds] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    const fetchRequests = async () => {
+      setRequests(await RegradeService.getGradeRequests(grade.id));
+
+      // Rubric criteria, or the questions of the quiz attempt behind this grade
+      if (grade.rubricAssessment) {
+        setOptions(grade.rubricAssessment.criteria.map(criterion => ({
+          kind: 'criterion',
+          id: criterion.criterionId,
+          label: `${criterion.criterionTitle} (${criterion.points}/${criterion.maxPoints})`
+        })));
+      } else if (grade.quizId) {
+        const results = await QuizService.getUserQuizResults(grade.studentId, grade.quizId);
+        const attempt = results.find(r => r.gradeId === grade.id);
+        setOptions((attempt?.questionResults || []).map((result, index) => ({
+          kind: 'question',
+          id: result.questionId,
+          label: `Question ${index + 1} (${result.points}/${result.maxPoints})`
+        })));
+      } else {
+        setOptions([]);
+      }
+    };
+
+    setShowForm(false);
+    setJustification('');
+    setSelectedItemIds([]);
+    fetchRequests();
+  }, [grade]);
+
+  const toggleItem = (itemId: string) => {
+    setSelectedItemIds(current =>
+      current.includes(itemId) ? current.filter(id => id !== itemId) : [...current, itemId]
+    );
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    const result = await RegradeService.submitRequest(
+      grade,
+      justification,
+      options.filter(option => selectedItemIds.includes(option.id))
+    );
+    setSubmitting(false);
+
+    alert(result.message);
+    if (result.success) {
+      setShowForm(false);
+      setJustification('');
+      setSelectedItemIds([]);
+      setRequests(await RegradeService.getGradeRequests(grade.id));
+    }
+  };
+
+  const hasPending = requests.some(r => r.status === 'pending');
+
+  return (
+    <div>
+      <h5 className="flex items-center font-medium text-gray-900 mb-2">
+        <MessageSquare className="w-4 h-4 mr-2" /> Regrade Requests
+      </h5>
+
+      {requests.length > 0 && (
+        <div className="space-y-2 mb-3">
+          {requests.map(request => (
+            <div key={request.id} className="border border-gray-200 rounded-lg p-3 text-sm space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="text-gray-500">{request.createdAt?.toDate?.()?.toLocaleDateString() || 'Just now'}</span>
+                <span className={`px-2 py-0.5 rounded-full text-xs capitalize ${statusStyles[request.status]}`}>
+                  {request.status}
+                </span>
+              </div>
+              <p className="text-gray-700">{request.justification}</p>
+              {request.items.length > 0 && (
+                <p className="text-xs text-gray-500">About: {request.items.map(item => item.label).join(', ')}</p>
+              )}
+              {request.status === 'accepted' && request.adjustedPoints !== undefined && (
+                <p className="text-green-700">
+                  Changed from {request.originalPoints} to {request.adjustedPoints}/{request.maxPoints}
+                </p>
+              )}
+              {request.instructorComment && (
+                <p className="text-gray-700 italic">Instructor: {request.instructorComment}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!grade.isPublished || hasPending ? null : !showForm ? (
+        <button
+          onClick={() => setShowForm(true)}
+          className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+        >
+          Request a Regrade
+        </button>
+      ) : (
+        <div className="border border-blue-200 bg-blue-50 rounded-lg p-3 space-y-2">
+          <textarea
+            placeholder="Explain what you think was graded incorrectly and why"
+            value={justification}
+            onChange={e => setJustification(e.target.value)}
+            className="w-full border border-gray-300 rounded px-3 py-2 text-sm min-h-[100px] resize-y"
+          />
+          {options.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-xs font-medium text-gray-700">
+                {options[0].kind === 'criterion' ? 'Rubric criteria' : 'Questions'} to review (optional)
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {options.map(option => (
+                  <label key={option.id} className="flex items-center text-xs text-gray-700 bg-white border rounded px-2 py-1">
+                    <input
+                      type="checkbox"
+                      checked={selectedItemIds.includes(option.id)}
+                      onChange={() => toggleItem(option.id)}
+                      className="mr-1"
+                    />
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="flex justify-end space-x-2">
+            <button onClick={() => setShowForm(false)} className="px-3 py-1 border rounded text-sm hover:bg-gray-100">
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={submitting || !justification.trim()}
+              className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {submitting ? 'Sending...' : 'Send Request'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegradeRequestPanel;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { GitBranch, CheckCircle, XCircle, AlertCircle, RotateCcw, Loader2 } from 'lucide-react';
+import ScenarioService, {
+  Scenario,
+  ScenarioStep,
+  ScenarioScore,
+  SCENARIO_OUTCOME_LABELS
+} from '../../services/scenarioService';
+
+interface ScenarioPlayerProps {
+  scenario: Scenario;
+  onSubmit: (path: ScenarioStep[]) => Promise<ScenarioScore | null>;
+}
+
+const ScenarioPlayer: React.FC<ScenarioPlayerProps> = ({ scenario, onSubmit }) => {
+  const [currentNodeId, setCurrentNodeId] = useState(scenario.startNodeId);
+  const [path, setPath] = useState<ScenarioStep[]>([]);
+  const [result, setResult] = useState<ScenarioScore | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const currentNode = ScenarioService.getNode(scenario, currentNodeId);
+
+  // Follow a choice; reaching an ending submits the path
+  const handleChoice = async (choiceId: string) => {
+    if (!currentNode || submitting) return;
+
+    const choice = currentNode.choices.find(c => c.id === choiceId);
+    const nextPath = [...path, { nodeId: currentNode.id, choiceId }];
+    const nextNode = choice ? ScenarioService.getNode(scenario, choice.nextNodeId) : undefined;
+
+    setPath(nextPath);
+    setCurrentNodeId(choice?.nextNodeId || '');
+
+    if (!nextNode || ScenarioService.isEnding(nextNode)) {
+      setSubmitting(true);
+      try {
+        const score = await onSubmit(nextPath);
+        if (score) {
+          setResult(score);
+        } else {
+          alert('Failed to submit scenario. Please try again.');
+        }
+      } finally {
+        setSubmitting(false);
+      }
+    }
+  };
+
+  const handleRetry = () => {
+    setCurrentNodeId(scenario.startNodeId);
+    setPath([]);
+    setResult(null);
+  };
+
+  const getChoice = (step: ScenarioStep) =>
+    ScenarioService.getNode(scenario, step.nodeId)?.choices.find(c => c.id === step.choiceId);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-gray-800 flex items-center">
+          <GitBranch className="w-4 h-4 mr-2 text-blue-600" /> Scenario
+        </p>
+        {result && (
+          <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
+            result.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+          }`}>
+            {result.percentage}%
+          </span>
+        )}
+      </div>
+
+      {/* Decisions made so far */}
+      {path.length > 0 && !result && (
+        <ol className="text-xs text-gray-500 space-y-0.5">
+          {path.map((step, index) => (
+            <li key={index}>{index + 1}. {getChoice(step)?.text}</li>
+          ))}
+        </ol>
+      )}
+
+      {currentNode ? (
+        <div className="bg-white border border-gray-300 rounded-lg p-4 space-y-3">
+          <p className="font-semibold text-gray-900">{currentNode.title}</p>
+          <p className="text-gray-700 whitespace-pre-wrap">{currentNode.situation}</p>
+          {!result && currentNode.choices.length > 0 && (
+            <div className="space-y-2">
+              {currentNode.choices.map(choice => (
+                <button
+                  key={choice.id}
+                  onClick={() => handleChoice(choice.id)}
+                  disabled={submitting}
+                  className="w-full text-left px-4 py-2 rounded-lg border border-gray-300 bg-white text-gray-800 hover:bg-blue-50 hover:border-blue-400 transition-colors disabled:opacity-50"
+                >
+                  {choice.text}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">This path has no ending yet.</p>
+      )}
+
+      {submitting && (
+        <p className="flex items-center text-sm text-gray-600">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" /> Scoring your decisions...
+        </p>
+      )}
+
+      {/* Debrief */}
+      {result && (
+        <div className={`p-4 rounded-lg border space-y-2 ${
+          result.passed ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+        }`}>
+          <div className="flex items-center space-x-2">
+            {result.passed
+              ? <CheckCircle className="w-5 h-5 text-green-600" />
+              : <AlertCircle className="w-5 h-5 text-red-600" />}
+            <p className={`font-semibold ${result.passed ? 'text-green-800' : 'text-red-800'}`}>
+              {SCENARIO_OUTCOME_LABELS[result.outcome]} · {result.path.length - result.wrongTurns.length} of {result.path.length} best decisions
+            </p>
+          </div>
+          <ul className="text-sm space-y-1">
+            {result.path.map((step, index) => {
+              const choice = getChoice(step);
+              const wrong = result.wrongTurns.some(t => t.nodeId === step.nodeId && t.choiceId === step.choiceId);
+              return (
+                <li key={index} className={`flex items-start space-x-1 ${wrong ? 'text-red-800' : 'text-green-800'}`}>
+                  {wrong
+                    ? <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    : <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />}
+                  <span>{choice?.text}{choice?.feedback && ` — ${choice.feedback}`}</span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {result && (
+        <div className="flex justify-end">
+          <button
+            onClick={handleRetry}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Try Again</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioPlayer;
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { Search, CheckCircle, XCircle, AlertCircle, RotateCcw, Loader2 } from 'lucide-react';
+import SpotIssueService, {
+  SpotIssueExercise,
+  SpotIssueScore,
+  SPOT_ISSUE_SOURCE_LABELS
+} from '../../services/spotIssueService';
+
+interface SpotIssuePlayerProps {
+  exercise: SpotIssueExercise;
+  onSubmit: (selectedLines: number[]) => Promise<SpotIssueScore | null>;
+}
+
+const SpotIssuePlayer: React.FC<SpotIssuePlayerProps> = ({ exercise, onSubmit }) => {
+  const [selectedLines, setSelectedLines] = useState<number[]>([]);
+  const [lastClicked, setLastClicked] = useState<number | null>(null);
+  const [result, setResult] = useState<SpotIssueScore | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const lines = exercise.source.split('\n');
+
+  // Click toggles a line; shift-click selects every line from the previous click
+  const handleLineClick = (line: number, shiftKey: boolean) => {
+    if (result) return;
+
+    if (shiftKey && lastClicked !== null) {
+      const from = Math.min(lastClicked, line);
+      const to = Math.max(lastClicked, line);
+      const span = Array.from({ length: to - from + 1 }, (_, i) => from + i);
+      setSelectedLines(prev => [...new Set([...prev, ...span])].sort((a, b) => a - b));
+    } else {
+      setSelectedLines(prev => prev.includes(line)
+        ? prev.filter(l => l !== line)
+        : [...prev, line].sort((a, b) => a - b));
+    }
+    setLastClicked(line);
+  };
+
+  // Highlight a line by selection, and by outcome once submitted
+  const getLineClass = (line: number) => {
+    const selected = selectedLines.includes(line);
+    if (result) {
+      const inRange = exercise.ranges.some(range => SpotIssueService.isLineInRange(line, range));
+      if (inRange && selected) return 'bg-green-100';
+      if (inRange) return 'bg-red-100';
+      if (selected) return 'bg-gray-200';
+      return '';
+    }
+    return selected ? 'bg-orange-100' : 'hover:bg-yellow-50 cursor-pointer';
+  };
+
+  const handleSubmit = async () => {
+    if (selectedLines.length === 0) {
+      alert('Select the lines you think are problematic.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const score = await onSubmit(selectedLines);
+      if (score) {
+        setResult(score);
+      } else {
+        alert('Failed to submit exercise. Please try again.');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRetry = () => {
+    setSelectedLines([]);
+    setLastClicked(null);
+    setResult(null);
+  };
+
+  const describeRange = (rangeId: string) => {
+    const range = exercise.ranges.find(r => r.id === rangeId);
+    if (!range) return '';
+    const lineLabel = range.startLine === range.endLine
+      ? `Line ${range.startLine}`
+      : `Lines ${range.startLine}–${range.endLine}`;
+    return range.explanation ? `${lineLabel} — ${range.explanation}` : lineLabel;
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="font-medium text-gray-800 flex items-center">
+          <Search className="w-4 h-4 mr-2 text-blue-600" /> Spot the Issue
+          <span className="ml-2 text-xs text-gray-500">
+            {SPOT_ISSUE_SOURCE_LABELS[exercise.sourceType]}{exercise.language && ` · ${exercise.language}`}
+          </span>
+        </p>
+        {result && (
+          <span className={`px-3 py-1 rounded-full text-sm font-semibold ${
+            result.passed ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+          }`}>
+            {result.percentage}%
+          </span>
+        )}
+      </div>
+      {!result && (
+        <p className="text-sm text-gray-600">
+          Click the lines you think are suspicious or vulnerable. Shift-click to select several lines at once.
+        </p>
+      )}
+
+      <div className="border border-gray-300 rounded-lg bg-gray-50 text-gray-800 max-h-96 overflow-auto font-mono text-xs">
+        {lines.map((text, index) => (
+          <div
+            key={index}
+            onClick={e => handleLineClick(index + 1, e.shiftKey)}
+            className={`flex select-none ${getLineClass(index + 1)}`}
+          >
+            <span className="w-10 text-right pr-2 text-gray-400 flex-shrink-0">{index + 1}</span>
+            <span className="whitespace-pre">{text || ' '}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Feedback */}
+      {result && (
+        <div className={`p-4 rounded-lg border space-y-2 ${
+          result.passed ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+        }`}>
+          <div className="flex items-center space-x-2">
+            {result.passed
+              ? <CheckCircle className="w-5 h-5 text-green-600" />
+              : <AlertCircle className="w-5 h-5 text-red-600" />}
+            <p className={`font-semibold ${result.passed ? 'text-green-800' : 'text-red-800'}`}>
+              {result.passed ? 'Passed' : 'Not passed'} · precision {result.precision}% · recall {result.recall}%
+            </p>
+          </div>
+          {result.found.length > 0 && (
+            <ul className="text-sm text-green-800 space-y-1">
+              {result.found.map(id => (
+                <li key={id} className="flex items-start space-x-1">
+                  <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>{describeRange(id)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {result.missed.length > 0 && (
+            <ul className="text-sm text-red-800 space-y-1">
+              {result.missed.map(id => (
+                <li key={id} className="flex items-start space-x-1">
+                  <XCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                  <span>Missed: {describeRange(id)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          {result.falsePositives.length > 0 && (
+            <p className="text-sm text-gray-600">
+              Lines {result.falsePositives.join(', ')} were not part of an issue and lowered your precision.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        {result ? (
+          <button
+            onClick={handleRetry}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Try Again</span>
+          </button>
+        ) : (
+          <button
+            onClick={handleSubmit}
+            disabled={submitting}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {submitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            <span>{submitting ? 'Submitting...' : `Submit ${selectedLines.length} line(s)`}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SpotIssuePlayer;
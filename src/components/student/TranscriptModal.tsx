@@ -0,0 +1,159 @@
+import React, { useState, useEffect } from 'react';
+import { FileText, Download, Send, Clock } from 'lucide-react';
+import TranscriptService, { Transcript, TranscriptRequest } from '../../services/transcriptService';
+
+interface TranscriptModalProps {
+  studentId: string;
+  onClose: () => void;
+}
+
+type TranscriptPreview = Omit<Transcript, 'id' | 'issuedBy' | 'issuedAt'>;
+
+const TranscriptModal: React.FC<TranscriptModalProps> = ({ studentId, onClose }) => {
+  const [preview, setPreview] = useState<TranscriptPreview | null>(null);
+  const [issued, setIssued] = useState<Transcript[]>([]);
+  const [pendingRequest, setPendingRequest] = useState<TranscriptRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [requesting, setRequesting] = useState(false);
+
+  useEffect(() => {
+    const fetchTranscripts = async (id: string) => {
+      const [built, previous, requests] = await Promise.all([
+        TranscriptService.buildTranscript(id),
+        TranscriptService.getStudentTranscripts(id),
+        TranscriptService.getStudentTranscriptRequests(id)
+      ]);
+      setPreview(built);
+      setIssued(previous);
+      setPendingRequest(requests.find(r => r.status === 'pending') || null);
+      setLoading(false);
+    };
+
+    fetchTranscripts(studentId);
+  }, [studentId]);
+
+  const downloadPdf = (transcript: Transcript) => {
+    const blob = TranscriptService.createPdf(transcript, `${window.location.origin}/verify-transcript`);
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `transcript-${transcript.id}.pdf`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRequest = async () => {
+    if (!preview) return;
+
+    setRequesting(true);
+    const result = await TranscriptService.requestTranscript(studentId, preview.studentName);
+    setRequesting(false);
+
+    alert(result.message);
+    if (result.success && result.request) {
+      setPendingRequest(result.request);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-start overflow-auto justify-center z-50 pt-12 pb-12 px-4">
+      <div className="bg-white rounded-xl p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="flex items-center text-lg font-semibold text-gray-900">
+            <FileText className="w-5 h-5 mr-2" /> Academic Transcript
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">✕</button>
+        </div>
+
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading your record...</p>
+        ) : !preview || preview.terms.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            Courses appear on your transcript once you complete them. You have no completed courses yet.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              Official transcripts are issued by an administrator from your records. Each one carries a
+              verification code that anyone can check at{' '}
+              <span className="font-mono">{window.location.origin}/verify-transcript</span>.
+            </p>
+            {preview.terms.map(term => (
+              <div key={term.term}>
+                <div className="flex items-center justify-between border-b border-gray-200 pb-1 mb-2">
+                  <h4 className="font-semibold text-gray-900">{term.term}</h4>
+                  <span className="text-sm text-gray-600">
+                    {term.credits} credits · Term GPA {term.gpa === null ? 'N/A' : term.gpa.toFixed(2)}
+                  </span>
+                </div>
+                <table className="min-w-full text-sm">
+                  <tbody>
+                    {term.courses.map(course => (
+                      <tr key={course.courseId}>
+                        <td className="py-1 text-gray-900">{course.title}</td>
+                        <td className="py-1 text-right text-gray-600">{course.credits} cr</td>
+                        <td className="py-1 text-right text-gray-600 w-16">{course.percentage}%</td>
+                        <td className="py-1 text-right font-medium text-gray-900 w-16">{course.letterGrade}</td>
+                        <td className="py-1 text-right text-gray-600 w-24">
+                          {course.countsTowardGPA ? course.gpa.toFixed(2) : 'Not counted'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+            <div className="flex justify-between bg-green-50 border border-green-200 rounded-lg p-4 font-semibold text-green-900">
+              <span>Total credits: {preview.totalCredits}</span>
+              <span>Overall GPA: {preview.overallGPA.toFixed(2)}</span>
+            </div>
+            <div className="flex justify-end">
+              {pendingRequest ? (
+                <span className="flex items-center text-sm text-gray-600">
+                  <Clock className="w-4 h-4 mr-1" />
+                  Requested {pendingRequest.requestedAt?.toDate?.().toLocaleDateString() || 'just now'}, waiting to be issued
+                </span>
+              ) : (
+                <button
+                  onClick={handleRequest}
+                  disabled={requesting}
+                  className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                >
+                  <Send className="w-4 h-4 mr-1" /> {requesting ? 'Requesting...' : 'Request Official Transcript'}
+                </button>
+              )}
+            </div>
+          </>
+        )}
+
+        {issued.length > 0 && (
+          <div className="border-t pt-4">
+            <p className="text-sm font-medium text-gray-700 mb-2">Previously issued</p>
+            <ul className="divide-y divide-gray-200 text-sm">
+              {issued.map(transcript => (
+                <li key={transcript.id} className="flex items-center justify-between py-2">
+                  <span>
+                    <span className="font-mono text-gray-900">{transcript.id}</span>
+                    <span className="text-gray-500 ml-2">
+                      {transcript.issuedAt?.toDate?.().toLocaleDateString() || 'Just now'} · GPA {transcript.overallGPA.toFixed(2)}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => downloadPdf(transcript)}
+                    className="flex items-center text-green-700 hover:text-green-900"
+                  >
+                    <Download className="w-4 h-4 mr-1" /> PDF
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptModal;
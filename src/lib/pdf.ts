@@ -0,0 +1,207 @@
+// A small PDF writer for documents we generate in the browser (transcripts, certificates).
+// It only draws text in the built-in Helvetica fonts, lines and rectangles, which keeps
+// the output readable by every PDF viewer without embedding fonts or pulling in a library.
+// Coordinates are in points from the top-left corner of the page.
+
+export type PdfColor = [number, number, number]; // RGB, 0-1
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: PdfColor;
+  align?: 'left' | 'center' | 'right';
+}
+
+export interface PdfShapeOptions {
+  lineWidth?: number;
+  stroke?: PdfColor;
+  fill?: PdfColor;
+}
+
+export const PAGE_SIZES = {
+  A4_PORTRAIT: { width: 595.28, height: 841.89 },
+  A4_LANDSCAPE: { width: 841.89, height: 595.28 }
+};
+
+// Glyph widths (per 1000 units of font size) for ASCII 32-126, from the Helvetica AFM files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a code for
+const WIN_ANSI_EXTRAS: { [char: string]: number } = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97
+};
+
+const toWinAnsi = (char: string): number => {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return code;
+  if (code >= 0xa0 && code <= 0xff) return code;
+  return WIN_ANSI_EXTRAS[char] ?? 63; // '?'
+};
+
+// Escape text as a PDF string literal. The output is plain ASCII, so string lengths match the
+// byte offsets written to the cross-reference table.
+const toPdfLiteral = (text: string): string => {
+  let literal = '';
+  for (const char of text) {
+    const code = toWinAnsi(char);
+    if (char === '(' || char === ')' || char === '\\') literal += `\\${char}`;
+    else if (code > 126) literal += `\\${code.toString(8).padStart(3, '0')}`;
+    else literal += String.fromCharCode(code);
+  }
+  return literal;
+};
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const formatColor = (color: PdfColor) => color.map(formatNumber).join(' ');
+
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private pages: string[][] = [];
+  private pageIndex = 0;
+  private title: string;
+
+  constructor(title: string, size: { width: number; height: number } = PAGE_SIZES.A4_PORTRAIT) {
+    this.title = title;
+    this.width = size.width;
+    this.height = size.height;
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+    this.pageIndex = this.pages.length - 1;
+  }
+
+  // Go back to an earlier page, e.g. to add footers once the page count is known
+  onPage(index: number) {
+    this.pageIndex = Math.min(Math.max(index, 0), this.pages.length - 1);
+  }
+
+  // Width of a string in points, used for alignment and wrapping
+  textWidth(text: string, size: number = 11, bold: boolean = false): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let units = 0;
+    for (const char of text) {
+      const code = char.charCodeAt(0);
+      units += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+    }
+    return (units * size) / 1000;
+  }
+
+  // Split text into lines no wider than maxWidth, breaking between words
+  wrapText(text: string, maxWidth: number, size: number = 11, bold: boolean = false): string[] {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.textWidth(candidate, size, bold) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+    });
+    return lines;
+  }
+
+  // Draw a line of text; y is the baseline
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}) {
+    const { size = 11, bold = false, color = [0, 0, 0], align = 'left' } = options;
+    const width = this.textWidth(text, size, bold);
+    const left = align === 'center' ? x - width / 2 : align === 'right' ? x - width : x;
+
+    this.currentPage.push(
+      `BT /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ${formatColor(color)} rg ` +
+      `${formatNumber(left)} ${formatNumber(this.height - y)} Td (${toPdfLiteral(text)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: PdfShapeOptions = {}) {
+    const { lineWidth = 1, stroke = [0, 0, 0] } = options;
+    this.currentPage.push(
+      `${formatNumber(lineWidth)} w ${formatColor(stroke)} RG ` +
+      `${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+    );
+  }
+
+  // Draw a rectangle from its top-left corner; filled, stroked or both
+  rect(x: number, y: number, width: number, height: number, options: PdfShapeOptions = {}) {
+    const { lineWidth = 1, stroke, fill } = options;
+    const operator = fill && stroke ? 'B' : fill ? 'f' : 'S';
+    this.currentPage.push(
+      `${formatNumber(lineWidth)} w ` +
+      (stroke ? `${formatColor(stroke)} RG ` : operator === 'S' ? '0 0 0 RG ' : '') +
+      (fill ? `${formatColor(fill)} rg ` : '') +
+      `${formatNumber(x)} ${formatNumber(this.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re ${operator}`
+    );
+  }
+
+  // Serialise the document. Everything written is ASCII, so string offsets are byte offsets.
+  toBlob(): Blob {
+    const objects: string[] = [];
+    const fontIds = [3, 4];
+    const firstPageId = 5;
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`;
+    objects[fontIds[0]] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[fontIds[1]] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((operations, index) => {
+      const pageId = pageIds[index];
+      const content = operations.join('\n');
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(this.width)} ${formatNumber(this.height)}] ` +
+        `/Resources << /Font << /F1 ${fontIds[0]} 0 R /F2 ${fontIds[1]} 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    const infoId = objects.length;
+    objects[infoId] = `<< /Title (${toPdfLiteral(this.title)}) /Producer (Inzozi Cybersafe) >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new Blob([output], { type: 'application/pdf' });
+  }
+
+  private get currentPage(): string[] {
+    return this.pages[this.pageIndex];
+  }
+}
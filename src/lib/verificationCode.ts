@@ -0,0 +1,11 @@
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // no 0/O or 1/I
+
+// Random, hard-to-guess code for issued documents, e.g. "TR-7KQ2-M9XD-4HPA"
+export const generateVerificationCode = (prefix: string): string => {
+  const values = crypto.getRandomValues(new Uint32Array(12));
+  const characters = Array.from(values, value => CODE_ALPHABET[value % CODE_ALPHABET.length]).join('');
+  return `${prefix}-${characters.slice(0, 4)}-${characters.slice(4, 8)}-${characters.slice(8)}`;
+};
+
+// Codes are typed in by hand, so accept any case and stray whitespace
+export const normalizeVerificationCode = (code: string): string => code.trim().toUpperCase();
@@ -0,0 +1,567 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  query,
+  where,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { generateVerificationCode, normalizeVerificationCode } from '../lib/verificationCode';
+import NotificationService from './notificationService';
+
+// Achievement interfaces
+export type AchievementMetric =
+  | 'enrolledCourses'
+  | 'coursesCompleted'
+  | 'lessonsCompleted'
+  | 'hoursStudied'
+  | 'longestStreak' // consecutive days with a completed lesson
+  | 'activeDaysLast30' // days with a completed lesson in the last 30
+  | 'gradedItems' // published grades
+  | 'averageGrade' // mean percentage over published grades
+  | 'perfectScores'; // published grades of 100%
+
+export type AchievementMetrics = { [metric in AchievementMetric]: number };
+
+export interface AchievementCriterion {
+  metric: AchievementMetric;
+  threshold: number; // the metric must reach at least this value
+}
+
+export interface AchievementDefinition {
+  id: string;
+  title: string;
+  description: string;
+  icon: string; // lucide icon name
+  category: 'learning' | 'streak' | 'completion' | 'time' | 'grades';
+  rarity: 'common' | 'rare' | 'epic' | 'legendary';
+  criteria: AchievementCriterion[]; // every criterion must be met
+}
+
+// An achievement a student has unlocked; the ID doubles as the badge verification code.
+// Unlocks are recorded from the browser, so a badge only verifies once an admin has
+// re-checked the criteria and confirmed it.
+export interface UnlockedAchievement {
+  id: string;
+  userId: string;
+  studentName: string;
+  achievementId: string;
+  title: string;
+  description: string;
+  rarity: AchievementDefinition['rarity'];
+  status?: 'pending' | 'confirmed'; // unset on awards recorded before confirmation existed
+  confirmedBy?: string;
+  confirmedAt?: Timestamp;
+  unlockedAt: Timestamp | null;
+}
+
+// A definition with the student's standing against it
+export interface AchievementStatus extends AchievementDefinition {
+  unlocked: boolean;
+  unlockedAt?: Timestamp;
+  awardId?: string;
+  confirmed?: boolean; // the badge can be exported and verified
+  progress: number;
+  maxProgress: number;
+}
+
+export interface OpenBadgeAssertion {
+  '@context': string;
+  type: 'Assertion';
+  id: string;
+  recipient: { type: 'email'; hashed: true; salt: string; identity: string };
+  narrative: string;
+  badge: {
+    type: 'BadgeClass';
+    id: string;
+    name: string;
+    description: string;
+    image: string;
+    criteria: { narrative: string };
+    tags: string[];
+    issuer: { type: 'Issuer'; id: string; name: string; url: string };
+  };
+  issuedOn: string;
+}
+
+// Every achievement on the platform. Add new ones here; students who already meet the
+// criteria unlock them the next time they are evaluated.
+export const ACHIEVEMENT_DEFINITIONS: AchievementDefinition[] = [
+  {
+    id: 'first-course',
+    title: 'First Steps',
+    description: 'Enrolled in your first course',
+    icon: 'BookOpen',
+    category: 'learning',
+    rarity: 'common',
+    criteria: [{ metric: 'enrolledCourses', threshold: 1 }]
+  },
+  {
+    id: 'first-lesson',
+    title: 'Off the Mark',
+    description: 'Completed your first lesson',
+    icon: 'Zap',
+    category: 'learning',
+    rarity: 'common',
+    criteria: [{ metric: 'lessonsCompleted', threshold: 1 }]
+  },
+  {
+    id: 'lesson-master',
+    title: 'Lesson Master',
+    description: 'Completed 50 lessons',
+    icon: 'Target',
+    category: 'learning',
+    rarity: 'epic',
+    criteria: [{ metric: 'lessonsCompleted', threshold: 50 }]
+  },
+  {
+    id: 'course-completer',
+    title: 'Course Completer',
+    description: 'Completed your first course',
+    icon: 'Award',
+    category: 'completion',
+    rarity: 'rare',
+    criteria: [{ metric: 'coursesCompleted', threshold: 1 }]
+  },
+  {
+    id: 'course-collector',
+    title: 'Course Collector',
+    description: 'Completed 5 courses',
+    icon: 'Trophy',
+    category: 'completion',
+    rarity: 'epic',
+    criteria: [{ metric: 'coursesCompleted', threshold: 5 }]
+  },
+  {
+    id: 'week-warrior',
+    title: 'Week Warrior',
+    description: 'Maintained a 7-day learning streak',
+    icon: 'Flame',
+    category: 'streak',
+    rarity: 'rare',
+    criteria: [{ metric: 'longestStreak', threshold: 7 }]
+  },
+  {
+    id: 'month-marathon',
+    title: 'Month Marathon',
+    description: 'Maintained a 30-day learning streak',
+    icon: 'Rocket',
+    category: 'streak',
+    rarity: 'legendary',
+    criteria: [{ metric: 'longestStreak', threshold: 30 }]
+  },
+  {
+    id: 'consistency-king',
+    title: 'Consistency King',
+    description: 'Studied on 27 of the last 30 days',
+    icon: 'Crown',
+    category: 'streak',
+    rarity: 'legendary',
+    criteria: [{ metric: 'activeDaysLast30', threshold: 27 }]
+  },
+  {
+    id: 'dedicated-learner',
+    title: 'Dedicated Learner',
+    description: 'Spent 10 hours learning',
+    icon: 'Clock',
+    category: 'time',
+    rarity: 'rare',
+    criteria: [{ metric: 'hoursStudied', threshold: 10 }]
+  },
+  {
+    id: 'time-scholar',
+    title: 'Time Scholar',
+    description: 'Spent 100 hours learning',
+    icon: 'Clock',
+    category: 'time',
+    rarity: 'epic',
+    criteria: [{ metric: 'hoursStudied', threshold: 100 }]
+  },
+  {
+    id: 'top-marks',
+    title: 'Top Marks',
+    description: 'Scored 100% on a graded quiz, exam or assignment',
+    icon: 'Medal',
+    category: 'grades',
+    rarity: 'rare',
+    criteria: [{ metric: 'perfectScores', threshold: 1 }]
+  },
+  {
+    id: 'honor-roll',
+    title: 'Honor Roll',
+    description: 'Averaged 90% or more across at least 5 graded items',
+    icon: 'Star',
+    category: 'grades',
+    rarity: 'epic',
+    criteria: [
+      { metric: 'gradedItems', threshold: 5 },
+      { metric: 'averageGrade', threshold: 90 }
+    ]
+  }
+];
+
+export const ACHIEVEMENT_RARITY_COLORS: { [rarity in AchievementDefinition['rarity']]: string } = {
+  common: '#16a34a',
+  rare: '#2563eb',
+  epic: '#9333ea',
+  legendary: '#ca8a04'
+};
+
+const ISSUER_NAME = 'Inzozi Cybersafe';
+
+const emptyMetrics: AchievementMetrics = {
+  enrolledCourses: 0,
+  coursesCompleted: 0,
+  lessonsCompleted: 0,
+  hoursStudied: 0,
+  longestStreak: 0,
+  activeDaysLast30: 0,
+  gradedItems: 0,
+  averageGrade: 0,
+  perfectScores: 0
+};
+
+export class AchievementService {
+
+  // Gather the numbers achievement criteria are written against
+  static async getMetrics(userId: string): Promise<AchievementMetrics> {
+    try {
+      const [enrollmentSnapshot, lessonSnapshot, gradeSnapshot] = await Promise.all([
+        getDocs(query(collection(db, 'enrollments'), where('userId', '==', userId))),
+        getDocs(query(
+          collection(db, 'lesson_progress'),
+          where('userId', '==', userId),
+          where('completed', '==', true)
+        )),
+        getDocs(query(
+          collection(db, 'grades'),
+          where('studentId', '==', userId),
+          where('isPublished', '==', true)
+        ))
+      ]);
+
+      // Distinct days with a completed lesson, as midnight timestamps
+      let timeSpent = 0;
+      const days = new Set<number>();
+      lessonSnapshot.forEach(doc => {
+        const data = doc.data();
+        timeSpent += data.timeSpent || 0;
+        const completedAt: Date | undefined = data.completedAt?.toDate?.();
+        if (completedAt) {
+          days.add(new Date(completedAt.getFullYear(), completedAt.getMonth(), completedAt.getDate()).getTime());
+        }
+      });
+      const sortedDays = Array.from(days).sort((a, b) => a - b);
+
+      let longestStreak = 0;
+      let currentStreak = 0;
+      sortedDays.forEach((day, index) => {
+        const previous = new Date(sortedDays[index - 1] ?? 0);
+        previous.setDate(previous.getDate() + 1);
+        currentStreak = index > 0 && previous.getTime() === day ? currentStreak + 1 : 1;
+        longestStreak = Math.max(longestStreak, currentStreak);
+      });
+
+      const windowStart = new Date();
+      windowStart.setHours(0, 0, 0, 0);
+      windowStart.setDate(windowStart.getDate() - 29);
+      const activeDaysLast30 = sortedDays.filter(day => day >= windowStart.getTime()).length;
+
+      const percentages = gradeSnapshot.docs
+        .map(doc => doc.data())
+        .filter(grade => !grade.isExcused)
+        .map(grade => grade.percentage ?? Math.round((grade.points / grade.maxPoints) * 100));
+
+      return {
+        enrolledCourses: enrollmentSnapshot.size,
+        coursesCompleted: enrollmentSnapshot.docs.filter(doc => doc.data().status === 'completed').length,
+        lessonsCompleted: lessonSnapshot.size,
+        hoursStudied: Math.floor(timeSpent / 3600),
+        longestStreak,
+        activeDaysLast30,
+        gradedItems: percentages.length,
+        averageGrade: percentages.length > 0
+          ? Math.round(percentages.reduce((sum, percentage) => sum + percentage, 0) / percentages.length)
+          : 0,
+        perfectScores: percentages.filter(percentage => percentage >= 100).length
+      };
+    } catch (error) {
+      console.error('Error gathering achievement metrics:', error);
+      return emptyMetrics;
+    }
+  }
+
+  // Check whether metrics satisfy every criterion of an achievement
+  static isMet(definition: AchievementDefinition, metrics: AchievementMetrics): boolean {
+    return definition.criteria.every(criterion => metrics[criterion.metric] >= criterion.threshold);
+  }
+
+  // Progress towards an achievement, measured on the first criterion not met yet
+  static getProgress(definition: AchievementDefinition, metrics: AchievementMetrics): { progress: number; maxProgress: number } {
+    const criterion = definition.criteria.find(c => metrics[c.metric] < c.threshold) || definition.criteria[0];
+    return {
+      progress: Math.min(metrics[criterion.metric], criterion.threshold),
+      maxProgress: criterion.threshold
+    };
+  }
+
+  // Get the achievements a student has unlocked, oldest first
+  static async getUnlockedAchievements(userId: string): Promise<UnlockedAchievement[]> {
+    try {
+      const q = query(
+        collection(db, 'user_achievements'),
+        where('userId', '==', userId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const unlocked: UnlockedAchievement[] = [];
+
+      querySnapshot.forEach(doc => {
+        unlocked.push({
+          id: doc.id,
+          ...doc.data()
+        } as UnlockedAchievement);
+      });
+
+      return unlocked.sort((a, b) => (a.unlockedAt?.toMillis?.() || 0) - (b.unlockedAt?.toMillis?.() || 0));
+    } catch (error) {
+      console.error('Error fetching unlocked achievements:', error);
+      return [];
+    }
+  }
+
+  // Evaluate every achievement for a student after something relevant happened (a lesson
+  // completed, a grade published, ...). Newly met achievements are stored and announced.
+  static async evaluateAchievements(userId: string): Promise<UnlockedAchievement[]> {
+    try {
+      const [metrics, unlocked] = await Promise.all([
+        this.getMetrics(userId),
+        this.getUnlockedAchievements(userId)
+      ]);
+
+      return await this.unlockMetAchievements(userId, metrics, unlocked);
+    } catch (error) {
+      console.error('Error evaluating achievements:', error);
+      return [];
+    }
+  }
+
+  // Store and announce the achievements whose criteria are met but that are not unlocked yet
+  private static async unlockMetAchievements(
+    userId: string,
+    metrics: AchievementMetrics,
+    unlocked: UnlockedAchievement[]
+  ): Promise<UnlockedAchievement[]> {
+    const newlyMet = ACHIEVEMENT_DEFINITIONS.filter(definition =>
+      !unlocked.some(a => a.achievementId === definition.id) && this.isMet(definition, metrics)
+    );
+    if (newlyMet.length === 0) return [];
+
+    const userDoc = await getDoc(doc(db, 'users', userId));
+    const studentName = userDoc.data()?.name || userDoc.data()?.email || 'Student';
+
+    const awards: UnlockedAchievement[] = [];
+    for (const definition of newlyMet) {
+      const awardId = generateVerificationCode('BADGE');
+      const award: Omit<UnlockedAchievement, 'id' | 'unlockedAt'> = {
+        userId,
+        studentName,
+        achievementId: definition.id,
+        title: definition.title,
+        description: definition.description,
+        rarity: definition.rarity,
+        status: 'pending'
+      };
+      await setDoc(doc(db, 'user_achievements', awardId), {
+        ...award,
+        unlockedAt: serverTimestamp()
+      });
+
+      await NotificationService.createAchievementNotification(userId, definition.title, awardId);
+      awards.push({ ...award, id: awardId, unlockedAt: Timestamp.now() });
+    }
+
+    return awards;
+  }
+
+  // Get every achievement with the student's progress. Evaluates first, so criteria met
+  // before an achievement existed are picked up here.
+  static async getStudentAchievements(userId: string): Promise<AchievementStatus[]> {
+    try {
+      const [metrics, previouslyUnlocked] = await Promise.all([
+        this.getMetrics(userId),
+        this.getUnlockedAchievements(userId)
+      ]);
+      const unlocked = [
+        ...previouslyUnlocked,
+        ...await this.unlockMetAchievements(userId, metrics, previouslyUnlocked)
+      ];
+
+      return ACHIEVEMENT_DEFINITIONS.map(definition => {
+        const award = unlocked.find(a => a.achievementId === definition.id);
+        const { progress, maxProgress } = this.getProgress(definition, metrics);
+
+        return {
+          ...definition,
+          unlocked: !!award,
+          ...(award ? { awardId: award.id, unlockedAt: award.unlockedAt || undefined, confirmed: this.isConfirmed(award) } : {}),
+          progress: award ? maxProgress : progress,
+          maxProgress
+        };
+      });
+    } catch (error) {
+      console.error('Error fetching student achievements:', error);
+      return [];
+    }
+  }
+
+  // Check whether an award has been confirmed by an admin
+  static isConfirmed(award: Pick<UnlockedAchievement, 'status'>): boolean {
+    return award.status === 'confirmed';
+  }
+
+  // Get every award still waiting for confirmation, oldest first
+  static async getPendingAwards(): Promise<UnlockedAchievement[]> {
+    try {
+      const querySnapshot = await getDocs(collection(db, 'user_achievements'));
+      const awards: UnlockedAchievement[] = [];
+
+      querySnapshot.forEach(doc => {
+        const award = { id: doc.id, ...doc.data() } as UnlockedAchievement;
+        if (!this.isConfirmed(award)) awards.push(award);
+      });
+
+      return awards.sort((a, b) => (a.unlockedAt?.toMillis?.() || 0) - (b.unlockedAt?.toMillis?.() || 0));
+    } catch (error) {
+      console.error('Error fetching pending awards:', error);
+      return [];
+    }
+  }
+
+  // Confirm awards after re-checking each student's criteria against their records
+  static async confirmAwards(
+    awards: UnlockedAchievement[],
+    confirmedBy: string
+  ): Promise<{ success: boolean; message: string; confirmedIds: string[] }> {
+    try {
+      const confirmedIds: string[] = [];
+      const metricsByStudent: { [userId: string]: AchievementMetrics } = {};
+
+      for (const award of awards) {
+        const definition = ACHIEVEMENT_DEFINITIONS.find(d => d.id === award.achievementId);
+        if (!definition) continue;
+
+        if (!metricsByStudent[award.userId]) {
+          metricsByStudent[award.userId] = await this.getMetrics(award.userId);
+        }
+        if (!this.isMet(definition, metricsByStudent[award.userId])) continue;
+
+        await updateDoc(doc(db, 'user_achievements', award.id), {
+          status: 'confirmed',
+          confirmedBy,
+          confirmedAt: serverTimestamp()
+        });
+        confirmedIds.push(award.id);
+      }
+
+      const skipped = awards.length - confirmedIds.length;
+      return {
+        success: true,
+        message: `${confirmedIds.length} badge${confirmedIds.length === 1 ? '' : 's'} confirmed` +
+          (skipped > 0 ? `; ${skipped} no longer meet${skipped === 1 ? 's' : ''} the criteria` : ''),
+        confirmedIds
+      };
+    } catch (error) {
+      console.error('Error confirming awards:', error);
+      return {
+        success: false,
+        message: 'Failed to confirm badges',
+        confirmedIds: []
+      };
+    }
+  }
+
+  // Look up an unlocked achievement by its badge ID, for the public badge page
+  static async getUnlockedAchievement(awardId: string): Promise<UnlockedAchievement | null> {
+    try {
+      const normalized = normalizeVerificationCode(awardId);
+      if (!normalized) return null;
+
+      const awardDoc = await getDoc(doc(db, 'user_achievements', normalized));
+      if (!awardDoc.exists()) return null;
+
+      return { id: awardDoc.id, ...awardDoc.data() } as UnlockedAchievement;
+    } catch (error) {
+      console.error('Error fetching unlocked achievement:', error);
+      return null;
+    }
+  }
+
+  // Badge artwork as an SVG data URI, coloured by rarity
+  static getBadgeImage(definition: Pick<AchievementDefinition, 'title' | 'rarity'>): string {
+    const color = ACHIEVEMENT_RARITY_COLORS[definition.rarity];
+    const title = definition.title.replace(/[^A-Za-z0-9 ]/g, '');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256" viewBox="0 0 256 256">` +
+      `<circle cx="128" cy="128" r="120" fill="${color}"/>` +
+      `<circle cx="128" cy="128" r="100" fill="#ffffff"/>` +
+      `<text x="128" y="118" font-family="Helvetica, Arial, sans-serif" font-size="20" font-weight="bold" text-anchor="middle" fill="${color}">${title}</text>` +
+      `<text x="128" y="150" font-family="Helvetica, Arial, sans-serif" font-size="13" text-anchor="middle" fill="#4b5563">${ISSUER_NAME}</text>` +
+      `</svg>`;
+    return `data:image/svg+xml;base64,${btoa(svg)}`;
+  }
+
+  // SHA-256 of a string, hex encoded
+  private static async sha256(value: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  // A stable urn:uuid IRI for a name, so repeated exports give the same IDs
+  private static async toUrnUuid(name: string): Promise<string> {
+    const hex = (await this.sha256(name)).slice(0, 32);
+    return `urn:uuid:${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-` +
+      `${(8 + (parseInt(hex[16], 16) % 4)).toString(16)}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+  }
+
+  // Build an Open Badges 2.0 assertion for a confirmed achievement. The recipient's email is
+  // salted and hashed, and the badge class and issuer are embedded so the file stands on its
+  // own. Nothing serves these objects as JSON, so the IDs are urn:uuid IRIs rather than URLs
+  // and no hosted verification is claimed. The file is a record rather than a verifiable badge;
+  // the narrative says so and points to the badge page instead.
+  static async createOpenBadgeAssertion(
+    award: UnlockedAchievement,
+    recipientEmail: string,
+    origin: string
+  ): Promise<OpenBadgeAssertion> {
+    const definition = ACHIEVEMENT_DEFINITIONS.find(d => d.id === award.achievementId);
+    const salt = award.id;
+    const hash = await this.sha256(`${recipientEmail.trim().toLowerCase()}${salt}`);
+
+    return {
+      '@context': 'https://w3id.org/openbadges/v2',
+      type: 'Assertion',
+      id: await this.toUrnUuid(`${origin}/badges/${award.id}`),
+      recipient: { type: 'email', hashed: true, salt, identity: `sha256$${hash}` },
+      narrative: `Awarded by ${ISSUER_NAME}. This file is a record of the badge and cannot be verified on its own; ` +
+        `check the badge at ${origin}/badges/${award.id}`,
+      badge: {
+        type: 'BadgeClass',
+        id: await this.toUrnUuid(`${origin}/badge-classes/${award.achievementId}`),
+        name: award.title,
+        description: award.description,
+        image: this.getBadgeImage(award),
+        criteria: { narrative: award.description },
+        tags: definition ? [definition.category, definition.rarity] : [award.rarity],
+        issuer: { type: 'Issuer', id: await this.toUrnUuid(`${origin}/issuer`), name: ISSUER_NAME, url: origin }
+      },
+      issuedOn: (award.unlockedAt?.toDate?.() || new Date()).toISOString()
+    };
+  }
+}
+
+export default AchievementService;
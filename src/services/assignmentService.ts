@@ -5,6 +5,8 @@ import {
   getDoc,
   getDocs,
   updateDoc,
+  deleteDoc,
+  deleteField,
   query,
   where,
   orderBy,
@@ -12,6 +14,13 @@ import {
   Timestamp
 } from 'firebase/firestore';
 import { db } from '../lib/firebase';
+import EnrollmentService from './enrollmentService';
+import NotificationService from './notificationService';
+import AchievementService from './achievementService';
+import GradingService from './gradingService';
+import { RubricAssessment } from './rubricService';
+import LatePolicyService, { LatePolicy, LatePenalty } from './latePolicyService';
+import GradingScaleService from './gradingScaleService';
 
 // Assignment interfaces
 export interface Assignment {
@@ -24,10 +33,18 @@ export interface Assignment {
   dueDate: Timestamp;
   maxPoints: number;
   instructions?: string;
-  attachments?: string[];
+  attachments?: string[]; // Storage download URLs
+  rubricId?: string; // '' or absent when graded with a single score
+  latePolicy?: LatePolicy | null; // null or absent to follow the course's late policy
+  allowResubmission?: boolean;
+  maxAttempts?: number; // 0 or absent = unlimited when resubmission is allowed
+  allowedFileTypes?: string[]; // MIME types students may upload; empty = any type
+  maxFileSizeMB?: number; // 0 or absent = students cannot attach files
   createdAt: Timestamp;
+  updatedAt?: Timestamp;
   createdBy: string; // instructor ID
   isPublished: boolean;
+  publishedAt?: Timestamp;
 }
 
 export interface AssignmentSubmission {
@@ -43,6 +60,39 @@ export interface AssignmentSubmission {
   feedback?: string;
   gradedAt?: Timestamp;
   gradedBy?: string; // instructor ID
+  gradeId?: string; // the Grade created when this submission was graded
+  rubricAssessment?: RubricAssessment;
+  latePenalty?: LatePenalty; // deducted from grade when it was graded
+  attemptCount?: number; // absent on submissions made before resubmission was possible
+  gradedAttempt?: number; // the version the grade was given for
+}
+
+// One timestamped version of a submission; the submission itself always holds the latest
+export interface SubmissionVersion {
+  id: string;
+  submissionId: string;
+  assignmentId: string;
+  studentId: string;
+  courseId: string;
+  attempt: number;
+  content: string;
+  attachments: string[];
+  submittedAt: Timestamp;
+  isLate: boolean;
+}
+
+// File types instructors can allow on submissions
+export const SUBMISSION_FILE_TYPES: { label: string; mimeTypes: string[] }[] = [
+  { label: 'PDF', mimeTypes: ['application/pdf'] },
+  { label: 'Word', mimeTypes: ['application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'] },
+  { label: 'Plain text', mimeTypes: ['text/plain'] },
+  { label: 'Images', mimeTypes: ['image/png', 'image/jpeg', 'image/gif'] },
+  { label: 'ZIP archive', mimeTypes: ['application/zip', 'application/x-zip-compressed'] }
+];
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
 }
 
 export class AssignmentService {
@@ -74,6 +124,146 @@ export class AssignmentService {
     }
   }
 
+  // Get every assignment of a course, including unpublished ones, for instructors
+  static async getAllCourseAssignments(courseId: string): Promise<Assignment[]> {
+    try {
+      const q = query(
+        collection(db, 'assignments'),
+        where('courseId', '==', courseId),
+        orderBy('dueDate', 'asc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      const assignments: Assignment[] = [];
+
+      querySnapshot.forEach(doc => {
+        assignments.push({
+          id: doc.id,
+          ...doc.data()
+        } as Assignment);
+      });
+
+      return assignments;
+    } catch (error) {
+      console.error('Error fetching all course assignments:', error);
+      return [];
+    }
+  }
+
+  // Create an assignment; creating it published notifies enrolled students
+  static async createAssignment(
+    assignmentData: Omit<Assignment, 'id' | 'createdAt' | 'updatedAt' | 'publishedAt'>
+  ): Promise<{ success: boolean; message: string; assignmentId?: string }> {
+    try {
+      const assignmentRef = await addDoc(collection(db, 'assignments'), {
+        ...assignmentData,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+        ...(assignmentData.isPublished ? { publishedAt: serverTimestamp() } : {})
+      });
+
+      if (assignmentData.isPublished) {
+        await this.notifyEnrolledStudents({ ...assignmentData, id: assignmentRef.id });
+      }
+
+      return {
+        success: true,
+        message: 'Assignment created successfully',
+        assignmentId: assignmentRef.id
+      };
+    } catch (error) {
+      console.error('Error creating assignment:', error);
+      return {
+        success: false,
+        message: 'Failed to create assignment'
+      };
+    }
+  }
+
+  // Update an assignment's details
+  static async updateAssignment(
+    assignmentId: string,
+    updates: Partial<Omit<Assignment, 'id' | 'createdAt' | 'createdBy' | 'isPublished' | 'publishedAt'>>
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      await updateDoc(doc(db, 'assignments', assignmentId), {
+        ...updates,
+        updatedAt: serverTimestamp()
+      });
+
+      return {
+        success: true,
+        message: 'Assignment updated successfully'
+      };
+    } catch (error) {
+      console.error('Error updating assignment:', error);
+      return {
+        success: false,
+        message: 'Failed to update assignment'
+      };
+    }
+  }
+
+  // Publish or unpublish an assignment; publishing notifies enrolled students
+  static async setPublished(assignment: Assignment, isPublished: boolean): Promise<{ success: boolean; message: string }> {
+    try {
+      await updateDoc(doc(db, 'assignments', assignment.id), {
+        isPublished,
+        updatedAt: serverTimestamp(),
+        ...(isPublished ? { publishedAt: serverTimestamp() } : {})
+      });
+
+      if (isPublished) {
+        await this.notifyEnrolledStudents(assignment);
+      }
+
+      return {
+        success: true,
+        message: isPublished ? 'Assignment published' : 'Assignment unpublished'
+      };
+    } catch (error) {
+      console.error('Error changing assignment publish state:', error);
+      return {
+        success: false,
+        message: 'Failed to change assignment publish state'
+      };
+    }
+  }
+
+  // Delete an assignment
+  static async deleteAssignment(assignmentId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await deleteDoc(doc(db, 'assignments', assignmentId));
+
+      return {
+        success: true,
+        message: 'Assignment deleted successfully'
+      };
+    } catch (error) {
+      console.error('Error deleting assignment:', error);
+      return {
+        success: false,
+        message: 'Failed to delete assignment'
+      };
+    }
+  }
+
+  // Notify the active students of a course about a published assignment
+  private static async notifyEnrolledStudents(assignment: Pick<Assignment, 'id' | 'courseId' | 'title' | 'dueDate'>): Promise<void> {
+    const [courseDoc, enrollments] = await Promise.all([
+      getDoc(doc(db, 'courses', assignment.courseId)),
+      EnrollmentService.getCourseEnrollments(assignment.courseId)
+    ]);
+
+    await NotificationService.createNewAssignmentNotification(
+      enrollments.filter(e => e.status === 'active').map(e => e.userId),
+      assignment.title,
+      courseDoc.data()?.title || 'your course',
+      assignment.dueDate,
+      assignment.id
+    );
+  }
+
   // Get assignments for a student (across all enrolled courses)
   static async getStudentAssignments(studentId: string, enrolledCourseIds: string[]): Promise<Assignment[]> {
     try {
@@ -171,44 +361,102 @@ export class AssignmentService {
     attachments?: string[]
   ): Promise<{ success: boolean; message: string; submissionId?: string }> {
     try {
-      // Check if already submitted
+      // Get assignment to check due date and resubmission rules
+      const assignmentDoc = await getDoc(doc(db, 'assignments', assignmentId));
+      if (!assignmentDoc.exists()) {
+        return {
+          success: false,
+          message: 'Assignment not found'
+        };
+      }
+
+      const assignment = assignmentDoc.data() as Assignment;
+
       const existingSubmission = await this.getStudentSubmission(assignmentId, studentId);
-      if (existingSubmission) {
+      if (existingSubmission && (!assignment.allowResubmission || existingSubmission.status === 'missing')) {
         return {
           success: false,
           message: 'Assignment already submitted'
         };
       }
-
-      // Get assignment to check due date
-      const assignmentDoc = await getDoc(doc(db, 'assignments', assignmentId));
-      if (!assignmentDoc.exists()) {
+      const previousAttempts = existingSubmission ? existingSubmission.attemptCount || 1 : 0;
+      if (assignment.maxAttempts && previousAttempts >= assignment.maxAttempts) {
         return {
           success: false,
-          message: 'Assignment not found'
+          message: `All ${assignment.maxAttempts} attempts have been used`
         };
       }
 
-      const assignment = assignmentDoc.data() as Assignment;
-      const now = Timestamp.now();
-      const isLate = now.seconds > assignment.dueDate.seconds;
+      const [policy, extension] = await Promise.all([
+        LatePolicyService.getEffectivePolicy(assignment),
+        LatePolicyService.getExtension(assignmentId, studentId)
+      ]);
+      const evaluation = LatePolicyService.evaluate(policy, extension?.dueDate || assignment.dueDate, Timestamp.now());
+      if (!evaluation.accepted) {
+        return {
+          success: false,
+          message: policy.acceptLate
+            ? 'The late submission window for this assignment has closed'
+            : 'This assignment does not accept late submissions'
+        };
+      }
+      const isLate = evaluation.isLate;
 
-      const submissionData: Omit<AssignmentSubmission, 'id'> = {
-        assignmentId,
-        studentId,
-        courseId,
-        submittedAt: serverTimestamp() as Timestamp,
+      const attempt = previousAttempts + 1;
+      const submissionData = {
+        submittedAt: serverTimestamp(),
         content: content || '',
         attachments: attachments || [],
-        status: isLate ? 'late' : 'submitted'
+        status: isLate ? 'late' : 'submitted',
+        attemptCount: attempt
       };
 
-      const submissionRef = await addDoc(collection(db, 'assignment_submissions'), submissionData);
+      let submissionId = existingSubmission?.id;
+      if (existingSubmission) {
+        // Submissions from before versioning have no history yet, so keep their content as the first version
+        if (!existingSubmission.attemptCount) {
+          await addDoc(collection(db, 'submission_versions'), {
+            submissionId: existingSubmission.id,
+            assignmentId,
+            studentId,
+            courseId,
+            attempt: 1,
+            content: existingSubmission.content || '',
+            attachments: existingSubmission.attachments || [],
+            submittedAt: existingSubmission.submittedAt,
+            isLate: existingSubmission.status === 'late'
+          });
+        }
+        // The previous grade stays visible until the new version is graded
+        await updateDoc(doc(db, 'assignment_submissions', existingSubmission.id), submissionData);
+      } else {
+        const submissionRef = await addDoc(collection(db, 'assignment_submissions'), {
+          assignmentId,
+          studentId,
+          courseId,
+          ...submissionData
+        });
+        submissionId = submissionRef.id;
+      }
+
+      await addDoc(collection(db, 'submission_versions'), {
+        submissionId,
+        assignmentId,
+        studentId,
+        courseId,
+        attempt,
+        content: submissionData.content,
+        attachments: submissionData.attachments,
+        submittedAt: serverTimestamp(),
+        isLate
+      });
 
       return {
         success: true,
-        message: isLate ? 'Assignment submitted late' : 'Assignment submitted successfully',
-        submissionId: submissionRef.id
+        message: isLate
+          ? 'Assignment submitted late'
+          : attempt > 1 ? `Attempt ${attempt} submitted successfully` : 'Assignment submitted successfully',
+        submissionId
       };
     } catch (error) {
       console.error('Error submitting assignment:', error);
@@ -219,6 +467,306 @@ export class AssignmentService {
     }
   }
 
+  // Get all submissions for an assignment
+  static async getAssignmentSubmissions(assignmentId: string): Promise<AssignmentSubmission[]> {
+    try {
+      const q = query(
+        collection(db, 'assignment_submissions'),
+        where('assignmentId', '==', assignmentId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const submissions: AssignmentSubmission[] = [];
+
+      querySnapshot.forEach(doc => {
+        submissions.push({
+          id: doc.id,
+          ...doc.data()
+        } as AssignmentSubmission);
+      });
+
+      return submissions;
+    } catch (error) {
+      console.error('Error fetching assignment submissions:', error);
+      return [];
+    }
+  }
+
+  // Get all submissions in a course
+  static async getCourseSubmissions(courseId: string): Promise<AssignmentSubmission[]> {
+    try {
+      const q = query(
+        collection(db, 'assignment_submissions'),
+        where('courseId', '==', courseId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const submissions: AssignmentSubmission[] = [];
+
+      querySnapshot.forEach(doc => {
+        submissions.push({
+          id: doc.id,
+          ...doc.data()
+        } as AssignmentSubmission);
+      });
+
+      return submissions;
+    } catch (error) {
+      console.error('Error fetching course submissions:', error);
+      return [];
+    }
+  }
+
+  // Storage path for a student's submission file; storage.rules keys access off these segments
+  static getSubmissionFilePath(assignment: Pick<Assignment, 'id' | 'courseId'>, studentId: string, fileName: string): string {
+    return `submissions/${assignment.courseId}/${assignment.id}/${studentId}/${Date.now()}-${fileName}`;
+  }
+
+  // Check a file against the assignment's upload limits; returns the reason it is refused, or null
+  static validateSubmissionFile(
+    assignment: Pick<Assignment, 'allowedFileTypes' | 'maxFileSizeMB'>,
+    file: { name: string; type: string; size: number }
+  ): string | null {
+    if (!assignment.maxFileSizeMB) {
+      return 'This assignment does not accept file uploads';
+    }
+    if (file.size > assignment.maxFileSizeMB * 1024 * 1024) {
+      return `${file.name} is larger than ${assignment.maxFileSizeMB} MB`;
+    }
+    if (assignment.allowedFileTypes?.length && !assignment.allowedFileTypes.includes(file.type)) {
+      return `${file.name} is not an allowed file type`;
+    }
+    return null;
+  }
+
+  // Get every version of a submission, oldest first
+  static async getSubmissionVersions(submission: AssignmentSubmission): Promise<SubmissionVersion[]> {
+    try {
+      const q = query(
+        collection(db, 'submission_versions'),
+        where('submissionId', '==', submission.id)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const versions: SubmissionVersion[] = [];
+
+      querySnapshot.forEach(doc => {
+        versions.push({
+          id: doc.id,
+          ...doc.data()
+        } as SubmissionVersion);
+      });
+
+      // Submissions from before versioning are their own single version
+      if (versions.length === 0 && submission.status !== 'missing') {
+        versions.push({
+          id: submission.id,
+          submissionId: submission.id,
+          assignmentId: submission.assignmentId,
+          studentId: submission.studentId,
+          courseId: submission.courseId,
+          attempt: 1,
+          content: submission.content || '',
+          attachments: submission.attachments || [],
+          submittedAt: submission.submittedAt,
+          isLate: submission.status === 'late'
+        });
+      }
+
+      return versions.sort((a, b) => a.attempt - b.attempt);
+    } catch (error) {
+      console.error('Error fetching submission versions:', error);
+      return [];
+    }
+  }
+
+  // Line-by-line diff between two versions' content (longest common subsequence)
+  static diffVersions(oldContent: string, newContent: string): DiffLine[] {
+    const oldLines = oldContent.split('\n');
+    const newLines = newContent.split('\n');
+    const lcs: number[][] = Array.from({ length: oldLines.length + 1 }, () => new Array(newLines.length + 1).fill(0));
+
+    for (let i = oldLines.length - 1; i >= 0; i--) {
+      for (let j = newLines.length - 1; j >= 0; j--) {
+        lcs[i][j] = oldLines[i] === newLines[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+      }
+    }
+
+    const diff: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < oldLines.length && j < newLines.length) {
+      if (oldLines[i] === newLines[j]) {
+        diff.push({ type: 'same', text: oldLines[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        diff.push({ type: 'removed', text: oldLines[i++] });
+      } else {
+        diff.push({ type: 'added', text: newLines[j++] });
+      }
+    }
+    while (i < oldLines.length) diff.push({ type: 'removed', text: oldLines[i++] });
+    while (j < newLines.length) diff.push({ type: 'added', text: newLines[j++] });
+
+    return diff;
+  }
+
+  // Grade a submission and record the matching Grade. New grades are drafts until the instructor
+  // publishes them; regrading a published grade needs a reason and notifies the student straight away.
+  // A student with no submission gets a 'missing' submission created for the grade.
+  static async gradeSubmission(params: {
+    assignment: Assignment;
+    studentId: string;
+    submission: AssignmentSubmission | null;
+    points: number;
+    feedback: string;
+    gradedBy: string;
+    courseTitle: string;
+    rubricAssessment?: RubricAssessment;
+    version?: SubmissionVersion; // the version being graded; defaults to the latest
+    changeReason?: string; // required when the grade is already published
+    applyLatePenalty?: boolean; // false for marks that are already final, e.g. imported from a spreadsheet
+  }): Promise<{
+    success: boolean;
+    message: string;
+    submissionId?: string;
+    gradeId?: string;
+    points?: number; // awarded points after any late penalty
+    latePenalty?: LatePenalty;
+    isPublished?: boolean;
+  }> {
+    try {
+      const { assignment, studentId, submission, feedback, gradedBy, courseTitle, rubricAssessment, version, changeReason } = params;
+
+      if (params.points < 0 || params.points > assignment.maxPoints) {
+        return {
+          success: false,
+          message: `Points must be between 0 and ${assignment.maxPoints}`
+        };
+      }
+
+      // Late work loses the policy's deduction, measured against any extension the student was given
+      let latePenalty: LatePenalty | null = null;
+      if (params.applyLatePenalty !== false && submission && submission.status !== 'missing' && submission.submittedAt) {
+        const [policy, extension] = await Promise.all([
+          LatePolicyService.getEffectivePolicy(assignment),
+          LatePolicyService.getExtension(assignment.id, studentId)
+        ]);
+        const evaluation = LatePolicyService.evaluate(
+          policy,
+          extension?.dueDate || assignment.dueDate,
+          version?.submittedAt || submission.submittedAt
+        );
+        latePenalty = LatePolicyService.applyPenalty(params.points, assignment.maxPoints, evaluation);
+      }
+      const points = latePenalty ? params.points - latePenalty.pointsDeducted : params.points;
+
+      // Regrading updates the existing Grade instead of adding another one
+      let gradeId = submission?.gradeId;
+      let isPublished = false;
+      if (gradeId) {
+        const gradeResult = await GradingService.updateGrade(gradeId, {
+          points,
+          maxPoints: assignment.maxPoints,
+          feedback,
+          gradedBy,
+          rubricAssessment,
+          latePenalty,
+          ...(changeReason ? { changeReason } : {})
+        });
+        if (!gradeResult.success) return gradeResult;
+        isPublished = !!gradeResult.isPublished;
+      } else {
+        const gradeResult = await GradingService.addGrade({
+          studentId,
+          courseId: assignment.courseId,
+          assignmentId: assignment.id,
+          type: 'assignment',
+          title: assignment.title,
+          points,
+          maxPoints: assignment.maxPoints,
+          feedback,
+          gradedBy,
+          isPublished: false,
+          ...(rubricAssessment ? { rubricAssessment } : {}),
+          ...(latePenalty ? { latePenalty } : {})
+        });
+        if (!gradeResult.success || !gradeResult.gradeId) {
+          return { success: false, message: gradeResult.message };
+        }
+        gradeId = gradeResult.gradeId;
+      }
+
+      const gradingData = {
+        grade: points,
+        feedback,
+        gradedAt: serverTimestamp(),
+        gradedBy,
+        gradeId,
+        status: 'graded',
+        ...(rubricAssessment ? { rubricAssessment } : {}),
+        ...(version ? { gradedAttempt: version.attempt } : {}),
+        ...(latePenalty ? { latePenalty } : {})
+      };
+
+      let submissionId = submission?.id;
+      if (submissionId) {
+        await updateDoc(doc(db, 'assignment_submissions', submissionId), {
+          ...gradingData,
+          latePenalty: latePenalty || deleteField()
+        });
+      } else {
+        const submissionRef = await addDoc(collection(db, 'assignment_submissions'), {
+          assignmentId: assignment.id,
+          studentId,
+          courseId: assignment.courseId,
+          submittedAt: serverTimestamp(),
+          content: '',
+          attachments: [],
+          ...gradingData,
+          status: 'missing'
+        });
+        submissionId = submissionRef.id;
+      }
+
+      // Drafts are announced when they are published
+      if (isPublished) {
+        const percentage = Math.round((points / assignment.maxPoints) * 100);
+        const scale = await GradingScaleService.getCourseScale(assignment.courseId);
+        await NotificationService.createGradeChangeNotification(
+          studentId,
+          assignment.title,
+          courseTitle,
+          `${points}/${assignment.maxPoints} (${GradingService.calculateLetterGrade(percentage, scale)})`,
+          changeReason || '',
+          gradeId
+        );
+        await AchievementService.evaluateAchievements(studentId);
+      }
+
+      return {
+        success: true,
+        message: latePenalty
+          ? `Grade saved with a ${latePenalty.percentage}% late penalty`
+          : 'Grade saved successfully',
+        submissionId,
+        gradeId,
+        points,
+        isPublished,
+        ...(latePenalty ? { latePenalty } : {})
+      };
+    } catch (error) {
+      console.error('Error grading submission:', error);
+      return {
+        success: false,
+        message: 'Failed to save grade'
+      };
+    }
+  }
+
   // Get student's submissions for a course
   static async getStudentSubmissions(studentId: string, courseId: string): Promise<AssignmentSubmission[]> {
     try {
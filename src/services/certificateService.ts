@@ -0,0 +1,312 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  query,
+  where,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { PdfDocument, PdfColor, PAGE_SIZES } from '../lib/pdf';
+import { generateVerificationCode, normalizeVerificationCode } from '../lib/verificationCode';
+import { Enrollment } from './enrollmentService';
+import NotificationService from './notificationService';
+import ProgressService from './progressService';
+
+// Certificate interfaces
+export interface CertificateTemplate {
+  heading: string;
+  message: string; // printed between the student's name and the course title
+  instructorName: string;
+  instructorTitle: string;
+  accentColor: string; // a key of CERTIFICATE_COLORS
+}
+
+export interface Certificate {
+  id: string; // the certificate ID printed on the PDF
+  enrollmentId: string;
+  studentId: string;
+  studentName: string;
+  courseId: string;
+  courseTitle: string;
+  completedAt: Timestamp | null;
+  template: CertificateTemplate; // as it was when the certificate was issued
+  status: 'valid' | 'revoked';
+  issuedAt: Timestamp | null;
+  revokedAt?: Timestamp;
+  revokedBy?: string; // admin ID
+  revokedReason?: string;
+}
+
+export const CERTIFICATE_COLORS: { [name: string]: { label: string; rgb: PdfColor; hex: string } } = {
+  green: { label: 'Green', rgb: [0.09, 0.64, 0.29], hex: '#16a34a' },
+  blue: { label: 'Blue', rgb: [0.15, 0.39, 0.92], hex: '#2563eb' },
+  navy: { label: 'Navy', rgb: [0.12, 0.16, 0.37], hex: '#1e293b' },
+  gold: { label: 'Gold', rgb: [0.71, 0.53, 0.04], hex: '#b5870a' },
+  maroon: { label: 'Maroon', rgb: [0.5, 0.11, 0.15], hex: '#7f1d1d' }
+};
+
+export const DEFAULT_CERTIFICATE_TEMPLATE: CertificateTemplate = {
+  heading: 'Certificate of Completion',
+  message: 'has successfully completed the course',
+  instructorName: '',
+  instructorTitle: 'Course Instructor',
+  accentColor: 'green'
+};
+
+export class CertificateService {
+
+  // Get the certificate template a course uses
+  static async getCourseTemplate(courseId: string): Promise<CertificateTemplate> {
+    try {
+      const courseDoc = await getDoc(doc(db, 'courses', courseId));
+      return { ...DEFAULT_CERTIFICATE_TEMPLATE, ...(courseDoc.data()?.certificateTemplate || {}) };
+    } catch (error) {
+      console.error('Error fetching certificate template:', error);
+      return DEFAULT_CERTIFICATE_TEMPLATE;
+    }
+  }
+
+  // Save a course's certificate template; certificates already issued keep their own copy
+  static async setCourseTemplate(courseId: string, template: CertificateTemplate): Promise<{ success: boolean; message: string }> {
+    try {
+      if (!template.heading.trim()) {
+        return { success: false, message: 'The certificate needs a heading' };
+      }
+      if (!template.instructorName.trim()) {
+        return { success: false, message: 'Please enter the instructor name to print on certificates' };
+      }
+
+      await updateDoc(doc(db, 'courses', courseId), {
+        certificateTemplate: {
+          heading: template.heading.trim(),
+          message: template.message.trim(),
+          instructorName: template.instructorName.trim(),
+          instructorTitle: template.instructorTitle.trim(),
+          accentColor: CERTIFICATE_COLORS[template.accentColor] ? template.accentColor : DEFAULT_CERTIFICATE_TEMPLATE.accentColor
+        }
+      });
+
+      return {
+        success: true,
+        message: 'Certificate template saved'
+      };
+    } catch (error) {
+      console.error('Error saving certificate template:', error);
+      return {
+        success: false,
+        message: 'Failed to save certificate template'
+      };
+    }
+  }
+
+  // Issue the certificate for a completed enrollment. Each enrollment gets one certificate,
+  // so calling this again (or after a revocation) returns the existing one.
+  static async issueCertificate(enrollment: Enrollment): Promise<{ success: boolean; message: string; certificate?: Certificate }> {
+    try {
+      if (enrollment.status !== 'completed') {
+        return { success: false, message: 'The course has not been completed yet' };
+      }
+      // Every module, including any required test, must be complete
+      if (!await ProgressService.isCourseComplete(enrollment.userId, enrollment.courseId)) {
+        return { success: false, message: 'Every module of the course must be completed first' };
+      }
+
+      const existing = await getDocs(query(
+        collection(db, 'certificates'),
+        where('studentId', '==', enrollment.userId),
+        where('enrollmentId', '==', enrollment.id)
+      ));
+      if (!existing.empty) {
+        return {
+          success: true,
+          message: 'Certificate already issued',
+          certificate: { id: existing.docs[0].id, ...existing.docs[0].data() } as Certificate
+        };
+      }
+
+      const [userDoc, courseDoc, template] = await Promise.all([
+        getDoc(doc(db, 'users', enrollment.userId)),
+        getDoc(doc(db, 'courses', enrollment.courseId)),
+        this.getCourseTemplate(enrollment.courseId)
+      ]);
+      if (!courseDoc.exists()) {
+        return { success: false, message: 'Course not found' };
+      }
+
+      const certificateId = generateVerificationCode('CERT');
+      const certificate: Omit<Certificate, 'id' | 'issuedAt'> = {
+        enrollmentId: enrollment.id,
+        studentId: enrollment.userId,
+        studentName: userDoc.data()?.name || userDoc.data()?.email || 'Student',
+        courseId: enrollment.courseId,
+        courseTitle: courseDoc.data().title || 'Untitled course',
+        completedAt: enrollment.completedAt || null,
+        template,
+        status: 'valid'
+      };
+      await setDoc(doc(db, 'certificates', certificateId), {
+        ...certificate,
+        completedAt: certificate.completedAt || serverTimestamp(),
+        issuedAt: serverTimestamp()
+      });
+
+      await NotificationService.createCertificateNotification(enrollment.userId, certificate.courseTitle, certificateId);
+
+      return {
+        success: true,
+        message: 'Certificate issued',
+        certificate: {
+          ...certificate,
+          id: certificateId,
+          completedAt: certificate.completedAt || Timestamp.now(),
+          issuedAt: Timestamp.now()
+        }
+      };
+    } catch (error) {
+      console.error('Error issuing certificate:', error);
+      return {
+        success: false,
+        message: 'Failed to issue certificate'
+      };
+    }
+  }
+
+  // Look up a certificate by its ID, for the public verification page
+  static async getCertificate(certificateId: string): Promise<Certificate | null> {
+    try {
+      const normalized = normalizeVerificationCode(certificateId);
+      if (!normalized) return null;
+
+      const certificateDoc = await getDoc(doc(db, 'certificates', normalized));
+      if (!certificateDoc.exists()) return null;
+
+      return { id: certificateDoc.id, ...certificateDoc.data() } as Certificate;
+    } catch (error) {
+      console.error('Error fetching certificate:', error);
+      return null;
+    }
+  }
+
+  // Get a student's certificates, newest first
+  static async getStudentCertificates(studentId: string): Promise<Certificate[]> {
+    try {
+      const q = query(
+        collection(db, 'certificates'),
+        where('studentId', '==', studentId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const certificates: Certificate[] = [];
+
+      querySnapshot.forEach(doc => {
+        certificates.push({
+          id: doc.id,
+          ...doc.data()
+        } as Certificate);
+      });
+
+      return certificates.sort((a, b) => (b.issuedAt?.toMillis?.() || 0) - (a.issuedAt?.toMillis?.() || 0));
+    } catch (error) {
+      console.error('Error fetching student certificates:', error);
+      return [];
+    }
+  }
+
+  // Get every certificate issued on the platform (admin view), newest first
+  static async getAllCertificates(): Promise<Certificate[]> {
+    try {
+      const querySnapshot = await getDocs(collection(db, 'certificates'));
+      const certificates: Certificate[] = [];
+
+      querySnapshot.forEach(doc => {
+        certificates.push({
+          id: doc.id,
+          ...doc.data()
+        } as Certificate);
+      });
+
+      return certificates.sort((a, b) => (b.issuedAt?.toMillis?.() || 0) - (a.issuedAt?.toMillis?.() || 0));
+    } catch (error) {
+      console.error('Error fetching certificates:', error);
+      return [];
+    }
+  }
+
+  // Revoke a certificate; verification will report it as no longer valid
+  static async revokeCertificate(
+    certificateId: string,
+    reason: string,
+    revokedBy: string
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      if (!reason.trim()) {
+        return { success: false, message: 'Please give a reason for revoking the certificate' };
+      }
+
+      await updateDoc(doc(db, 'certificates', certificateId), {
+        status: 'revoked',
+        revokedAt: serverTimestamp(),
+        revokedBy,
+        revokedReason: reason.trim()
+      });
+
+      return {
+        success: true,
+        message: 'Certificate revoked'
+      };
+    } catch (error) {
+      console.error('Error revoking certificate:', error);
+      return {
+        success: false,
+        message: 'Failed to revoke certificate'
+      };
+    }
+  }
+
+  // Lay the certificate out as a landscape A4 PDF
+  static createPdf(certificate: Certificate, verifyUrl: string): Blob {
+    const pdf = new PdfDocument(`Certificate - ${certificate.courseTitle}`, PAGE_SIZES.A4_LANDSCAPE);
+    const { template } = certificate;
+    const accent = (CERTIFICATE_COLORS[template.accentColor] || CERTIFICATE_COLORS.green).rgb;
+    const grey: PdfColor = [0.4, 0.4, 0.4];
+    const center = pdf.width / 2;
+
+    pdf.rect(20, 20, pdf.width - 40, pdf.height - 40, { stroke: accent, lineWidth: 4 });
+    pdf.rect(30, 30, pdf.width - 60, pdf.height - 60, { stroke: accent, lineWidth: 0.75 });
+
+    pdf.text('Inzozi Cybersafe', center, 90, { size: 14, bold: true, color: accent, align: 'center' });
+    pdf.text(template.heading.toUpperCase(), center, 140, { size: 30, bold: true, align: 'center' });
+    pdf.line(center - 120, 160, center + 120, 160, { stroke: accent, lineWidth: 1.5 });
+
+    pdf.text('This certifies that', center, 205, { size: 13, color: grey, align: 'center' });
+    pdf.text(certificate.studentName, center, 250, { size: 28, bold: true, color: accent, align: 'center' });
+    pdf.text(template.message, center, 290, { size: 13, color: grey, align: 'center' });
+    pdf.wrapText(certificate.courseTitle, pdf.width - 200, 20, true).forEach((line, index) => {
+      pdf.text(line, center, 328 + index * 26, { size: 20, bold: true, align: 'center' });
+    });
+
+    const completed = certificate.completedAt?.toDate?.() || certificate.issuedAt?.toDate?.() || new Date();
+    const dateText = completed.toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' });
+
+    // Date on the left, instructor signature on the right
+    pdf.line(120, 460, 320, 460, { lineWidth: 0.75 });
+    pdf.text(dateText, 220, 450, { size: 12, align: 'center' });
+    pdf.text('Date of completion', 220, 476, { size: 10, color: grey, align: 'center' });
+
+    pdf.line(pdf.width - 320, 460, pdf.width - 120, 460, { lineWidth: 0.75 });
+    pdf.text(template.instructorName || 'Course Instructor', pdf.width - 220, 450, { size: 12, align: 'center' });
+    pdf.text(template.instructorTitle || 'Course Instructor', pdf.width - 220, 476, { size: 10, color: grey, align: 'center' });
+
+    pdf.text(`Certificate ID: ${certificate.id}`, center, pdf.height - 70, { size: 10, bold: true, align: 'center' });
+    pdf.text(`Verify at ${verifyUrl}/${certificate.id}`, center, pdf.height - 54, { size: 9, color: grey, align: 'center' });
+
+    return pdf.toBlob();
+  }
+}
+
+export default CertificateService;
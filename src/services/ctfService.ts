@@ -0,0 +1,459 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import GradingService from './gradingService';
+
+// CTF interfaces
+export type CtfCategory = 'web' | 'crypto' | 'forensics' | 'reverse' | 'pwn' | 'osint' | 'misc';
+
+export interface CtfFile {
+  name: string;
+  url: string;
+  path: string; // Storage path, used to delete the file
+}
+
+export interface CtfChallenge {
+  id: string;
+  courseId: string;
+  eventName: string; // empty when the challenge is not part of an event
+  title: string;
+  description: string;
+  category: CtfCategory;
+  points: number; // initial value
+  dynamicScoring: boolean;
+  minimumPoints: number; // dynamic scoring floor
+  decay: number; // solves needed to reach the floor
+  files: CtfFile[];
+  flagHash: string; // SHA-256 of salt + flag, the flag itself is never stored
+  flagSalt: string; // hash and salt are readable by students, so flags must be long and random
+  isPublished: boolean;
+  solveCount: number;
+  firstBloodUserId?: string;
+  firstBloodUserName?: string;
+  createdBy: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface CtfAttempt {
+  id: string;
+  challengeId: string;
+  courseId: string;
+  userId: string;
+  userName: string;
+  correct: boolean;
+  submittedAt: Timestamp;
+}
+
+export interface CtfSolve {
+  id: string;
+  challengeId: string;
+  courseId: string;
+  eventName: string;
+  userId: string;
+  userName: string;
+  isFirstBlood: boolean;
+  gradeId?: string;
+  solvedAt: Timestamp;
+}
+
+export interface ScoreboardEntry {
+  userId: string;
+  userName: string;
+  points: number;
+  solves: number;
+  firstBloods: number;
+  lastSolveAt: number; // ms, earlier wins ties
+}
+
+export const CTF_CATEGORIES: CtfCategory[] = ['web', 'crypto', 'forensics', 'reverse', 'pwn', 'osint', 'misc'];
+
+// Flag submissions allowed per challenge within the rate limit window. The limit is checked in
+// the browser, and the salted hash can be tested offline, so it does not protect weak flags.
+export const CTF_RATE_LIMIT_ATTEMPTS = 5;
+export const CTF_RATE_LIMIT_WINDOW_SECONDS = 60;
+
+// Shortest flag accepted; anything guessable can be brute-forced against the stored hash
+export const CTF_MIN_FLAG_LENGTH = 20;
+
+export class CtfService {
+
+  // Generate a random hex salt
+  static generateSalt(): string {
+    const bytes = new Uint8Array(16);
+    crypto.getRandomValues(bytes);
+    return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  // Generate a random flag with 128 bits of entropy
+  static generateFlag(): string {
+    return `flag{${this.generateSalt()}}`;
+  }
+
+  // Check a new flag is long enough that it can't be guessed from its hash
+  static validateFlag(flag: string): string | null {
+    if (flag.trim().length < CTF_MIN_FLAG_LENGTH) {
+      return `Flags must be at least ${CTF_MIN_FLAG_LENGTH} characters of random text, since students can test guesses against the stored hash`;
+    }
+    return null;
+  }
+
+  // Hash a flag with its salt (SHA-256, hex)
+  static async hashFlag(flag: string, salt: string): Promise<string> {
+    const data = new TextEncoder().encode(`${salt}${flag.trim()}`);
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  // Current value of a challenge; dynamic challenges lose value as they are solved
+  static getChallengeValue(challenge: CtfChallenge): number {
+    if (!challenge.dynamicScoring || challenge.decay <= 0) return challenge.points;
+
+    // Quadratic decay from the initial value to the floor over `decay` solves
+    const solves = Math.max(0, challenge.solveCount - 1);
+    const value = ((challenge.minimumPoints - challenge.points) / (challenge.decay ** 2)) * (solves ** 2) + challenge.points;
+    return Math.max(challenge.minimumPoints, Math.ceil(value));
+  }
+
+  // Create a challenge, hashing its flag
+  static async createChallenge(
+    challengeData: Omit<CtfChallenge, 'id' | 'flagHash' | 'flagSalt' | 'solveCount' | 'createdAt' | 'updatedAt'>,
+    flag: string
+  ): Promise<{ success: boolean; message: string; challengeId?: string }> {
+    try {
+      const flagError = this.validateFlag(flag);
+      if (flagError) {
+        return { success: false, message: flagError };
+      }
+
+      const flagSalt = this.generateSalt();
+      const flagHash = await this.hashFlag(flag, flagSalt);
+
+      const challengeRef = await addDoc(collection(db, 'ctf_challenges'), {
+        ...challengeData,
+        flagHash,
+        flagSalt,
+        solveCount: 0,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+
+      return {
+        success: true,
+        message: 'Challenge created successfully',
+        challengeId: challengeRef.id
+      };
+    } catch (error) {
+      console.error('Error creating challenge:', error);
+      return {
+        success: false,
+        message: 'Failed to create challenge'
+      };
+    }
+  }
+
+  // Update a challenge; a new flag replaces the stored hash
+  static async updateChallenge(
+    challengeId: string,
+    updates: Partial<Omit<CtfChallenge, 'id' | 'flagHash' | 'flagSalt' | 'solveCount' | 'createdAt' | 'updatedAt'>>,
+    newFlag?: string
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const flagUpdate: { flagHash?: string; flagSalt?: string } = {};
+      if (newFlag?.trim()) {
+        const flagError = this.validateFlag(newFlag);
+        if (flagError) {
+          return { success: false, message: flagError };
+        }
+        flagUpdate.flagSalt = this.generateSalt();
+        flagUpdate.flagHash = await this.hashFlag(newFlag, flagUpdate.flagSalt);
+      }
+
+      await updateDoc(doc(db, 'ctf_challenges', challengeId), {
+        ...updates,
+        ...flagUpdate,
+        updatedAt: serverTimestamp()
+      });
+
+      return {
+        success: true,
+        message: 'Challenge updated successfully'
+      };
+    } catch (error) {
+      console.error('Error updating challenge:', error);
+      return {
+        success: false,
+        message: 'Failed to update challenge'
+      };
+    }
+  }
+
+  // Delete a challenge
+  static async deleteChallenge(challengeId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await deleteDoc(doc(db, 'ctf_challenges', challengeId));
+
+      return {
+        success: true,
+        message: 'Challenge deleted successfully'
+      };
+    } catch (error) {
+      console.error('Error deleting challenge:', error);
+      return {
+        success: false,
+        message: 'Failed to delete challenge'
+      };
+    }
+  }
+
+  // Get the challenges of a course
+  static async getCourseChallenges(courseId: string, publishedOnly: boolean = false): Promise<CtfChallenge[]> {
+    try {
+      const q = query(
+        collection(db, 'ctf_challenges'),
+        where('courseId', '==', courseId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const challenges: CtfChallenge[] = [];
+
+      querySnapshot.forEach(doc => {
+        const challenge = { id: doc.id, ...doc.data() } as CtfChallenge;
+        if (!publishedOnly || challenge.isPublished) {
+          challenges.push(challenge);
+        }
+      });
+
+      return challenges.sort((a, b) => a.category.localeCompare(b.category) || a.points - b.points);
+    } catch (error) {
+      console.error('Error fetching challenges:', error);
+      return [];
+    }
+  }
+
+  // Get the attempt log of a challenge, newest first
+  static async getChallengeAttempts(challengeId: string): Promise<CtfAttempt[]> {
+    try {
+      const q = query(
+        collection(db, 'ctf_attempts'),
+        where('challengeId', '==', challengeId),
+        orderBy('submittedAt', 'desc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      const attempts: CtfAttempt[] = [];
+
+      querySnapshot.forEach(doc => {
+        attempts.push({
+          id: doc.id,
+          ...doc.data()
+        } as CtfAttempt);
+      });
+
+      return attempts;
+    } catch (error) {
+      console.error('Error fetching challenge attempts:', error);
+      return [];
+    }
+  }
+
+  // Get the solves in a course
+  static async getCourseSolves(courseId: string): Promise<CtfSolve[]> {
+    try {
+      const q = query(
+        collection(db, 'ctf_solves'),
+        where('courseId', '==', courseId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const solves: CtfSolve[] = [];
+
+      querySnapshot.forEach(doc => {
+        solves.push({
+          id: doc.id,
+          ...doc.data()
+        } as CtfSolve);
+      });
+
+      return solves;
+    } catch (error) {
+      console.error('Error fetching solves:', error);
+      return [];
+    }
+  }
+
+  // Count a user's recent attempts on a challenge for rate limiting
+  private static async getRecentAttemptCount(userId: string, challengeId: string): Promise<number> {
+    const windowStart = Timestamp.fromMillis(Date.now() - CTF_RATE_LIMIT_WINDOW_SECONDS * 1000);
+    const q = query(
+      collection(db, 'ctf_attempts'),
+      where('userId', '==', userId),
+      where('challengeId', '==', challengeId),
+      where('submittedAt', '>=', windowStart)
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.size;
+  }
+
+  // Check a submitted flag, log the attempt and record the solve and grade
+  static async submitFlag(
+    challengeId: string,
+    userId: string,
+    userName: string,
+    flag: string
+  ): Promise<{ success: boolean; message: string; correct?: boolean; isFirstBlood?: boolean }> {
+    try {
+      const challengeDoc = await getDoc(doc(db, 'ctf_challenges', challengeId));
+      if (!challengeDoc.exists()) {
+        return { success: false, message: 'Challenge not found' };
+      }
+      const challenge = { id: challengeDoc.id, ...challengeDoc.data() } as CtfChallenge;
+
+      const existingSolve = await getDocs(query(
+        collection(db, 'ctf_solves'),
+        where('challengeId', '==', challengeId),
+        where('userId', '==', userId)
+      ));
+      if (!existingSolve.empty) {
+        return { success: false, message: 'You have already solved this challenge' };
+      }
+
+      if (await this.getRecentAttemptCount(userId, challengeId) >= CTF_RATE_LIMIT_ATTEMPTS) {
+        return {
+          success: false,
+          message: `Too many attempts. You can submit ${CTF_RATE_LIMIT_ATTEMPTS} flags per ${CTF_RATE_LIMIT_WINDOW_SECONDS} seconds.`
+        };
+      }
+
+      const correct = await this.hashFlag(flag, challenge.flagSalt) === challenge.flagHash;
+
+      await addDoc(collection(db, 'ctf_attempts'), {
+        challengeId,
+        courseId: challenge.courseId,
+        userId,
+        userName,
+        correct,
+        submittedAt: serverTimestamp()
+      });
+
+      if (!correct) {
+        return { success: true, message: 'Incorrect flag', correct: false };
+      }
+
+      // Record the solve, count it and claim first blood atomically. The solve ID is fixed per
+      // student, so only one of several concurrent correct submissions can record it.
+      const solveRef = doc(db, 'ctf_solves', `${challengeId}_${userId}`);
+      const isFirstBlood = await runTransaction(db, async transaction => {
+        const challengeRef = doc(db, 'ctf_challenges', challengeId);
+        const [latest, solve] = await Promise.all([transaction.get(challengeRef), transaction.get(solveRef)]);
+        if (solve.exists()) return null;
+
+        const firstBlood = !latest.data()?.firstBloodUserId;
+
+        transaction.update(challengeRef, {
+          solveCount: (latest.data()?.solveCount || 0) + 1,
+          ...(firstBlood ? { firstBloodUserId: userId, firstBloodUserName: userName } : {})
+        });
+        transaction.set(solveRef, {
+          challengeId,
+          courseId: challenge.courseId,
+          eventName: challenge.eventName || '',
+          userId,
+          userName,
+          isFirstBlood: firstBlood,
+          solvedAt: serverTimestamp()
+        });
+
+        return firstBlood;
+      });
+
+      if (isFirstBlood === null) {
+        return { success: false, message: 'You have already solved this challenge' };
+      }
+
+      // A solve earns full marks for the challenge; dynamic values only affect the scoreboard
+      const gradeResult = await GradingService.addGrade({
+        studentId: userId,
+        courseId: challenge.courseId,
+        type: 'ctf',
+        title: `CTF: ${challenge.title}`,
+        points: challenge.points,
+        maxPoints: challenge.points,
+        gradedBy: 'system',
+        isPublished: true
+      });
+
+      if (gradeResult.gradeId) {
+        await updateDoc(solveRef, { gradeId: gradeResult.gradeId });
+      }
+
+      return {
+        success: true,
+        message: isFirstBlood ? 'Correct flag — first blood!' : 'Correct flag!',
+        correct: true,
+        isFirstBlood
+      };
+    } catch (error) {
+      console.error('Error submitting flag:', error);
+      return {
+        success: false,
+        message: 'Failed to submit flag'
+      };
+    }
+  }
+
+  // Build the scoreboard for a course, or for one event within it
+  static async getScoreboard(courseId: string, eventName?: string): Promise<ScoreboardEntry[]> {
+    try {
+      const [challenges, solves] = await Promise.all([
+        this.getCourseChallenges(courseId),
+        this.getCourseSolves(courseId)
+      ]);
+
+      const challengeValues: { [challengeId: string]: number } = {};
+      challenges.forEach(challenge => {
+        challengeValues[challenge.id] = this.getChallengeValue(challenge);
+      });
+
+      const entries: { [userId: string]: ScoreboardEntry } = {};
+      solves
+        .filter(solve => eventName === undefined || solve.eventName === eventName)
+        .forEach(solve => {
+          const entry = entries[solve.userId] || {
+            userId: solve.userId,
+            userName: solve.userName,
+            points: 0,
+            solves: 0,
+            firstBloods: 0,
+            lastSolveAt: 0
+          };
+          entry.points += challengeValues[solve.challengeId] || 0;
+          entry.solves += 1;
+          entry.firstBloods += solve.isFirstBlood ? 1 : 0;
+          entry.lastSolveAt = Math.max(entry.lastSolveAt, solve.solvedAt?.toMillis?.() || 0);
+          entries[solve.userId] = entry;
+        });
+
+      return Object.values(entries).sort((a, b) => b.points - a.points || a.lastSolveAt - b.lastSolveAt);
+    } catch (error) {
+      console.error('Error building scoreboard:', error);
+      return [];
+    }
+  }
+}
+
+export default CtfService;
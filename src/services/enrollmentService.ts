@@ -11,6 +11,8 @@ import {
   increment
 } from 'firebase/firestore';
 import { db } from '../lib/firebase';
+import CertificateService from './certificateService';
+import AchievementService from './achievementService';
 
 // Enrollment interface
 export interface Enrollment {
@@ -77,6 +79,8 @@ export class EnrollmentService {
 
       console.log('Enrollment successful:', enrollmentRef.id);
 
+      await AchievementService.evaluateAchievements(userId);
+
       return {
         success: true,
         message: 'Successfully enrolled in course',
@@ -153,13 +157,22 @@ export class EnrollmentService {
         lastAccessedAt: serverTimestamp()
       };
 
-      // If progress is 100%, mark as completed
-      if (progress >= 100) {
+      // If progress is 100%, mark as completed; the completion date is kept from the first time
+      const enrollmentRef = doc(db, 'enrollments', enrollmentId);
+      const wasCompleted = (await getDoc(enrollmentRef)).data()?.status === 'completed';
+      const isNewlyCompleted = progress >= 100 && !wasCompleted;
+      if (isNewlyCompleted) {
         updateData.status = 'completed';
         updateData.completedAt = serverTimestamp();
       }
 
-      await updateDoc(doc(db, 'enrollments', enrollmentId), updateData);
+      await updateDoc(enrollmentRef, updateData);
+
+      // Completing a course earns its certificate
+      if (isNewlyCompleted) {
+        const enrollmentDoc = await getDoc(enrollmentRef);
+        await CertificateService.issueCertificate({ id: enrollmentDoc.id, ...enrollmentDoc.data() } as Enrollment);
+      }
       
       console.log('Progress updated:', { enrollmentId, progress });
       return true;
@@ -170,6 +183,32 @@ export class EnrollmentService {
     }
   }
 
+  // Get all enrollments in a course
+  static async getCourseEnrollments(courseId: string): Promise<Enrollment[]> {
+    try {
+      const q = query(
+        collection(db, 'enrollments'),
+        where('courseId', '==', courseId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const enrollments: Enrollment[] = [];
+
+      querySnapshot.forEach(doc => {
+        enrollments.push({
+          id: doc.id,
+          ...doc.data()
+        } as Enrollment);
+      });
+
+      return enrollments;
+
+    } catch (error) {
+      console.error('Error getting course enrollments:', error);
+      return [];
+    }
+  }
+
   // Check if user is enrolled in a course
   static async isEnrolled(userId: string, courseId: string): Promise<boolean> {
     const enrollment = await this.getEnrollment(userId, courseId);
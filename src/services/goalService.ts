@@ -0,0 +1,297 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  deleteField,
+  query,
+  where,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import ProgressService, { LessonProgress } from './progressService';
+import GradingService from './gradingService';
+import NotificationService from './notificationService';
+
+// Learning goal interfaces
+export type GoalType = 'lessons' | 'studyTime' | 'module' | 'course' | 'quizScore';
+
+export interface LearningGoal {
+  id: string;
+  userId: string;
+  title: string;
+  description: string;
+  type: GoalType;
+  category: 'daily' | 'weekly' | 'monthly' | 'custom'; // daily, weekly and monthly goals start over every period
+  targetValue: number;
+  currentValue: number;
+  unit: string;
+  courseId?: string; // module, course and quiz score goals
+  moduleId?: string; // module goals
+  deadline?: Timestamp; // custom goals only; periodic goals are due at the end of their period
+  status: 'active' | 'completed' | 'missed';
+  completedAt?: Timestamp; // for periodic goals, when the current period's target was reached
+  reminderSentFor?: number; // deadline (ms) the last reminder was sent for
+  createdAt: Timestamp;
+}
+
+export interface NewLearningGoal {
+  title: string;
+  description?: string;
+  type: GoalType;
+  category: LearningGoal['category'];
+  targetValue: number;
+  courseId?: string;
+  moduleId?: string;
+  deadline?: Date;
+}
+
+export const GOAL_TYPES: { [type in GoalType]: { label: string; unit: string; periodic: boolean } } = {
+  lessons: { label: 'Complete lessons', unit: 'lessons', periodic: true },
+  studyTime: { label: 'Study time', unit: 'seconds', periodic: true },
+  module: { label: 'Finish a module', unit: 'lessons', periodic: false },
+  course: { label: 'Finish a course', unit: '%', periodic: false },
+  quizScore: { label: 'Score on the next quiz', unit: '%', periodic: false }
+};
+
+// Days before a deadline when the reminder is sent
+const REMINDER_DAYS = { weekly: 1, monthly: 3, custom: 2 };
+
+export class GoalService {
+
+  // Start and end of the period a goal is measured over right now
+  static getPeriod(goal: Pick<LearningGoal, 'category' | 'createdAt' | 'deadline'>, now: Date = new Date()): { start: Date; end: Date | null } {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+    switch (goal.category) {
+      case 'daily':
+        return { start, end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1) };
+      case 'weekly':
+        start.setDate(start.getDate() - ((start.getDay() + 6) % 7)); // weeks start on Monday
+        return { start, end: new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7) };
+      case 'monthly':
+        return {
+          start: new Date(now.getFullYear(), now.getMonth(), 1),
+          end: new Date(now.getFullYear(), now.getMonth() + 1, 1)
+        };
+      default:
+        return { start: goal.createdAt?.toDate?.() || now, end: goal.deadline?.toDate?.() || null };
+    }
+  }
+
+  // Create a goal for a student
+  static async createGoal(userId: string, goal: NewLearningGoal): Promise<{ success: boolean; message: string; goalId?: string }> {
+    try {
+      const goalType = GOAL_TYPES[goal.type];
+      if (!goal.title.trim()) {
+        return { success: false, message: 'Please give the goal a title' };
+      }
+      if (goal.category !== 'custom' && !goalType.periodic) {
+        return { success: false, message: `"${goalType.label}" goals cannot repeat daily, weekly or monthly` };
+      }
+      if ((goal.type === 'module' || goal.type === 'course') && !goal.courseId) {
+        return { success: false, message: 'Please choose a course' };
+      }
+      if (goal.type === 'module' && !goal.moduleId) {
+        return { success: false, message: 'Please choose a module' };
+      }
+      if (!(goal.targetValue > 0) || (goalType.unit === '%' && goal.targetValue > 100)) {
+        return { success: false, message: 'Please enter a valid target' };
+      }
+      if (goal.deadline && goal.deadline.getTime() <= Date.now()) {
+        return { success: false, message: 'The deadline must be in the future' };
+      }
+
+      const goalRef = await addDoc(collection(db, 'learning_goals'), {
+        userId,
+        title: goal.title.trim(),
+        description: goal.description?.trim() || '',
+        type: goal.type,
+        category: goal.category,
+        targetValue: goal.targetValue,
+        currentValue: 0,
+        unit: goalType.unit,
+        ...(goal.courseId ? { courseId: goal.courseId } : {}),
+        ...(goal.moduleId ? { moduleId: goal.moduleId } : {}),
+        ...(goal.category === 'custom' && goal.deadline ? { deadline: Timestamp.fromDate(goal.deadline) } : {}),
+        status: 'active',
+        createdAt: serverTimestamp()
+      });
+
+      return {
+        success: true,
+        message: 'Goal created',
+        goalId: goalRef.id
+      };
+    } catch (error) {
+      console.error('Error creating goal:', error);
+      return {
+        success: false,
+        message: 'Failed to create goal'
+      };
+    }
+  }
+
+  // Delete a goal
+  static async deleteGoal(goalId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await deleteDoc(doc(db, 'learning_goals', goalId));
+
+      return {
+        success: true,
+        message: 'Goal deleted'
+      };
+    } catch (error) {
+      console.error('Error deleting goal:', error);
+      return {
+        success: false,
+        message: 'Failed to delete goal'
+      };
+    }
+  }
+
+  // Get a student's goals, newest first
+  static async getUserGoals(userId: string): Promise<LearningGoal[]> {
+    try {
+      const q = query(
+        collection(db, 'learning_goals'),
+        where('userId', '==', userId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const goals: LearningGoal[] = [];
+
+      querySnapshot.forEach(doc => {
+        goals.push({
+          id: doc.id,
+          ...doc.data()
+        } as LearningGoal);
+      });
+
+      return goals.sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
+    } catch (error) {
+      console.error('Error fetching goals:', error);
+      return [];
+    }
+  }
+
+  // Measure a goal against the student's progress and grades
+  private static async measureGoal(
+    goal: LearningGoal,
+    completedLessons: LessonProgress[],
+    now: Date
+  ): Promise<Pick<LearningGoal, 'currentValue' | 'status'>> {
+    const { start, end } = this.getPeriod(goal, now);
+    const isPastDeadline = goal.category === 'custom' && !!end && end.getTime() <= now.getTime();
+    const inPeriod = (lesson: LessonProgress) => {
+      const completedAt: Date | undefined = lesson.completedAt?.toDate?.();
+      return !!completedAt && completedAt >= start && (!end || completedAt < end);
+    };
+
+    let currentValue = 0;
+    let isDone = false;
+
+    switch (goal.type) {
+      case 'lessons':
+        currentValue = completedLessons.filter(inPeriod).length;
+        break;
+      case 'studyTime':
+        currentValue = completedLessons.filter(inPeriod).reduce((sum, lesson) => sum + (lesson.timeSpent || 0), 0);
+        break;
+      case 'module': {
+        const modules = await ProgressService.getCourseModuleProgress(goal.userId, goal.courseId || '');
+        const moduleProgress = modules.find(m => m.moduleId === goal.moduleId);
+        currentValue = moduleProgress?.lessonsCompleted || 0;
+        isDone = !!moduleProgress?.completed; // includes passing the module test
+        break;
+      }
+      case 'course':
+        currentValue = (await ProgressService.getCourseProgress(goal.userId, goal.courseId || ''))?.overallProgress || 0;
+        break;
+      case 'quizScore': {
+        // The first quiz or exam graded after the goal was set decides it
+        const grades = await GradingService.getStudentGrades(goal.userId);
+        const nextQuiz = grades
+          .filter(grade =>
+            (grade.type === 'quiz' || grade.type === 'exam') &&
+            (!goal.courseId || grade.courseId === goal.courseId) &&
+            (grade.gradedAt?.toMillis?.() || 0) >= start.getTime()
+          )
+          .sort((a, b) => (a.gradedAt?.toMillis?.() || 0) - (b.gradedAt?.toMillis?.() || 0))[0];
+        if (!nextQuiz) break;
+
+        currentValue = nextQuiz.percentage;
+        return { currentValue, status: currentValue >= goal.targetValue ? 'completed' : 'missed' };
+      }
+    }
+
+    if (isDone || currentValue >= goal.targetValue) {
+      return { currentValue, status: 'completed' };
+    }
+    return { currentValue, status: isPastDeadline ? 'missed' : 'active' };
+  }
+
+  // Recalculate every goal a student has and save what changed. Finished custom goals keep
+  // their result; periodic goals start over at the beginning of each period.
+  static async refreshGoals(userId: string): Promise<LearningGoal[]> {
+    try {
+      const [goals, completedLessons] = await Promise.all([
+        this.getUserGoals(userId),
+        ProgressService.getCompletedLessons(userId)
+      ]);
+      const now = new Date();
+
+      return await Promise.all(goals.map(async goal => {
+        if (goal.category === 'custom' && goal.status !== 'active') return goal;
+
+        const { currentValue, status } = await this.measureGoal(goal, completedLessons, now);
+        const completedThisPeriod = !!goal.completedAt &&
+          goal.completedAt.toMillis() >= this.getPeriod(goal, now).start.getTime();
+        const completedAt = status !== 'completed' ? undefined
+          : completedThisPeriod ? goal.completedAt : Timestamp.now();
+        if (currentValue === goal.currentValue && status === goal.status && completedAt === goal.completedAt) {
+          return goal;
+        }
+
+        await updateDoc(doc(db, 'learning_goals', goal.id), {
+          currentValue,
+          status,
+          completedAt: completedAt || deleteField()
+        });
+        return { ...goal, currentValue, status, completedAt };
+      }));
+    } catch (error) {
+      console.error('Error refreshing goals:', error);
+      return [];
+    }
+  }
+
+  // Remind a student about unfinished goals whose deadline is close. Each deadline gets one
+  // reminder; daily goals are left out since the whole period is a single day.
+  static async sendDeadlineReminders(userId: string): Promise<void> {
+    try {
+      const goals = await this.refreshGoals(userId);
+      const now = new Date();
+
+      for (const goal of goals) {
+        if (goal.status !== 'active' || goal.category === 'daily') continue;
+
+        const { end } = this.getPeriod(goal, now);
+        if (!end || goal.reminderSentFor === end.getTime()) continue;
+
+        const daysLeft = (end.getTime() - now.getTime()) / (1000 * 3600 * 24);
+        if (daysLeft > REMINDER_DAYS[goal.category]) continue;
+
+        await NotificationService.createGoalReminder(userId, goal.title, Timestamp.fromDate(end), goal.id);
+        await updateDoc(doc(db, 'learning_goals', goal.id), { reminderSentFor: end.getTime() });
+      }
+    } catch (error) {
+      console.error('Error sending goal reminders:', error);
+    }
+  }
+}
+
+export default GoalService;
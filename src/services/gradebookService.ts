@@ -0,0 +1,354 @@
+import { doc, getDoc } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import AssignmentService, { Assignment, AssignmentSubmission } from './assignmentService';
+import EnrollmentService from './enrollmentService';
+import GradingService, { Grade, GradeStats } from './gradingService';
+import GradingScaleService from './gradingScaleService';
+
+// Gradebook interfaces
+export interface GradebookColumn {
+  key: string; // 'assignment:<assignmentId>', 'quiz:<quizId>' or 'exam:<quizId>'
+  type: Grade['type'];
+  title: string;
+  maxPoints: number;
+  assignment?: Assignment; // assignment columns only
+  quizId?: string; // quiz and exam columns only
+}
+
+export interface GradebookRow {
+  studentId: string;
+  name: string;
+  email: string;
+  cells: { [columnKey: string]: Grade }; // latest grade per column
+  stats: GradeStats; // course total with weights, drops and the course's scale
+}
+
+export interface Gradebook {
+  courseId: string;
+  columns: GradebookColumn[];
+  rows: GradebookRow[];
+  submissions: AssignmentSubmission[];
+}
+
+// Where a CSV column goes; '' = ignored
+export type ImportTarget = '' | 'student:email' | 'student:id' | 'student:name' | string;
+
+export interface ImportChange {
+  rowNumber: number; // 1-based line in the CSV, header included
+  row: GradebookRow;
+  column: GradebookColumn;
+  points: number;
+  previous?: Grade;
+  action: 'add' | 'update' | 'unchanged';
+}
+
+export interface ImportProblem {
+  rowNumber: number;
+  message: string;
+}
+
+export interface ImportPreview {
+  changes: ImportChange[];
+  problems: ImportProblem[];
+}
+
+const STUDENT_HEADERS = ['Student', 'Email', 'Student ID'];
+const TOTAL_HEADERS = ['Total Points', 'Total Possible', 'Course %', 'Letter'];
+
+const getColumnKey = (grade: Grade): string | null => {
+  if (grade.assignmentId) return `assignment:${grade.assignmentId}`;
+  if (grade.quizId && (grade.type === 'quiz' || grade.type === 'exam')) return `${grade.type}:${grade.quizId}`;
+  return null;
+};
+
+export class GradebookService {
+
+  // Header used for a column in exported files, e.g. "Lab 1 (/20)"
+  static getColumnHeader(column: GradebookColumn): string {
+    return `${column.title} (/${column.maxPoints})`;
+  }
+
+  // Build the grid: enrolled students by published assignments and every quiz or exam with grades
+  static async getGradebook(courseId: string): Promise<Gradebook> {
+    try {
+      const [assignments, grades, enrollments, submissions, scheme, scale] = await Promise.all([
+        AssignmentService.getAllCourseAssignments(courseId),
+        GradingService.getCourseGrades(courseId),
+        EnrollmentService.getCourseEnrollments(courseId),
+        AssignmentService.getCourseSubmissions(courseId),
+        GradingService.getGradingScheme(courseId),
+        GradingScaleService.getCourseScale(courseId)
+      ]);
+
+      const columns: GradebookColumn[] = assignments
+        .filter(a => a.isPublished)
+        .sort((a, b) => (a.dueDate?.toMillis?.() || 0) - (b.dueDate?.toMillis?.() || 0))
+        .map(assignment => ({
+          key: `assignment:${assignment.id}`,
+          type: 'assignment',
+          title: assignment.title,
+          maxPoints: assignment.maxPoints,
+          assignment
+        }));
+
+      // Quizzes and exams live in lesson content, so their columns come from the grades recorded for them
+      [...grades].reverse().forEach(grade => {
+        const key = getColumnKey(grade);
+        if (!key || !grade.quizId || columns.some(c => c.key === key)) return;
+        columns.push({ key, type: grade.type, title: grade.title, maxPoints: grade.maxPoints, quizId: grade.quizId });
+      });
+
+      const studentIds = [...new Set([...enrollments.map(e => e.userId), ...grades.map(g => g.studentId)])];
+      const rows = await Promise.all(studentIds.map(async (studentId): Promise<GradebookRow> => {
+        let name = studentId;
+        let email = '';
+        try {
+          const userDoc = await getDoc(doc(db, 'users', studentId));
+          name = userDoc.data()?.name || userDoc.data()?.email || studentId;
+          email = userDoc.data()?.email || '';
+        } catch (error) {
+          console.error('Error fetching student:', error);
+        }
+
+        // Grades arrive newest first, so the first grade per column is the latest attempt
+        const studentGrades = grades.filter(g => g.studentId === studentId);
+        const cells: { [columnKey: string]: Grade } = {};
+        studentGrades.forEach(grade => {
+          const key = getColumnKey(grade);
+          if (key && !cells[key]) cells[key] = grade;
+        });
+
+        return {
+          studentId,
+          name,
+          email,
+          cells,
+          stats: GradingService.calculateGradeStats(studentGrades, scheme, scale)
+        };
+      }));
+
+      return {
+        courseId,
+        columns,
+        rows: rows.sort((a, b) => a.name.localeCompare(b.name)),
+        submissions
+      };
+    } catch (error) {
+      console.error('Error building gradebook:', error);
+      return { courseId, columns: [], rows: [], submissions: [] };
+    }
+  }
+
+  // Quote a CSV value when it contains a separator, quote or line break
+  private static escapeCSV(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  static toCSV(gradebook: Gradebook): string {
+    const header = [...STUDENT_HEADERS, ...gradebook.columns.map(c => this.getColumnHeader(c)), ...TOTAL_HEADERS];
+    const lines = gradebook.rows.map(row => [
+      row.name,
+      row.email,
+      row.studentId,
+      ...gradebook.columns.map(column => row.cells[column.key]?.points ?? ''),
+      row.stats.totalPoints,
+      row.stats.maxTotalPoints,
+      row.stats.averagePercentage,
+      row.stats.letterGrade
+    ]);
+
+    return [header, ...lines].map(line => line.map(value => this.escapeCSV(value)).join(',')).join('\r\n');
+  }
+
+  // Parse CSV text into rows of cells, following RFC 4180 quoting
+  static parseCSV(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (inQuotes) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        inQuotes = true;
+      } else if (char === ',') {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    if (cell !== '' || row.length > 0) {
+      row.push(cell);
+      rows.push(row);
+    }
+
+    // Drop blank lines, including the one a trailing line break leaves behind
+    return rows.filter(r => r.some(value => value.trim() !== ''));
+  }
+
+  // Guess where each CSV column goes from its header
+  static suggestMapping(headers: string[], gradebook: Gradebook): ImportTarget[] {
+    return headers.map(header => {
+      const normalized = header.trim().toLowerCase();
+      if (normalized === 'email' || normalized === 'e-mail') return 'student:email';
+      if (normalized === 'student id' || normalized === 'studentid') return 'student:id';
+      if (normalized === 'student' || normalized === 'name') return 'student:name';
+
+      const column = gradebook.columns.find(c =>
+        this.getColumnHeader(c).toLowerCase() === normalized || c.title.toLowerCase() === normalized
+      );
+      return column ? column.key : '';
+    });
+  }
+
+  // Work out what an import would change without writing anything
+  static previewImport(gradebook: Gradebook, csvRows: string[][], mapping: ImportTarget[]): ImportPreview {
+    const changes: ImportChange[] = [];
+    const problems: ImportProblem[] = [];
+    const idIndex = mapping.indexOf('student:id');
+    const emailIndex = mapping.indexOf('student:email');
+    const nameIndex = mapping.indexOf('student:name');
+
+    if (idIndex < 0 && emailIndex < 0 && nameIndex < 0) {
+      return { changes, problems: [{ rowNumber: 1, message: 'Map a column to the student ID, email or name' }] };
+    }
+
+    csvRows.slice(1).forEach((values, index) => {
+      const rowNumber = index + 2;
+      const studentId = idIndex >= 0 ? values[idIndex]?.trim() : '';
+      const email = emailIndex >= 0 ? values[emailIndex]?.trim().toLowerCase() : '';
+      const name = nameIndex >= 0 ? values[nameIndex]?.trim().toLowerCase() : '';
+
+      // The most specific identifier wins; names only match when they are unique
+      const nameMatches = name ? gradebook.rows.filter(r => r.name.toLowerCase() === name) : [];
+      const row = (studentId && gradebook.rows.find(r => r.studentId === studentId)) ||
+        (email && gradebook.rows.find(r => r.email.toLowerCase() === email)) ||
+        (nameMatches.length === 1 ? nameMatches[0] : undefined);
+      if (!row) {
+        problems.push({
+          rowNumber,
+          message: nameMatches.length > 1
+            ? `More than one student is named "${values[nameIndex]}"; add an email or student ID column`
+            : `No enrolled student matches "${values[idIndex] || values[emailIndex] || values[nameIndex] || ''}"`
+        });
+        return;
+      }
+
+      mapping.forEach((target, columnIndex) => {
+        const column = gradebook.columns.find(c => c.key === target);
+        const raw = values[columnIndex]?.trim() || '';
+        if (!column || raw === '') return;
+
+        const points = Number(raw);
+        if (isNaN(points)) {
+          problems.push({ rowNumber, message: `${row.name}: "${raw}" is not a number for ${column.title}` });
+          return;
+        }
+        if (points < 0 || points > column.maxPoints) {
+          problems.push({ rowNumber, message: `${row.name}: ${points} is outside 0–${column.maxPoints} for ${column.title}` });
+          return;
+        }
+
+        const previous = row.cells[column.key];
+        changes.push({
+          rowNumber,
+          row,
+          column,
+          points,
+          previous,
+          action: !previous ? 'add' : previous.points === points ? 'unchanged' : 'update'
+        });
+      });
+    });
+
+    return { changes, problems };
+  }
+
+  // Write the previewed changes. Imported marks are final, so no late penalty is applied.
+  static async applyImport(
+    gradebook: Gradebook,
+    changes: ImportChange[],
+    gradedBy: string,
+    courseTitle: string,
+    changeReason: string
+  ): Promise<{ success: boolean; message: string; failed: ImportProblem[] }> {
+    const failed: ImportProblem[] = [];
+    let applied = 0;
+
+    for (const change of changes.filter(c => c.action !== 'unchanged')) {
+      const { row, column, points, previous } = change;
+      const reason = previous?.isPublished ? changeReason : undefined;
+      let result: { success: boolean; message: string };
+
+      if (column.assignment) {
+        // Assignment grades go through the submission so the grading queue stays in step
+        const submission = gradebook.submissions.find(s =>
+          s.assignmentId === column.assignment?.id && s.studentId === row.studentId
+        ) || null;
+        result = await AssignmentService.gradeSubmission({
+          assignment: column.assignment,
+          studentId: row.studentId,
+          submission,
+          points,
+          feedback: submission?.feedback || previous?.feedback || '',
+          gradedBy,
+          courseTitle,
+          applyLatePenalty: false,
+          ...(reason ? { changeReason: reason } : {})
+        });
+      } else if (previous) {
+        result = await GradingService.updateGrade(previous.id, {
+          points,
+          maxPoints: column.maxPoints,
+          feedback: previous.feedback,
+          gradedBy,
+          ...(reason ? { changeReason: reason } : {})
+        });
+      } else {
+        result = await GradingService.addGrade({
+          studentId: row.studentId,
+          courseId: gradebook.courseId,
+          type: column.type,
+          title: column.title,
+          points,
+          maxPoints: column.maxPoints,
+          gradedBy,
+          isPublished: true,
+          ...(column.quizId ? { quizId: column.quizId } : {})
+        });
+      }
+
+      if (result.success) {
+        applied++;
+      } else {
+        failed.push({ rowNumber: change.rowNumber, message: `${row.name} · ${column.title}: ${result.message}` });
+      }
+    }
+
+    return {
+      success: failed.length === 0,
+      message: `${applied} grade${applied === 1 ? '' : 's'} imported` +
+        (failed.length > 0 ? `, ${failed.length} failed` : ''),
+      failed
+    };
+  }
+}
+
+export default GradebookService;
@@ -0,0 +1,355 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import GradingService from './gradingService';
+
+// Grading scale interfaces
+export interface GradeBand {
+  label: string; // letter or word shown to students, e.g. A, Merit, Pass
+  minPercentage: number; // lowest percentage that earns this band
+  gpaPoints: number;
+}
+
+export interface GradingScale {
+  id: string;
+  name: string;
+  description: string;
+  bands: GradeBand[]; // highest band first
+  countsTowardGPA: boolean; // false for pass/fail style scales
+  isBuiltIn: boolean;
+  createdBy: string; // '' for built-in scales
+  createdAt?: Timestamp;
+  updatedAt?: Timestamp;
+}
+
+export const DEFAULT_SCALE_ID = 'standard';
+
+// Scales every course can use without any setup
+export const BUILT_IN_SCALES: GradingScale[] = [
+  {
+    id: DEFAULT_SCALE_ID,
+    name: 'Standard A–F',
+    description: 'Letter grades with plus and minus on a 4.0 GPA scale',
+    bands: [
+      { label: 'A+', minPercentage: 97, gpaPoints: 4.0 },
+      { label: 'A', minPercentage: 93, gpaPoints: 4.0 },
+      { label: 'A-', minPercentage: 90, gpaPoints: 3.7 },
+      { label: 'B+', minPercentage: 87, gpaPoints: 3.3 },
+      { label: 'B', minPercentage: 83, gpaPoints: 3.0 },
+      { label: 'B-', minPercentage: 80, gpaPoints: 2.7 },
+      { label: 'C+', minPercentage: 77, gpaPoints: 2.3 },
+      { label: 'C', minPercentage: 73, gpaPoints: 2.0 },
+      { label: 'C-', minPercentage: 70, gpaPoints: 1.7 },
+      { label: 'D+', minPercentage: 67, gpaPoints: 1.3 },
+      { label: 'D', minPercentage: 63, gpaPoints: 1.0 },
+      { label: 'D-', minPercentage: 60, gpaPoints: 0.7 },
+      { label: 'F', minPercentage: 0, gpaPoints: 0.0 }
+    ],
+    countsTowardGPA: true,
+    isBuiltIn: true,
+    createdBy: ''
+  },
+  {
+    id: 'rwanda-percentage',
+    name: 'Rwanda percentage bands',
+    description: 'A 70–100, B 60–69, C 50–59, D 40–49, F below 40',
+    bands: [
+      { label: 'A', minPercentage: 70, gpaPoints: 4.0 },
+      { label: 'B', minPercentage: 60, gpaPoints: 3.0 },
+      { label: 'C', minPercentage: 50, gpaPoints: 2.0 },
+      { label: 'D', minPercentage: 40, gpaPoints: 1.0 },
+      { label: 'F', minPercentage: 0, gpaPoints: 0.0 }
+    ],
+    countsTowardGPA: true,
+    isBuiltIn: true,
+    createdBy: ''
+  },
+  {
+    id: 'pass-fail',
+    name: 'Pass / Fail',
+    description: 'Pass at 50% or above; not counted in GPA',
+    bands: [
+      { label: 'Pass', minPercentage: 50, gpaPoints: 0 },
+      { label: 'Fail', minPercentage: 0, gpaPoints: 0 }
+    ],
+    countsTowardGPA: false,
+    isBuiltIn: true,
+    createdBy: ''
+  },
+  {
+    id: 'distinction-merit-pass',
+    name: 'Distinction / Merit / Pass',
+    description: 'Distinction 70+, Merit 60–69, Pass 50–59',
+    bands: [
+      { label: 'Distinction', minPercentage: 70, gpaPoints: 4.0 },
+      { label: 'Merit', minPercentage: 60, gpaPoints: 3.0 },
+      { label: 'Pass', minPercentage: 50, gpaPoints: 2.0 },
+      { label: 'Fail', minPercentage: 0, gpaPoints: 0.0 }
+    ],
+    countsTowardGPA: true,
+    isBuiltIn: true,
+    createdBy: ''
+  }
+];
+
+export const DEFAULT_SCALE = BUILT_IN_SCALES[0];
+
+export class GradingScaleService {
+
+  // The band a percentage falls in; anything below the lowest band gets the lowest band
+  static getBand(scale: GradingScale, percentage: number): GradeBand {
+    const bands = [...scale.bands].sort((a, b) => b.minPercentage - a.minPercentage);
+    return bands.find(band => percentage >= band.minPercentage) || bands[bands.length - 1];
+  }
+
+  // Get built-in scales and the custom scales stored in Firestore
+  static async getScales(): Promise<GradingScale[]> {
+    try {
+      const querySnapshot = await getDocs(collection(db, 'grading_scales'));
+      const scales: GradingScale[] = [];
+
+      querySnapshot.forEach(doc => {
+        scales.push({
+          id: doc.id,
+          ...doc.data(),
+          isBuiltIn: false
+        } as GradingScale);
+      });
+
+      return [...BUILT_IN_SCALES, ...scales.sort((a, b) => a.name.localeCompare(b.name))];
+    } catch (error) {
+      console.error('Error fetching grading scales:', error);
+      return BUILT_IN_SCALES;
+    }
+  }
+
+  // Get a scale by ID, falling back to the standard scale
+  static async getScale(scaleId: string): Promise<GradingScale> {
+    const builtIn = BUILT_IN_SCALES.find(scale => scale.id === scaleId);
+    if (builtIn) return builtIn;
+
+    try {
+      const scaleDoc = await getDoc(doc(db, 'grading_scales', scaleId));
+      return scaleDoc.exists()
+        ? { id: scaleDoc.id, ...scaleDoc.data(), isBuiltIn: false } as GradingScale
+        : DEFAULT_SCALE;
+    } catch (error) {
+      console.error('Error fetching grading scale:', error);
+      return DEFAULT_SCALE;
+    }
+  }
+
+  // Create a custom scale
+  static async createScale(
+    scaleData: Omit<GradingScale, 'id' | 'isBuiltIn' | 'createdAt' | 'updatedAt'>
+  ): Promise<{ success: boolean; message: string; scaleId?: string }> {
+    try {
+      const problem = this.validateBands(scaleData.bands);
+      if (problem) return { success: false, message: problem };
+
+      const scaleRef = await addDoc(collection(db, 'grading_scales'), {
+        ...scaleData,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+
+      return {
+        success: true,
+        message: 'Grading scale created successfully',
+        scaleId: scaleRef.id
+      };
+    } catch (error) {
+      console.error('Error creating grading scale:', error);
+      return {
+        success: false,
+        message: 'Failed to create grading scale'
+      };
+    }
+  }
+
+  // Update a custom scale and re-letter the grades of every course that uses it
+  static async updateScale(
+    scaleId: string,
+    updates: Partial<Pick<GradingScale, 'name' | 'description' | 'bands' | 'countsTowardGPA'>>,
+    changedBy: string
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const problem = updates.bands ? this.validateBands(updates.bands) : null;
+      if (problem) return { success: false, message: problem };
+
+      await updateDoc(doc(db, 'grading_scales', scaleId), {
+        ...updates,
+        updatedAt: serverTimestamp()
+      });
+
+      const refresh = updates.bands
+        ? await this.refreshLetterGrades(await this.getCourseIdsUsingScale(scaleId), changedBy)
+        : '';
+
+      return {
+        success: true,
+        message: `Grading scale updated successfully${refresh}`
+      };
+    } catch (error) {
+      console.error('Error updating grading scale:', error);
+      return {
+        success: false,
+        message: 'Failed to update grading scale'
+      };
+    }
+  }
+
+  // Delete a custom scale; courses using it fall back to the institution default and are re-lettered
+  static async deleteScale(scaleId: string, changedBy: string): Promise<{ success: boolean; message: string }> {
+    try {
+      const courseIds = await this.getCourseIdsUsingScale(scaleId);
+      await deleteDoc(doc(db, 'grading_scales', scaleId));
+      const refresh = await this.refreshLetterGrades(courseIds, changedBy);
+
+      return {
+        success: true,
+        message: `Grading scale deleted successfully${refresh}`
+      };
+    } catch (error) {
+      console.error('Error deleting grading scale:', error);
+      return {
+        success: false,
+        message: 'Failed to delete grading scale'
+      };
+    }
+  }
+
+  // Get the scale courses use when they do not pick one
+  static async getInstitutionDefaultScaleId(): Promise<string> {
+    try {
+      const settingsDoc = await getDoc(doc(db, 'platform_settings', 'grading'));
+      return settingsDoc.data()?.defaultScaleId || DEFAULT_SCALE_ID;
+    } catch (error) {
+      console.error('Error fetching institution grading scale:', error);
+      return DEFAULT_SCALE_ID;
+    }
+  }
+
+  // Set the scale courses use when they do not pick one, and re-letter the courses that follow it
+  static async setInstitutionDefaultScale(scaleId: string, changedBy: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await setDoc(doc(db, 'platform_settings', 'grading'), {
+        defaultScaleId: scaleId,
+        updatedAt: serverTimestamp()
+      }, { merge: true });
+
+      const courses = await getDocs(collection(db, 'courses'));
+      const followingDefault = courses.docs.filter(course => !course.data().gradingScaleId).map(course => course.id);
+      const refresh = await this.refreshLetterGrades(followingDefault, changedBy);
+
+      return {
+        success: true,
+        message: `Institution grading scale saved${refresh}`
+      };
+    } catch (error) {
+      console.error('Error saving institution grading scale:', error);
+      return {
+        success: false,
+        message: 'Failed to save institution grading scale'
+      };
+    }
+  }
+
+  // Get the scale a course picked itself; '' when it follows the institution default
+  static async getCourseScaleId(courseId: string): Promise<string> {
+    try {
+      const courseDoc = await getDoc(doc(db, 'courses', courseId));
+      return courseDoc.data()?.gradingScaleId || '';
+    } catch (error) {
+      console.error('Error fetching course grading scale:', error);
+      return '';
+    }
+  }
+
+  // Get the scale a course grades with: its own choice, else the institution default
+  static async getCourseScale(courseId: string): Promise<GradingScale> {
+    try {
+      const scaleId = await this.getCourseScaleId(courseId) || await this.getInstitutionDefaultScaleId();
+      return this.getScale(scaleId);
+    } catch (error) {
+      console.error('Error fetching course grading scale:', error);
+      return DEFAULT_SCALE;
+    }
+  }
+
+  // Choose a course's scale and re-letter its grades; '' follows the institution default
+  static async setCourseScale(courseId: string, scaleId: string, changedBy: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await updateDoc(doc(db, 'courses', courseId), {
+        gradingScaleId: scaleId,
+        updatedAt: serverTimestamp()
+      });
+
+      const refresh = await this.refreshLetterGrades([courseId], changedBy);
+
+      return {
+        success: true,
+        message: `Course grading scale saved${refresh}`
+      };
+    } catch (error) {
+      console.error('Error saving course grading scale:', error);
+      return {
+        success: false,
+        message: 'Failed to save course grading scale'
+      };
+    }
+  }
+
+  // Get the courses that grade with a scale, picked directly or through the institution default
+  private static async getCourseIdsUsingScale(scaleId: string): Promise<string[]> {
+    const [courses, defaultScaleId] = await Promise.all([
+      getDocs(collection(db, 'courses')),
+      this.getInstitutionDefaultScaleId()
+    ]);
+    return courses.docs
+      .filter(course => (course.data().gradingScaleId || defaultScaleId) === scaleId)
+      .map(course => course.id);
+  }
+
+  // Re-letter the recorded grades of courses whose scale changed; returns a note for the save message
+  private static async refreshLetterGrades(courseIds: string[], changedBy: string): Promise<string> {
+    let updatedCount = 0;
+    let failedCount = 0;
+
+    for (const courseId of courseIds) {
+      const result = await GradingService.refreshCourseLetterGrades(courseId, changedBy);
+      if (result.success) {
+        updatedCount += result.updatedCount || 0;
+      } else {
+        failedCount++;
+      }
+    }
+
+    if (courseIds.length === 0) return '';
+    return `. ${updatedCount} grade${updatedCount === 1 ? '' : 's'} re-lettered across ${courseIds.length} course${courseIds.length === 1 ? '' : 's'}` +
+      (failedCount > 0 ? `; ${failedCount} course${failedCount === 1 ? '' : 's'} could not be updated` : '');
+  }
+
+  // A scale needs labelled bands and one band starting at 0% so every percentage is covered
+  private static validateBands(bands: GradeBand[]): string | null {
+    if (bands.length === 0) return 'A grading scale needs at least one band';
+    if (bands.some(band => !band.label.trim())) return 'Every band needs a label';
+    if (!bands.some(band => band.minPercentage === 0)) return 'One band must start at 0%';
+    if (new Set(bands.map(band => band.minPercentage)).size !== bands.length) {
+      return 'Two bands cannot start at the same percentage';
+    }
+    return null;
+  }
+}
+
+export default GradingScaleService;
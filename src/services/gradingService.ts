@@ -5,22 +5,36 @@ import {
   getDoc,
   getDocs,
   updateDoc,
+  deleteField,
   query,
   where,
   orderBy,
+  writeBatch,
   serverTimestamp,
-  Timestamp
+  Timestamp,
+  WriteBatch
 } from 'firebase/firestore';
 import { db } from '../lib/firebase';
+import { RubricAssessment } from './rubricService';
+import { LatePenalty } from './latePolicyService';
+import NotificationService from './notificationService';
+import AchievementService from './achievementService';
+import GradingScaleService, { GradingScale, DEFAULT_SCALE } from './gradingScaleService';
 
 // Grade interfaces
+export interface IntegritySignals {
+  tabSwitches: number;
+  windowBlurs: number;
+  pasteEvents: number;
+}
+
 export interface Grade {
   id: string;
   studentId: string;
   courseId: string;
   assignmentId?: string;
   quizId?: string;
-  type: 'assignment' | 'quiz' | 'exam' | 'participation';
+  type: 'assignment' | 'quiz' | 'exam' | 'participation' | 'ctf';
   title: string;
   points: number;
   maxPoints: number;
@@ -29,7 +43,55 @@ export interface Grade {
   feedback?: string;
   gradedAt: Timestamp;
   gradedBy: string; // instructor ID
-  isPublished: boolean;
+  isPublished: boolean; // drafts are hidden from students
+  publishedAt?: Timestamp;
+  integritySignals?: IntegritySignals; // recorded while a timed exam was running
+  rubricAssessment?: RubricAssessment; // levels picked per criterion when graded with a rubric
+  latePenalty?: LatePenalty; // already deducted from points
+  isExcused?: boolean; // left out of every course calculation
+  lastAuditId?: string; // audit entry written with the latest change to the published grade
+}
+
+// Weight and drop rule for one type of grade in a course
+export interface GradeCategoryRule {
+  type: Grade['type'];
+  weight: number; // percentage of the course grade
+  dropLowest: number; // lowest N grades of this type that do not count
+}
+
+// Values of a grade before and after a change, as recorded in the audit log
+export interface GradeSnapshot {
+  points: number;
+  maxPoints: number;
+  letterGrade: string;
+  feedback: string;
+  isExcused: boolean;
+}
+
+// Append-only record of a change to a published grade
+export interface GradeAuditEntry {
+  id: string;
+  gradeId: string;
+  studentId: string;
+  courseId: string;
+  title: string;
+  oldValue: GradeSnapshot;
+  newValue: GradeSnapshot;
+  reason: string;
+  changedBy: string; // user ID
+  changedAt: Timestamp;
+}
+
+export interface GradingScheme {
+  categories: GradeCategoryRule[]; // empty = every grade counts by its points
+}
+
+export interface CategoryBreakdown {
+  type: Grade['type'];
+  weight: number; // effective weight after leaving out categories with no grades yet
+  percentage: number;
+  gradeCount: number;
+  droppedGradeIds: string[];
 }
 
 export interface GradeStats {
@@ -41,44 +103,55 @@ export interface GradeStats {
   assignmentCount: number;
   quizCount: number;
   examCount: number;
+  isWeighted: boolean;
+  categoryBreakdown: CategoryBreakdown[];
+  excusedCount: number;
+  uncategorizedTypes: Grade['type'][]; // grade types the weights leave out, so they don't count
+  countsTowardGPA: boolean; // false when the course's scale is left out of GPA, e.g. pass/fail
 }
 
+export const GRADE_CATEGORY_LABELS: { [type in Grade['type']]: string } = {
+  assignment: 'Assignments',
+  quiz: 'Quizzes',
+  exam: 'Exams',
+  participation: 'Participation',
+  ctf: 'CTF Challenges'
+};
+
+const emptyGradeStats: GradeStats = {
+  totalPoints: 0,
+  maxTotalPoints: 0,
+  averagePercentage: 0,
+  letterGrade: 'N/A',
+  gpa: 0,
+  assignmentCount: 0,
+  quizCount: 0,
+  examCount: 0,
+  isWeighted: false,
+  categoryBreakdown: [],
+  excusedCount: 0,
+  uncategorizedTypes: [],
+  countsTowardGPA: true
+};
+
 export class GradingService {
   
-  // Calculate letter grade from percentage
-  static calculateLetterGrade(percentage: number): string {
-    if (percentage >= 97) return 'A+';
-    if (percentage >= 93) return 'A';
-    if (percentage >= 90) return 'A-';
-    if (percentage >= 87) return 'B+';
-    if (percentage >= 83) return 'B';
-    if (percentage >= 80) return 'B-';
-    if (percentage >= 77) return 'C+';
-    if (percentage >= 73) return 'C';
-    if (percentage >= 70) return 'C-';
-    if (percentage >= 67) return 'D+';
-    if (percentage >= 63) return 'D';
-    if (percentage >= 60) return 'D-';
-    return 'F';
+  // Calculate letter grade from percentage on the course's grading scale
+  static calculateLetterGrade(percentage: number, scale: GradingScale = DEFAULT_SCALE): string {
+    return GradingScaleService.getBand(scale, percentage).label;
   }
 
-  // Calculate GPA from letter grade
-  static calculateGPA(letterGrade: string): number {
-    const gradePoints: { [key: string]: number } = {
-      'A+': 4.0, 'A': 4.0, 'A-': 3.7,
-      'B+': 3.3, 'B': 3.0, 'B-': 2.7,
-      'C+': 2.3, 'C': 2.0, 'C-': 1.7,
-      'D+': 1.3, 'D': 1.0, 'D-': 0.7,
-      'F': 0.0
-    };
-    return gradePoints[letterGrade] || 0.0;
+  // Calculate GPA points from letter grade on the course's grading scale
+  static calculateGPA(letterGrade: string, scale: GradingScale = DEFAULT_SCALE): number {
+    return scale.bands.find(band => band.label === letterGrade)?.gpaPoints || 0.0;
   }
 
   // Add a grade
   static async addGrade(gradeData: Omit<Grade, 'id' | 'gradedAt' | 'percentage' | 'letterGrade'>): Promise<{ success: boolean; message: string; gradeId?: string }> {
     try {
       const percentage = Math.round((gradeData.points / gradeData.maxPoints) * 100);
-      const letterGrade = this.calculateLetterGrade(percentage);
+      const scale = await GradingScaleService.getCourseScale(gradeData.courseId);
+      const letterGrade = this.calculateLetterGrade(percentage, scale);
 
       const grade: Omit<Grade, 'id'> = {
         ...gradeData,
@@ -103,6 +176,84 @@ export class GradingService {
     }
   }
 
+  // Update the score and feedback of an existing grade. Changing a published grade needs a reason
+  // and is written to the audit log.
+  static async updateGrade(
+    gradeId: string,
+    updates: {
+      points: number;
+      maxPoints: number;
+      feedback?: string;
+      gradedBy: string;
+      rubricAssessment?: RubricAssessment;
+      latePenalty?: LatePenalty | null;
+      integritySignals?: IntegritySignals; // exam retakes
+      changeReason?: string;
+    }
+  ): Promise<{ success: boolean; message: string; isPublished?: boolean }> {
+    try {
+      const gradeDoc = await getDoc(doc(db, 'grades', gradeId));
+      if (!gradeDoc.exists()) {
+        return {
+          success: false,
+          message: 'Grade not found'
+        };
+      }
+
+      const grade = { id: gradeDoc.id, ...gradeDoc.data() } as Grade;
+      const percentage = Math.round((updates.points / updates.maxPoints) * 100);
+      const scale = await GradingScaleService.getCourseScale(grade.courseId);
+      const newValue: GradeSnapshot = {
+        ...this.getSnapshot(grade),
+        points: updates.points,
+        maxPoints: updates.maxPoints,
+        letterGrade: this.calculateLetterGrade(percentage, scale),
+        feedback: updates.feedback || ''
+      };
+      const isChanged = this.isSnapshotChanged(this.getSnapshot(grade), newValue);
+
+      if (grade.isPublished && isChanged && !updates.changeReason?.trim()) {
+        return {
+          success: false,
+          message: 'A reason is required to change a published grade'
+        };
+      }
+
+      // The grade and its audit entry are written together or not at all
+      const batch = writeBatch(db);
+      const auditId = grade.isPublished && isChanged
+        ? this.recordGradeChange(batch, grade, newValue, updates.changeReason || '', updates.gradedBy)
+        : null;
+
+      batch.update(doc(db, 'grades', gradeId), {
+        points: updates.points,
+        maxPoints: updates.maxPoints,
+        gradedBy: updates.gradedBy,
+        feedback: newValue.feedback,
+        ...(updates.rubricAssessment ? { rubricAssessment: updates.rubricAssessment } : {}),
+        ...(updates.integritySignals ? { integritySignals: updates.integritySignals } : {}),
+        ...(auditId ? { lastAuditId: auditId } : {}),
+        latePenalty: updates.latePenalty || deleteField(),
+        percentage,
+        letterGrade: newValue.letterGrade,
+        gradedAt: serverTimestamp()
+      });
+      await batch.commit();
+
+      return {
+        success: true,
+        message: 'Grade updated successfully',
+        isPublished: grade.isPublished
+      };
+    } catch (error) {
+      console.error('Error updating grade:', error);
+      return {
+        success: false,
+        message: 'Failed to update grade'
+      };
+    }
+  }
+
   // Get student grades for a course
   static async getStudentCourseGrades(studentId: string, courseId: string): Promise<Grade[]> {
     try {
@@ -187,59 +338,383 @@ export class GradingService {
     }
   }
 
-  // Calculate grade statistics for a student in a course
-  static async calculateCourseGradeStats(studentId: string, courseId: string): Promise<GradeStats> {
+  // Get all grades in a course, optionally of one type (instructor view)
+  static async getCourseGrades(courseId: string, type?: Grade['type']): Promise<Grade[]> {
     try {
-      const grades = await this.getStudentCourseGrades(studentId, courseId);
-      
-      if (grades.length === 0) {
+      const q = type
+        ? query(
+            collection(db, 'grades'),
+            where('courseId', '==', courseId),
+            where('type', '==', type),
+            orderBy('gradedAt', 'desc')
+          )
+        : query(
+            collection(db, 'grades'),
+            where('courseId', '==', courseId),
+            orderBy('gradedAt', 'desc')
+          );
+
+      const querySnapshot = await getDocs(q);
+      const grades: Grade[] = [];
+
+      querySnapshot.forEach(doc => {
+        grades.push({
+          id: doc.id,
+          ...doc.data()
+        } as Grade);
+      });
+
+      return grades;
+    } catch (error) {
+      console.error('Error fetching course grades:', error);
+      return [];
+    }
+  }
+
+  // Get a course's grade weights and drop rules
+  static async getGradingScheme(courseId: string): Promise<GradingScheme> {
+    try {
+      const courseDoc = await getDoc(doc(db, 'courses', courseId));
+      return { categories: courseDoc.data()?.gradingScheme?.categories || [] };
+    } catch (error) {
+      console.error('Error fetching grading scheme:', error);
+      return { categories: [] };
+    }
+  }
+
+  // Set a course's grade weights and drop rules
+  static async setGradingScheme(courseId: string, scheme: GradingScheme): Promise<{ success: boolean; message: string }> {
+    try {
+      const totalWeight = scheme.categories.reduce((sum, category) => sum + category.weight, 0);
+      if (scheme.categories.length > 0 && totalWeight !== 100) {
         return {
-          totalPoints: 0,
-          maxTotalPoints: 0,
-          averagePercentage: 0,
-          letterGrade: 'N/A',
-          gpa: 0,
-          assignmentCount: 0,
-          quizCount: 0,
-          examCount: 0
+          success: false,
+          message: `Category weights must add up to 100% (currently ${totalWeight}%)`
         };
       }
 
-      const totalPoints = grades.reduce((sum, grade) => sum + grade.points, 0);
-      const maxTotalPoints = grades.reduce((sum, grade) => sum + grade.maxPoints, 0);
-      const averagePercentage = Math.round((totalPoints / maxTotalPoints) * 100);
-      const letterGrade = this.calculateLetterGrade(averagePercentage);
-      const gpa = this.calculateGPA(letterGrade);
+      // With weights, a type of grade the course already has would otherwise stop counting
+      if (scheme.categories.length > 0) {
+        const grades = await this.getCourseGrades(courseId);
+        const missing = this.getUncategorizedTypes(grades, scheme);
+        if (missing.length > 0) {
+          return {
+            success: false,
+            message: `Give ${missing.map(type => GRADE_CATEGORY_LABELS[type]).join(', ')} a weight: this course already has those grades`
+          };
+        }
+      }
 
-      const assignmentCount = grades.filter(g => g.type === 'assignment').length;
-      const quizCount = grades.filter(g => g.type === 'quiz').length;
-      const examCount = grades.filter(g => g.type === 'exam').length;
+      await updateDoc(doc(db, 'courses', courseId), {
+        gradingScheme: scheme,
+        updatedAt: serverTimestamp()
+      });
 
       return {
-        totalPoints,
-        maxTotalPoints,
-        averagePercentage,
-        letterGrade,
-        gpa,
-        assignmentCount,
-        quizCount,
-        examCount
+        success: true,
+        message: 'Grade weights saved'
       };
     } catch (error) {
-      console.error('Error calculating grade stats:', error);
+      console.error('Error saving grading scheme:', error);
       return {
-        totalPoints: 0,
-        maxTotalPoints: 0,
-        averagePercentage: 0,
-        letterGrade: 'N/A',
-        gpa: 0,
-        assignmentCount: 0,
-        quizCount: 0,
-        examCount: 0
+        success: false,
+        message: 'Failed to save grade weights'
       };
     }
   }
 
+  // Excuse a grade, or count it again; a published grade needs a reason
+  static async setGradeExcused(
+    gradeId: string,
+    isExcused: boolean,
+    change?: { reason: string; changedBy: string }
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      const gradeDoc = await getDoc(doc(db, 'grades', gradeId));
+      if (!gradeDoc.exists()) {
+        return {
+          success: false,
+          message: 'Grade not found'
+        };
+      }
+
+      const grade = { id: gradeDoc.id, ...gradeDoc.data() } as Grade;
+      if (grade.isPublished && !change?.reason.trim()) {
+        return {
+          success: false,
+          message: 'A reason is required to change a published grade'
+        };
+      }
+
+      const batch = writeBatch(db);
+      const auditId = grade.isPublished && change && !!grade.isExcused !== isExcused
+        ? this.recordGradeChange(batch, grade, { ...this.getSnapshot(grade), isExcused }, change.reason, change.changedBy)
+        : null;
+
+      batch.update(doc(db, 'grades', gradeId), {
+        isExcused,
+        ...(auditId ? { lastAuditId: auditId } : {})
+      });
+      await batch.commit();
+
+      return {
+        success: true,
+        message: isExcused ? 'Grade excused' : 'Grade counts again'
+      };
+    } catch (error) {
+      console.error('Error changing excused state:', error);
+      return {
+        success: false,
+        message: 'Failed to change excused state'
+      };
+    }
+  }
+
+  // Publish every draft grade for an assignment and notify each student
+  static async publishAssignmentGrades(
+    assignmentId: string,
+    courseTitle: string
+  ): Promise<{ success: boolean; message: string; publishedCount?: number }> {
+    try {
+      const q = query(
+        collection(db, 'grades'),
+        where('assignmentId', '==', assignmentId),
+        where('isPublished', '==', false)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const drafts = querySnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Grade));
+
+      await Promise.all(drafts.map(async grade => {
+        await updateDoc(doc(db, 'grades', grade.id), {
+          isPublished: true,
+          publishedAt: serverTimestamp()
+        });
+        await NotificationService.createGradeNotification(
+          grade.studentId,
+          grade.title,
+          courseTitle,
+          `${grade.points}/${grade.maxPoints} (${grade.letterGrade})`,
+          grade.id
+        );
+        await AchievementService.evaluateAchievements(grade.studentId);
+      }));
+
+      return {
+        success: true,
+        message: drafts.length > 0
+          ? `${drafts.length} grade${drafts.length === 1 ? '' : 's'} published`
+          : 'No draft grades to publish',
+        publishedCount: drafts.length
+      };
+    } catch (error) {
+      console.error('Error publishing grades:', error);
+      return {
+        success: false,
+        message: 'Failed to publish grades'
+      };
+    }
+  }
+
+  // Get the grade change audit log, newest first (admin view)
+  static async getGradeAuditLog(): Promise<GradeAuditEntry[]> {
+    try {
+      const q = query(
+        collection(db, 'grade_audit_log'),
+        orderBy('changedAt', 'desc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      const entries: GradeAuditEntry[] = [];
+
+      querySnapshot.forEach(doc => {
+        entries.push({
+          id: doc.id,
+          ...doc.data()
+        } as GradeAuditEntry);
+      });
+
+      return entries;
+    } catch (error) {
+      console.error('Error fetching grade audit log:', error);
+      return [];
+    }
+  }
+
+  // The audited values of a grade
+  private static getSnapshot(grade: Grade): GradeSnapshot {
+    return {
+      points: grade.points,
+      maxPoints: grade.maxPoints,
+      letterGrade: grade.letterGrade,
+      feedback: grade.feedback || '',
+      isExcused: !!grade.isExcused
+    };
+  }
+
+  private static isSnapshotChanged(oldValue: GradeSnapshot, newValue: GradeSnapshot): boolean {
+    return (Object.keys(oldValue) as (keyof GradeSnapshot)[]).some(key => oldValue[key] !== newValue[key]);
+  }
+
+  // Append a change to the audit log in the batch that changes the grade; entries are never updated
+  // or deleted. Returns the entry's ID, which the grade records as lastAuditId.
+  private static recordGradeChange(
+    batch: WriteBatch,
+    grade: Grade,
+    newValue: GradeSnapshot,
+    reason: string,
+    changedBy: string
+  ): string {
+    const entryRef = doc(collection(db, 'grade_audit_log'));
+    batch.set(entryRef, {
+      gradeId: grade.id,
+      studentId: grade.studentId,
+      courseId: grade.courseId,
+      title: grade.title,
+      oldValue: this.getSnapshot(grade),
+      newValue,
+      reason: reason.trim(),
+      changedBy,
+      changedAt: serverTimestamp()
+    });
+    return entryRef.id;
+  }
+
+  // Re-letter a course's recorded grades after its grading scale changes. Published grades that
+  // change letter are audited like any other change.
+  static async refreshCourseLetterGrades(
+    courseId: string,
+    changedBy: string
+  ): Promise<{ success: boolean; message: string; updatedCount?: number }> {
+    try {
+      const [grades, scale] = await Promise.all([
+        this.getCourseGrades(courseId),
+        GradingScaleService.getCourseScale(courseId)
+      ]);
+      const changed = grades.filter(g => g.letterGrade !== this.calculateLetterGrade(g.percentage, scale));
+
+      // A batch holds at most 500 writes and each published grade takes two
+      for (let start = 0; start < changed.length; start += 200) {
+        const batch = writeBatch(db);
+        changed.slice(start, start + 200).forEach(g => {
+          const letterGrade = this.calculateLetterGrade(g.percentage, scale);
+          const auditId = g.isPublished
+            ? this.recordGradeChange(batch, g, { ...this.getSnapshot(g), letterGrade }, 'Grading scale changed', changedBy)
+            : null;
+          batch.update(doc(db, 'grades', g.id), {
+            letterGrade,
+            ...(auditId ? { lastAuditId: auditId } : {})
+          });
+        });
+        await batch.commit();
+      }
+
+      return {
+        success: true,
+        message: `${changed.length} grade${changed.length === 1 ? '' : 's'} updated to the new scale`,
+        updatedCount: changed.length
+      };
+    } catch (error) {
+      console.error('Error refreshing letter grades:', error);
+      return {
+        success: false,
+        message: 'Failed to update letter grades'
+      };
+    }
+  }
+
+  // Work out a course result from its grades: excused grades are left out, each category drops its
+  // lowest grades, and categories are combined by weight. Without weights every point counts the same.
+  // The letter and GPA points come from the course's grading scale.
+  static calculateGradeStats(grades: Grade[], scheme: GradingScheme, scale: GradingScale = DEFAULT_SCALE): GradeStats {
+    const counted = grades.filter(g => !g.isExcused);
+    const excusedCount = grades.length - counted.length;
+    const countsTowardGPA = scale.countsTowardGPA;
+    if (counted.length === 0) return { ...emptyGradeStats, excusedCount, countsTowardGPA };
+
+    const isWeighted = scheme.categories.some(c => c.weight > 0);
+    const uncategorizedTypes = isWeighted ? this.getUncategorizedTypes(counted, scheme) : [];
+    const categoryBreakdown: CategoryBreakdown[] = [];
+    let kept: Grade[] = counted;
+
+    if (isWeighted) {
+      kept = [];
+      scheme.categories.forEach(category => {
+        const categoryGrades = counted.filter(g => g.type === category.type);
+        if (categoryGrades.length === 0 || category.weight <= 0) return;
+
+        // Always keep at least one grade in a category
+        const dropCount = Math.min(category.dropLowest, categoryGrades.length - 1);
+        const dropped = [...categoryGrades]
+          .sort((a, b) => a.points / a.maxPoints - b.points / b.maxPoints)
+          .slice(0, dropCount);
+        const categoryKept = categoryGrades.filter(g => !dropped.includes(g));
+        const points = categoryKept.reduce((sum, g) => sum + g.points, 0);
+        const maxPoints = categoryKept.reduce((sum, g) => sum + g.maxPoints, 0);
+
+        kept.push(...categoryKept);
+        categoryBreakdown.push({
+          type: category.type,
+          weight: category.weight,
+          percentage: maxPoints > 0 ? (points / maxPoints) * 100 : 0,
+          gradeCount: categoryKept.length,
+          droppedGradeIds: dropped.map(g => g.id)
+        });
+      });
+
+      // Categories without grades yet do not pull the result down
+      const activeWeight = categoryBreakdown.reduce((sum, c) => sum + c.weight, 0);
+      categoryBreakdown.forEach(c => {
+        c.weight = activeWeight > 0 ? Math.round((c.weight / activeWeight) * 1000) / 10 : 0;
+      });
+    }
+
+    const totalPoints = kept.reduce((sum, grade) => sum + grade.points, 0);
+    const maxTotalPoints = kept.reduce((sum, grade) => sum + grade.maxPoints, 0);
+    const averagePercentage = isWeighted
+      ? Math.round(categoryBreakdown.reduce((sum, c) => sum + (c.percentage * c.weight) / 100, 0))
+      : maxTotalPoints > 0 ? Math.round((totalPoints / maxTotalPoints) * 100) : 0;
+    const letterGrade = this.calculateLetterGrade(averagePercentage, scale);
+
+    return {
+      totalPoints,
+      maxTotalPoints,
+      averagePercentage,
+      letterGrade,
+      gpa: this.calculateGPA(letterGrade, scale),
+      assignmentCount: counted.filter(g => g.type === 'assignment').length,
+      quizCount: counted.filter(g => g.type === 'quiz').length,
+      examCount: counted.filter(g => g.type === 'exam').length,
+      isWeighted,
+      categoryBreakdown,
+      excusedCount,
+      uncategorizedTypes,
+      countsTowardGPA
+    };
+  }
+
+  // Types of the given grades that have no weighted category in the scheme
+  static getUncategorizedTypes(grades: Grade[], scheme: GradingScheme): Grade['type'][] {
+    const weighted = scheme.categories.filter(c => c.weight > 0).map(c => c.type);
+    return [...new Set(grades.map(g => g.type))].filter(type => !weighted.includes(type));
+  }
+
+  // Calculate grade statistics for a student in a course
+  static async calculateCourseGradeStats(studentId: string, courseId: string): Promise<GradeStats> {
+    try {
+      const [grades, scheme, scale] = await Promise.all([
+        this.getStudentCourseGrades(studentId, courseId),
+        this.getGradingScheme(courseId),
+        GradingScaleService.getCourseScale(courseId)
+      ]);
+
+      return this.calculateGradeStats(grades, scheme, scale);
+    } catch (error) {
+      console.error('Error calculating grade stats:', error);
+      return emptyGradeStats;
+    }
+  }
+
   // Calculate overall GPA for a student
   static async calculateOverallGPA(studentId: string): Promise<number> {
     try {
@@ -256,17 +731,17 @@ export class GradingService {
         courseGrades[grade.courseId].push(grade);
       });
 
-      // Calculate GPA for each course
+      // Calculate GPA for each course with its own weights and grading scale
       const courseGPAs: number[] = [];
       for (const courseId in courseGrades) {
-        const courseGradeList = courseGrades[courseId];
-        const totalPoints = courseGradeList.reduce((sum, grade) => sum + grade.points, 0);
-        const maxTotalPoints = courseGradeList.reduce((sum, grade) => sum + grade.maxPoints, 0);
-        const coursePercentage = (totalPoints / maxTotalPoints) * 100;
-        const courseLetter = this.calculateLetterGrade(coursePercentage);
-        const courseGPA = this.calculateGPA(courseLetter);
-        courseGPAs.push(courseGPA);
+        const [scheme, scale] = await Promise.all([
+          this.getGradingScheme(courseId),
+          GradingScaleService.getCourseScale(courseId)
+        ]);
+        const stats = this.calculateGradeStats(courseGrades[courseId], scheme, scale);
+        if (stats.letterGrade !== 'N/A' && stats.countsTowardGPA) courseGPAs.push(stats.gpa);
       }
+      if (courseGPAs.length === 0) return 0;
 
       // Calculate overall GPA
       const overallGPA = courseGPAs.reduce((sum, gpa) => sum + gpa, 0) / courseGPAs.length;
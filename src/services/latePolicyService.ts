@@ -0,0 +1,209 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+
+// Late policy interfaces
+export interface LatePolicy {
+  acceptLate: boolean; // false = nothing is accepted after the due date and grace period
+  graceMinutes: number; // submissions within the grace period are on time
+  penaltyPerDay: number; // percentage of max points deducted per started day late
+  cutoffDays: number; // days after the due date when late submissions close; 0 = no cutoff
+}
+
+// Per-student due date override
+export interface AssignmentExtension {
+  id: string;
+  assignmentId: string;
+  studentId: string;
+  courseId: string;
+  dueDate: Timestamp;
+  reason: string;
+  grantedBy: string; // instructor ID
+  grantedAt: Timestamp;
+}
+
+// Deduction recorded on a grade so students can see how their score was reached
+export interface LatePenalty {
+  daysLate: number;
+  percentage: number;
+  pointsDeducted: number;
+  originalPoints: number;
+}
+
+export interface LateEvaluation {
+  isLate: boolean;
+  accepted: boolean;
+  daysLate: number;
+  penaltyPercentage: number;
+}
+
+// Used when neither the course nor the assignment sets a policy
+export const DEFAULT_LATE_POLICY: LatePolicy = {
+  acceptLate: true,
+  graceMinutes: 0,
+  penaltyPerDay: 0,
+  cutoffDays: 0
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class LatePolicyService {
+
+  // Work out whether a submission is late, still accepted, and what it costs
+  static evaluate(policy: LatePolicy, dueDate: Timestamp, submittedAt: Timestamp): LateEvaluation {
+    const lateMs = submittedAt.toMillis() - dueDate.toMillis();
+    if (lateMs <= policy.graceMinutes * 60 * 1000) {
+      return { isLate: false, accepted: true, daysLate: 0, penaltyPercentage: 0 };
+    }
+
+    const daysLate = Math.ceil(lateMs / DAY_MS);
+    const accepted = policy.acceptLate && (policy.cutoffDays === 0 || lateMs <= policy.cutoffDays * DAY_MS);
+
+    return {
+      isLate: true,
+      accepted,
+      daysLate,
+      penaltyPercentage: Math.min(100, daysLate * policy.penaltyPerDay)
+    };
+  }
+
+  // Deduct the late penalty from awarded points; null when nothing is deducted
+  static applyPenalty(points: number, maxPoints: number, evaluation: LateEvaluation): LatePenalty | null {
+    if (!evaluation.isLate || evaluation.penaltyPercentage === 0) return null;
+
+    const pointsDeducted = Math.min(points, Math.round(maxPoints * evaluation.penaltyPercentage) / 100);
+    return {
+      daysLate: evaluation.daysLate,
+      percentage: evaluation.penaltyPercentage,
+      pointsDeducted,
+      originalPoints: points
+    };
+  }
+
+  // Get a course's default late policy
+  static async getCoursePolicy(courseId: string): Promise<LatePolicy> {
+    try {
+      const courseDoc = await getDoc(doc(db, 'courses', courseId));
+      return { ...DEFAULT_LATE_POLICY, ...courseDoc.data()?.latePolicy };
+    } catch (error) {
+      console.error('Error fetching course late policy:', error);
+      return DEFAULT_LATE_POLICY;
+    }
+  }
+
+  // Set a course's default late policy
+  static async setCoursePolicy(courseId: string, policy: LatePolicy): Promise<{ success: boolean; message: string }> {
+    try {
+      await updateDoc(doc(db, 'courses', courseId), {
+        latePolicy: policy,
+        updatedAt: serverTimestamp()
+      });
+
+      return {
+        success: true,
+        message: 'Late policy saved'
+      };
+    } catch (error) {
+      console.error('Error saving course late policy:', error);
+      return {
+        success: false,
+        message: 'Failed to save late policy'
+      };
+    }
+  }
+
+  // The assignment's own policy wins over the course default
+  static async getEffectivePolicy(assignment: { courseId: string; latePolicy?: LatePolicy | null }): Promise<LatePolicy> {
+    return assignment.latePolicy || this.getCoursePolicy(assignment.courseId);
+  }
+
+  // Get a student's extension for an assignment
+  static async getExtension(assignmentId: string, studentId: string): Promise<AssignmentExtension | null> {
+    try {
+      const extensionDoc = await getDoc(doc(db, 'assignment_extensions', `${assignmentId}_${studentId}`));
+      return extensionDoc.exists() ? { id: extensionDoc.id, ...extensionDoc.data() } as AssignmentExtension : null;
+    } catch (error) {
+      console.error('Error fetching extension:', error);
+      return null;
+    }
+  }
+
+  // Get every extension granted in a course
+  static async getCourseExtensions(courseId: string): Promise<AssignmentExtension[]> {
+    try {
+      const q = query(
+        collection(db, 'assignment_extensions'),
+        where('courseId', '==', courseId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const extensions: AssignmentExtension[] = [];
+
+      querySnapshot.forEach(doc => {
+        extensions.push({
+          id: doc.id,
+          ...doc.data()
+        } as AssignmentExtension);
+      });
+
+      return extensions;
+    } catch (error) {
+      console.error('Error fetching course extensions:', error);
+      return [];
+    }
+  }
+
+  // Grant or change a student's extension; one extension per student per assignment
+  static async grantExtension(
+    extensionData: Omit<AssignmentExtension, 'id' | 'grantedAt'>
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      await setDoc(doc(db, 'assignment_extensions', `${extensionData.assignmentId}_${extensionData.studentId}`), {
+        ...extensionData,
+        grantedAt: serverTimestamp()
+      });
+
+      return {
+        success: true,
+        message: 'Extension granted'
+      };
+    } catch (error) {
+      console.error('Error granting extension:', error);
+      return {
+        success: false,
+        message: 'Failed to grant extension'
+      };
+    }
+  }
+
+  // Remove a student's extension
+  static async revokeExtension(extensionId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await deleteDoc(doc(db, 'assignment_extensions', extensionId));
+
+      return {
+        success: true,
+        message: 'Extension removed'
+      };
+    } catch (error) {
+      console.error('Error removing extension:', error);
+      return {
+        success: false,
+        message: 'Failed to remove extension'
+      };
+    }
+  }
+}
+
+export default LatePolicyService;
@@ -18,7 +18,7 @@ import { db } from '../lib/firebase';
 export interface Notification {
   id: string;
   userId: string;
-  type: 'assignment' | 'grade' | 'course' | 'system' | 'reminder';
+  type: 'assignment' | 'grade' | 'course' | 'achievement' | 'system' | 'reminder';
   title: string;
   message: string;
   isRead: boolean;
@@ -210,6 +210,34 @@ export class NotificationService {
     }
   }
 
+  // Create reminder notification for a learning goal that is nearly due
+  static async createGoalReminder(
+    userId: string,
+    goalTitle: string,
+    deadline: Timestamp,
+    goalId: string
+  ): Promise<void> {
+    try {
+      const hoursLeft = Math.max(0, Math.round((deadline.toDate().getTime() - Date.now()) / (1000 * 3600)));
+      const timeLeft = hoursLeft < 24
+        ? `${hoursLeft} hour${hoursLeft === 1 ? '' : 's'}`
+        : `${Math.round(hoursLeft / 24)} day${Math.round(hoursLeft / 24) === 1 ? '' : 's'}`;
+
+      await this.createNotification({
+        userId,
+        type: 'reminder',
+        title: 'Goal Deadline Approaching',
+        message: `Your goal "${goalTitle}" is due in ${timeLeft}.`,
+        priority: hoursLeft < 24 ? 'high' : 'medium',
+        actionUrl: `/student/progress`,
+        actionText: 'View Goals',
+        relatedId: goalId
+      });
+    } catch (error) {
+      console.error('Error creating goal reminder:', error);
+    }
+  }
+
   // Create grade notification
   static async createGradeNotification(
     userId: string,
@@ -234,6 +262,145 @@ export class NotificationService {
     }
   }
 
+  // Tell a student their published grade was changed, and why
+  static async createGradeChangeNotification(
+    userId: string,
+    assignmentTitle: string,
+    courseTitle: string,
+    grade: string,
+    reason: string,
+    gradeId: string
+  ): Promise<void> {
+    try {
+      await this.createNotification({
+        userId,
+        type: 'grade',
+        title: 'Grade Updated',
+        message: `Your grade for "${assignmentTitle}" in ${courseTitle} was changed to ${grade}. Reason: ${reason}`,
+        priority: 'medium',
+        actionUrl: `/student/grades`,
+        actionText: 'View Grades',
+        relatedId: gradeId
+      });
+    } catch (error) {
+      console.error('Error creating grade change notification:', error);
+    }
+  }
+
+  // Tell a student how their regrade request was resolved
+  static async createRegradeOutcomeNotification(
+    userId: string,
+    gradeTitle: string,
+    courseTitle: string,
+    outcome: string,
+    comment: string,
+    gradeId: string
+  ): Promise<void> {
+    try {
+      await this.createNotification({
+        userId,
+        type: 'grade',
+        title: 'Regrade Request Resolved',
+        message: `Your regrade request for "${gradeTitle}" in ${courseTitle} was ${outcome}.` +
+          (comment ? ` Instructor comment: ${comment}` : ''),
+        priority: 'medium',
+        actionUrl: `/student/grades`,
+        actionText: 'View Grades',
+        relatedId: gradeId
+      });
+    } catch (error) {
+      console.error('Error creating regrade notification:', error);
+    }
+  }
+
+  // Tell a student their course completion certificate is ready
+  static async createCertificateNotification(
+    userId: string,
+    courseTitle: string,
+    certificateId: string
+  ): Promise<void> {
+    try {
+      await this.createNotification({
+        userId,
+        type: 'course',
+        title: 'Certificate Earned',
+        message: `Congratulations on completing ${courseTitle}! Your certificate is ready to download.`,
+        priority: 'high',
+        actionUrl: `/student/certificates`,
+        actionText: 'View Certificate',
+        relatedId: certificateId
+      });
+    } catch (error) {
+      console.error('Error creating certificate notification:', error);
+    }
+  }
+
+  // Create notification for an issued transcript
+  static async createTranscriptNotification(userId: string, transcriptId: string): Promise<void> {
+    try {
+      await this.createNotification({
+        userId,
+        type: 'system',
+        title: 'Transcript Issued',
+        message: `Your official transcript ${transcriptId} has been issued and is ready to download.`,
+        priority: 'medium',
+        actionUrl: `/student/grades`,
+        actionText: 'View Transcript',
+        relatedId: transcriptId
+      });
+    } catch (error) {
+      console.error('Error creating transcript notification:', error);
+    }
+  }
+
+  // Create notification for an unlocked achievement
+  static async createAchievementNotification(
+    userId: string,
+    achievementTitle: string,
+    awardId: string
+  ): Promise<void> {
+    try {
+      await this.createNotification({
+        userId,
+        type: 'achievement',
+        title: 'Achievement Unlocked',
+        message: `You unlocked "${achievementTitle}". Download it as an Open Badge to share it on other platforms.`,
+        priority: 'medium',
+        actionUrl: `/student/progress`,
+        actionText: 'View Achievements',
+        relatedId: awardId
+      });
+    } catch (error) {
+      console.error('Error creating achievement notification:', error);
+    }
+  }
+
+  // Create new assignment notification
+  static async createNewAssignmentNotification(
+    userIds: string[],
+    assignmentTitle: string,
+    courseTitle: string,
+    dueDate: Timestamp,
+    assignmentId: string
+  ): Promise<void> {
+    try {
+      const notifications = userIds.map(userId => ({
+        userId,
+        type: 'assignment' as const,
+        title: 'New Assignment',
+        message: `"${assignmentTitle}" has been posted in ${courseTitle}. It is due ${dueDate.toDate().toLocaleDateString()}.`,
+        priority: 'medium' as const,
+        actionUrl: `/student/assignments/${assignmentId}`,
+        actionText: 'View Assignment',
+        relatedId: assignmentId
+      }));
+
+      await Promise.all(notifications.map(notification => this.createNotification(notification)));
+    } catch (error) {
+      console.error('Error creating new assignment notifications:', error);
+    }
+  }
+
   // Create course update notification
   static async createCourseUpdateNotification(
     userIds: string[],
@@ -0,0 +1,182 @@
+import {
+  collection,
+  addDoc,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import ProgressService from './progressService';
+import { DEFAULT_PASSING_SCORE } from './quizService';
+
+// Phishing simulation interfaces
+export type PhishingAction = 'report' | 'click' | 'ignore';
+
+export interface PhishingHeader {
+  id: string;
+  name: string; // e.g. Return-Path, Received-SPF
+  value: string;
+}
+
+export interface PhishingLink {
+  id: string;
+  text: string; // what the email shows
+  url: string; // where it actually points
+}
+
+export interface PhishingAttachment {
+  id: string;
+  name: string;
+}
+
+// A suspicious element of the email. Element IDs are 'from', 'replyTo', 'subject',
+// 'header:<id>', 'body:<line index>', 'link:<id>' and 'attachment:<id>'.
+export interface PhishingIndicator {
+  elementId: string;
+  explanation: string;
+}
+
+export interface PhishingSimulation {
+  fromName: string;
+  fromAddress: string;
+  replyTo: string;
+  to: string;
+  subject: string;
+  sentAt: string;
+  headers: PhishingHeader[];
+  body: string;
+  links: PhishingLink[];
+  attachments: PhishingAttachment[];
+  indicators: PhishingIndicator[];
+  correctAction: PhishingAction;
+  passingScore?: number; // defaults to DEFAULT_PASSING_SCORE
+}
+
+export interface PhishingScore {
+  percentage: number;
+  caught: string[]; // indicator element IDs the student flagged
+  missed: string[]; // indicator element IDs the student did not flag
+  falseFlags: string[]; // flagged elements that are not indicators
+  action: PhishingAction;
+  actionCorrect: boolean;
+  passed: boolean;
+}
+
+export interface PhishingResult extends PhishingScore {
+  id: string;
+  userId: string;
+  courseId: string;
+  moduleId: string;
+  lessonId: string;
+  blockId: string;
+  flagged: string[];
+  completedAt: Timestamp;
+}
+
+// Share of the score earned by choosing the right action; the rest comes from indicators
+export const PHISHING_ACTION_WEIGHT = 30;
+
+export const PHISHING_ACTION_LABELS: { [action in PhishingAction]: string } = {
+  report: 'Report as phishing',
+  click: 'Click the link / open the attachment',
+  ignore: 'Ignore it'
+};
+
+export class PhishingService {
+
+  // Create an empty simulation for the course builder
+  static createEmptySimulation(): PhishingSimulation {
+    return {
+      fromName: '',
+      fromAddress: '',
+      replyTo: '',
+      to: 'you@company.com',
+      subject: '',
+      sentAt: '',
+      headers: [],
+      body: '',
+      links: [],
+      attachments: [],
+      indicators: [],
+      correctAction: 'report'
+    };
+  }
+
+  // Score a student's flags and chosen action
+  static scoreSimulation(simulation: PhishingSimulation, flagged: string[], action: PhishingAction): PhishingScore {
+    const indicatorIds = simulation.indicators.map(i => i.elementId);
+    const caught = flagged.filter(id => indicatorIds.includes(id));
+    const missed = indicatorIds.filter(id => !flagged.includes(id));
+    const falseFlags = flagged.filter(id => !indicatorIds.includes(id));
+
+    // Each false flag cancels one caught indicator
+    const indicatorCredit = indicatorIds.length > 0
+      ? Math.max(0, (caught.length - falseFlags.length) / indicatorIds.length)
+      : (falseFlags.length === 0 ? 1 : 0);
+    const actionCorrect = action === simulation.correctAction;
+
+    const percentage = Math.round(
+      indicatorCredit * (100 - PHISHING_ACTION_WEIGHT) + (actionCorrect ? PHISHING_ACTION_WEIGHT : 0)
+    );
+
+    return {
+      percentage,
+      caught,
+      missed,
+      falseFlags,
+      action,
+      actionCorrect,
+      passed: percentage >= (simulation.passingScore ?? DEFAULT_PASSING_SCORE)
+    };
+  }
+
+  // Score an attempt, store it and feed the score into lesson progress
+  static async submitAttempt(attempt: {
+    userId: string;
+    courseId: string;
+    moduleId: string;
+    lessonId: string;
+    blockId: string;
+    simulation: PhishingSimulation;
+    flagged: string[];
+    action: PhishingAction;
+  }): Promise<{ success: boolean; message: string; result?: PhishingScore }> {
+    try {
+      const result = this.scoreSimulation(attempt.simulation, attempt.flagged, attempt.action);
+
+      const resultData: Omit<PhishingResult, 'id'> = {
+        userId: attempt.userId,
+        courseId: attempt.courseId,
+        moduleId: attempt.moduleId,
+        lessonId: attempt.lessonId,
+        blockId: attempt.blockId,
+        flagged: attempt.flagged,
+        ...result,
+        completedAt: serverTimestamp() as Timestamp
+      };
+
+      await addDoc(collection(db, 'phishing_results'), resultData);
+      await ProgressService.recordBlockScore(
+        attempt.userId,
+        attempt.courseId,
+        attempt.moduleId,
+        attempt.lessonId,
+        attempt.blockId,
+        result.percentage
+      );
+
+      return {
+        success: true,
+        message: result.passed ? 'Simulation passed' : 'Simulation not passed',
+        result
+      };
+    } catch (error) {
+      console.error('Error submitting phishing simulation:', error);
+      return {
+        success: false,
+        message: 'Failed to submit simulation'
+      };
+    }
+  }
+}
+
+export default PhishingService;
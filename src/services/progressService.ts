@@ -12,6 +12,9 @@ import {
 } from 'firebase/firestore';
 import { db } from '../lib/firebase';
 import EnrollmentService from './enrollmentService';
+import { DEFAULT_PASSING_SCORE } from './quizService';
+import AchievementService from './achievementService';
+import GoalService from './goalService';
 
 // Progress tracking interfaces
 export interface LessonProgress {
@@ -23,6 +26,7 @@ export interface LessonProgress {
   completed: boolean;
   completedAt?: any;
   timeSpent?: number; // in seconds
+  blockScores?: { [blockId: string]: number }; // best percentage on scored blocks such as simulations
   lastAccessedAt: any;
 }
 
@@ -33,6 +37,7 @@ export interface ModuleProgress {
   moduleId: string;
   lessonsCompleted: number;
   totalLessons: number;
+  testPassed: boolean; // true when the module has no test
   completed: boolean;
   completedAt?: any;
   lastAccessedAt: any;
@@ -49,14 +54,81 @@ export interface CourseProgress {
   lastAccessedAt: any;
 }
 
+// The parts of a course lesson that scored-block checks read
+interface ScoredLesson {
+  id: string;
+  contentBlocks?: {
+    id: string;
+    type: string;
+    phishingData?: { passingScore?: number };
+    scenarioData?: { passingScore?: number };
+    spotIssueData?: { passingScore?: number };
+  }[];
+}
+
+// Content block types that record a score and must be passed before the lesson completes
+const SCORED_BLOCK_TYPES = ['phishing-sim', 'scenario', 'spot-the-issue'];
+
+// Longest stretch of study time credited to a single lesson, in seconds
+const MAX_LESSON_TIME = 2 * 60 * 60;
+
 export class ProgressService {
-  
-  // Mark a lesson as completed
+
+  // Get the scored blocks of a lesson that the student still has to pass
+  static getUnpassedBlocks(lesson: ScoredLesson | undefined, progress: LessonProgress | null | undefined): string[] {
+    const scoredBlocks = (lesson?.contentBlocks || [])
+      .filter(block => SCORED_BLOCK_TYPES.includes(block.type))
+      .map(block => ({
+        id: block.id,
+        passingScore: (block.phishingData || block.scenarioData || block.spotIssueData)?.passingScore ?? DEFAULT_PASSING_SCORE
+      }));
+
+    return scoredBlocks
+      .filter(block => (progress?.blockScores?.[block.id] ?? -1) < block.passingScore)
+      .map(block => block.id);
+  }
+
+  // Record a scored block attempt, keeping the best score on the lesson progress
+  static async recordBlockScore(
+    userId: string,
+    courseId: string,
+    moduleId: string,
+    lessonId: string,
+    blockId: string,
+    score: number
+  ): Promise<void> {
+    try {
+      const existingProgress = await this.getLessonProgress(userId, courseId, moduleId, lessonId);
+      const bestScore = Math.max(score, existingProgress?.blockScores?.[blockId] ?? 0);
+
+      if (existingProgress) {
+        await updateDoc(doc(db, 'lesson_progress', existingProgress.id), {
+          [`blockScores.${blockId}`]: bestScore,
+          lastAccessedAt: serverTimestamp()
+        });
+      } else {
+        await addDoc(collection(db, 'lesson_progress'), {
+          userId,
+          courseId,
+          moduleId,
+          lessonId,
+          completed: false,
+          blockScores: { [blockId]: bestScore },
+          lastAccessedAt: serverTimestamp()
+        });
+      }
+    } catch (error) {
+      console.error('Error recording block score:', error);
+    }
+  }
+
+  // Mark a lesson as completed, crediting the time the student spent on it (in seconds)
   static async markLessonCompleted(
     userId: string, 
     courseId: string, 
     moduleId: string, 
-    lessonId: string
+    lessonId: string,
+    timeSpent: number = 0
   ): Promise<boolean> {
     try {
       console.log('Marking lesson completed:', { userId, courseId, moduleId, lessonId });
@@ -69,6 +141,17 @@ export class ProgressService {
         return true;
       }
 
+      // Scored blocks such as phishing simulations must be passed first
+      const courseDoc = await getDoc(doc(db, 'courses', courseId));
+      const courseModules = courseDoc.data()?.modules as { id: string; lessons?: ScoredLesson[] }[] | undefined;
+      const lesson = courseModules
+        ?.find(m => m.id === moduleId)?.lessons
+        ?.find(l => l.id === lessonId);
+      if (this.getUnpassedBlocks(lesson, existingProgress).length > 0) {
+        console.log('Lesson has scored blocks that are not passed yet');
+        return false;
+      }
+
       const progressData = {
         userId,
         courseId,
@@ -76,6 +159,7 @@ export class ProgressService {
         lessonId,
         completed: true,
         completedAt: serverTimestamp(),
+        timeSpent: (existingProgress?.timeSpent || 0) + Math.min(Math.max(Math.round(timeSpent), 0), MAX_LESSON_TIME),
         lastAccessedAt: serverTimestamp()
       };
 
@@ -91,6 +175,10 @@ export class ProgressService {
       await this.updateModuleProgress(userId, courseId, moduleId);
       await this.updateCourseProgress(userId, courseId);
 
+      // Lessons, streaks and course completions all count towards achievements and goals
+      await AchievementService.evaluateAchievements(userId);
+      await GoalService.refreshGoals(userId);
+
       console.log('Lesson progress updated successfully');
       return true;
 
@@ -159,7 +247,11 @@ export class ProgressService {
       const querySnapshot = await getDocs(q);
       const lessonsCompleted = querySnapshot.size;
 
-      const moduleCompleted = lessonsCompleted >= totalLessons && totalLessons > 0;
+      // Modules with a general test also require a passing attempt
+      const hasTest = (module.test?.length || 0) > 0 || (module.testDraws?.length || 0) > 0;
+      const testPassed = hasTest ? await this.hasPassedModuleTest(userId, courseId, moduleId) : true;
+
+      const moduleCompleted = lessonsCompleted >= totalLessons && totalLessons > 0 && testPassed;
 
       const moduleProgressData = {
         userId,
@@ -167,6 +259,7 @@ export class ProgressService {
         moduleId,
         lessonsCompleted,
         totalLessons,
+        testPassed,
         completed: moduleCompleted,
         lastAccessedAt: serverTimestamp(),
         ...(moduleCompleted ? { completedAt: serverTimestamp() } : {})
@@ -176,66 +269,135 @@ export class ProgressService {
       const moduleProgressId = `${userId}_${courseId}_${moduleId}`;
       await setDoc(doc(db, 'module_progress', moduleProgressId), moduleProgressData);
 
-      console.log('Module progress updated:', { moduleId, lessonsCompleted, totalLessons, moduleCompleted });
+      console.log('Module progress updated:', { moduleId, lessonsCompleted, totalLessons, testPassed, moduleCompleted });
 
     } catch (error) {
       console.error('Error updating module progress:', error);
     }
   }
 
-  // Update course progress and enrollment
-  static async updateCourseProgress(userId: string, courseId: string): Promise<void> {
+  // Check whether a user has a passing attempt on a module's general test
+  static async hasPassedModuleTest(userId: string, courseId: string, moduleId: string): Promise<boolean> {
     try {
-      // Get course data
-      const courseDoc = await getDoc(doc(db, 'courses', courseId));
-      if (!courseDoc.exists()) return;
-
-      const courseData = courseDoc.data();
-      const totalModules = courseData.modules?.length || 0;
-      
-      // Calculate total lessons across all modules
-      const totalLessons = courseData.modules?.reduce((sum: number, module: any) => {
-        return sum + (module.lessons?.length || 0);
-      }, 0) || 0;
-
-      // Count completed modules
-      const moduleQuery = query(
-        collection(db, 'module_progress'),
+      const q = query(
+        collection(db, 'quizResults'),
         where('userId', '==', userId),
         where('courseId', '==', courseId),
-        where('completed', '==', true)
+        where('moduleId', '==', moduleId),
+        where('isModuleTest', '==', true),
+        where('passed', '==', true)
       );
-      
-      const moduleSnapshot = await getDocs(moduleQuery);
-      const modulesCompleted = moduleSnapshot.size;
 
-      // Count completed lessons
-      const lessonQuery = query(
-        collection(db, 'lesson_progress'),
+      const querySnapshot = await getDocs(q);
+      return !querySnapshot.empty;
+
+    } catch (error) {
+      console.error('Error checking module test result:', error);
+      return false;
+    }
+  }
+
+  // Get all module progress records for a course
+  static async getCourseModuleProgress(userId: string, courseId: string): Promise<ModuleProgress[]> {
+    try {
+      const q = query(
+        collection(db, 'module_progress'),
         where('userId', '==', userId),
-        where('courseId', '==', courseId),
-        where('completed', '==', true)
+        where('courseId', '==', courseId)
       );
-      
-      const lessonSnapshot = await getDocs(lessonQuery);
-      const lessonsCompleted = lessonSnapshot.size;
 
-      // Calculate overall progress percentage
-      const overallProgress = totalLessons > 0 ? Math.round((lessonsCompleted / totalLessons) * 100) : 0;
+      const querySnapshot = await getDocs(q);
+      const progress: ModuleProgress[] = [];
+
+      querySnapshot.forEach(doc => {
+        progress.push({
+          id: doc.id,
+          ...doc.data()
+        } as ModuleProgress);
+      });
+
+      return progress;
+
+    } catch (error) {
+      console.error('Error getting course module progress:', error);
+      return [];
+    }
+  }
+
+  // Measure a student's progress through a course. Required module tests count as steps
+  // alongside lessons, and the course only reaches 100% once every module is complete.
+  private static async calculateCourseProgress(userId: string, courseId: string): Promise<CourseProgress | null> {
+    const courseDoc = await getDoc(doc(db, 'courses', courseId));
+    if (!courseDoc.exists()) return null;
+
+    const modules: any[] = courseDoc.data().modules || [];
+    const totalModules = modules.length;
+    const totalLessons = modules.reduce((sum: number, module: any) => sum + (module.lessons?.length || 0), 0);
+
+    const moduleProgress = await this.getCourseModuleProgress(userId, courseId);
+    const progressFor = (moduleId: string) => moduleProgress.find(p => p.moduleId === moduleId);
+    const testModules = modules.filter(module => (module.test?.length || 0) > 0 || (module.testDraws?.length || 0) > 0);
+    const testsPassed = testModules.filter(module => progressFor(module.id)?.testPassed).length;
+    const modulesCompleted = modules.filter(module => progressFor(module.id)?.completed).length;
+
+    // Count completed lessons
+    const lessonQuery = query(
+      collection(db, 'lesson_progress'),
+      where('userId', '==', userId),
+      where('courseId', '==', courseId),
+      where('completed', '==', true)
+    );
+
+    const lessonSnapshot = await getDocs(lessonQuery);
+    const lessonsCompleted = Math.min(lessonSnapshot.size, totalLessons);
+
+    const totalSteps = totalLessons + testModules.length;
+    const stepProgress = totalSteps > 0 ? Math.round(((lessonsCompleted + testsPassed) / totalSteps) * 100) : 0;
+    const isComplete = totalModules > 0 && modulesCompleted === totalModules;
+    const overallProgress = isComplete ? 100 : Math.min(stepProgress, 99);
+
+    return {
+      userId,
+      courseId,
+      modulesCompleted,
+      totalModules,
+      lessonsCompleted,
+      totalLessons,
+      overallProgress,
+      lastAccessedAt: serverTimestamp()
+    };
+  }
+
+  // Check whether every module of a course is complete for a student
+  static async isCourseComplete(userId: string, courseId: string): Promise<boolean> {
+    try {
+      const progress = await this.calculateCourseProgress(userId, courseId);
+      return progress?.overallProgress === 100;
+    } catch (error) {
+      console.error('Error checking course completion:', error);
+      return false;
+    }
+  }
+
+  // Update course progress and enrollment
+  static async updateCourseProgress(userId: string, courseId: string): Promise<void> {
+    try {
+      const progress = await this.calculateCourseProgress(userId, courseId);
+      if (!progress) return;
 
       // Update enrollment progress
       const enrollment = await EnrollmentService.getEnrollment(userId, courseId);
       if (enrollment) {
-        await EnrollmentService.updateProgress(enrollment.id, overallProgress);
+        await EnrollmentService.updateProgress(enrollment.id, progress.overallProgress);
       }
 
       console.log('Course progress updated:', {
         courseId,
-        modulesCompleted,
-        totalModules,
-        lessonsCompleted,
-        totalLessons,
-        overallProgress
+        modulesCompleted: progress.modulesCompleted,
+        totalModules: progress.totalModules,
+        lessonsCompleted: progress.lessonsCompleted,
+        totalLessons: progress.totalLessons,
+        overallProgress: progress.overallProgress
       });
 
     } catch (error) {
@@ -246,66 +408,49 @@ export class ProgressService {
   // Get user's progress for a specific course
   static async getCourseProgress(userId: string, courseId: string): Promise<CourseProgress | null> {
     try {
-      // Get course data
-      const courseDoc = await getDoc(doc(db, 'courses', courseId));
-      if (!courseDoc.exists()) return null;
-
-      const courseData = courseDoc.data();
-      const totalModules = courseData.modules?.length || 0;
-      const totalLessons = courseData.modules?.reduce((sum: number, module: any) => {
-        return sum + (module.lessons?.length || 0);
-      }, 0) || 0;
-
-      // Count completed modules
-      const moduleQuery = query(
-        collection(db, 'module_progress'),
-        where('userId', '==', userId),
-        where('courseId', '==', courseId),
-        where('completed', '==', true)
-      );
-      
-      const moduleSnapshot = await getDocs(moduleQuery);
-      const modulesCompleted = moduleSnapshot.size;
+      return await this.calculateCourseProgress(userId, courseId);
+    } catch (error) {
+      console.error('Error getting course progress:', error);
+      return null;
+    }
+  }
 
-      // Count completed lessons
-      const lessonQuery = query(
+  // Get all lesson progress for a course
+  static async getCourseLessonProgress(userId: string, courseId: string): Promise<LessonProgress[]> {
+    try {
+      const q = query(
         collection(db, 'lesson_progress'),
         where('userId', '==', userId),
-        where('courseId', '==', courseId),
-        where('completed', '==', true)
+        where('courseId', '==', courseId)
       );
       
-      const lessonSnapshot = await getDocs(lessonQuery);
-      const lessonsCompleted = lessonSnapshot.size;
+      const querySnapshot = await getDocs(q);
+      const progress: LessonProgress[] = [];
 
-      const overallProgress = totalLessons > 0 ? Math.round((lessonsCompleted / totalLessons) * 100) : 0;
+      querySnapshot.forEach(doc => {
+        progress.push({
+          id: doc.id,
+          ...doc.data()
+        } as LessonProgress);
+      });
 
-      return {
-        userId,
-        courseId,
-        modulesCompleted,
-        totalModules,
-        lessonsCompleted,
-        totalLessons,
-        overallProgress,
-        lastAccessedAt: serverTimestamp()
-      };
+      return progress;
 
     } catch (error) {
-      console.error('Error getting course progress:', error);
-      return null;
+      console.error('Error getting course lesson progress:', error);
+      return [];
     }
   }
 
-  // Get all lesson progress for a course
-  static async getCourseLessonProgress(userId: string, courseId: string): Promise<LessonProgress[]> {
+  // Get every lesson a student has completed, across all courses
+  static async getCompletedLessons(userId: string): Promise<LessonProgress[]> {
     try {
       const q = query(
         collection(db, 'lesson_progress'),
         where('userId', '==', userId),
-        where('courseId', '==', courseId)
+        where('completed', '==', true)
       );
-      
+
       const querySnapshot = await getDocs(q);
       const progress: LessonProgress[] = [];
 
@@ -319,7 +464,7 @@ export class ProgressService {
       return progress;
 
     } catch (error) {
-      console.error('Error getting course lesson progress:', error);
+      console.error('Error getting completed lessons:', error);
       return [];
     }
   }
@@ -0,0 +1,177 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import QuizService, { QuizQuestion } from './quizService';
+
+// Question bank interfaces
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface BankQuestion extends QuizQuestion {
+  courseId: string;
+  moduleId: string; // empty for questions that apply to the whole course
+  difficulty: Difficulty;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// A rule that draws `count` random questions matching a module/difficulty tag
+export interface QuestionDraw {
+  id: string;
+  moduleId?: string; // any module when unset
+  difficulty?: Difficulty; // any difficulty when unset
+  count: number;
+}
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export class QuestionBankService {
+
+  // Drop unset optional fields, which Firestore rejects
+  private static withoutUndefined<T extends object>(data: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(data).filter(([, value]) => value !== undefined)
+    ) as Partial<T>;
+  }
+
+  // Get all bank questions for a course
+  static async getCourseQuestions(courseId: string): Promise<BankQuestion[]> {
+    try {
+      const q = query(
+        collection(db, 'question_bank'),
+        where('courseId', '==', courseId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const questions: BankQuestion[] = [];
+
+      querySnapshot.forEach(doc => {
+        questions.push({
+          ...doc.data(),
+          id: doc.id
+        } as BankQuestion);
+      });
+
+      return questions;
+    } catch (error) {
+      console.error('Error fetching question bank:', error);
+      return [];
+    }
+  }
+
+  // Add a question to a course bank
+  static async addQuestion(
+    questionData: Omit<BankQuestion, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<{ success: boolean; message: string; questionId?: string }> {
+    try {
+      const questionRef = await addDoc(collection(db, 'question_bank'), {
+        ...this.withoutUndefined(questionData),
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+
+      return {
+        success: true,
+        message: 'Question added to bank',
+        questionId: questionRef.id
+      };
+    } catch (error) {
+      console.error('Error adding bank question:', error);
+      return {
+        success: false,
+        message: 'Failed to add question'
+      };
+    }
+  }
+
+  // Update a bank question
+  static async updateQuestion(
+    questionId: string,
+    updates: Partial<Omit<BankQuestion, 'id' | 'courseId' | 'createdAt' | 'updatedAt'>>
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      await updateDoc(doc(db, 'question_bank', questionId), {
+        ...this.withoutUndefined(updates),
+        updatedAt: serverTimestamp()
+      });
+
+      return {
+        success: true,
+        message: 'Question updated successfully'
+      };
+    } catch (error) {
+      console.error('Error updating bank question:', error);
+      return {
+        success: false,
+        message: 'Failed to update question'
+      };
+    }
+  }
+
+  // Delete a bank question
+  static async deleteQuestion(questionId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await deleteDoc(doc(db, 'question_bank', questionId));
+
+      return {
+        success: true,
+        message: 'Question deleted successfully'
+      };
+    } catch (error) {
+      console.error('Error deleting bank question:', error);
+      return {
+        success: false,
+        message: 'Failed to delete question'
+      };
+    }
+  }
+
+  // Return a copy of a question with its choice options shuffled
+  static shuffleOptions(question: QuizQuestion): QuizQuestion {
+    return {
+      ...question,
+      options: QuizService.shuffle(question.options)
+    };
+  }
+
+  // Draw random questions for each rule, never repeating a question
+  static drawQuestions(bank: BankQuestion[], draws: QuestionDraw[]): QuizQuestion[] {
+    const drawn: QuizQuestion[] = [];
+    const usedIds = new Set<string>();
+
+    draws.forEach(draw => {
+      const candidates = bank.filter(q =>
+        !usedIds.has(q.id) &&
+        (!draw.moduleId || q.moduleId === draw.moduleId) &&
+        (!draw.difficulty || q.difficulty === draw.difficulty)
+      );
+
+      QuizService.shuffle(candidates)
+        .slice(0, Math.max(0, draw.count))
+        .forEach(q => {
+          usedIds.add(q.id);
+          drawn.push(this.shuffleOptions(q));
+        });
+    });
+
+    return drawn;
+  }
+
+  // Build a quiz from its fixed questions plus random draws from the bank
+  static assembleQuiz(fixedQuestions: QuizQuestion[] = [], bank: BankQuestion[], draws: QuestionDraw[] = []): QuizQuestion[] {
+    const fixedIds = new Set(fixedQuestions.map(q => q.id));
+    const available = bank.filter(q => !fixedIds.has(q.id));
+    return [...fixedQuestions, ...this.drawQuestions(available, draws)];
+  }
+}
+
+export default QuestionBankService;
@@ -0,0 +1,590 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  increment,
+  query,
+  where,
+  orderBy,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import GradingService, { IntegritySignals } from './gradingService';
+import AchievementService from './achievementService';
+import GoalService from './goalService';
+
+// Quiz interfaces
+export type QuestionType =
+  | 'multiple-choice'
+  | 'true-false'
+  | 'multi-select'
+  | 'short-answer'
+  | 'ordering'
+  | 'matching';
+
+export interface QuizOption {
+  id: string;
+  text: string;
+  isCorrect: boolean;
+}
+
+export interface OrderingItem {
+  id: string;
+  text: string;
+}
+
+export interface MatchingPair {
+  id: string;
+  left: string; // e.g. threat
+  right: string; // e.g. mitigation
+}
+
+export interface QuizQuestion {
+  id: string;
+  type?: QuestionType; // unset on older questions; see getQuestionType
+  question: string;
+  options: QuizOption[]; // choice-based types only, empty otherwise
+  points?: number; // defaults to 1
+  topic?: string; // shown as a review topic when answered incorrectly
+  acceptedAnswers?: string[]; // short-answer: plain text or /regex/ patterns
+  items?: OrderingItem[]; // ordering: stored in the correct order
+  pairs?: MatchingPair[]; // matching: stored as correct left/right pairs
+}
+
+// Answers keyed by question ID. The array holds:
+// - selected option IDs for multiple-choice, true-false and multi-select
+// - the typed text as its only entry for short-answer
+// - item IDs in the student's order for ordering
+// - for matching, the pair ID chosen for each left side, by pair index
+export type QuizAnswers = { [questionId: string]: string[] };
+
+export interface QuestionResult {
+  questionId: string;
+  correct: boolean;
+  points: number;
+  maxPoints: number;
+}
+
+export interface QuizScore {
+  score: number;
+  maxScore: number;
+  percentage: number;
+  questionResults: QuestionResult[];
+  passed?: boolean; // only set when a passing score applies
+  topicsToReview?: string[];
+}
+
+// Exam mode settings; 0 or '' means no limit
+export interface ExamSettings {
+  enabled: boolean;
+  timeLimitMinutes: number;
+  maxAttempts: number;
+  cooldownMinutes: number; // wait between attempts
+  opensAt: string; // datetime-local value
+  closesAt: string;
+}
+
+export interface ExamSession {
+  id: string;
+  userId: string;
+  courseId: string;
+  quizId: string;
+  questionIds: string[]; // the questions drawn for this attempt, in order
+  startedAt: Timestamp; // server time, so the deadline doesn't depend on the student's clock
+  status: 'in-progress' | 'submitted';
+  integritySignals: IntegritySignals;
+}
+
+export interface ExamAvailability {
+  canStart: boolean;
+  reason?: string;
+  attemptsUsed: number;
+  nextAttemptAt?: Date;
+}
+
+export interface QuizResult extends QuizScore {
+  id: string;
+  userId: string;
+  courseId: string;
+  moduleId: string;
+  lessonId?: string;
+  quizId: string; // content block ID, or module ID for module tests
+  title: string;
+  isModuleTest?: boolean;
+  passingScore?: number;
+  answers: QuizAnswers;
+  isExam?: boolean;
+  examSessionId?: string;
+  integritySignals?: IntegritySignals;
+  timedOut?: boolean; // auto-submitted when the time limit ran out
+  gradeId?: string;
+  completedAt: Timestamp;
+}
+
+// Which attempt's score a retake leaves in the gradebook
+export type RetakePolicy = 'best' | 'latest';
+
+export const DEFAULT_PASSING_SCORE = 70;
+
+export const DEFAULT_RETAKE_POLICY: RetakePolicy = 'best';
+
+// Wait after a module test attempt before the next one, so answers can't be found by resubmitting
+export const MODULE_TEST_COOLDOWN_MINUTES = 30;
+
+export const EMPTY_INTEGRITY_SIGNALS: IntegritySignals = {
+  tabSwitches: 0,
+  windowBlurs: 0,
+  pasteEvents: 0
+};
+
+export class QuizService {
+
+  // Return a shuffled copy of a list (Fisher-Yates)
+  static shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+
+  // Get a question's type. Untyped (legacy) questions are multiple-choice, or multi-select
+  // when more than one option is marked correct.
+  static getQuestionType(question: QuizQuestion): QuestionType {
+    if (question.type) return question.type;
+    return (question.options || []).filter(o => o.isCorrect).length > 1 ? 'multi-select' : 'multiple-choice';
+  }
+
+  // Check a short answer against the accepted answers (plain text or /regex/)
+  static matchesShortAnswer(answer: string, acceptedAnswers: string[] = []): boolean {
+    const normalized = answer.trim().toLowerCase();
+    if (!normalized) return false;
+
+    return acceptedAnswers.some(accepted => {
+      const pattern = accepted.trim();
+      const regexMatch = pattern.match(/^\/(.+)\/([a-z]*)$/);
+      if (regexMatch) {
+        try {
+          const flags = regexMatch[2].includes('i') ? regexMatch[2] : `${regexMatch[2]}i`;
+          return new RegExp(regexMatch[1], flags).test(answer.trim());
+        } catch (error) {
+          console.error('Invalid accepted answer pattern:', pattern, error);
+          return false;
+        }
+      }
+      return pattern.toLowerCase() === normalized;
+    });
+  }
+
+  // Fraction (0-1) of a question answered correctly
+  static getQuestionCredit(question: QuizQuestion, answer: string[]): number {
+    switch (this.getQuestionType(question)) {
+      case 'multi-select': {
+        // Partial credit: each correct pick earns a share, each wrong pick cancels one
+        const correctIds = question.options.filter(o => o.isCorrect).map(o => o.id);
+        if (correctIds.length === 0) return 0;
+        const hits = answer.filter(id => correctIds.includes(id)).length;
+        const misses = answer.filter(id => !correctIds.includes(id)).length;
+        return Math.max(0, (hits - misses) / correctIds.length);
+      }
+      case 'short-answer':
+        return this.matchesShortAnswer(answer[0] || '', question.acceptedAnswers) ? 1 : 0;
+      case 'ordering': {
+        const items = question.items || [];
+        if (items.length === 0) return 0;
+        const inPlace = items.filter((item, index) => answer[index] === item.id).length;
+        return inPlace === items.length ? 1 : inPlace / items.length;
+      }
+      case 'matching': {
+        const pairs = question.pairs || [];
+        if (pairs.length === 0) return 0;
+        return pairs.filter((pair, index) => answer[index] === pair.id).length / pairs.length;
+      }
+      default: {
+        // multiple-choice and true-false: all correct options and nothing else
+        const correctIds = question.options.filter(o => o.isCorrect).map(o => o.id);
+        const correct = correctIds.length > 0 &&
+          correctIds.length === answer.length &&
+          correctIds.every(id => answer.includes(id));
+        return correct ? 1 : 0;
+      }
+    }
+  }
+
+  // Score a single question
+  static scoreQuestion(question: QuizQuestion, answer: string[] = []): QuestionResult {
+    const maxPoints = question.points && question.points > 0 ? question.points : 1;
+    const credit = this.getQuestionCredit(question, answer);
+    const points = Math.round(credit * maxPoints * 100) / 100;
+
+    return {
+      questionId: question.id,
+      correct: credit === 1,
+      points,
+      maxPoints
+    };
+  }
+
+  // Score a full quiz attempt
+  static scoreQuiz(questions: QuizQuestion[], answers: QuizAnswers, passingScore?: number): QuizScore {
+    const questionResults = questions.map(q => this.scoreQuestion(q, answers[q.id]));
+    const score = Math.round(questionResults.reduce((sum, r) => sum + r.points, 0) * 100) / 100;
+    const maxScore = questionResults.reduce((sum, r) => sum + r.maxPoints, 0);
+    const percentage = maxScore > 0 ? Math.round((score / maxScore) * 100) : 0;
+
+    if (passingScore === undefined) {
+      return { score, maxScore, percentage, questionResults };
+    }
+
+    // Collect the topics of missed questions so students know what to revisit
+    const topicsToReview: string[] = [];
+    questions.forEach(q => {
+      const result = questionResults.find(r => r.questionId === q.id);
+      const topic = q.topic?.trim() || q.question;
+      if (result && !result.correct && !topicsToReview.includes(topic)) {
+        topicsToReview.push(topic);
+      }
+    });
+
+    return {
+      score,
+      maxScore,
+      percentage,
+      questionResults,
+      passed: percentage >= passingScore,
+      topicsToReview
+    };
+  }
+
+  // Record an attempt's grade. Each quiz keeps one grade per student; a retake replaces it
+  // when the retake policy says so.
+  private static async recordAttemptGrade(
+    attempt: {
+      userId: string;
+      courseId: string;
+      quizId: string;
+      title: string;
+      retakePolicy?: RetakePolicy;
+      integritySignals?: IntegritySignals;
+    },
+    result: QuizScore,
+    isExam: boolean
+  ): Promise<{ success: boolean; message: string; gradeId?: string }> {
+    const grades = await GradingService.getStudentCourseGrades(attempt.userId, attempt.courseId);
+    const existing = grades.find(grade => grade.quizId === attempt.quizId);
+    const integritySignals = isExam ? { integritySignals: attempt.integritySignals || EMPTY_INTEGRITY_SIGNALS } : {};
+
+    if (!existing) {
+      const gradeResult = await GradingService.addGrade({
+        studentId: attempt.userId,
+        courseId: attempt.courseId,
+        quizId: attempt.quizId,
+        type: isExam ? 'exam' : 'quiz',
+        title: attempt.title,
+        points: result.score,
+        maxPoints: result.maxScore,
+        gradedBy: 'system',
+        isPublished: true,
+        ...integritySignals
+      });
+      return gradeResult;
+    }
+
+    const policy = attempt.retakePolicy || DEFAULT_RETAKE_POLICY;
+    if (policy === 'best' && result.percentage <= existing.percentage) {
+      return { success: true, message: 'Earlier attempt still counts', gradeId: existing.id };
+    }
+
+    // The student's retake changes a published grade, so the audit log records the student
+    const gradeResult = await GradingService.updateGrade(existing.id, {
+      points: result.score,
+      maxPoints: result.maxScore,
+      gradedBy: attempt.userId,
+      changeReason: policy === 'best' ? 'Retake: higher score' : 'Retake: latest attempt counts',
+      ...integritySignals
+    });
+    return { ...gradeResult, gradeId: existing.id };
+  }
+
+  // Score an attempt, store it in quizResults and record the grade
+  static async submitQuizAttempt(attempt: {
+    userId: string;
+    courseId: string;
+    moduleId: string;
+    lessonId?: string;
+    quizId: string;
+    title: string;
+    questions: QuizQuestion[];
+    answers: QuizAnswers;
+    isModuleTest?: boolean;
+    passingScore?: number;
+    retakePolicy?: RetakePolicy;
+    examSessionId?: string;
+    integritySignals?: IntegritySignals;
+    timedOut?: boolean;
+  }): Promise<{ success: boolean; message: string; result?: QuizScore; resultId?: string }> {
+    try {
+      const result = this.scoreQuiz(attempt.questions, attempt.answers, attempt.passingScore);
+      const isExam = !!attempt.examSessionId;
+      const { success, message, gradeId } = await this.recordAttemptGrade(attempt, result, isExam);
+      if (!success) {
+        return { success, message };
+      }
+
+      const quizResultData: Omit<QuizResult, 'id'> = {
+        userId: attempt.userId,
+        courseId: attempt.courseId,
+        moduleId: attempt.moduleId,
+        ...(attempt.lessonId ? { lessonId: attempt.lessonId } : {}),
+        quizId: attempt.quizId,
+        title: attempt.title,
+        answers: attempt.answers,
+        ...(attempt.isModuleTest ? { isModuleTest: true } : {}),
+        ...(attempt.passingScore !== undefined ? { passingScore: attempt.passingScore } : {}),
+        ...(isExam ? {
+          isExam: true,
+          examSessionId: attempt.examSessionId,
+          integritySignals: attempt.integritySignals || EMPTY_INTEGRITY_SIGNALS,
+          timedOut: !!attempt.timedOut
+        } : {}),
+        ...result,
+        ...(gradeId ? { gradeId } : {}),
+        completedAt: serverTimestamp() as Timestamp
+      };
+
+      const resultRef = await addDoc(collection(db, 'quizResults'), quizResultData);
+
+      if (attempt.examSessionId) {
+        await updateDoc(doc(db, 'exam_sessions', attempt.examSessionId), {
+          status: 'submitted',
+          integritySignals: attempt.integritySignals || EMPTY_INTEGRITY_SIGNALS
+        });
+      }
+
+      // Quiz and exam grades are published straight away
+      await AchievementService.evaluateAchievements(attempt.userId);
+      await GoalService.refreshGoals(attempt.userId);
+
+      return {
+        success: true,
+        message: 'Quiz submitted successfully',
+        result,
+        resultId: resultRef.id
+      };
+    } catch (error) {
+      console.error('Error submitting quiz attempt:', error);
+      return {
+        success: false,
+        message: 'Failed to submit quiz'
+      };
+    }
+  }
+
+  // Score and record a module general test attempt
+  static async submitModuleTest(attempt: {
+    userId: string;
+    courseId: string;
+    moduleId: string;
+    title: string;
+    questions: QuizQuestion[];
+    answers: QuizAnswers;
+    passingScore?: number;
+    retakePolicy?: RetakePolicy;
+    examSessionId?: string;
+    integritySignals?: IntegritySignals;
+    timedOut?: boolean;
+  }): Promise<{ success: boolean; message: string; result?: QuizScore; resultId?: string }> {
+    const response = await this.submitQuizAttempt({
+      ...attempt,
+      quizId: attempt.moduleId,
+      isModuleTest: true,
+      passingScore: attempt.passingScore ?? DEFAULT_PASSING_SCORE
+    });
+
+    if (response.success && response.result) {
+      response.message = response.result.passed
+        ? 'Module test passed'
+        : 'Module test not passed';
+    }
+
+    return response;
+  }
+
+  // Get a user's attempts for a quiz, newest first
+  static async getUserQuizResults(userId: string, quizId: string): Promise<QuizResult[]> {
+    try {
+      const q = query(
+        collection(db, 'quizResults'),
+        where('userId', '==', userId),
+        orderBy('completedAt', 'desc')
+      );
+
+      const querySnapshot = await getDocs(q);
+      const results: QuizResult[] = [];
+
+      querySnapshot.forEach(doc => {
+        const data = doc.data();
+        if (data.quizId === quizId) {
+          results.push({
+            id: doc.id,
+            ...data
+          } as QuizResult);
+        }
+      });
+
+      return results;
+    } catch (error) {
+      console.error('Error fetching quiz results:', error);
+      return [];
+    }
+  }
+
+  // Check the exam window, attempt limit and cooldown for a student
+  static getExamAvailability(settings: ExamSettings, attempts: QuizResult[], now: Date = new Date()): ExamAvailability {
+    const attemptsUsed = attempts.length;
+
+    if (settings.opensAt && now < new Date(settings.opensAt)) {
+      return { canStart: false, reason: `Opens ${new Date(settings.opensAt).toLocaleString()}`, attemptsUsed };
+    }
+    if (settings.closesAt && now >= new Date(settings.closesAt)) {
+      return { canStart: false, reason: 'This exam is closed', attemptsUsed };
+    }
+    if (settings.maxAttempts > 0 && attemptsUsed >= settings.maxAttempts) {
+      return { canStart: false, reason: 'No attempts remaining', attemptsUsed };
+    }
+
+    // Attempts are newest first
+    const lastCompletedAt = attempts[0]?.completedAt?.toDate?.();
+    if (settings.cooldownMinutes > 0 && lastCompletedAt) {
+      const nextAttemptAt = new Date(lastCompletedAt.getTime() + settings.cooldownMinutes * 60000);
+      if (now < nextAttemptAt) {
+        return {
+          canStart: false,
+          reason: `Next attempt available ${nextAttemptAt.toLocaleString()}`,
+          attemptsUsed,
+          nextAttemptAt
+        };
+      }
+    }
+
+    return { canStart: true, attemptsUsed };
+  }
+
+  // Correct answers are held back while a student could still use them on another attempt:
+  // until the last allowed attempt is used or the exam has closed
+  static canReviewAnswers(settings: ExamSettings, attempts: QuizResult[], now: Date = new Date()): boolean {
+    if (settings.maxAttempts > 0 && attempts.length >= settings.maxAttempts) return true;
+    return !!settings.closesAt && now >= new Date(settings.closesAt);
+  }
+
+  // Get when a student may take a module test again: the cooldown after their latest attempt
+  static getModuleTestRetakeAt(attempts: QuizResult[]): Date | null {
+    // Attempts are newest first
+    const lastCompletedAt = attempts[0]?.completedAt?.toDate?.();
+    return lastCompletedAt ? new Date(lastCompletedAt.getTime() + MODULE_TEST_COOLDOWN_MINUTES * 60000) : null;
+  }
+
+  // Get when a running exam must be submitted: the time limit or the close time, whichever is first
+  static getExamDeadline(settings: ExamSettings, session: ExamSession): Date | null {
+    const deadlines: number[] = [];
+    if (settings.timeLimitMinutes > 0) {
+      deadlines.push(session.startedAt.toDate().getTime() + settings.timeLimitMinutes * 60000);
+    }
+    if (settings.closesAt) {
+      deadlines.push(new Date(settings.closesAt).getTime());
+    }
+    return deadlines.length > 0 ? new Date(Math.min(...deadlines)) : null;
+  }
+
+  // Start a timed exam attempt with the questions drawn for it
+  static async startExamSession(
+    userId: string,
+    courseId: string,
+    quizId: string,
+    questionIds: string[]
+  ): Promise<{ success: boolean; message: string; session?: ExamSession }> {
+    try {
+      const sessionRef = await addDoc(collection(db, 'exam_sessions'), {
+        userId,
+        courseId,
+        quizId,
+        questionIds,
+        startedAt: serverTimestamp(),
+        status: 'in-progress',
+        integritySignals: EMPTY_INTEGRITY_SIGNALS
+      });
+
+      // Read back the server start time
+      const sessionDoc = await getDoc(sessionRef);
+
+      return {
+        success: true,
+        message: 'Exam started',
+        session: { id: sessionRef.id, ...sessionDoc.data({ serverTimestamps: 'estimate' }) } as ExamSession
+      };
+    } catch (error) {
+      console.error('Error starting exam session:', error);
+      return {
+        success: false,
+        message: 'Failed to start exam'
+      };
+    }
+  }
+
+  // Get a student's unfinished exam attempt, so a reload resumes the same timer
+  static async getActiveExamSession(userId: string, quizId: string): Promise<ExamSession | null> {
+    try {
+      const q = query(
+        collection(db, 'exam_sessions'),
+        where('userId', '==', userId),
+        where('quizId', '==', quizId),
+        where('status', '==', 'in-progress')
+      );
+
+      const querySnapshot = await getDocs(q);
+      if (querySnapshot.empty) return null;
+
+      const sessionDoc = querySnapshot.docs[0];
+      return {
+        id: sessionDoc.id,
+        ...sessionDoc.data()
+      } as ExamSession;
+    } catch (error) {
+      console.error('Error fetching exam session:', error);
+      return null;
+    }
+  }
+
+  // Measure how far the student's clock is behind the server (in ms) by stamping the running
+  // exam, so the countdown can follow the server's deadline
+  static async getClockOffset(sessionId: string): Promise<number> {
+    try {
+      const sessionRef = doc(db, 'exam_sessions', sessionId);
+      await updateDoc(sessionRef, { lastSeenAt: serverTimestamp() });
+      const sessionDoc = await getDoc(sessionRef);
+      const lastSeenAt: Timestamp | undefined = sessionDoc.data()?.lastSeenAt;
+      return lastSeenAt ? lastSeenAt.toMillis() - Date.now() : 0;
+    } catch (error) {
+      console.error('Error measuring clock offset:', error);
+      return 0;
+    }
+  }
+
+  // Count an integrity signal against a running exam
+  static async recordIntegritySignal(sessionId: string, signal: keyof IntegritySignals): Promise<void> {
+    try {
+      await updateDoc(doc(db, 'exam_sessions', sessionId), {
+        [`integritySignals.${signal}`]: increment(1)
+      });
+    } catch (error) {
+      console.error('Error recording integrity signal:', error);
+    }
+  }
+}
+
+export default QuizService;
@@ -0,0 +1,278 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import GradingService, { Grade } from './gradingService';
+import NotificationService from './notificationService';
+import LatePolicyService from './latePolicyService';
+
+// Regrade request interfaces
+export interface RegradeItem {
+  kind: 'question' | 'criterion';
+  id: string; // question ID or rubric criterion ID
+  label: string; // as the student saw it, e.g. "Question 3 (0/2)"
+}
+
+export interface RegradeRequest {
+  id: string;
+  gradeId: string;
+  studentId: string;
+  courseId: string;
+  gradeTitle: string;
+  gradeType: Grade['type'];
+  justification: string;
+  items: RegradeItem[]; // specific questions or criteria the student disputes
+  status: 'pending' | 'accepted' | 'rejected';
+  originalPoints: number;
+  awardedPoints: number; // originalPoints before any late penalty
+  maxPoints: number;
+  adjustedPoints?: number; // final points after an accepted request
+  instructorComment?: string;
+  resolvedBy?: string; // instructor ID
+  resolvedAt?: Timestamp;
+  createdAt: Timestamp;
+}
+
+export class RegradeService {
+
+  // Ask for a published grade to be looked at again; one open request per grade
+  static async submitRequest(
+    grade: Grade,
+    justification: string,
+    items: RegradeItem[]
+  ): Promise<{ success: boolean; message: string; requestId?: string }> {
+    try {
+      if (!grade.isPublished) {
+        return { success: false, message: 'Only published grades can be regraded' };
+      }
+      if (!justification.trim()) {
+        return { success: false, message: 'Please explain why this grade should be reviewed' };
+      }
+
+      const existing = await this.getGradeRequests(grade.id);
+      if (existing.some(r => r.status === 'pending')) {
+        return { success: false, message: 'A regrade request for this grade is already pending' };
+      }
+
+      const requestRef = await addDoc(collection(db, 'regrade_requests'), {
+        gradeId: grade.id,
+        studentId: grade.studentId,
+        courseId: grade.courseId,
+        gradeTitle: grade.title,
+        gradeType: grade.type,
+        justification: justification.trim(),
+        items,
+        status: 'pending',
+        originalPoints: grade.points,
+        awardedPoints: grade.latePenalty?.originalPoints ?? grade.points,
+        maxPoints: grade.maxPoints,
+        createdAt: serverTimestamp()
+      });
+
+      return {
+        success: true,
+        message: 'Regrade request sent to your instructor',
+        requestId: requestRef.id
+      };
+    } catch (error) {
+      console.error('Error submitting regrade request:', error);
+      return {
+        success: false,
+        message: 'Failed to submit regrade request'
+      };
+    }
+  }
+
+  // Get every request made about a grade, newest first
+  static async getGradeRequests(gradeId: string): Promise<RegradeRequest[]> {
+    try {
+      const q = query(
+        collection(db, 'regrade_requests'),
+        where('gradeId', '==', gradeId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const requests: RegradeRequest[] = [];
+
+      querySnapshot.forEach(doc => {
+        requests.push({
+          id: doc.id,
+          ...doc.data()
+        } as RegradeRequest);
+      });
+
+      return requests.sort((a, b) => (b.createdAt?.toMillis?.() || 0) - (a.createdAt?.toMillis?.() || 0));
+    } catch (error) {
+      console.error('Error fetching regrade requests:', error);
+      return [];
+    }
+  }
+
+  // Get a course's requests for the instructor queue, oldest first
+  static async getCourseRequests(courseId: string): Promise<RegradeRequest[]> {
+    try {
+      const q = query(
+        collection(db, 'regrade_requests'),
+        where('courseId', '==', courseId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const requests: RegradeRequest[] = [];
+
+      querySnapshot.forEach(doc => {
+        requests.push({
+          id: doc.id,
+          ...doc.data()
+        } as RegradeRequest);
+      });
+
+      return requests.sort((a, b) => (a.createdAt?.toMillis?.() || 0) - (b.createdAt?.toMillis?.() || 0));
+    } catch (error) {
+      console.error('Error fetching course regrade requests:', error);
+      return [];
+    }
+  }
+
+  // Accept a request and change the grade. adjustedPoints are before any late penalty,
+  // which is applied again at the same rate.
+  static async acceptRequest(
+    request: RegradeRequest,
+    adjustedPoints: number,
+    comment: string,
+    resolvedBy: string,
+    courseTitle: string
+  ): Promise<{ success: boolean; message: string; points?: number }> {
+    try {
+      if (request.status !== 'pending') {
+        return { success: false, message: 'This request has already been resolved' };
+      }
+      if (adjustedPoints < 0 || adjustedPoints > request.maxPoints) {
+        return { success: false, message: `Points must be between 0 and ${request.maxPoints}` };
+      }
+
+      const gradeDoc = await getDoc(doc(db, 'grades', request.gradeId));
+      if (!gradeDoc.exists()) {
+        return { success: false, message: 'Grade not found' };
+      }
+      const grade = { id: gradeDoc.id, ...gradeDoc.data() } as Grade;
+
+      const latePenalty = grade.latePenalty
+        ? LatePolicyService.applyPenalty(adjustedPoints, grade.maxPoints, {
+            isLate: true,
+            accepted: true,
+            daysLate: grade.latePenalty.daysLate,
+            penaltyPercentage: grade.latePenalty.percentage
+          })
+        : null;
+      const points = latePenalty ? adjustedPoints - latePenalty.pointsDeducted : adjustedPoints;
+
+      const gradeResult = await GradingService.updateGrade(grade.id, {
+        points,
+        maxPoints: grade.maxPoints,
+        feedback: grade.feedback,
+        gradedBy: resolvedBy,
+        latePenalty,
+        changeReason: `Regrade request accepted${comment.trim() ? `: ${comment.trim()}` : ''}`
+      });
+      if (!gradeResult.success) return gradeResult;
+
+      // Keep the assignment submission in step with its grade
+      if (grade.assignmentId) {
+        const submissionSnapshot = await getDocs(query(
+          collection(db, 'assignment_submissions'),
+          where('gradeId', '==', grade.id)
+        ));
+        await Promise.all(submissionSnapshot.docs.map(submissionDoc =>
+          updateDoc(submissionDoc.ref, {
+            grade: points,
+            ...(latePenalty ? { latePenalty } : {})
+          })
+        ));
+      }
+
+      await updateDoc(doc(db, 'regrade_requests', request.id), {
+        status: 'accepted',
+        adjustedPoints: points,
+        instructorComment: comment.trim(),
+        resolvedBy,
+        resolvedAt: serverTimestamp()
+      });
+
+      await NotificationService.createRegradeOutcomeNotification(
+        request.studentId,
+        request.gradeTitle,
+        courseTitle,
+        `accepted. Your grade is now ${points}/${request.maxPoints}`,
+        comment.trim(),
+        request.gradeId
+      );
+
+      return {
+        success: true,
+        message: 'Regrade accepted and grade updated',
+        points
+      };
+    } catch (error) {
+      console.error('Error accepting regrade request:', error);
+      return {
+        success: false,
+        message: 'Failed to accept regrade request'
+      };
+    }
+  }
+
+  // Reject a request; the grade stays as it is
+  static async rejectRequest(
+    request: RegradeRequest,
+    comment: string,
+    resolvedBy: string,
+    courseTitle: string
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      if (request.status !== 'pending') {
+        return { success: false, message: 'This request has already been resolved' };
+      }
+      if (!comment.trim()) {
+        return { success: false, message: 'Please explain why the request is rejected' };
+      }
+
+      await updateDoc(doc(db, 'regrade_requests', request.id), {
+        status: 'rejected',
+        instructorComment: comment.trim(),
+        resolvedBy,
+        resolvedAt: serverTimestamp()
+      });
+
+      await NotificationService.createRegradeOutcomeNotification(
+        request.studentId,
+        request.gradeTitle,
+        courseTitle,
+        'not accepted. Your grade is unchanged',
+        comment.trim(),
+        request.gradeId
+      );
+
+      return {
+        success: true,
+        message: 'Regrade request rejected'
+      };
+    } catch (error) {
+      console.error('Error rejecting regrade request:', error);
+      return {
+        success: false,
+        message: 'Failed to reject regrade request'
+      };
+    }
+  }
+}
+
+export default RegradeService;
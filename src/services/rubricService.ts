@@ -0,0 +1,211 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+
+// Rubric interfaces
+export interface RubricLevel {
+  id: string;
+  label: string; // e.g. Exemplary, Proficient, Developing
+  points: number;
+  descriptor: string; // what work at this level looks like
+}
+
+export interface RubricCriterion {
+  id: string;
+  title: string;
+  description: string;
+  levels: RubricLevel[];
+}
+
+export interface Rubric {
+  id: string;
+  title: string;
+  description: string;
+  criteria: RubricCriterion[];
+  createdBy: string; // instructor ID
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+// The level picked for one criterion, copied from the rubric so later rubric edits do not change past grades
+export interface CriterionAssessment {
+  criterionId: string;
+  criterionTitle: string;
+  levelId: string;
+  levelLabel: string;
+  descriptor: string;
+  points: number;
+  maxPoints: number;
+  comment: string;
+}
+
+export interface RubricAssessment {
+  rubricId: string;
+  rubricTitle: string;
+  criteria: CriterionAssessment[];
+}
+
+export class RubricService {
+
+  // Highest number of points a criterion can earn
+  static getCriterionMaxPoints(criterion: RubricCriterion): number {
+    return criterion.levels.reduce((max, level) => Math.max(max, level.points), 0);
+  }
+
+  // Highest number of points the whole rubric can earn
+  static getMaxPoints(rubric: Pick<Rubric, 'criteria'>): number {
+    return rubric.criteria.reduce((total, criterion) => total + this.getCriterionMaxPoints(criterion), 0);
+  }
+
+  // Total points of a completed assessment
+  static getAssessmentPoints(assessment: RubricAssessment): number {
+    return assessment.criteria.reduce((total, criterion) => total + criterion.points, 0);
+  }
+
+  // Build an assessment from the level chosen and comment written for each criterion
+  static buildAssessment(
+    rubric: Rubric,
+    selections: { [criterionId: string]: { levelId: string; comment: string } }
+  ): RubricAssessment | null {
+    const criteria: CriterionAssessment[] = [];
+
+    for (const criterion of rubric.criteria) {
+      const selection = selections[criterion.id];
+      const level = criterion.levels.find(l => l.id === selection?.levelId);
+      if (!level) return null;
+
+      criteria.push({
+        criterionId: criterion.id,
+        criterionTitle: criterion.title,
+        levelId: level.id,
+        levelLabel: level.label,
+        descriptor: level.descriptor,
+        points: level.points,
+        maxPoints: this.getCriterionMaxPoints(criterion),
+        comment: selection.comment || ''
+      });
+    }
+
+    return {
+      rubricId: rubric.id,
+      rubricTitle: rubric.title,
+      criteria
+    };
+  }
+
+  // Get the rubrics an instructor has created
+  static async getInstructorRubrics(instructorId: string): Promise<Rubric[]> {
+    try {
+      const q = query(
+        collection(db, 'rubrics'),
+        where('createdBy', '==', instructorId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const rubrics: Rubric[] = [];
+
+      querySnapshot.forEach(doc => {
+        rubrics.push({
+          id: doc.id,
+          ...doc.data()
+        } as Rubric);
+      });
+
+      return rubrics.sort((a, b) => a.title.localeCompare(b.title));
+    } catch (error) {
+      console.error('Error fetching rubrics:', error);
+      return [];
+    }
+  }
+
+  // Get a rubric by ID
+  static async getRubric(rubricId: string): Promise<Rubric | null> {
+    try {
+      const rubricDoc = await getDoc(doc(db, 'rubrics', rubricId));
+      return rubricDoc.exists() ? { id: rubricDoc.id, ...rubricDoc.data() } as Rubric : null;
+    } catch (error) {
+      console.error('Error fetching rubric:', error);
+      return null;
+    }
+  }
+
+  // Create a rubric
+  static async createRubric(
+    rubricData: Omit<Rubric, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<{ success: boolean; message: string; rubricId?: string }> {
+    try {
+      const rubricRef = await addDoc(collection(db, 'rubrics'), {
+        ...rubricData,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp()
+      });
+
+      return {
+        success: true,
+        message: 'Rubric created successfully',
+        rubricId: rubricRef.id
+      };
+    } catch (error) {
+      console.error('Error creating rubric:', error);
+      return {
+        success: false,
+        message: 'Failed to create rubric'
+      };
+    }
+  }
+
+  // Update a rubric
+  static async updateRubric(
+    rubricId: string,
+    updates: Partial<Pick<Rubric, 'title' | 'description' | 'criteria'>>
+  ): Promise<{ success: boolean; message: string }> {
+    try {
+      await updateDoc(doc(db, 'rubrics', rubricId), {
+        ...updates,
+        updatedAt: serverTimestamp()
+      });
+
+      return {
+        success: true,
+        message: 'Rubric updated successfully'
+      };
+    } catch (error) {
+      console.error('Error updating rubric:', error);
+      return {
+        success: false,
+        message: 'Failed to update rubric'
+      };
+    }
+  }
+
+  // Delete a rubric; grades already given keep their copied assessment
+  static async deleteRubric(rubricId: string): Promise<{ success: boolean; message: string }> {
+    try {
+      await deleteDoc(doc(db, 'rubrics', rubricId));
+
+      return {
+        success: true,
+        message: 'Rubric deleted successfully'
+      };
+    } catch (error) {
+      console.error('Error deleting rubric:', error);
+      return {
+        success: false,
+        message: 'Failed to delete rubric'
+      };
+    }
+  }
+}
+
+export default RubricService;
@@ -0,0 +1,227 @@
+import {
+  collection,
+  addDoc,
+  getDocs,
+  query,
+  where,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import ProgressService from './progressService';
+import { DEFAULT_PASSING_SCORE } from './quizService';
+
+// Branching scenario interfaces
+export type ScenarioOutcome = 'success' | 'partial' | 'failure';
+
+export interface ScenarioChoice {
+  id: string;
+  text: string;
+  nextNodeId: string; // node this choice leads to
+  isBest: boolean; // the choice an expert would make here; any other choice is a wrong turn
+  feedback: string; // shown after the scenario ends
+}
+
+// A decision point, or an ending when it has no choices
+export interface ScenarioNode {
+  id: string;
+  title: string;
+  situation: string;
+  choices: ScenarioChoice[];
+  outcome: ScenarioOutcome; // only used by endings
+  outcomeScore: number; // 0-100, only used by endings
+}
+
+export interface Scenario {
+  startNodeId: string;
+  nodes: ScenarioNode[];
+  passingScore?: number; // defaults to DEFAULT_PASSING_SCORE
+}
+
+export interface ScenarioStep {
+  nodeId: string;
+  choiceId: string;
+}
+
+export interface ScenarioScore {
+  percentage: number;
+  path: ScenarioStep[];
+  wrongTurns: ScenarioStep[];
+  endNodeId: string;
+  outcome: ScenarioOutcome;
+  passed: boolean;
+}
+
+export interface ScenarioResult extends ScenarioScore {
+  id: string;
+  userId: string;
+  courseId: string;
+  moduleId: string;
+  lessonId: string;
+  blockId: string;
+  completedAt: Timestamp;
+}
+
+export interface WrongTurnSummary {
+  nodeId: string;
+  choiceId: string;
+  count: number;
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// Share of the score earned by the ending reached; the rest comes from the decisions made
+export const SCENARIO_OUTCOME_WEIGHT = 50;
+
+export const SCENARIO_OUTCOME_LABELS: { [outcome in ScenarioOutcome]: string } = {
+  success: 'Contained',
+  partial: 'Partially contained',
+  failure: 'Incident escalated'
+};
+
+export class ScenarioService {
+
+  // Create a scenario with a start node and one ending
+  static createEmptyScenario(): Scenario {
+    const startNodeId = generateId();
+    const endNodeId = generateId();
+
+    return {
+      startNodeId,
+      nodes: [
+        {
+          id: startNodeId,
+          title: 'Start',
+          situation: '',
+          choices: [],
+          outcome: 'success',
+          outcomeScore: 100
+        },
+        {
+          id: endNodeId,
+          title: 'Ending',
+          situation: '',
+          choices: [],
+          outcome: 'success',
+          outcomeScore: 100
+        }
+      ]
+    };
+  }
+
+  static getNode(scenario: Scenario, nodeId: string): ScenarioNode | undefined {
+    return scenario.nodes.find(node => node.id === nodeId);
+  }
+
+  static isEnding(node: ScenarioNode): boolean {
+    return node.choices.length === 0;
+  }
+
+  // Score the path a student took through the scenario
+  static scoreScenario(scenario: Scenario, path: ScenarioStep[]): ScenarioScore {
+    const wrongTurns = path.filter(step =>
+      !this.getNode(scenario, step.nodeId)?.choices.find(choice => choice.id === step.choiceId)?.isBest
+    );
+
+    const lastStep = path[path.length - 1];
+    const endNodeId = lastStep
+      ? this.getNode(scenario, lastStep.nodeId)?.choices.find(choice => choice.id === lastStep.choiceId)?.nextNodeId || ''
+      : scenario.startNodeId;
+    const endNode = this.getNode(scenario, endNodeId);
+
+    const decisionCredit = path.length > 0 ? (path.length - wrongTurns.length) / path.length : 0;
+    const outcomeCredit = (endNode?.outcomeScore ?? 0) / 100;
+
+    const percentage = Math.round(
+      decisionCredit * (100 - SCENARIO_OUTCOME_WEIGHT) + outcomeCredit * SCENARIO_OUTCOME_WEIGHT
+    );
+
+    return {
+      percentage,
+      path,
+      wrongTurns,
+      endNodeId,
+      outcome: endNode?.outcome ?? 'failure',
+      passed: percentage >= (scenario.passingScore ?? DEFAULT_PASSING_SCORE)
+    };
+  }
+
+  // Score a playthrough, store it and feed the score into lesson progress
+  static async submitAttempt(attempt: {
+    userId: string;
+    courseId: string;
+    moduleId: string;
+    lessonId: string;
+    blockId: string;
+    scenario: Scenario;
+    path: ScenarioStep[];
+  }): Promise<{ success: boolean; message: string; result?: ScenarioScore }> {
+    try {
+      const result = this.scoreScenario(attempt.scenario, attempt.path);
+
+      const resultData: Omit<ScenarioResult, 'id'> = {
+        userId: attempt.userId,
+        courseId: attempt.courseId,
+        moduleId: attempt.moduleId,
+        lessonId: attempt.lessonId,
+        blockId: attempt.blockId,
+        ...result,
+        completedAt: serverTimestamp() as Timestamp
+      };
+
+      await addDoc(collection(db, 'scenario_results'), resultData);
+      await ProgressService.recordBlockScore(
+        attempt.userId,
+        attempt.courseId,
+        attempt.moduleId,
+        attempt.lessonId,
+        attempt.blockId,
+        result.percentage
+      );
+
+      return {
+        success: true,
+        message: result.passed ? 'Scenario passed' : 'Scenario not passed',
+        result
+      };
+    } catch (error) {
+      console.error('Error submitting scenario:', error);
+      return {
+        success: false,
+        message: 'Failed to submit scenario'
+      };
+    }
+  }
+
+  // Count how often each wrong choice of a scenario block was taken, most common first
+  static async getWrongTurnSummary(courseId: string, blockId: string): Promise<{ attempts: number; wrongTurns: WrongTurnSummary[] }> {
+    try {
+      const q = query(
+        collection(db, 'scenario_results'),
+        where('courseId', '==', courseId),
+        where('blockId', '==', blockId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const counts: { [key: string]: WrongTurnSummary } = {};
+
+      querySnapshot.forEach(doc => {
+        const result = doc.data() as ScenarioResult;
+        (result.wrongTurns || []).forEach(step => {
+          const key = `${step.nodeId}:${step.choiceId}`;
+          counts[key] = { ...step, count: (counts[key]?.count || 0) + 1 };
+        });
+      });
+
+      return {
+        attempts: querySnapshot.size,
+        wrongTurns: Object.values(counts).sort((a, b) => b.count - a.count)
+      };
+    } catch (error) {
+      console.error('Error fetching scenario results:', error);
+      return { attempts: 0, wrongTurns: [] };
+    }
+  }
+}
+
+export default ScenarioService;
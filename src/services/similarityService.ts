@@ -0,0 +1,165 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import AssignmentService, { Assignment } from './assignmentService';
+
+// Similarity interfaces
+export interface SimilarityDocument {
+  id: string; // submission ID
+  label: string;
+  source: 'same-assignment' | 'earlier-offering';
+  text: string;
+}
+
+export interface SimilarityPassage {
+  start: number; // character offsets into the checked text
+  end: number;
+  documentIds: string[]; // every document this passage also appears in
+}
+
+export interface SimilarityMatch {
+  documentId: string;
+  label: string;
+  source: SimilarityDocument['source'];
+  score: number; // percentage of the checked text's phrases found in this document
+}
+
+export interface SimilarityReport {
+  score: number; // highest single-document score
+  matches: SimilarityMatch[]; // most similar first
+  passages: SimilarityPassage[];
+}
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Overlap is counted in runs of this many consecutive words, so shared stock phrases do not count
+export const SHINGLE_SIZE = 5;
+
+// Assignment types that are checked for similarity
+export const SIMILARITY_CHECKED_TYPES: Assignment['type'][] = ['essay', 'project'];
+
+export class SimilarityService {
+
+  // Split text into lowercase words, remembering where each word sits in the original
+  private static tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    for (const match of text.matchAll(/[\p{L}\p{N}]+(?:'[\p{L}]+)?/gu)) {
+      const start = match.index || 0;
+      tokens.push({ word: match[0].toLowerCase(), start, end: start + match[0].length });
+    }
+    return tokens;
+  }
+
+  // Phrases of SHINGLE_SIZE consecutive words
+  private static getShingles(tokens: Token[]): string[] {
+    const shingles: string[] = [];
+    for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+      shingles.push(tokens.slice(i, i + SHINGLE_SIZE).map(t => t.word).join(' '));
+    }
+    return shingles;
+  }
+
+  // Compare a text against a corpus and mark the passages it shares with each document
+  static compare(text: string, corpus: SimilarityDocument[]): SimilarityReport {
+    const tokens = this.tokenize(text);
+    const shingles = this.getShingles(tokens);
+    if (shingles.length === 0) return { score: 0, matches: [], passages: [] };
+
+    const matches: SimilarityMatch[] = [];
+    const tokenSources: Set<string>[] = tokens.map(() => new Set<string>());
+
+    corpus.forEach(document => {
+      const documentShingles = new Set(this.getShingles(this.tokenize(document.text)));
+      let shared = 0;
+
+      shingles.forEach((shingle, i) => {
+        if (!documentShingles.has(shingle)) return;
+        shared++;
+        for (let t = i; t < i + SHINGLE_SIZE; t++) tokenSources[t].add(document.id);
+      });
+
+      if (shared > 0) {
+        matches.push({
+          documentId: document.id,
+          label: document.label,
+          source: document.source,
+          score: Math.round((shared / shingles.length) * 100)
+        });
+      }
+    });
+
+    // Merge runs of matched words into passages of the original text
+    const passages: SimilarityPassage[] = [];
+    tokens.forEach((token, i) => {
+      if (tokenSources[i].size === 0) return;
+      const previous = passages[passages.length - 1];
+      if (previous && i > 0 && tokenSources[i - 1].size > 0) {
+        previous.end = token.end;
+        tokenSources[i].forEach(id => {
+          if (!previous.documentIds.includes(id)) previous.documentIds.push(id);
+        });
+      } else {
+        passages.push({ start: token.start, end: token.end, documentIds: [...tokenSources[i]] });
+      }
+    });
+
+    matches.sort((a, b) => b.score - a.score);
+    return {
+      score: matches[0]?.score || 0,
+      matches,
+      passages
+    };
+  }
+
+  // Submissions to same-titled assignments in other courses created before this one
+  static async getEarlierOfferingDocuments(assignment: Assignment): Promise<SimilarityDocument[]> {
+    try {
+      const q = query(
+        collection(db, 'assignments'),
+        where('title', '==', assignment.title)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const earlierAssignments = querySnapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() } as Assignment))
+        .filter(a =>
+          a.courseId !== assignment.courseId &&
+          (a.createdAt?.toMillis?.() || 0) < (assignment.createdAt?.toMillis?.() || Date.now())
+        );
+
+      const documents = await Promise.all(earlierAssignments.map(async earlier => {
+        const [courseDoc, submissions] = await Promise.all([
+          getDoc(doc(db, 'courses', earlier.courseId)),
+          AssignmentService.getAssignmentSubmissions(earlier.id)
+        ]);
+        const courseTitle = courseDoc.data()?.title || 'Earlier offering';
+
+        return submissions
+          .filter(s => s.content?.trim())
+          .map((s): SimilarityDocument => ({
+            id: s.id,
+            label: `${courseTitle} (earlier offering)`,
+            source: 'earlier-offering',
+            text: s.content || ''
+          }));
+      }));
+
+      return documents.flat();
+    } catch (error) {
+      console.error('Error fetching earlier offering submissions:', error);
+      return [];
+    }
+  }
+}
+
+export default SimilarityService;
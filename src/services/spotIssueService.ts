@@ -0,0 +1,152 @@
+import {
+  collection,
+  addDoc,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import ProgressService from './progressService';
+import { DEFAULT_PASSING_SCORE } from './quizService';
+
+// Spot-the-issue exercise interfaces
+export type SpotIssueSourceType = 'log' | 'code' | 'config';
+
+// A suspicious or vulnerable line range, 1-based and inclusive
+export interface IssueRange {
+  id: string;
+  startLine: number;
+  endLine: number;
+  explanation: string;
+}
+
+export interface SpotIssueExercise {
+  sourceType: SpotIssueSourceType;
+  language: string; // e.g. php, nginx, auth.log; shown as a label only
+  source: string;
+  ranges: IssueRange[];
+  passingScore?: number; // defaults to DEFAULT_PASSING_SCORE
+}
+
+export interface SpotIssueScore {
+  percentage: number;
+  precision: number; // share of selected lines that fall inside an issue range
+  recall: number; // share of issue ranges with at least one selected line
+  found: string[]; // range IDs
+  missed: string[]; // range IDs
+  falsePositives: number[]; // selected line numbers outside every range
+  passed: boolean;
+}
+
+export interface SpotIssueResult extends SpotIssueScore {
+  id: string;
+  userId: string;
+  courseId: string;
+  moduleId: string;
+  lessonId: string;
+  blockId: string;
+  selectedLines: number[];
+  completedAt: Timestamp;
+}
+
+export const SPOT_ISSUE_SOURCE_LABELS: { [type in SpotIssueSourceType]: string } = {
+  log: 'Log excerpt',
+  code: 'Code snippet',
+  config: 'Config file'
+};
+
+export class SpotIssueService {
+
+  // Create an empty exercise for the course builder
+  static createEmptyExercise(): SpotIssueExercise {
+    return {
+      sourceType: 'log',
+      language: '',
+      source: '',
+      ranges: []
+    };
+  }
+
+  static isLineInRange(line: number, range: IssueRange): boolean {
+    return line >= range.startLine && line <= range.endLine;
+  }
+
+  // Score selected lines with precision and recall, combined as their harmonic mean (F1)
+  static scoreExercise(exercise: SpotIssueExercise, selectedLines: number[]): SpotIssueScore {
+    const found = exercise.ranges
+      .filter(range => selectedLines.some(line => this.isLineInRange(line, range)))
+      .map(range => range.id);
+    const missed = exercise.ranges
+      .filter(range => !found.includes(range.id))
+      .map(range => range.id);
+    const falsePositives = selectedLines.filter(line =>
+      !exercise.ranges.some(range => this.isLineInRange(line, range))
+    );
+
+    const precision = selectedLines.length > 0
+      ? (selectedLines.length - falsePositives.length) / selectedLines.length
+      : (exercise.ranges.length === 0 ? 1 : 0);
+    const recall = exercise.ranges.length > 0 ? found.length / exercise.ranges.length : 1;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    const percentage = Math.round(f1 * 100);
+
+    return {
+      percentage,
+      precision: Math.round(precision * 100),
+      recall: Math.round(recall * 100),
+      found,
+      missed,
+      falsePositives,
+      passed: percentage >= (exercise.passingScore ?? DEFAULT_PASSING_SCORE)
+    };
+  }
+
+  // Score an attempt, store it and feed the score into lesson progress
+  static async submitAttempt(attempt: {
+    userId: string;
+    courseId: string;
+    moduleId: string;
+    lessonId: string;
+    blockId: string;
+    exercise: SpotIssueExercise;
+    selectedLines: number[];
+  }): Promise<{ success: boolean; message: string; result?: SpotIssueScore }> {
+    try {
+      const result = this.scoreExercise(attempt.exercise, attempt.selectedLines);
+
+      const resultData: Omit<SpotIssueResult, 'id'> = {
+        userId: attempt.userId,
+        courseId: attempt.courseId,
+        moduleId: attempt.moduleId,
+        lessonId: attempt.lessonId,
+        blockId: attempt.blockId,
+        selectedLines: attempt.selectedLines,
+        ...result,
+        completedAt: serverTimestamp() as Timestamp
+      };
+
+      await addDoc(collection(db, 'spot_issue_results'), resultData);
+      await ProgressService.recordBlockScore(
+        attempt.userId,
+        attempt.courseId,
+        attempt.moduleId,
+        attempt.lessonId,
+        attempt.blockId,
+        result.percentage
+      );
+
+      return {
+        success: true,
+        message: result.passed ? 'Exercise passed' : 'Exercise not passed',
+        result
+      };
+    } catch (error) {
+      console.error('Error submitting spot-the-issue exercise:', error);
+      return {
+        success: false,
+        message: 'Failed to submit exercise'
+      };
+    }
+  }
+}
+
+export default SpotIssueService;
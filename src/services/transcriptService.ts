@@ -0,0 +1,387 @@
+import {
+  collection,
+  doc,
+  addDoc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  query,
+  where,
+  serverTimestamp,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { PdfDocument } from '../lib/pdf';
+import { generateVerificationCode, normalizeVerificationCode } from '../lib/verificationCode';
+import EnrollmentService from './enrollmentService';
+import GradingService from './gradingService';
+import GradingScaleService from './gradingScaleService';
+import NotificationService from './notificationService';
+
+// Transcript interfaces
+export interface TranscriptCourse {
+  courseId: string;
+  title: string;
+  credits: number;
+  completedAt: Timestamp | null;
+  term: string; // e.g. "2026 Term 2"
+  letterGrade: string;
+  percentage: number;
+  gpa: number;
+  countsTowardGPA: boolean;
+}
+
+export interface TranscriptTerm {
+  term: string;
+  courses: TranscriptCourse[];
+  credits: number;
+  gpa: number | null; // null when no course in the term counts toward GPA
+}
+
+export interface Transcript {
+  id: string; // the verification code
+  studentId: string;
+  studentName: string;
+  studentEmail: string;
+  terms: TranscriptTerm[];
+  totalCredits: number;
+  overallGPA: number;
+  issuedBy: string; // the admin who issued it
+  issuedAt: Timestamp | null;
+}
+
+// Students ask for a transcript and an admin issues it, so a student never writes their own record
+export interface TranscriptRequest {
+  id: string;
+  studentId: string;
+  studentName: string;
+  status: 'pending' | 'issued';
+  transcriptId?: string;
+  requestedAt: Timestamp;
+  issuedAt?: Timestamp;
+}
+
+export class TranscriptService {
+
+  // Academic terms run January–April, May–August and September–December
+  static getTerm(date: Date): string {
+    return `${date.getFullYear()} Term ${Math.floor(date.getMonth() / 4) + 1}`;
+  }
+
+  // Term GPA is the mean of its courses' GPA points, the same way the overall GPA is worked out
+  private static calculateTermGPA(courses: TranscriptCourse[]): number | null {
+    const counted = courses.filter(c => c.countsTowardGPA && c.letterGrade !== 'N/A');
+    if (counted.length === 0) return null;
+    return Math.round((counted.reduce((sum, c) => sum + c.gpa, 0) / counted.length) * 100) / 100;
+  }
+
+  // Put together a student's completed courses and GPAs; nothing is saved
+  static async buildTranscript(studentId: string): Promise<Omit<Transcript, 'id' | 'issuedBy' | 'issuedAt'> | null> {
+    try {
+      const [userDoc, enrollments, overallGPA] = await Promise.all([
+        getDoc(doc(db, 'users', studentId)),
+        EnrollmentService.getUserEnrollments(studentId),
+        GradingService.calculateOverallGPA(studentId)
+      ]);
+
+      const courses = await Promise.all(
+        enrollments
+          .filter(e => e.status === 'completed')
+          .map(async (enrollment): Promise<TranscriptCourse | null> => {
+            const [courseDoc, stats, scale] = await Promise.all([
+              getDoc(doc(db, 'courses', enrollment.courseId)),
+              GradingService.calculateCourseGradeStats(studentId, enrollment.courseId),
+              GradingScaleService.getCourseScale(enrollment.courseId)
+            ]);
+            if (!courseDoc.exists()) return null;
+
+            const completedAt: Timestamp | null = enrollment.completedAt || null;
+            return {
+              courseId: enrollment.courseId,
+              title: courseDoc.data().title || 'Untitled course',
+              credits: courseDoc.data().credits || 0,
+              completedAt,
+              term: completedAt?.toDate ? this.getTerm(completedAt.toDate()) : 'Undated',
+              letterGrade: stats.letterGrade,
+              percentage: stats.averagePercentage,
+              gpa: stats.gpa,
+              countsTowardGPA: scale.countsTowardGPA
+            };
+          })
+      );
+
+      // Group by term, oldest first
+      const byTerm: { [term: string]: TranscriptCourse[] } = {};
+      courses
+        .filter((c): c is TranscriptCourse => c !== null)
+        .sort((a, b) => (a.completedAt?.toMillis?.() || 0) - (b.completedAt?.toMillis?.() || 0))
+        .forEach(course => {
+          if (!byTerm[course.term]) byTerm[course.term] = [];
+          byTerm[course.term].push(course);
+        });
+
+      const terms: TranscriptTerm[] = Object.entries(byTerm).map(([term, termCourses]) => ({
+        term,
+        courses: termCourses,
+        credits: termCourses.reduce((sum, c) => sum + c.credits, 0),
+        gpa: this.calculateTermGPA(termCourses)
+      }));
+
+      return {
+        studentId,
+        studentName: userDoc.data()?.name || userDoc.data()?.email || 'Student',
+        studentEmail: userDoc.data()?.email || '',
+        terms,
+        totalCredits: terms.reduce((sum, t) => sum + t.credits, 0),
+        overallGPA
+      };
+    } catch (error) {
+      console.error('Error building transcript:', error);
+      return null;
+    }
+  }
+
+  // Ask an admin to issue a transcript
+  static async requestTranscript(studentId: string, studentName: string): Promise<{ success: boolean; message: string; request?: TranscriptRequest }> {
+    try {
+      const requests = await this.getStudentTranscriptRequests(studentId);
+      if (requests.some(r => r.status === 'pending')) {
+        return { success: false, message: 'You already have a transcript request waiting to be issued' };
+      }
+
+      const requestData = {
+        studentId,
+        studentName,
+        status: 'pending' as const,
+        requestedAt: serverTimestamp()
+      };
+      const requestRef = await addDoc(collection(db, 'transcript_requests'), requestData);
+
+      return {
+        success: true,
+        message: 'Transcript requested. You will be notified when it is issued.',
+        request: { ...requestData, id: requestRef.id, requestedAt: Timestamp.now() }
+      };
+    } catch (error) {
+      console.error('Error requesting transcript:', error);
+      return {
+        success: false,
+        message: 'Failed to request transcript'
+      };
+    }
+  }
+
+  // Get a student's transcript requests, newest first
+  static async getStudentTranscriptRequests(studentId: string): Promise<TranscriptRequest[]> {
+    try {
+      const q = query(
+        collection(db, 'transcript_requests'),
+        where('studentId', '==', studentId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const requests: TranscriptRequest[] = [];
+
+      querySnapshot.forEach(doc => {
+        requests.push({
+          id: doc.id,
+          ...doc.data()
+        } as TranscriptRequest);
+      });
+
+      return requests.sort((a, b) => (b.requestedAt?.toMillis?.() || 0) - (a.requestedAt?.toMillis?.() || 0));
+    } catch (error) {
+      console.error('Error fetching transcript requests:', error);
+      return [];
+    }
+  }
+
+  // Get the requests still waiting for an admin, oldest first
+  static async getPendingTranscriptRequests(): Promise<TranscriptRequest[]> {
+    try {
+      const q = query(
+        collection(db, 'transcript_requests'),
+        where('status', '==', 'pending')
+      );
+
+      const querySnapshot = await getDocs(q);
+      const requests: TranscriptRequest[] = [];
+
+      querySnapshot.forEach(doc => {
+        requests.push({
+          id: doc.id,
+          ...doc.data()
+        } as TranscriptRequest);
+      });
+
+      return requests.sort((a, b) => (a.requestedAt?.toMillis?.() || 0) - (b.requestedAt?.toMillis?.() || 0));
+    } catch (error) {
+      console.error('Error fetching pending transcript requests:', error);
+      return [];
+    }
+  }
+
+  // Issue a requested transcript from the student's records. Run by an admin; the record is
+  // stored under its verification code so it can be checked later.
+  static async issueTranscript(request: TranscriptRequest, issuedBy: string): Promise<{ success: boolean; message: string; transcript?: Transcript }> {
+    try {
+      const transcript = await this.buildTranscript(request.studentId);
+      if (!transcript) {
+        return { success: false, message: 'Failed to build transcript' };
+      }
+      if (transcript.terms.length === 0) {
+        return { success: false, message: `${request.studentName} has no completed courses to put on a transcript` };
+      }
+
+      const code = generateVerificationCode('TR');
+      await setDoc(doc(db, 'transcripts', code), {
+        ...transcript,
+        issuedBy,
+        issuedAt: serverTimestamp()
+      });
+
+      await updateDoc(doc(db, 'transcript_requests', request.id), {
+        status: 'issued',
+        transcriptId: code,
+        issuedAt: serverTimestamp()
+      });
+
+      await NotificationService.createTranscriptNotification(request.studentId, code);
+
+      return {
+        success: true,
+        message: 'Transcript issued',
+        transcript: { ...transcript, id: code, issuedBy, issuedAt: Timestamp.now() }
+      };
+    } catch (error) {
+      console.error('Error issuing transcript:', error);
+      return {
+        success: false,
+        message: 'Failed to issue transcript'
+      };
+    }
+  }
+
+  // Look up an issued transcript by its verification code
+  static async verifyTranscript(code: string): Promise<Transcript | null> {
+    try {
+      const normalized = normalizeVerificationCode(code);
+      if (!normalized) return null;
+
+      const transcriptDoc = await getDoc(doc(db, 'transcripts', normalized));
+      if (!transcriptDoc.exists()) return null;
+
+      return { id: transcriptDoc.id, ...transcriptDoc.data() } as Transcript;
+    } catch (error) {
+      console.error('Error verifying transcript:', error);
+      return null;
+    }
+  }
+
+  // Get the transcripts a student has been issued, newest first
+  static async getStudentTranscripts(studentId: string): Promise<Transcript[]> {
+    try {
+      const q = query(
+        collection(db, 'transcripts'),
+        where('studentId', '==', studentId)
+      );
+
+      const querySnapshot = await getDocs(q);
+      const transcripts: Transcript[] = [];
+
+      querySnapshot.forEach(doc => {
+        transcripts.push({
+          id: doc.id,
+          ...doc.data()
+        } as Transcript);
+      });
+
+      return transcripts.sort((a, b) => (b.issuedAt?.toMillis?.() || 0) - (a.issuedAt?.toMillis?.() || 0));
+    } catch (error) {
+      console.error('Error fetching transcripts:', error);
+      return [];
+    }
+  }
+
+  // Lay the transcript out as an A4 PDF
+  static createPdf(transcript: Transcript, verifyUrl: string): Blob {
+    const pdf = new PdfDocument(`Transcript - ${transcript.studentName}`);
+    const margin = 50;
+    const right = pdf.width - margin;
+    const columns = { course: margin, credits: 340, percentage: 400, letter: 460, gpa: right };
+    const grey: [number, number, number] = [0.4, 0.4, 0.4];
+    let y = 0;
+
+    const drawPageHeader = () => {
+      pdf.rect(0, 0, pdf.width, 70, { fill: [0.09, 0.64, 0.29] });
+      pdf.text('Inzozi Cybersafe', margin, 32, { size: 18, bold: true, color: [1, 1, 1] });
+      pdf.text('Academic Transcript', margin, 52, { size: 11, color: [1, 1, 1] });
+      pdf.text(`Verification code: ${transcript.id}`, right, 52, { size: 10, bold: true, color: [1, 1, 1], align: 'right' });
+      y = 100;
+    };
+
+    // Start a new page when the next block would run past the footer
+    const ensureSpace = (needed: number) => {
+      if (y + needed <= pdf.height - 80) return;
+      pdf.addPage();
+      drawPageHeader();
+    };
+
+    drawPageHeader();
+    pdf.text(transcript.studentName, margin, y, { size: 14, bold: true });
+    pdf.text(`Issued ${transcript.issuedAt?.toDate?.().toLocaleDateString() || new Date().toLocaleDateString()}`, right, y, { size: 10, color: grey, align: 'right' });
+    y += 16;
+    if (transcript.studentEmail) pdf.text(transcript.studentEmail, margin, y, { size: 10, color: grey });
+    y += 30;
+
+    transcript.terms.forEach(term => {
+      ensureSpace(70);
+      pdf.text(term.term, margin, y, { size: 12, bold: true });
+      y += 8;
+      pdf.line(margin, y, right, y, { lineWidth: 0.5, stroke: [0.7, 0.7, 0.7] });
+      y += 16;
+      pdf.text('Course', columns.course, y, { size: 9, bold: true, color: grey });
+      pdf.text('Credits', columns.credits, y, { size: 9, bold: true, color: grey, align: 'right' });
+      pdf.text('Score', columns.percentage, y, { size: 9, bold: true, color: grey, align: 'right' });
+      pdf.text('Grade', columns.letter, y, { size: 9, bold: true, color: grey, align: 'right' });
+      pdf.text('GPA Points', columns.gpa, y, { size: 9, bold: true, color: grey, align: 'right' });
+      y += 16;
+
+      term.courses.forEach(course => {
+        const titleLines = pdf.wrapText(course.title, columns.credits - columns.course - 40, 10);
+        ensureSpace(titleLines.length * 13 + 4);
+        titleLines.forEach((line, index) => pdf.text(line, columns.course, y + index * 13, { size: 10 }));
+        pdf.text(String(course.credits), columns.credits, y, { size: 10, align: 'right' });
+        pdf.text(`${course.percentage}%`, columns.percentage, y, { size: 10, align: 'right' });
+        pdf.text(course.letterGrade, columns.letter, y, { size: 10, bold: true, align: 'right' });
+        pdf.text(course.countsTowardGPA ? course.gpa.toFixed(2) : 'Not counted', columns.gpa, y, { size: 10, align: 'right' });
+        y += titleLines.length * 13 + 4;
+      });
+
+      y += 4;
+      pdf.text(
+        `Term credits: ${term.credits}    Term GPA: ${term.gpa === null ? 'N/A' : term.gpa.toFixed(2)}`,
+        right, y, { size: 10, bold: true, align: 'right' }
+      );
+      y += 30;
+    });
+
+    ensureSpace(60);
+    pdf.rect(margin, y, right - margin, 40, { fill: [0.94, 0.99, 0.96], stroke: [0.09, 0.64, 0.29], lineWidth: 0.75 });
+    pdf.text(`Total credits: ${transcript.totalCredits}`, margin + 14, y + 25, { size: 11, bold: true });
+    pdf.text(`Overall GPA: ${transcript.overallGPA.toFixed(2)}`, right - 14, y + 25, { size: 11, bold: true, align: 'right' });
+
+    // Footer on every page
+    for (let page = 0; page < pdf.pageCount; page++) {
+      pdf.onPage(page);
+      pdf.line(margin, pdf.height - 55, right, pdf.height - 55, { lineWidth: 0.5, stroke: [0.7, 0.7, 0.7] });
+      pdf.text(`Verify this transcript at ${verifyUrl} with code ${transcript.id}`, margin, pdf.height - 38, { size: 8, color: grey });
+      pdf.text(`Page ${page + 1} of ${pdf.pageCount}`, right, pdf.height - 38, { size: 8, color: grey, align: 'right' });
+    }
+
+    return pdf.toBlob();
+  }
+}
+
+export default TranscriptService;